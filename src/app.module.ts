@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
 import { getDatabaseConfig } from './config/database.config';
 import { TelemetryModule } from './modules/telemetry.module';
+import { MqttModule } from './modules/mqtt.module';
 import { HealthController } from './controllers/health.controller';
 
 @Module({
@@ -16,7 +18,9 @@ import { HealthController } from './controllers/health.controller';
       useFactory: (configService: ConfigService) =>
         getDatabaseConfig(configService),
     }),
+    ScheduleModule.forRoot(),
     TelemetryModule,
+    MqttModule,
   ],
   controllers: [HealthController],
   providers: [],
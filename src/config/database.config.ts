@@ -12,6 +12,9 @@ export const getDatabaseConfig = (
   password: configService.get<string>('DB_PASSWORD', 'fleet_secure_2024'),
   database: configService.get<string>('DB_NAME', 'energy_fleet'),
   entities: [__dirname + '/../**/*.entity{.ts,.js}'],
+  migrations: [__dirname + '/../migrations/*{.ts,.js}'],
+  // Apply pending migrations before the app starts serving
+  migrationsRun: configService.get<string>('DB_MIGRATIONS_RUN', 'false') === 'true',
   synchronize: false, // Always false in production - use migrations
   logging: configService.get<string>('NODE_ENV') === 'development',
   maxQueryExecutionTime: configService.get<number>(
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { AlertService } from '../services/alert.service';
+import {
+  AlertRuleDto,
+  CreateAlertRuleDto,
+  UpdateAlertRuleDto,
+} from '../dto/alert.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Alerts')
+@Controller('v1/alert-rules')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class AlertRuleController {
+  constructor(private readonly alertService: AlertService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List alert rules' })
+  @ApiResponse({ status: 200, type: [AlertRuleDto] })
+  async findAll(): Promise<AlertRuleDto[]> {
+    return this.alertService.findRules();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an alert rule' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: AlertRuleDto })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<AlertRuleDto> {
+    return this.alertService.findRule(id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create an alert rule',
+    description:
+      'Reading rules apply from the next ingested reading, and to current state within a minute',
+  })
+  @ApiResponse({ status: 201, type: AlertRuleDto })
+  @ApiResponse({ status: 400, description: 'Missing or unexpected threshold' })
+  @ApiResponse({ status: 409, description: 'Rule name already taken' })
+  async create(@Body() data: CreateAlertRuleDto): Promise<AlertRuleDto> {
+    return this.alertService.createRule(data);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update an alert rule' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: AlertRuleDto })
+  @ApiResponse({ status: 400, description: 'Threshold not valid for the kind' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  @ApiResponse({ status: 409, description: 'Rule name already taken' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() data: UpdateAlertRuleDto,
+  ): Promise<AlertRuleDto> {
+    return this.alertService.updateRule(id, data);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete an alert rule',
+    description: 'Deletes the alerts it raised too; disable it to keep them',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 204, description: 'Rule deleted' })
+  @ApiResponse({ status: 404, description: 'Rule not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.alertService.removeRule(id);
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { AlertWebhookService } from '../services/alert-webhook.service';
+import {
+  AlertDeliveryDto,
+  AlertWebhookDto,
+  CreateAlertWebhookDto,
+  CreatedAlertWebhookDto,
+  UpdateAlertWebhookDto,
+  WebhookTestResultDto,
+} from '../dto/alert-webhook.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Alerts')
+@Controller('v1/alert-webhooks')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class AlertWebhookController {
+  constructor(private readonly alertWebhookService: AlertWebhookService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List alert webhooks' })
+  @ApiResponse({ status: 200, type: [AlertWebhookDto] })
+  async findAll(): Promise<AlertWebhookDto[]> {
+    return this.alertWebhookService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an alert webhook' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: AlertWebhookDto })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<AlertWebhookDto> {
+    return this.alertWebhookService.findOne(id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Register an alert webhook',
+    description:
+      'Alert events are POSTed as JSON and signed with the secret in the X-Alert-Signature header (`t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`)',
+  })
+  @ApiResponse({ status: 201, type: CreatedAlertWebhookDto })
+  async create(
+    @Body() data: CreateAlertWebhookDto,
+  ): Promise<CreatedAlertWebhookDto> {
+    return this.alertWebhookService.create(data);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update an alert webhook' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: AlertWebhookDto })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() data: UpdateAlertWebhookDto,
+  ): Promise<AlertWebhookDto> {
+    return this.alertWebhookService.update(id, data);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an alert webhook and its deliveries' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 204, description: 'Webhook deleted' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.alertWebhookService.remove(id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({
+    summary: 'List recent deliveries to a webhook',
+    description: 'The last 50, newest first',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: [AlertDeliveryDto] })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  async findDeliveries(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<AlertDeliveryDto[]> {
+    return this.alertWebhookService.findDeliveries(id);
+  }
+
+  @Post(':id/test')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Send a signed ping to a webhook',
+    description: 'Sent immediately and not retried',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: WebhookTestResultDto })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  async test(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<WebhookTestResultDto> {
+    return this.alertWebhookService.test(id);
+  }
+}
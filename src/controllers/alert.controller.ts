@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { AlertService } from '../services/alert.service';
+import {
+  AcknowledgeAlertDto,
+  AlertDto,
+  AlertPageDto,
+  AlertQueryDto,
+} from '../dto/alert.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Alerts')
+@Controller('v1/alerts')
+@RequireScope(ApiKeyScope.READ, { allTenants: true })
+@UsePipes(new ValidationPipe({ transform: true }))
+export class AlertController {
+  constructor(private readonly alertService: AlertService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List alerts',
+    description: 'Most recently opened first, paginated with `cursor`',
+  })
+  @ApiResponse({ status: 200, type: AlertPageDto })
+  @ApiResponse({ status: 400, description: 'Invalid cursor' })
+  async findAll(@Query() query: AlertQueryDto): Promise<AlertPageDto> {
+    return this.alertService.findAlerts(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an alert' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: AlertDto })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<AlertDto> {
+    return this.alertService.findAlert(id);
+  }
+
+  @Post(':id/acknowledge')
+  @RequireScope(ApiKeyScope.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Acknowledge an alert',
+    description:
+      'Marks an open alert as being handled; it still resolves by itself when the condition clears',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: AlertDto })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  @ApiResponse({ status: 409, description: 'Alert already resolved' })
+  async acknowledge(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() data: AcknowledgeAlertDto,
+  ): Promise<AlertDto> {
+    return this.alertService.acknowledge(id, data.by);
+  }
+
+  @Post(':id/resolve')
+  @RequireScope(ApiKeyScope.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Resolve an alert',
+    description:
+      'If the condition still holds, the next reading reopens the alert within the rule cooldown or raises a new one',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: AlertDto })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  @ApiResponse({ status: 409, description: 'Alert already resolved' })
+  async resolve(@Param('id', ParseUUIDPipe) id: string): Promise<AlertDto> {
+    return this.alertService.resolve(id);
+  }
+}
@@ -6,59 +6,212 @@ import {
   UsePipes,
   ValidationPipe,
   Logger,
+  ParseEnumPipe,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiExtraModels,
+  getSchemaPath,
+} from '@nestjs/swagger';
 import { AnalyticsService } from '../services/analytics.service';
-import { PerformanceAnalyticsDto } from '../dto/performance-analytics.dto';
+import {
+  PerformanceAnalyticsDto,
+  PerformanceTimeSeriesDto,
+} from '../dto/performance-analytics.dto';
+import { PerformanceQueryDto } from '../dto/performance-query.dto';
+import { GapDetectionService } from '../services/gap-detection.service';
+import {
+  CompletenessQueryDto,
+  DataCompletenessDto,
+} from '../dto/data-completeness.dto';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { FleetReportDto, FleetReportQueryDto } from '../dto/fleet-report.dto';
+import {
+  ChargerLeaderboardDto,
+  ChargerLeaderboardQueryDto,
+  FleetSummaryDto,
+  FleetWindowQueryDto,
+  VehicleLeaderboardDto,
+  VehicleLeaderboardQueryDto,
+} from '../dto/fleet-analytics.dto';
+import {
+  SiteEnergyListDto,
+  SiteEnergyReportDto,
+} from '../dto/site-analytics.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
 
 @ApiTags('Analytics')
 @Controller('v1/analytics')
+@RequireScope(ApiKeyScope.READ, { allTenants: true })
 @UsePipes(new ValidationPipe({ transform: true }))
+@ApiExtraModels(PerformanceAnalyticsDto, PerformanceTimeSeriesDto)
 export class AnalyticsController {
   private readonly logger = new Logger(AnalyticsController.name);
 
-  constructor(private readonly analyticsService: AnalyticsService) {}
+  constructor(
+    private readonly analyticsService: AnalyticsService,
+    private readonly gapDetectionService: GapDetectionService,
+  ) {}
 
   @Get('performance/:vehicleId')
+  @RequireScope(ApiKeyScope.READ, {
+    device: { param: 'vehicleId', type: DeviceType.VEHICLE },
+  })
   @ApiOperation({
-    summary: 'Get 24-hour performance analytics for a vehicle',
+    summary: 'Get performance analytics for a vehicle',
     description:
-      'Returns energy consumption, efficiency ratio, and battery metrics for the last 24 hours',
+      'Returns energy consumption, efficiency ratio, and battery metrics for the requested window (default: last 24 hours). AC consumption is taken only from the meters the vehicle was assigned to while it was attached. Health status follows the vehicle\'s health policy version in effect at the end of the window, echoed as `healthPolicy`. With `bucket`, returns a time series instead of a single summary.',
   })
   @ApiParam({
     name: 'vehicleId',
     description: 'Unique vehicle identifier',
     example: 'VEHICLE_001',
   })
-  @ApiQuery({
-    name: 'meterId',
-    description: 'Optional meter ID to correlate specific meter data',
-    required: false,
-    example: 'METER_001',
-  })
   @ApiResponse({
     status: 200,
     description: 'Performance analytics retrieved successfully',
-    type: PerformanceAnalyticsDto,
+    schema: {
+      oneOf: [
+        { $ref: getSchemaPath(PerformanceAnalyticsDto) },
+        { $ref: getSchemaPath(PerformanceTimeSeriesDto) },
+      ],
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid window or bucket' })
+  @ApiResponse({
+    status: 404,
+    description: 'Vehicle not found, no data available or unknown health policy',
   })
-  @ApiResponse({ status: 404, description: 'Vehicle not found or no data available' })
   async getPerformance(
     @Param('vehicleId') vehicleId: string,
-    @Query('meterId') meterId?: string,
-  ): Promise<PerformanceAnalyticsDto> {
-    this.logger.log(`Fetching 24h performance for vehicle ${vehicleId}`);
+    @Query() query: PerformanceQueryDto,
+  ): Promise<PerformanceAnalyticsDto | PerformanceTimeSeriesDto> {
+    const window = this.analyticsService.resolveWindow(query.from, query.to);
+    this.logger.log(
+      `Fetching performance for vehicle ${vehicleId} from ${window.from.toISOString()} to ${window.to.toISOString()}${query.bucket ? ` in ${query.bucket} buckets` : ''}`,
+    );
 
-    if (meterId) {
-      return this.analyticsService.getVehiclePerformanceWithMeter(
+    if (query.bucket) {
+      return this.analyticsService.getVehiclePerformanceSeries(
         vehicleId,
-        meterId,
+        window,
+        query.bucket,
       );
     }
 
-    return this.analyticsService.getVehiclePerformance24h(vehicleId);
+    return this.analyticsService.getVehiclePerformance(vehicleId, window, {
+      profile: query.healthProfile,
+      version: query.healthPolicyVersion,
+    });
+  }
+
+  @Get('fleet/report')
+  @ApiOperation({
+    summary: 'Get a multi-day fleet report',
+    description:
+      'Fleet-wide AC consumption, DC delivery, efficiency and reading counts per UTC day (default: the last 30 days). Days covered by the daily rollups are read from them; only newer days are aggregated from raw history.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Fleet report',
+    type: FleetReportDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or too long period' })
+  async getFleetReport(
+    @Query() query: FleetReportQueryDto,
+  ): Promise<FleetReportDto> {
+    this.logger.log(
+      `Fetching fleet report${query.from ? ` from ${query.from}` : ''}${query.to ? ` to ${query.to}` : ''}`,
+    );
+    return this.analyticsService.getFleetReport(query.from, query.to);
+  }
+
+  @Get('fleet/summary')
+  @ApiOperation({
+    summary: 'Get fleet-wide totals for a window',
+    description:
+      'Total AC consumption and DC delivery, fleet efficiency, battery temperatures and the number of vehicles per health status (default: last 24 hours, at most 31 days).',
+  })
+  @ApiResponse({ status: 200, type: FleetSummaryDto })
+  @ApiResponse({ status: 400, description: 'Invalid or too long window' })
+  async getFleetSummary(
+    @Query() query: FleetWindowQueryDto,
+  ): Promise<FleetSummaryDto> {
+    const window = this.analyticsService.resolveWindow(query.from, query.to);
+    return this.analyticsService.getFleetSummary(window);
+  }
+
+  @Get('fleet/vehicles')
+  @ApiOperation({
+    summary: 'Rank vehicles over a window',
+    description:
+      'Per-vehicle energy, efficiency and battery temperature, sorted by `sort` (least efficient first by default; `sort=maxBatteryTemp` lists the hottest batteries). Follow `nextCursor` for further pages.',
+  })
+  @ApiResponse({ status: 200, type: VehicleLeaderboardDto })
+  @ApiResponse({ status: 400, description: 'Invalid window, sort or cursor' })
+  async getVehicleLeaderboard(
+    @Query() query: VehicleLeaderboardQueryDto,
+  ): Promise<VehicleLeaderboardDto> {
+    const window = this.analyticsService.resolveWindow(query.from, query.to);
+    return this.analyticsService.getVehicleLeaderboard(window, query);
+  }
+
+  @Get('fleet/chargers')
+  @ApiOperation({
+    summary: 'Rank chargers over a window',
+    description:
+      'Per-meter AC consumption, DC delivered to its assigned vehicles and efficiency, sorted by `sort` (least efficient first by default). Follow `nextCursor` for further pages.',
+  })
+  @ApiResponse({ status: 200, type: ChargerLeaderboardDto })
+  @ApiResponse({ status: 400, description: 'Invalid window, sort or cursor' })
+  async getChargerLeaderboard(
+    @Query() query: ChargerLeaderboardQueryDto,
+  ): Promise<ChargerLeaderboardDto> {
+    const window = this.analyticsService.resolveWindow(query.from, query.to);
+    return this.analyticsService.getChargerLeaderboard(window, query);
+  }
+
+  @Get('sites')
+  @ApiOperation({
+    summary: 'Get energy totals for every site',
+    description:
+      'Per site, including its sub-sites: AC consumed by its meters, DC delivered through them, efficiency, peak 15-minute demand and the vehicles based there (default: last 24 hours, at most 31 days).',
+  })
+  @ApiResponse({ status: 200, type: SiteEnergyListDto })
+  @ApiResponse({ status: 400, description: 'Invalid or too long window' })
+  async getSiteSummaries(
+    @Query() query: FleetWindowQueryDto,
+  ): Promise<SiteEnergyListDto> {
+    const window = this.analyticsService.resolveWindow(query.from, query.to);
+    return this.analyticsService.getSiteSummaries(window);
+  }
+
+  @Get('sites/:siteId')
+  @ApiOperation({
+    summary: 'Get energy totals for a site',
+    description:
+      'The site totals as in the site list, broken down by direct sub-site (default: last 24 hours, at most 31 days).',
+  })
+  @ApiParam({ name: 'siteId', example: 'depot-north' })
+  @ApiResponse({ status: 200, type: SiteEnergyReportDto })
+  @ApiResponse({ status: 400, description: 'Invalid or too long window' })
+  @ApiResponse({ status: 404, description: 'Site not found' })
+  async getSiteReport(
+    @Param('siteId') siteId: string,
+    @Query() query: FleetWindowQueryDto,
+  ): Promise<SiteEnergyReportDto> {
+    const window = this.analyticsService.resolveWindow(query.from, query.to);
+    return this.analyticsService.getSiteReport(siteId, window);
   }
 
   @Get('performance/:vehicleId/explain')
+  @RequireScope(ApiKeyScope.READ, {
+    device: { param: 'vehicleId', type: DeviceType.VEHICLE },
+  })
   @ApiOperation({
     summary: 'Get query execution plan for performance analytics',
     description:
@@ -73,8 +226,48 @@ export class AnalyticsController {
     status: 200,
     description: 'Query execution plan',
   })
-  async explainQueryPlan(@Param('vehicleId') vehicleId: string): Promise<any> {
+  async explainQueryPlan(
+    @Param('vehicleId') vehicleId: string,
+    @Query() query: PerformanceQueryDto,
+  ): Promise<any> {
     this.logger.log(`Explaining query plan for vehicle ${vehicleId}`);
-    return this.analyticsService.explainQueryPlan(vehicleId);
+    const window = this.analyticsService.resolveWindow(query.from, query.to);
+    return this.analyticsService.explainQueryPlan(vehicleId, window);
+  }
+
+  @Get('completeness/:deviceType/:deviceId')
+  @RequireScope(ApiKeyScope.READ, {
+    device: { param: 'deviceId', typeParam: 'deviceType' },
+  })
+  @ApiOperation({
+    summary: 'Get data completeness for a device',
+    description:
+      'Returns, per UTC day, how many readings arrived against how many were expected at EXPECTED_REPORT_INTERVAL_SECONDS, plus the gaps recorded by the gap detection job (default: the last 7 days).',
+  })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({
+    name: 'deviceId',
+    description: 'Meter or vehicle identifier',
+    example: 'VEHICLE_001',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Completeness report',
+    type: DataCompletenessDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or too long period' })
+  @ApiResponse({ status: 404, description: 'Device has never reported' })
+  async getCompleteness(
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+    @Query() query: CompletenessQueryDto,
+  ): Promise<DataCompletenessDto> {
+    this.logger.log(`Fetching data completeness for ${deviceType} ${deviceId}`);
+    return this.gapDetectionService.getCompleteness(
+      deviceType,
+      deviceId,
+      query.from,
+      query.to,
+    );
   }
 }
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { ApiKeyService } from '../services/api-key.service';
+import {
+  ApiKeyDto,
+  ApiKeyQueryDto,
+  CreateApiKeyDto,
+  CreatedApiKeyDto,
+} from '../dto/api-key.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Admin')
+@Controller('v1/admin/api-keys')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class ApiKeyController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List API keys',
+    description: 'Newest first; keys themselves are never shown again',
+  })
+  @ApiResponse({ status: 200, type: [ApiKeyDto] })
+  async findAll(@Query() query: ApiKeyQueryDto): Promise<ApiKeyDto[]> {
+    return this.apiKeyService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an API key' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: ApiKeyDto })
+  @ApiResponse({ status: 404, description: 'Key not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<ApiKeyDto> {
+    return this.apiKeyService.findOne(id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Issue an API key',
+    description:
+      'The response is the only time the key is returned; only its hash is stored',
+  })
+  @ApiResponse({ status: 201, type: CreatedApiKeyDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Admin scope on a tenant key, or expiry in the past',
+  })
+  @ApiResponse({ status: 404, description: 'Tenant not found' })
+  async create(@Body() data: CreateApiKeyDto): Promise<CreatedApiKeyDto> {
+    return this.apiKeyService.create(data);
+  }
+
+  @Post(':id/revoke')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke an API key',
+    description:
+      'Takes effect at once on this instance and within AUTH_CACHE_SECONDS on others',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: ApiKeyDto })
+  @ApiResponse({ status: 404, description: 'Key not found' })
+  async revoke(@Param('id', ParseUUIDPipe) id: string): Promise<ApiKeyDto> {
+    return this.apiKeyService.revoke(id);
+  }
+}
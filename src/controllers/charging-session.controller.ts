@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { ChargingSessionService } from '../services/charging-session.service';
+import {
+  ChargingSessionDto,
+  ChargingSessionPageDto,
+  ChargingSessionQueryDto,
+  RebuildSessionsDto,
+  RebuildSessionsResultDto,
+  VehicleSessionQueryDto,
+} from '../dto/charging-session.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+@ApiTags('Charging Sessions')
+@Controller('v1/sessions')
+@RequireScope(ApiKeyScope.READ, { allTenants: true })
+@UsePipes(new ValidationPipe({ transform: true }))
+export class ChargingSessionController {
+  constructor(
+    private readonly chargingSessionService: ChargingSessionService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List charging sessions',
+    description:
+      'Most recently started first, paginated with `cursor`. Sessions appear within about a minute of their readings.',
+  })
+  @ApiResponse({ status: 200, type: ChargingSessionPageDto })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  async findAll(
+    @Query() query: ChargingSessionQueryDto,
+  ): Promise<ChargingSessionPageDto> {
+    return this.chargingSessionService.findAll(query);
+  }
+
+  @Get('vehicles/:vehicleId')
+  @RequireScope(ApiKeyScope.READ, {
+    device: { param: 'vehicleId', type: DeviceType.VEHICLE },
+  })
+  @ApiOperation({
+    summary: 'List the charging sessions of a vehicle',
+    description: 'Most recently started first, paginated with `cursor`',
+  })
+  @ApiParam({ name: 'vehicleId', description: 'Vehicle identifier' })
+  @ApiResponse({ status: 200, type: ChargingSessionPageDto })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  async findForVehicle(
+    @Param('vehicleId') vehicleId: string,
+    @Query() query: VehicleSessionQueryDto,
+  ): Promise<ChargingSessionPageDto> {
+    return this.chargingSessionService.findAll({ ...query, vehicleId });
+  }
+
+  @Post('rebuild')
+  @RequireScope(ApiKeyScope.ADMIN)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Re-segment charging sessions from a point in time',
+    description:
+      'Queues vehicles for the session builder, e.g. to build sessions for older history or after an assignment was corrected',
+  })
+  @ApiResponse({ status: 202, type: RebuildSessionsResultDto })
+  @ApiResponse({
+    status: 400,
+    description: '`from` in the future or more than 31 days back',
+  })
+  async rebuild(
+    @Body() data: RebuildSessionsDto,
+  ): Promise<RebuildSessionsResultDto> {
+    return this.chargingSessionService.rebuild(data);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a charging session' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: ChargingSessionDto })
+  @ApiResponse({ status: 404, description: 'Charging session not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ChargingSessionDto> {
+    return this.chargingSessionService.findOne(id);
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseEnumPipe,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { DeviceRegistryService } from '../services/device-registry.service';
+import { IngestionService } from '../services/ingestion.service';
+import {
+  CreateDeviceDto,
+  DeviceDto,
+  DevicePageDto,
+  DeviceQueryDto,
+  QuarantinePageDto,
+  QuarantineQueryDto,
+  QuarantineReleaseDto,
+  UpdateDeviceDto,
+} from '../dto/device.dto';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Devices')
+@Controller('v1/devices')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class DeviceController {
+  constructor(
+    private readonly deviceRegistryService: DeviceRegistryService,
+    private readonly ingestionService: IngestionService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List registered devices',
+    description: 'Ordered by type and ID, paginated with `cursor`',
+  })
+  @ApiResponse({ status: 200, type: DevicePageDto })
+  @ApiResponse({ status: 400, description: 'Invalid cursor' })
+  async findAll(@Query() query: DeviceQueryDto): Promise<DevicePageDto> {
+    return this.deviceRegistryService.findAll(query);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Register a device',
+    description:
+      'Readings quarantined before registration stay quarantined until released',
+  })
+  @ApiResponse({ status: 201, type: DeviceDto })
+  @ApiResponse({ status: 400, description: 'Invalid device or unknown site' })
+  @ApiResponse({ status: 409, description: 'Device already registered' })
+  async create(@Body() data: CreateDeviceDto): Promise<DeviceDto> {
+    return this.deviceRegistryService.create(data);
+  }
+
+  @Get('quarantine')
+  @ApiOperation({
+    summary: 'List quarantined readings',
+    description:
+      'Readings of unregistered devices held under the quarantine policy, newest first',
+  })
+  @ApiResponse({ status: 200, type: QuarantinePageDto })
+  @ApiResponse({ status: 400, description: 'Invalid cursor' })
+  async findQuarantined(
+    @Query() query: QuarantineQueryDto,
+  ): Promise<QuarantinePageDto> {
+    return this.deviceRegistryService.findQuarantined(query);
+  }
+
+  @Get(':deviceType/:deviceId')
+  @ApiOperation({ summary: 'Get a registered device' })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({ name: 'deviceId', description: 'Meter or vehicle identifier' })
+  @ApiResponse({ status: 200, type: DeviceDto })
+  @ApiResponse({ status: 404, description: 'Device not registered' })
+  async findOne(
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+  ): Promise<DeviceDto> {
+    return this.deviceRegistryService.findOne(deviceType, deviceId);
+  }
+
+  @Patch(':deviceType/:deviceId')
+  @ApiOperation({
+    summary: 'Update a registered device',
+    description: 'Set `active` to false to decommission it',
+  })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({ name: 'deviceId', description: 'Meter or vehicle identifier' })
+  @ApiResponse({ status: 200, type: DeviceDto })
+  @ApiResponse({ status: 400, description: 'Invalid update or unknown site' })
+  @ApiResponse({ status: 404, description: 'Device not registered' })
+  async update(
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+    @Body() data: UpdateDeviceDto,
+  ): Promise<DeviceDto> {
+    return this.deviceRegistryService.update(deviceType, deviceId, data);
+  }
+
+  @Delete(':deviceType/:deviceId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove a device from the registry',
+    description:
+      'Its telemetry is kept; new readings fall under the unknown-device policy',
+  })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({ name: 'deviceId', description: 'Meter or vehicle identifier' })
+  @ApiResponse({ status: 204, description: 'Device removed' })
+  @ApiResponse({ status: 404, description: 'Device not registered' })
+  async remove(
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+  ): Promise<void> {
+    await this.deviceRegistryService.remove(deviceType, deviceId);
+  }
+
+  @Post(':deviceType/:deviceId/quarantine/release')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Ingest the quarantined readings of a registered device',
+    description:
+      'Up to 10000 oldest readings per call; rejected readings stay quarantined',
+  })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({ name: 'deviceId', description: 'Meter or vehicle identifier' })
+  @ApiResponse({ status: 200, type: QuarantineReleaseDto })
+  @ApiResponse({ status: 404, description: 'Device not registered' })
+  @ApiResponse({ status: 409, description: 'Device is decommissioned' })
+  async releaseQuarantined(
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+  ): Promise<QuarantineReleaseDto> {
+    return this.ingestionService.releaseQuarantined(deviceType, deviceId);
+  }
+
+  @Delete(':deviceType/:deviceId/quarantine')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Discard the quarantined readings of a device' })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({ name: 'deviceId', description: 'Meter or vehicle identifier' })
+  @ApiResponse({ status: 204, description: 'Readings discarded' })
+  @ApiResponse({ status: 404, description: 'Nothing quarantined' })
+  async discardQuarantined(
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+  ): Promise<void> {
+    await this.deviceRegistryService.discardQuarantined(deviceType, deviceId);
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  UsePipes,
+  ValidationPipe,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { HealthPolicyService } from '../services/health-policy.service';
+import {
+  CreateHealthPolicyDto,
+  HealthPolicyDto,
+  HealthPolicyQueryDto,
+  SetVehicleHealthProfileDto,
+  VehicleHealthProfileDto,
+} from '../dto/health-policy.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+@ApiTags('Health Policies')
+@Controller('v1/health-policies')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class HealthPolicyController {
+  private readonly logger = new Logger(HealthPolicyController.name);
+
+  constructor(private readonly healthPolicyService: HealthPolicyService) {}
+
+  @Get()
+  @RequireScope(ApiKeyScope.READ)
+  @ApiOperation({
+    summary: 'List health policy versions',
+    description: 'Every version of every profile, newest version first',
+  })
+  @ApiResponse({ status: 200, type: [HealthPolicyDto] })
+  async findAll(
+    @Query() query: HealthPolicyQueryDto,
+  ): Promise<HealthPolicyDto[]> {
+    return this.healthPolicyService.findAll(query);
+  }
+
+  @Get('vehicles/:vehicleId')
+  @RequireScope(ApiKeyScope.READ, {
+    device: { param: 'vehicleId', type: DeviceType.VEHICLE },
+  })
+  @ApiOperation({
+    summary: 'Get the health profile of a vehicle',
+    description: 'Falls back to the `default` profile',
+  })
+  @ApiParam({ name: 'vehicleId', example: 'VEHICLE_001' })
+  @ApiResponse({ status: 200, type: VehicleHealthProfileDto })
+  async getVehicleProfile(
+    @Param('vehicleId') vehicleId: string,
+  ): Promise<VehicleHealthProfileDto> {
+    return this.healthPolicyService.getVehicleProfile(vehicleId);
+  }
+
+  @Put('vehicles/:vehicleId')
+  @ApiOperation({
+    summary: 'Judge a vehicle by a health profile',
+    description:
+      'Reports resolve the profile version in effect at the end of their window',
+  })
+  @ApiParam({ name: 'vehicleId', example: 'VEHICLE_001' })
+  @ApiResponse({ status: 200, type: VehicleHealthProfileDto })
+  @ApiResponse({ status: 404, description: 'Profile has no versions' })
+  async setVehicleProfile(
+    @Param('vehicleId') vehicleId: string,
+    @Body() data: SetVehicleHealthProfileDto,
+  ): Promise<VehicleHealthProfileDto> {
+    return this.healthPolicyService.setVehicleProfile(vehicleId, data);
+  }
+
+  @Delete('vehicles/:vehicleId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove a vehicle health profile',
+    description: 'The vehicle goes back to the `default` profile',
+  })
+  @ApiParam({ name: 'vehicleId', example: 'VEHICLE_001' })
+  @ApiResponse({ status: 204, description: 'Profile removed' })
+  @ApiResponse({ status: 404, description: 'No profile configured for vehicle' })
+  async removeVehicleProfile(
+    @Param('vehicleId') vehicleId: string,
+  ): Promise<void> {
+    await this.healthPolicyService.removeVehicleProfile(vehicleId);
+  }
+
+  @Get(':profile')
+  @RequireScope(ApiKeyScope.READ)
+  @ApiOperation({ summary: 'Get the version of a profile in effect now' })
+  @ApiParam({ name: 'profile', example: 'default' })
+  @ApiResponse({ status: 200, type: HealthPolicyDto })
+  @ApiResponse({ status: 404, description: 'No version in effect' })
+  async findCurrent(
+    @Param('profile') profile: string,
+  ): Promise<HealthPolicyDto> {
+    return this.healthPolicyService.findCurrent(profile);
+  }
+
+  @Get(':profile/versions/:version')
+  @RequireScope(ApiKeyScope.READ)
+  @ApiOperation({ summary: 'Get one version of a profile' })
+  @ApiParam({ name: 'profile', example: 'default' })
+  @ApiParam({ name: 'version', example: 1 })
+  @ApiResponse({ status: 200, type: HealthPolicyDto })
+  @ApiResponse({ status: 404, description: 'Version not found' })
+  async findVersion(
+    @Param('profile') profile: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<HealthPolicyDto> {
+    return this.healthPolicyService.findVersion(profile, version);
+  }
+
+  @Post(':profile')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Add a version to a health profile',
+    description:
+      'Versions are immutable. The new one applies to report windows ending at or after its `effectiveFrom`; earlier windows keep the version they were computed with.',
+  })
+  @ApiParam({ name: 'profile', example: 'model-x' })
+  @ApiResponse({ status: 201, type: HealthPolicyDto })
+  @ApiResponse({ status: 400, description: 'Invalid thresholds or effectiveFrom' })
+  @ApiResponse({ status: 409, description: 'Concurrent change to the profile' })
+  async create(
+    @Param('profile') profile: string,
+    @Body() data: CreateHealthPolicyDto,
+  ): Promise<HealthPolicyDto> {
+    this.logger.log(`Adding a version to health profile ${profile}`);
+    return this.healthPolicyService.create(profile, data);
+  }
+}
@@ -0,0 +1,24 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { IngestQueueService } from '../services/ingest-queue.service';
+import { IngestQueueStatsDto } from '../dto/ingest-queue.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Admin')
+@Controller('v1/admin/ingest-queue')
+@RequireScope(ApiKeyScope.ADMIN)
+export class IngestQueueController {
+  constructor(private readonly ingestQueueService: IngestQueueService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get ingest queue depth and lag',
+    description:
+      'Readings accepted but not yet written, the age of the oldest, and what this instance has drained since it started',
+  })
+  @ApiResponse({ status: 200, type: IngestQueueStatsDto })
+  async getStats(): Promise<IngestQueueStatsDto> {
+    return this.ingestQueueService.getStats();
+  }
+}
@@ -2,14 +2,19 @@ import {
   Controller,
   Post,
   Body,
+  Res,
   HttpCode,
   HttpStatus,
   UsePipes,
+  UseInterceptors,
   ValidationPipe,
   Logger,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { Response } from 'express';
 import { IngestionService } from '../services/ingestion.service';
+import { IngestQueueService } from '../services/ingest-queue.service';
+import { BulkLoadService } from '../services/bulk-load.service';
 import {
   MeterTelemetryDto,
   MeterTelemetryBatchDto,
@@ -18,14 +23,51 @@ import {
   VehicleTelemetryDto,
   VehicleTelemetryBatchDto,
 } from '../dto/vehicle-telemetry.dto';
+import {
+  IngestionResultDto,
+  BatchIngestionResultDto,
+} from '../dto/ingestion-result.dto';
+import { BulkLoadResultDto } from '../dto/bulk-load.dto';
+import { IdempotencyInterceptor } from '../interceptors/idempotency.interceptor';
+import { ApiPrincipal } from '../services/api-key.service';
+import { CurrentPrincipal, RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+// HttpStatus has no Multi-Status member in this Nest version
+const MULTI_STATUS = 207;
 
 @ApiTags('Ingestion')
 @Controller('v1/ingest')
+@RequireScope(ApiKeyScope.INGEST)
 @UsePipes(new ValidationPipe({ transform: true }))
+@UseInterceptors(IdempotencyInterceptor)
+@ApiHeader({
+  name: 'Idempotency-Key',
+  description:
+    'Optional client-generated key; a retried request with the same key and body returns the original response without re-ingesting',
+  required: false,
+})
+@ApiResponse({
+  status: 409,
+  description: 'A request with the same Idempotency-Key is still in flight',
+})
+@ApiResponse({
+  status: 422,
+  description: 'Idempotency-Key was already used for a different request',
+})
+@ApiResponse({
+  status: 503,
+  description: 'The ingest queue is full; retry later',
+})
 export class IngestionController {
   private readonly logger = new Logger(IngestionController.name);
 
-  constructor(private readonly ingestionService: IngestionService) {}
+  constructor(
+    private readonly ingestionService: IngestionService,
+    private readonly ingestQueueService: IngestQueueService,
+    private readonly bulkLoadService: BulkLoadService,
+  ) {}
 
   @Post('meter')
   @HttpCode(HttpStatus.ACCEPTED)
@@ -34,12 +76,37 @@ export class IngestionController {
     description:
       'Accepts smart meter readings and stores them in hot and cold storage',
   })
-  @ApiResponse({ status: 202, description: 'Telemetry accepted for processing' })
-  @ApiResponse({ status: 400, description: 'Invalid telemetry data' })
-  async ingestMeter(@Body() data: MeterTelemetryDto): Promise<{ status: string }> {
+  @ApiResponse({
+    status: 202,
+    description:
+      'Telemetry queued (or with the queue disabled processed), or quarantined if the device is not registered',
+    type: IngestionResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid telemetry data, or the device is unregistered or decommissioned',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Meter belongs to another tenant than the API key',
+  })
+  async ingestMeter(
+    @Body() data: MeterTelemetryDto,
+    @CurrentPrincipal() principal: ApiPrincipal,
+  ): Promise<IngestionResultDto> {
     this.logger.log(`Ingesting meter telemetry for ${data.meterId}`);
-    await this.ingestionService.ingestMeterTelemetry(data);
-    return { status: 'accepted' };
+    if (this.ingestQueueService.enabled) {
+      return this.ingestQueueService.enqueueReading(
+        DeviceType.METER,
+        data,
+        principal.tenantId,
+      );
+    }
+    return this.ingestionService.ingestMeterTelemetry(
+      data,
+      principal.tenantId,
+    );
   }
 
   @Post('vehicle')
@@ -49,12 +116,37 @@ export class IngestionController {
     description:
       'Accepts EV/charger readings and stores them in hot and cold storage',
   })
-  @ApiResponse({ status: 202, description: 'Telemetry accepted for processing' })
-  @ApiResponse({ status: 400, description: 'Invalid telemetry data' })
-  async ingestVehicle(@Body() data: VehicleTelemetryDto): Promise<{ status: string }> {
+  @ApiResponse({
+    status: 202,
+    description:
+      'Telemetry queued (or with the queue disabled processed), or quarantined if the device is not registered',
+    type: IngestionResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid telemetry data, or the device is unregistered or decommissioned',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Vehicle belongs to another tenant than the API key',
+  })
+  async ingestVehicle(
+    @Body() data: VehicleTelemetryDto,
+    @CurrentPrincipal() principal: ApiPrincipal,
+  ): Promise<IngestionResultDto> {
     this.logger.log(`Ingesting vehicle telemetry for ${data.vehicleId}`);
-    await this.ingestionService.ingestVehicleTelemetry(data);
-    return { status: 'accepted' };
+    if (this.ingestQueueService.enabled) {
+      return this.ingestQueueService.enqueueReading(
+        DeviceType.VEHICLE,
+        data,
+        principal.tenantId,
+      );
+    }
+    return this.ingestionService.ingestVehicleTelemetry(
+      data,
+      principal.tenantId,
+    );
   }
 
   @Post('meter/batch')
@@ -64,14 +156,38 @@ export class IngestionController {
     description:
       'Accepts multiple meter readings in a single request for high-throughput scenarios',
   })
-  @ApiResponse({ status: 202, description: 'Batch accepted for processing' })
-  @ApiResponse({ status: 400, description: 'Invalid batch data' })
+  @ApiResponse({
+    status: 202,
+    description: 'Every reading queued, or accepted, duplicate or stale',
+    type: BatchIngestionResultDto,
+  })
+  @ApiResponse({
+    status: 207,
+    description: 'At least one reading was rejected; see `results`',
+    type: BatchIngestionResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Body is not a batch of readings' })
   async ingestMeterBatch(
     @Body() data: MeterTelemetryBatchDto,
-  ): Promise<{ status: string; count: number }> {
+    @CurrentPrincipal() principal: ApiPrincipal,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<BatchIngestionResultDto> {
     this.logger.log(`Ingesting batch of ${data.readings.length} meter readings`);
-    await this.ingestionService.ingestMeterBatch(data.readings);
-    return { status: 'accepted', count: data.readings.length };
+    const report = this.ingestQueueService.enabled
+      ? await this.ingestQueueService.enqueueBatch(
+          DeviceType.METER,
+          MeterTelemetryDto,
+          data.readings,
+          principal.tenantId,
+        )
+      : await this.ingestionService.ingestMeterBatch(
+          data.readings,
+          principal.tenantId,
+        );
+    if (report.rejected > 0) {
+      res.status(MULTI_STATUS);
+    }
+    return report;
   }
 
   @Post('vehicle/batch')
@@ -81,13 +197,107 @@ export class IngestionController {
     description:
       'Accepts multiple vehicle readings in a single request for high-throughput scenarios',
   })
-  @ApiResponse({ status: 202, description: 'Batch accepted for processing' })
-  @ApiResponse({ status: 400, description: 'Invalid batch data' })
+  @ApiResponse({
+    status: 202,
+    description: 'Every reading queued, or accepted, duplicate or stale',
+    type: BatchIngestionResultDto,
+  })
+  @ApiResponse({
+    status: 207,
+    description: 'At least one reading was rejected; see `results`',
+    type: BatchIngestionResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Body is not a batch of readings' })
   async ingestVehicleBatch(
     @Body() data: VehicleTelemetryBatchDto,
-  ): Promise<{ status: string; count: number }> {
+    @CurrentPrincipal() principal: ApiPrincipal,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<BatchIngestionResultDto> {
     this.logger.log(`Ingesting batch of ${data.readings.length} vehicle readings`);
-    await this.ingestionService.ingestVehicleBatch(data.readings);
-    return { status: 'accepted', count: data.readings.length };
+    const report = this.ingestQueueService.enabled
+      ? await this.ingestQueueService.enqueueBatch(
+          DeviceType.VEHICLE,
+          VehicleTelemetryDto,
+          data.readings,
+          principal.tenantId,
+        )
+      : await this.ingestionService.ingestVehicleBatch(
+          data.readings,
+          principal.tenantId,
+        );
+    if (report.rejected > 0) {
+      res.status(MULTI_STATUS);
+    }
+    return report;
+  }
+
+  @Post('meter/bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Bulk load meter telemetry',
+    description:
+      'Loads a large backfill with COPY in one transaction, bypassing the ingest queue. No alerts or live feed events are raised',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Every reading stored or duplicate',
+    type: BulkLoadResultDto,
+  })
+  @ApiResponse({
+    status: 207,
+    description: 'At least one reading was refused; see `errors`',
+    type: BulkLoadResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Body is not a batch of readings' })
+  async bulkLoadMeters(
+    @Body() data: MeterTelemetryBatchDto,
+    @CurrentPrincipal() principal: ApiPrincipal,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<BulkLoadResultDto> {
+    this.logger.log(`Bulk loading ${data.readings.length} meter readings`);
+    const result = await this.bulkLoadService.load(
+      DeviceType.METER,
+      data.readings,
+      principal.tenantId,
+    );
+    if (result.rejected > 0) {
+      res.status(MULTI_STATUS);
+    }
+    return result;
+  }
+
+  @Post('vehicle/bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Bulk load vehicle telemetry',
+    description:
+      'Loads a large backfill with COPY in one transaction, bypassing the ingest queue. No alerts or live feed events are raised',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Every reading stored or duplicate',
+    type: BulkLoadResultDto,
+  })
+  @ApiResponse({
+    status: 207,
+    description: 'At least one reading was refused; see `errors`',
+    type: BulkLoadResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Body is not a batch of readings' })
+  async bulkLoadVehicles(
+    @Body() data: VehicleTelemetryBatchDto,
+    @CurrentPrincipal() principal: ApiPrincipal,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<BulkLoadResultDto> {
+    this.logger.log(`Bulk loading ${data.readings.length} vehicle readings`);
+    const result = await this.bulkLoadService.load(
+      DeviceType.VEHICLE,
+      data.readings,
+      principal.tenantId,
+    );
+    if (result.rejected > 0) {
+      res.status(MULTI_STATUS);
+    }
+    return result;
   }
 }
@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { PartitionManagerService } from '../services/partition-manager.service';
+import {
+  PartitionDto,
+  PartitionMaintenanceResultDto,
+  PartitionQueryDto,
+} from '../dto/partition.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Admin')
+@Controller('v1/admin/partitions')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class PartitionController {
+  private readonly logger = new Logger(PartitionController.name);
+
+  constructor(
+    private readonly partitionManagerService: PartitionManagerService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List history table partitions',
+    description:
+      'Lists every partition of the meter and vehicle history tables with its range, row count and size',
+  })
+  @ApiResponse({ status: 200, type: [PartitionDto] })
+  async findAll(@Query() query: PartitionQueryDto): Promise<PartitionDto[]> {
+    return this.partitionManagerService.listPartitions(query.exact);
+  }
+
+  @Post('maintain')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run partition maintenance now',
+    description:
+      'Creates missing upcoming partitions and retires partitions past retention, as the hourly job does',
+  })
+  @ApiResponse({ status: 200, type: PartitionMaintenanceResultDto })
+  async maintain(): Promise<PartitionMaintenanceResultDto> {
+    this.logger.log('Running partition maintenance on request');
+    return this.partitionManagerService.maintain();
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseEnumPipe,
+  UsePipes,
+  ValidationPipe,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { EnergyRegisterService } from '../services/energy-register.service';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import {
+  SetReportingModeDto,
+  ReportingModeQueryDto,
+  ReportingModeDto,
+} from '../dto/reporting-mode.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Reporting Modes')
+@Controller('v1/reporting-modes')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class ReportingModeController {
+  private readonly logger = new Logger(ReportingModeController.name);
+
+  constructor(private readonly energyRegisterService: EnergyRegisterService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List configured reporting modes',
+    description:
+      'Only devices with an explicit mode are listed; all others use the configured default',
+  })
+  @ApiResponse({ status: 200, type: [ReportingModeDto] })
+  async findAll(
+    @Query() query: ReportingModeQueryDto,
+  ): Promise<ReportingModeDto[]> {
+    return this.energyRegisterService.findAll(query);
+  }
+
+  @Get(':deviceType/:deviceId')
+  @ApiOperation({
+    summary: 'Get the effective reporting mode of a device',
+    description: 'Falls back to the default mode for the device type',
+  })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({ name: 'deviceId', description: 'Meter or vehicle identifier' })
+  @ApiResponse({ status: 200, type: ReportingModeDto })
+  async findOne(
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+  ): Promise<ReportingModeDto> {
+    return this.energyRegisterService.findOne(deviceType, deviceId);
+  }
+
+  @Put(':deviceType/:deviceId')
+  @ApiOperation({
+    summary: 'Set the reporting mode of a device',
+    description:
+      'Applies to readings ingested from now on; deltas already stored are not recomputed',
+  })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({ name: 'deviceId', description: 'Meter or vehicle identifier' })
+  @ApiResponse({ status: 200, type: ReportingModeDto })
+  @ApiResponse({ status: 400, description: 'Invalid mode' })
+  async set(
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+    @Body() data: SetReportingModeDto,
+  ): Promise<ReportingModeDto> {
+    this.logger.log(`Setting ${deviceType} ${deviceId} to ${data.mode}`);
+    return this.energyRegisterService.set(deviceType, deviceId, data);
+  }
+
+  @Delete(':deviceType/:deviceId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove a device reporting mode',
+    description: 'The device goes back to the default mode for its type',
+  })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({ name: 'deviceId', description: 'Meter or vehicle identifier' })
+  @ApiResponse({ status: 204, description: 'Reporting mode removed' })
+  @ApiResponse({ status: 404, description: 'No mode configured for device' })
+  async remove(
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+  ): Promise<void> {
+    await this.energyRegisterService.remove(deviceType, deviceId);
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  Controller,
+  Get,
+  Post,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { RollupService } from '../services/rollup.service';
+import { RollupRefresh } from '../entities/rollup-refresh.entity';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Admin')
+@Controller('v1/admin/rollups')
+@RequireScope(ApiKeyScope.ADMIN)
+export class RollupController {
+  private readonly logger = new Logger(RollupController.name);
+
+  constructor(private readonly rollupService: RollupService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get rollup refresh status',
+    description:
+      'Last refresh of each daily rollup view: status, duration, error, and the first day it does not fully cover',
+  })
+  @ApiResponse({ status: 200, description: 'Refresh status per view' })
+  async getStatus(): Promise<RollupRefresh[]> {
+    return this.rollupService.getStatus();
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh the daily rollups now',
+    description:
+      'Refreshes every rollup view CONCURRENTLY, as the scheduled job does every 30 minutes, and returns the resulting status',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Refresh status per view after the run',
+  })
+  async refresh(): Promise<RollupRefresh[]> {
+    this.logger.log('Refreshing daily rollups on request');
+    return this.rollupService.refreshAll();
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { SiteService } from '../services/site.service';
+import {
+  AssignSiteDevicesDto,
+  CreateSiteDto,
+  SiteDeviceAssignmentDto,
+  SiteDto,
+  UpdateSiteDto,
+} from '../dto/site.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Sites')
+@Controller('v1/sites')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class SiteController {
+  constructor(private readonly siteService: SiteService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List sites',
+    description: 'Ordered by ID; follow `parentId` to build the hierarchy',
+  })
+  @ApiResponse({ status: 200, type: [SiteDto] })
+  async findAll(): Promise<SiteDto[]> {
+    return this.siteService.findAll();
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a site or depot' })
+  @ApiResponse({ status: 201, type: SiteDto })
+  @ApiResponse({ status: 400, description: 'Invalid site or unknown parent' })
+  @ApiResponse({ status: 409, description: 'Site ID already taken' })
+  async create(@Body() data: CreateSiteDto): Promise<SiteDto> {
+    return this.siteService.create(data);
+  }
+
+  @Get(':siteId')
+  @ApiOperation({ summary: 'Get a site' })
+  @ApiParam({ name: 'siteId', example: 'depot-north' })
+  @ApiResponse({ status: 200, type: SiteDto })
+  @ApiResponse({ status: 404, description: 'Site not found' })
+  async findOne(@Param('siteId') siteId: string): Promise<SiteDto> {
+    return this.siteService.findOne(siteId);
+  }
+
+  @Patch(':siteId')
+  @ApiOperation({
+    summary: 'Rename a site or move it under another parent',
+  })
+  @ApiParam({ name: 'siteId', example: 'depot-north' })
+  @ApiResponse({ status: 200, type: SiteDto })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Unknown parent, or the parent is the site or one of its sub-sites',
+  })
+  @ApiResponse({ status: 404, description: 'Site not found' })
+  async update(
+    @Param('siteId') siteId: string,
+    @Body() data: UpdateSiteDto,
+  ): Promise<SiteDto> {
+    return this.siteService.update(siteId, data);
+  }
+
+  @Delete(':siteId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a site',
+    description: 'Its devices stay registered without a site',
+  })
+  @ApiParam({ name: 'siteId', example: 'depot-north' })
+  @ApiResponse({ status: 204, description: 'Site deleted' })
+  @ApiResponse({ status: 404, description: 'Site not found' })
+  @ApiResponse({ status: 409, description: 'Site has sub-sites' })
+  async remove(@Param('siteId') siteId: string): Promise<void> {
+    await this.siteService.remove(siteId);
+  }
+
+  @Post(':siteId/devices')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Place registered devices at a site',
+    description:
+      'Installs meters at the site or makes it the home depot of vehicles, moving them from any other site. List them with `GET /v1/devices?site=`.',
+  })
+  @ApiParam({ name: 'siteId', example: 'depot-north' })
+  @ApiResponse({ status: 200, type: SiteDeviceAssignmentDto })
+  @ApiResponse({ status: 404, description: 'Site not found' })
+  async assignDevices(
+    @Param('siteId') siteId: string,
+    @Body() data: AssignSiteDevicesDto,
+  ): Promise<SiteDeviceAssignmentDto> {
+    return this.siteService.assignDevices(siteId, data);
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { LiveStatusService } from '../services/live-status.service';
+import {
+  MeterStatusDto,
+  MeterStatusPageDto,
+  MeterStatusQueryDto,
+  VehicleStatusDto,
+  VehicleStatusPageDto,
+  VehicleStatusQueryDto,
+} from '../dto/live-status.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+@ApiTags('Live Status')
+@Controller('v1/status')
+@RequireScope(ApiKeyScope.READ, { allTenants: true })
+@UsePipes(new ValidationPipe({ transform: true }))
+export class StatusController {
+  constructor(private readonly liveStatusService: LiveStatusService) {}
+
+  @Get('meters')
+  @ApiOperation({
+    summary: 'List the latest reading of every meter',
+    description:
+      'Filter by status or staleness, sort by id or last update, and follow `nextCursor` for further pages',
+  })
+  @ApiResponse({ status: 200, type: MeterStatusPageDto })
+  @ApiResponse({ status: 400, description: 'Invalid filter, sort or cursor' })
+  async listMeters(
+    @Query() query: MeterStatusQueryDto,
+  ): Promise<MeterStatusPageDto> {
+    return this.liveStatusService.listMeters(query);
+  }
+
+  @Get('meters/:meterId')
+  @RequireScope(ApiKeyScope.READ, {
+    device: { param: 'meterId', type: DeviceType.METER },
+  })
+  @ApiOperation({ summary: 'Get the latest reading of a meter' })
+  @ApiParam({ name: 'meterId', description: 'Meter identifier' })
+  @ApiResponse({ status: 200, type: MeterStatusDto })
+  @ApiResponse({ status: 404, description: 'Meter has not reported yet' })
+  async findMeter(@Param('meterId') meterId: string): Promise<MeterStatusDto> {
+    return this.liveStatusService.findMeter(meterId);
+  }
+
+  @Get('vehicles')
+  @ApiOperation({
+    summary: 'List the latest reading of every vehicle',
+    description:
+      'Filter by SoC range, status or staleness, sort by id, last update or SoC, and follow `nextCursor` for further pages',
+  })
+  @ApiResponse({ status: 200, type: VehicleStatusPageDto })
+  @ApiResponse({ status: 400, description: 'Invalid filter, sort or cursor' })
+  async listVehicles(
+    @Query() query: VehicleStatusQueryDto,
+  ): Promise<VehicleStatusPageDto> {
+    return this.liveStatusService.listVehicles(query);
+  }
+
+  @Get('vehicles/:vehicleId')
+  @RequireScope(ApiKeyScope.READ, {
+    device: { param: 'vehicleId', type: DeviceType.VEHICLE },
+  })
+  @ApiOperation({ summary: 'Get the latest reading of a vehicle' })
+  @ApiParam({ name: 'vehicleId', description: 'Vehicle identifier' })
+  @ApiResponse({ status: 200, type: VehicleStatusDto })
+  @ApiResponse({ status: 404, description: 'Vehicle has not reported yet' })
+  async findVehicle(
+    @Param('vehicleId') vehicleId: string,
+  ): Promise<VehicleStatusDto> {
+    return this.liveStatusService.findVehicle(vehicleId);
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  Logger,
+  Query,
+  Req,
+  Res,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiHeader,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { LiveFeedService } from '../services/live-feed.service';
+import {
+  LiveFeedCloseReason,
+  LiveFeedQueryDto,
+  LiveTelemetryEventDto,
+} from '../dto/live-feed.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Live Status')
+@Controller('v1/stream')
+@RequireScope(ApiKeyScope.READ, { allTenants: true, queryKey: true })
+@UsePipes(new ValidationPipe({ transform: true }))
+export class StreamController {
+  private readonly logger = new Logger(StreamController.name);
+  private readonly heartbeatMs: number;
+
+  constructor(
+    private readonly liveFeedService: LiveFeedService,
+    configService: ConfigService,
+  ) {
+    this.heartbeatMs =
+      Number(configService.get('STREAM_HEARTBEAT_SECONDS', 15)) * 1000;
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Stream live telemetry updates (Server-Sent Events)',
+    description:
+      'Pushes every hot-row update matching the filters as a `telemetry` event whose id is its cursor. On reconnect the browser sends Last-Event-ID and missed updates are replayed first. A client too slow to keep up receives an `overflow` event and is disconnected; it resumes from its last cursor.',
+  })
+  @ApiHeader({
+    name: 'Last-Event-ID',
+    description: 'Cursor of the last update received; overrides `cursor`',
+    required: false,
+  })
+  @ApiQuery({
+    name: 'apiKey',
+    description:
+      'API key, for clients such as EventSource that cannot send X-API-Key',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'text/event-stream of telemetry events',
+    type: LiveTelemetryEventDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  stream(
+    @Query() query: LiveFeedQueryDto,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): void {
+    const filter = { ...query, cursor: lastEventId || query.cursor };
+
+    // Throws before anything is written, so a bad cursor is a plain 400
+    const subscription = this.liveFeedService.subscribe(filter, {
+      write: (event: LiveTelemetryEventDto) =>
+        res.write(
+          `id: ${event.cursor}\nevent: telemetry\ndata: ${JSON.stringify(event)}\n\n`,
+        ),
+      close: (reason: LiveFeedCloseReason) => {
+        res.write(`event: ${reason}\ndata: {}\n\n`);
+        res.end();
+      },
+    });
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop reverse proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(': connected\n\n');
+
+    res.on('drain', () => subscription.drain());
+
+    const heartbeat = setInterval(
+      () => res.write(': heartbeat\n\n'),
+      this.heartbeatMs,
+    );
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      this.liveFeedService.unsubscribe(subscription);
+      this.logger.debug('Stream client disconnected');
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  Controller,
+  Post,
+  Req,
+  Res,
+  Headers,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiHeader,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { TelemetryUploadService } from '../services/telemetry-upload.service';
+import { BulkLoadResultDto } from '../dto/bulk-load.dto';
+import { ApiPrincipal } from '../services/api-key.service';
+import { CurrentPrincipal, RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+// HttpStatus has no Multi-Status member in this Nest version
+const MULTI_STATUS = 207;
+
+const UPLOAD_BODY = {
+  description:
+    'One JSON reading per line, or CSV with a header row naming the reading fields',
+  schema: { type: 'string', format: 'binary' },
+};
+
+// Uploads are read straight from the request stream, so they live apart
+// from IngestionController, whose Idempotency-Key support hashes the body
+@ApiTags('Ingestion')
+@Controller('v1/ingest')
+@RequireScope(ApiKeyScope.INGEST)
+@ApiConsumes('application/x-ndjson', 'text/csv')
+@ApiHeader({
+  name: 'Content-Encoding',
+  description: 'gzip for a compressed upload',
+  required: false,
+})
+@ApiResponse({
+  status: 200,
+  description: 'Every reading stored or duplicate',
+  type: BulkLoadResultDto,
+})
+@ApiResponse({
+  status: 207,
+  description: 'At least one line was refused; see `errors`',
+  type: BulkLoadResultDto,
+})
+@ApiResponse({
+  status: 400,
+  description: 'Bad CSV header, invalid gzip or a body that is not lines',
+})
+@ApiResponse({
+  status: 415,
+  description: 'Unsupported Content-Type or Content-Encoding',
+})
+export class TelemetryUploadController {
+  constructor(
+    private readonly telemetryUploadService: TelemetryUploadService,
+  ) {}
+
+  @Post('meter/upload')
+  @HttpCode(HttpStatus.OK)
+  @ApiBody(UPLOAD_BODY)
+  @ApiOperation({
+    summary: 'Upload a meter telemetry file',
+    description:
+      'Streams an NDJSON or CSV file of any size into a bulk load and reports refused lines by line number',
+  })
+  async uploadMeters(
+    @Req() req: Request,
+    @Headers('content-type') contentType: string | undefined,
+    @Headers('content-encoding') contentEncoding: string | undefined,
+    @CurrentPrincipal() principal: ApiPrincipal,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<BulkLoadResultDto> {
+    const result = await this.telemetryUploadService.upload(
+      DeviceType.METER,
+      req,
+      contentType,
+      contentEncoding,
+      principal.tenantId,
+    );
+    if (result.rejected > 0) {
+      res.status(MULTI_STATUS);
+    }
+    return result;
+  }
+
+  @Post('vehicle/upload')
+  @HttpCode(HttpStatus.OK)
+  @ApiBody(UPLOAD_BODY)
+  @ApiOperation({
+    summary: 'Upload a vehicle telemetry file',
+    description:
+      'Streams an NDJSON or CSV file of any size into a bulk load and reports refused lines by line number',
+  })
+  async uploadVehicles(
+    @Req() req: Request,
+    @Headers('content-type') contentType: string | undefined,
+    @Headers('content-encoding') contentEncoding: string | undefined,
+    @CurrentPrincipal() principal: ApiPrincipal,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<BulkLoadResultDto> {
+    const result = await this.telemetryUploadService.upload(
+      DeviceType.VEHICLE,
+      req,
+      contentType,
+      contentEncoding,
+      principal.tenantId,
+    );
+    if (result.rejected > 0) {
+      res.status(MULTI_STATUS);
+    }
+    return result;
+  }
+}
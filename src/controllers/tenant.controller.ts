@@ -0,0 +1,120 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { TenantService } from '../services/tenant.service';
+import {
+  AssignTenantDevicesDto,
+  CreateTenantDto,
+  TenantDeviceAssignmentDto,
+  TenantDevicePageDto,
+  TenantDeviceQueryDto,
+  TenantDto,
+} from '../dto/tenant.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+@ApiTags('Admin')
+@Controller('v1/admin/tenants')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class TenantController {
+  constructor(private readonly tenantService: TenantService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List tenants' })
+  @ApiResponse({ status: 200, type: [TenantDto] })
+  async findAll(): Promise<TenantDto[]> {
+    return this.tenantService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a tenant' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: TenantDto })
+  @ApiResponse({ status: 404, description: 'Tenant not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<TenantDto> {
+    return this.tenantService.findOne(id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a tenant' })
+  @ApiResponse({ status: 201, type: TenantDto })
+  @ApiResponse({ status: 409, description: 'Name already taken' })
+  async create(@Body() data: CreateTenantDto): Promise<TenantDto> {
+    return this.tenantService.create(data);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a tenant',
+    description:
+      'Deletes its API keys and releases its devices; telemetry is kept',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 204, description: 'Tenant deleted' })
+  @ApiResponse({ status: 404, description: 'Tenant not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.tenantService.remove(id);
+  }
+
+  @Get(':id/devices')
+  @ApiOperation({ summary: 'List the devices a tenant owns' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: TenantDevicePageDto })
+  @ApiResponse({ status: 404, description: 'Tenant not found' })
+  async findDevices(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: TenantDeviceQueryDto,
+  ): Promise<TenantDevicePageDto> {
+    return this.tenantService.findDevices(id, query);
+  }
+
+  @Post(':id/devices')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Assign devices to a tenant',
+    description:
+      'Devices owned by another tenant are listed in `conflicts` and left as they are',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, type: TenantDeviceAssignmentDto })
+  @ApiResponse({ status: 404, description: 'Tenant not found' })
+  async assignDevices(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() data: AssignTenantDevicesDto,
+  ): Promise<TenantDeviceAssignmentDto> {
+    return this.tenantService.assignDevices(id, data);
+  }
+
+  @Delete(':id/devices/:deviceType/:deviceId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Release a device from a tenant' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiParam({ name: 'deviceType', enum: DeviceType })
+  @ApiParam({ name: 'deviceId', example: 'VEHICLE_001' })
+  @ApiResponse({ status: 204, description: 'Device released' })
+  @ApiResponse({ status: 404, description: 'Tenant does not own the device' })
+  async releaseDevice(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('deviceType', new ParseEnumPipe(DeviceType)) deviceType: DeviceType,
+    @Param('deviceId') deviceId: string,
+  ): Promise<void> {
+    await this.tenantService.releaseDevice(id, deviceType, deviceId);
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  UsePipes,
+  ValidationPipe,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { VehicleMeterAssignmentService } from '../services/vehicle-meter-assignment.service';
+import { VehicleMeterAssignment } from '../entities/vehicle-meter-assignment.entity';
+import {
+  CreateVehicleMeterAssignmentDto,
+  UpdateVehicleMeterAssignmentDto,
+  VehicleMeterAssignmentQueryDto,
+} from '../dto/vehicle-meter-assignment.dto';
+import { RequireScope } from '../decorators/auth.decorator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+@ApiTags('Assignments')
+@Controller('v1/assignments')
+@RequireScope(ApiKeyScope.ADMIN)
+@UsePipes(new ValidationPipe({ transform: true }))
+export class VehicleMeterAssignmentController {
+  private readonly logger = new Logger(VehicleMeterAssignmentController.name);
+
+  constructor(
+    private readonly assignmentService: VehicleMeterAssignmentService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Attach a vehicle to a meter',
+    description:
+      'Records that a vehicle was charged from a meter (charger) over a time interval',
+  })
+  @ApiResponse({ status: 201, description: 'Assignment created' })
+  @ApiResponse({ status: 400, description: 'Invalid assignment data' })
+  @ApiResponse({
+    status: 409,
+    description: 'Interval overlaps an existing assignment',
+  })
+  async create(
+    @Body() data: CreateVehicleMeterAssignmentDto,
+  ): Promise<VehicleMeterAssignment> {
+    this.logger.log(
+      `Assigning vehicle ${data.vehicleId} to meter ${data.meterId}`,
+    );
+    return this.assignmentService.create(data);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List vehicle-to-meter assignments',
+    description: 'Filter by vehicle, meter, or the instant an assignment is active',
+  })
+  @ApiResponse({ status: 200, description: 'Assignments retrieved' })
+  async findAll(
+    @Query() query: VehicleMeterAssignmentQueryDto,
+  ): Promise<VehicleMeterAssignment[]> {
+    return this.assignmentService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a vehicle-to-meter assignment' })
+  @ApiParam({ name: 'id', description: 'Assignment identifier' })
+  @ApiResponse({ status: 200, description: 'Assignment retrieved' })
+  @ApiResponse({ status: 404, description: 'Assignment not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<VehicleMeterAssignment> {
+    return this.assignmentService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a vehicle-to-meter assignment',
+    description: 'Typically used to close an assignment by setting effectiveUntil',
+  })
+  @ApiParam({ name: 'id', description: 'Assignment identifier' })
+  @ApiResponse({ status: 200, description: 'Assignment updated' })
+  @ApiResponse({ status: 404, description: 'Assignment not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Interval overlaps an existing assignment',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() data: UpdateVehicleMeterAssignmentDto,
+  ): Promise<VehicleMeterAssignment> {
+    return this.assignmentService.update(id, data);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a vehicle-to-meter assignment' })
+  @ApiParam({ name: 'id', description: 'Assignment identifier' })
+  @ApiResponse({ status: 204, description: 'Assignment deleted' })
+  @ApiResponse({ status: 404, description: 'Assignment not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.assignmentService.remove(id);
+  }
+}
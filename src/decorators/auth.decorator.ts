@@ -0,0 +1,48 @@
+import {
+  ExecutionContext,
+  SetMetadata,
+  createParamDecorator,
+} from '@nestjs/common';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { ApiPrincipal } from '../services/api-key.service';
+
+export const PUBLIC_ROUTE = 'auth:public';
+export const ROUTE_ACCESS = 'auth:access';
+
+/**
+ * What a route needs from the calling key. Routes without it need `admin`.
+ */
+export interface RouteAccess {
+  scope: ApiKeyScope;
+  // The route reads across all tenants' devices; tenant keys are refused
+  allTenants?: boolean;
+  // The route reads one device, named by a route parameter; tenant keys
+  // only get their own (others look like unknown devices)
+  device?: {
+    param: string;
+    type?: DeviceType;
+    typeParam?: string;
+  };
+  // The key may also come as an `apiKey` query parameter, for clients such
+  // as browser EventSource that cannot set headers
+  queryKey?: boolean;
+}
+
+/**
+ * Serve a route without an API key.
+ */
+export const Public = () => SetMetadata(PUBLIC_ROUTE, true);
+
+export const RequireScope = (
+  scope: ApiKeyScope,
+  options: Omit<RouteAccess, 'scope'> = {},
+) => SetMetadata(ROUTE_ACCESS, { scope, ...options });
+
+/**
+ * The principal the guard authenticated the request as.
+ */
+export const CurrentPrincipal = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ApiPrincipal =>
+    context.switchToHttp().getRequest().principal,
+);
@@ -0,0 +1,149 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { AlertEvent } from '../entities/alert-webhook.entity';
+import { DeliveryStatus } from '../entities/alert-delivery.entity';
+
+const URL_OPTIONS = {
+  protocols: ['http', 'https'],
+  require_protocol: true,
+  require_tld: false,
+};
+
+export class CreateAlertWebhookDto {
+  @ApiProperty({ example: 'https://ops.example.com/hooks/energy-alerts' })
+  @IsUrl(URL_OPTIONS)
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({
+    description:
+      'HMAC key payloads are signed with (generated when omitted; only returned on creation)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(200)
+  secret?: string;
+
+  @ApiProperty({
+    enum: AlertEvent,
+    isArray: true,
+    description: 'Events to send (default: all)',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(AlertEvent, { each: true })
+  events?: AlertEvent[];
+
+  @ApiProperty({ default: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class UpdateAlertWebhookDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  @MaxLength(2048)
+  url?: string;
+
+  @ApiProperty({ description: 'Rotate the signing secret', required: false })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(200)
+  secret?: string;
+
+  @ApiProperty({ enum: AlertEvent, isArray: true, required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(AlertEvent, { each: true })
+  events?: AlertEvent[];
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class AlertWebhookDto {
+  @ApiProperty({ example: 'c7a1e0d2-5b3f-4e8a-9c6d-1f2e3a4b5c6d' })
+  id: string;
+
+  @ApiProperty({ example: 'https://ops.example.com/hooks/energy-alerts' })
+  url: string;
+
+  @ApiProperty({ enum: AlertEvent, isArray: true })
+  events: AlertEvent[];
+
+  @ApiProperty({ example: true })
+  enabled: boolean;
+}
+
+export class CreatedAlertWebhookDto extends AlertWebhookDto {
+  @ApiProperty({
+    description: 'Signing secret; store it now, it is not shown again',
+  })
+  secret: string;
+}
+
+export class AlertDeliveryDto {
+  @ApiProperty({ example: '9d8e7f6a-5b4c-4d3e-8f2a-1b0c9d8e7f6a' })
+  id: string;
+
+  @ApiProperty({ example: '0b6f4c55-8f2e-4a3c-9d71-2c5e8a1b3f90' })
+  alertId: string;
+
+  @ApiProperty({ enum: AlertEvent, example: AlertEvent.OPENED })
+  event: string;
+
+  @ApiProperty({ enum: DeliveryStatus, example: DeliveryStatus.DELIVERED })
+  status: DeliveryStatus;
+
+  @ApiProperty({ example: 1 })
+  attempts: number;
+
+  @ApiProperty({ nullable: true, example: 200 })
+  responseStatus: number | null;
+
+  @ApiProperty({ nullable: true, example: null })
+  lastError: string | null;
+
+  @ApiProperty({ example: '2026-02-09T10:31:00.000Z' })
+  createdAt: string;
+
+  @ApiProperty({ nullable: true, example: '2026-02-09T10:31:01.000Z' })
+  deliveredAt: string | null;
+
+  @ApiProperty({
+    description: 'When a pending delivery is retried',
+    example: '2026-02-09T10:31:00.000Z',
+  })
+  nextAttemptAt: string;
+}
+
+export class WebhookTestResultDto {
+  @ApiProperty({ example: true })
+  delivered: boolean;
+
+  @ApiProperty({ nullable: true, example: 200 })
+  responseStatus: number | null;
+
+  @ApiProperty({ nullable: true, example: null })
+  error: string | null;
+}
@@ -0,0 +1,261 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { AlertRuleKind, AlertSeverity } from '../entities/alert-rule.entity';
+import { AlertResolution, AlertStatus } from '../entities/alert.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+export class CreateAlertRuleDto {
+  @ApiProperty({ example: 'Battery overheating' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description:
+      'battery_temp_above / soc_below (vehicles) and voltage_below / voltage_above (meters) are checked on every reading; vehicle_critical is checked on a schedule',
+    enum: AlertRuleKind,
+    example: AlertRuleKind.BATTERY_TEMP_ABOVE,
+  })
+  @IsEnum(AlertRuleKind)
+  kind: AlertRuleKind;
+
+  @ApiProperty({
+    description:
+      'Celsius, % or V depending on `kind`; required except for vehicle_critical',
+    example: 55,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 })
+  threshold?: number;
+
+  @ApiProperty({
+    enum: AlertSeverity,
+    default: AlertSeverity.WARNING,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AlertSeverity)
+  severity?: AlertSeverity;
+
+  @ApiProperty({
+    description:
+      'Seconds after an alert resolves during which a recurrence reopens it without a new notification',
+    example: 900,
+    default: 900,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(604800)
+  cooldownSeconds?: number;
+
+  @ApiProperty({ default: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class UpdateAlertRuleDto {
+  @ApiProperty({ example: 'Battery overheating', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ example: 58, required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 })
+  threshold?: number;
+
+  @ApiProperty({ enum: AlertSeverity, required: false })
+  @IsOptional()
+  @IsEnum(AlertSeverity)
+  severity?: AlertSeverity;
+
+  @ApiProperty({ example: 900, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(604800)
+  cooldownSeconds?: number;
+
+  @ApiProperty({
+    description: 'Disabling a rule leaves its open alerts as they are',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class AlertRuleDto {
+  @ApiProperty({ example: '5f0c6f1e-2d4b-4f7e-9a51-8c1d2e3f4a5b' })
+  id: string;
+
+  @ApiProperty({ example: 'Battery overheating' })
+  name: string;
+
+  @ApiProperty({
+    enum: AlertRuleKind,
+    example: AlertRuleKind.BATTERY_TEMP_ABOVE,
+  })
+  kind: AlertRuleKind;
+
+  @ApiProperty({ example: 55, nullable: true })
+  threshold: number | null;
+
+  @ApiProperty({ enum: AlertSeverity, example: AlertSeverity.WARNING })
+  severity: AlertSeverity;
+
+  @ApiProperty({ example: 900 })
+  cooldownSeconds: number;
+
+  @ApiProperty({ example: true })
+  enabled: boolean;
+}
+
+export class AlertQueryDto {
+  @ApiProperty({ enum: AlertStatus, required: false })
+  @IsOptional()
+  @IsEnum(AlertStatus)
+  status?: AlertStatus;
+
+  @ApiProperty({ example: 'VEHICLE_001', required: false })
+  @IsOptional()
+  @IsString()
+  deviceId?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUUID()
+  ruleId?: string;
+
+  @ApiProperty({ enum: AlertSeverity, required: false })
+  @IsOptional()
+  @IsEnum(AlertSeverity)
+  severity?: AlertSeverity;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 50,
+    default: 50,
+    minimum: 1,
+    maximum: 500,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiProperty({
+    description: '`nextCursor` of the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class AcknowledgeAlertDto {
+  @ApiProperty({
+    description: 'Who is handling the alert',
+    example: 'ops-oncall',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  by?: string;
+}
+
+export class AlertDto {
+  @ApiProperty({ example: '0b6f4c55-8f2e-4a3c-9d71-2c5e8a1b3f90' })
+  id: string;
+
+  @ApiProperty({ example: '5f0c6f1e-2d4b-4f7e-9a51-8c1d2e3f4a5b' })
+  ruleId: string;
+
+  @ApiProperty({
+    enum: AlertRuleKind,
+    example: AlertRuleKind.BATTERY_TEMP_ABOVE,
+  })
+  kind: AlertRuleKind;
+
+  @ApiProperty({ enum: DeviceType, example: DeviceType.VEHICLE })
+  deviceType: DeviceType;
+
+  @ApiProperty({ example: 'VEHICLE_001' })
+  deviceId: string;
+
+  @ApiProperty({ enum: AlertStatus, example: AlertStatus.OPEN })
+  status: AlertStatus;
+
+  @ApiProperty({ enum: AlertSeverity, example: AlertSeverity.CRITICAL })
+  severity: AlertSeverity;
+
+  @ApiProperty({ example: 'Battery temperature 61.2 above 55' })
+  message: string;
+
+  @ApiProperty({
+    description: 'Latest observed value',
+    example: 61.2,
+    nullable: true,
+  })
+  value: number | null;
+
+  @ApiProperty({
+    description: 'Times the condition was seen while the alert was unresolved',
+    example: 12,
+  })
+  occurrences: number;
+
+  @ApiProperty({ example: '2026-02-09T10:31:00.000Z' })
+  openedAt: string;
+
+  @ApiProperty({ example: '2026-02-09T10:42:00.000Z' })
+  lastSeenAt: string;
+
+  @ApiProperty({ nullable: true, example: null })
+  acknowledgedAt: string | null;
+
+  @ApiProperty({ nullable: true, example: null })
+  acknowledgedBy: string | null;
+
+  @ApiProperty({ nullable: true, example: null })
+  resolvedAt: string | null;
+
+  @ApiProperty({ enum: AlertResolution, nullable: true, example: null })
+  resolution: AlertResolution | null;
+}
+
+export class AlertPageDto {
+  @ApiProperty({ type: [AlertDto] })
+  items: AlertDto[];
+
+  @ApiProperty({
+    description:
+      'Pass as `cursor` to fetch the next page; null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
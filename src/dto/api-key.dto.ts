@@ -0,0 +1,101 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'depot-gateway-01' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description:
+      '`ingest` writes telemetry, `read` reads analytics, live status and alerts, `admin` can do everything (platform keys only)',
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.INGEST],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({
+    description:
+      'Tenant the key acts for; omit for a platform key that reaches every device',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  tenantId?: string;
+
+  @ApiProperty({
+    description: 'ISO 8601 expiry; the key never expires when omitted',
+    example: '2027-01-01T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class ApiKeyQueryDto {
+  @ApiProperty({ description: 'Only keys of this tenant', required: false })
+  @IsOptional()
+  @IsUUID()
+  tenantId?: string;
+}
+
+export class ApiKeyDto {
+  @ApiProperty({ example: '3e1f4b2a-7c9d-4e8f-a1b2-c3d4e5f6a7b8' })
+  id: string;
+
+  @ApiProperty({ example: 'depot-gateway-01' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Public start of the key, to tell keys apart',
+    example: '9f3a61c2',
+  })
+  prefix: string;
+
+  @ApiProperty({ nullable: true, description: 'Null for platform keys' })
+  tenantId: string | null;
+
+  @ApiProperty({ enum: ApiKeyScope, isArray: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({ nullable: true, example: null })
+  expiresAt: string | null;
+
+  @ApiProperty({ nullable: true, example: '2026-02-09T10:31:00.000Z' })
+  lastUsedAt: string | null;
+
+  @ApiProperty({ nullable: true, example: null })
+  revokedAt: string | null;
+
+  @ApiProperty({ example: '2026-02-01T09:00:00.000Z' })
+  createdAt: string;
+}
+
+export class CreatedApiKeyDto extends ApiKeyDto {
+  @ApiProperty({
+    description:
+      'The key, sent as `X-API-Key` or `Authorization: Bearer`; store it now, it is not shown again',
+    example: 'eie_9f3a61c2_Qm9vdHN0cmFwLWtleS1leGFtcGxlLW9ubHktMDA',
+  })
+  key: string;
+}
@@ -0,0 +1,83 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class BulkLoadErrorDto {
+  @ApiProperty({
+    description: 'Position of the (first) refused reading in the upload',
+    example: 7,
+  })
+  index: number;
+
+  @ApiPropertyOptional({
+    description: 'Line of the upload the reading was on (uploads only)',
+    example: 9,
+  })
+  line?: number;
+
+  @ApiProperty({
+    description: 'Readings refused for this reason: 1, or all of a device',
+    example: 1,
+  })
+  readings: number;
+
+  @ApiProperty({ example: 'voltage must not be less than 0' })
+  reason: string;
+}
+
+export class BulkLoadResultDto {
+  @ApiProperty({
+    description:
+      'accepted: no reading was refused; partial: some were; rejected: all were',
+    enum: ['accepted', 'partial', 'rejected'],
+    example: 'accepted',
+  })
+  status: 'accepted' | 'partial' | 'rejected';
+
+  @ApiProperty({ description: 'Readings received', example: 250000 })
+  count: number;
+
+  @ApiProperty({ description: 'Readings written to history', example: 249600 })
+  inserted: number;
+
+  @ApiProperty({
+    description:
+      'Readings already stored for the same (device, timestamp), including repeats within the upload',
+    example: 392,
+  })
+  duplicates: number;
+
+  @ApiProperty({
+    description: 'Readings not stored; resubmitting exactly these is safe',
+    example: 8,
+  })
+  rejected: number;
+
+  @ApiProperty({
+    description: 'Stored readings flagged by the anomaly rules',
+    example: 12,
+  })
+  anomalies: number;
+
+  @ApiProperty({ description: 'Devices with readings written', example: 500 })
+  devices: number;
+
+  @ApiProperty({
+    description: 'Live status rows advanced to a newer reading',
+    example: 500,
+  })
+  liveStatusUpdated: number;
+
+  @ApiProperty({ example: 6120 })
+  durationMs: number;
+
+  @ApiProperty({
+    description: 'Refused readings, in upload order; at most 100 entries',
+    type: [BulkLoadErrorDto],
+  })
+  errors: BulkLoadErrorDto[];
+
+  @ApiProperty({
+    description: 'True when more refusals happened than `errors` lists',
+    example: false,
+  })
+  errorsTruncated: boolean;
+}
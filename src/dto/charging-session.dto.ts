@@ -0,0 +1,189 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ChargingSessionStatus } from '../entities/charging-session.entity';
+
+export class VehicleSessionQueryDto {
+  @ApiProperty({ enum: ChargingSessionStatus, required: false })
+  @IsOptional()
+  @IsEnum(ChargingSessionStatus)
+  status?: ChargingSessionStatus;
+
+  @ApiProperty({
+    description: 'Only sessions started at or after this time (ISO 8601)',
+    example: '2026-02-08T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description: 'Only sessions started before this time (ISO 8601)',
+    example: '2026-02-09T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 50,
+    default: 50,
+    minimum: 1,
+    maximum: 500,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiProperty({
+    description: '`nextCursor` of the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class ChargingSessionQueryDto extends VehicleSessionQueryDto {
+  @ApiProperty({ example: 'VEHICLE_001', required: false })
+  @IsOptional()
+  @IsString()
+  vehicleId?: string;
+
+  @ApiProperty({ example: 'METER_001', required: false })
+  @IsOptional()
+  @IsString()
+  meterId?: string;
+}
+
+export class ChargingSessionDto {
+  @ApiProperty({ example: '9c1d2e3f-4a5b-4c6d-8e7f-0a1b2c3d4e5f' })
+  id: string;
+
+  @ApiProperty({ example: 'VEHICLE_001' })
+  vehicleId: string;
+
+  @ApiProperty({
+    description: 'Meter the vehicle was assigned to when the session started',
+    example: 'METER_001',
+    nullable: true,
+  })
+  meterId: string | null;
+
+  @ApiProperty({
+    enum: ChargingSessionStatus,
+    description: '`open` sessions may still grow as readings arrive',
+    example: ChargingSessionStatus.COMPLETED,
+  })
+  status: ChargingSessionStatus;
+
+  @ApiProperty({
+    description: 'First reading with delivered energy',
+    example: '2026-02-08T18:02:00.000Z',
+  })
+  startedAt: string;
+
+  @ApiProperty({
+    description: 'Last reading with delivered energy',
+    example: '2026-02-08T19:41:00.000Z',
+  })
+  endedAt: string;
+
+  @ApiProperty({ example: 99 })
+  durationMinutes: number;
+
+  @ApiProperty({ example: 22.5 })
+  startSoc: number;
+
+  @ApiProperty({ example: 91 })
+  endSoc: number;
+
+  @ApiProperty({ example: 51.375 })
+  kwhDeliveredDc: number;
+
+  @ApiProperty({
+    description:
+      "AC energy drawn by the session's meter over the session; null without a meter",
+    example: 58.94,
+    nullable: true,
+  })
+  kwhConsumedAc: number | null;
+
+  @ApiProperty({
+    description: 'DC delivered / AC consumed; null without AC energy',
+    example: 0.8717,
+    nullable: true,
+  })
+  efficiencyRatio: number | null;
+
+  @ApiProperty({ example: 38.4, nullable: true })
+  peakBatteryTemp: number | null;
+
+  @ApiProperty({ example: 100 })
+  readingCount: number;
+}
+
+export class ChargingSessionPageDto {
+  @ApiProperty({ type: [ChargingSessionDto] })
+  items: ChargingSessionDto[];
+
+  @ApiProperty({
+    description: 'Pass as `cursor` for the next page; null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
+
+export class RebuildSessionsDto {
+  @ApiProperty({
+    description:
+      'Re-segment readings from this time on (ISO 8601), at most 31 days back',
+    example: '2026-02-01T00:00:00Z',
+  })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({
+    description: 'Vehicles to rebuild; every vehicle when omitted',
+    type: [String],
+    example: ['VEHICLE_001'],
+    maxItems: 1000,
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  vehicleIds?: string[];
+}
+
+export class RebuildSessionsResultDto {
+  @ApiProperty({
+    description: 'Vehicles queued for the session builder',
+    example: 1,
+  })
+  queued: number;
+}
@@ -0,0 +1,131 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class CompletenessQueryDto {
+  @ApiProperty({
+    description:
+      'First UTC day to report, ISO 8601 (defaults to 6 days before `to`); times are rounded down to midnight',
+    example: '2026-02-03',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description:
+      'Last UTC day to report, inclusive, ISO 8601 (defaults to today); days after now are left out',
+    example: '2026-02-09',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class TelemetryGapDto {
+  @ApiProperty({
+    description: 'Last reading before the device went quiet',
+    example: '2026-02-09T03:12:00.000Z',
+  })
+  gapStart: string;
+
+  @ApiProperty({
+    description: 'First reading after the gap; null while the device is still offline',
+    example: '2026-02-09T04:40:00.000Z',
+    nullable: true,
+  })
+  gapEnd: string | null;
+
+  @ApiProperty({
+    description: 'Length of the gap in seconds (up to now for an open gap)',
+    example: 5280,
+  })
+  durationSeconds: number;
+}
+
+export class DailyCompletenessDto {
+  @ApiProperty({ description: 'UTC day', example: '2026-02-09' })
+  date: string;
+
+  @ApiProperty({
+    description:
+      'Readings the device should have sent at the expected interval (today: up to now)',
+    example: 1440,
+  })
+  expectedReadings: number;
+
+  @ApiProperty({
+    description: 'Readings stored for the day, anomalies included',
+    example: 1352,
+  })
+  receivedReadings: number;
+
+  @ApiProperty({
+    description: 'receivedReadings / expectedReadings as a percentage, capped at 100',
+    example: 93.89,
+  })
+  completenessPct: number;
+
+  @ApiProperty({
+    description: 'Seconds of the day covered by recorded gaps',
+    example: 5280,
+  })
+  missingSeconds: number;
+}
+
+export class DataCompletenessDto {
+  @ApiProperty({ description: 'Device type', example: 'vehicle' })
+  deviceType: string;
+
+  @ApiProperty({ description: 'Device identifier', example: 'VEHICLE_001' })
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Reporting interval the expected counts are based on',
+    example: 60,
+  })
+  expectedIntervalSeconds: number;
+
+  @ApiProperty({
+    description: 'False once the gap detection job has marked the device offline',
+    example: true,
+  })
+  online: boolean;
+
+  @ApiProperty({
+    description: 'Timestamp of the latest reading on the live status table',
+    example: '2026-02-09T10:29:00.000Z',
+  })
+  lastSeen: string;
+
+  @ApiProperty({
+    description: 'Start of the first reported day',
+    example: '2026-02-03T00:00:00.000Z',
+  })
+  periodStart: string;
+
+  @ApiProperty({
+    description: 'End of the reported period (exclusive; now for the current day)',
+    example: '2026-02-09T10:30:00.000Z',
+  })
+  periodEnd: string;
+
+  @ApiProperty({
+    description: 'Completeness over the whole period as a percentage',
+    example: 98.42,
+  })
+  completenessPct: number;
+
+  @ApiProperty({
+    description: 'One entry per UTC day, oldest first',
+    type: [DailyCompletenessDto],
+  })
+  days: DailyCompletenessDto[];
+
+  @ApiProperty({
+    description: 'Recorded gaps overlapping the period, oldest first',
+    type: [TelemetryGapDto],
+  })
+  gaps: TelemetryGapDto[];
+}
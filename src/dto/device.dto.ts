@@ -0,0 +1,273 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsISO8601,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { BatchIngestionResultDto } from './ingestion-result.dto';
+
+export class UpdateDeviceDto {
+  @ApiProperty({ example: 'Tesla Model 3 LR', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  model?: string;
+
+  @ApiProperty({
+    description:
+      'Site the meter is installed at, or home depot of the vehicle; see `v1/sites`',
+    example: 'depot-north',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  site?: string;
+
+  @ApiProperty({
+    description: 'Usable battery capacity (vehicles)',
+    example: 75,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Max(999999)
+  batteryCapacityKwh?: number;
+
+  @ApiProperty({
+    description: 'Nominal supply voltage (meters)',
+    example: 230,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 1 })
+  @Min(0.1)
+  @Max(99999)
+  nominalVoltage?: number;
+
+  @ApiProperty({
+    description: 'Date the device entered service',
+    example: '2026-01-15',
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  commissionedOn?: string;
+
+  @ApiProperty({
+    description:
+      'Inactive (decommissioned) devices keep their history but their readings are rejected',
+    example: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class CreateDeviceDto extends UpdateDeviceDto {
+  @ApiProperty({ enum: DeviceType, example: DeviceType.VEHICLE })
+  @IsEnum(DeviceType)
+  deviceType: DeviceType;
+
+  @ApiProperty({ example: 'VEHICLE_001' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  deviceId: string;
+}
+
+export class DeviceQueryDto {
+  @ApiProperty({ enum: DeviceType, required: false })
+  @IsOptional()
+  @IsEnum(DeviceType)
+  deviceType?: DeviceType;
+
+  @ApiProperty({ example: 'depot-north', required: false })
+  @IsOptional()
+  @IsString()
+  site?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  active?: boolean;
+
+  @ApiProperty({
+    description:
+      'Only devices registered by their first reading and not yet updated by an operator',
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  autoRegistered?: boolean;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 100,
+    default: 100,
+    minimum: 1,
+    maximum: 1000,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+
+  @ApiProperty({
+    description: '`nextCursor` of the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class DeviceDto {
+  @ApiProperty({ enum: DeviceType, example: DeviceType.VEHICLE })
+  deviceType: DeviceType;
+
+  @ApiProperty({ example: 'VEHICLE_001' })
+  deviceId: string;
+
+  @ApiProperty({ example: 'Tesla Model 3 LR', nullable: true })
+  model: string | null;
+
+  @ApiProperty({ example: 'depot-north', nullable: true })
+  site: string | null;
+
+  @ApiProperty({ example: 75, nullable: true })
+  batteryCapacityKwh: number | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  nominalVoltage: number | null;
+
+  @ApiProperty({ example: '2026-01-15', nullable: true })
+  commissionedOn: string | null;
+
+  @ApiProperty({ example: true })
+  active: boolean;
+
+  @ApiProperty({
+    description:
+      'Registered by its first reading and not yet updated by an operator',
+    example: false,
+  })
+  autoRegistered: boolean;
+
+  @ApiProperty({ example: '2026-02-01T09:00:00.000Z' })
+  createdAt: string;
+
+  @ApiProperty({ example: '2026-02-01T09:00:00.000Z' })
+  updatedAt: string;
+}
+
+export class DevicePageDto {
+  @ApiProperty({ type: [DeviceDto] })
+  items: DeviceDto[];
+
+  @ApiProperty({
+    description: 'Pass as `cursor` for the next page; null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
+
+export class QuarantineQueryDto {
+  @ApiProperty({ enum: DeviceType, required: false })
+  @IsOptional()
+  @IsEnum(DeviceType)
+  deviceType?: DeviceType;
+
+  @ApiProperty({ example: 'VEHICLE_099', required: false })
+  @IsOptional()
+  @IsString()
+  deviceId?: string;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 100,
+    default: 100,
+    minimum: 1,
+    maximum: 1000,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+
+  @ApiProperty({
+    description: '`nextCursor` of the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class QuarantinedReadingDto {
+  @ApiProperty({ example: '5f0c1e2d-3b4a-4c5d-8e6f-7a8b9c0d1e2f' })
+  id: string;
+
+  @ApiProperty({ enum: DeviceType, example: DeviceType.VEHICLE })
+  deviceType: DeviceType;
+
+  @ApiProperty({ example: 'VEHICLE_099' })
+  deviceId: string;
+
+  @ApiProperty({ nullable: true })
+  tenantId: string | null;
+
+  @ApiProperty({
+    description: 'The reading as submitted',
+    example: {
+      vehicleId: 'VEHICLE_099',
+      soc: 64,
+      kwhDeliveredDc: 12.5,
+      timestamp: '2026-02-09T10:30:00Z',
+    },
+  })
+  reading: Record<string, unknown>;
+
+  @ApiProperty({ example: '2026-02-09T10:30:01.000Z' })
+  receivedAt: string;
+}
+
+export class QuarantinePageDto {
+  @ApiProperty({ type: [QuarantinedReadingDto] })
+  items: QuarantinedReadingDto[];
+
+  @ApiProperty({
+    description: 'Pass as `cursor` for the next page; null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
+
+export class QuarantineReleaseDto extends BatchIngestionResultDto {
+  @ApiProperty({
+    description:
+      'Readings still quarantined for the device; release again to continue',
+    example: 0,
+  })
+  remaining: number;
+}
@@ -0,0 +1,271 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SortOrder } from './live-status.dto';
+import { AppliedHealthPolicyDto } from './health-policy.dto';
+
+export enum VehicleRankBy {
+  EFFICIENCY = 'efficiency',
+  DELIVERED_DC = 'deliveredDc',
+  CONSUMED_AC = 'consumedAc',
+  AVG_BATTERY_TEMP = 'avgBatteryTemp',
+  MAX_BATTERY_TEMP = 'maxBatteryTemp',
+}
+
+export enum ChargerRankBy {
+  EFFICIENCY = 'efficiency',
+  CONSUMED_AC = 'consumedAc',
+  DELIVERED_DC = 'deliveredDc',
+}
+
+export class FleetWindowQueryDto {
+  @ApiProperty({
+    description:
+      'Start of the window in ISO 8601 format (defaults to 24 hours before `to`)',
+    example: '2026-02-08T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description: 'End of the window in ISO 8601 format, exclusive (defaults to now)',
+    example: '2026-02-09T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+class LeaderboardPageQueryDto extends FleetWindowQueryDto {
+  @ApiProperty({
+    enum: SortOrder,
+    description:
+      'Defaults to asc for efficiency (worst first) and desc for the other keys',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  order?: SortOrder;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 10,
+    default: 10,
+    minimum: 1,
+    maximum: 500,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiProperty({
+    description: '`nextCursor` of the previous page, with the same window and sort',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class VehicleLeaderboardQueryDto extends LeaderboardPageQueryDto {
+  @ApiProperty({
+    enum: VehicleRankBy,
+    default: VehicleRankBy.EFFICIENCY,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(VehicleRankBy)
+  sort?: VehicleRankBy;
+}
+
+export class ChargerLeaderboardQueryDto extends LeaderboardPageQueryDto {
+  @ApiProperty({
+    enum: ChargerRankBy,
+    default: ChargerRankBy.EFFICIENCY,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ChargerRankBy)
+  sort?: ChargerRankBy;
+}
+
+export class HealthDistributionDto {
+  @ApiProperty({ example: 9120 })
+  healthy: number;
+
+  @ApiProperty({ example: 640 })
+  degraded: number;
+
+  @ApiProperty({
+    description: 'Includes vehicles with no correlated AC energy in the window',
+    example: 240,
+  })
+  critical: number;
+}
+
+export class FleetSummaryDto {
+  @ApiProperty({ example: '2026-02-08T00:00:00.000Z' })
+  periodStart: string;
+
+  @ApiProperty({ example: '2026-02-09T00:00:00.000Z' })
+  periodEnd: string;
+
+  @ApiProperty({
+    description: 'AC energy consumed by every meter in kWh (valid readings)',
+    example: 265000.5,
+  })
+  totalKwhConsumedAc: number;
+
+  @ApiProperty({
+    description: 'DC energy delivered to every vehicle in kWh (valid readings)',
+    example: 227900.43,
+  })
+  totalKwhDeliveredDc: number;
+
+  @ApiProperty({ description: 'Fleet DC / AC', example: 0.86 })
+  efficiencyRatio: number;
+
+  @ApiProperty({ description: 'Vehicles that reported in the window', example: 10000 })
+  vehicleCount: number;
+
+  @ApiProperty({ description: 'Meters that reported in the window', example: 10000 })
+  meterCount: number;
+
+  @ApiProperty({
+    description: 'Average battery temperature across valid readings, in Celsius',
+    example: 33.8,
+  })
+  avgBatteryTemp: number;
+
+  @ApiProperty({ description: 'Hottest battery reading, in Celsius', example: 58.4 })
+  maxBatteryTemp: number;
+
+  @ApiProperty({
+    description:
+      'Vehicles per health status, each judged by its own health policy',
+    type: HealthDistributionDto,
+  })
+  healthDistribution: HealthDistributionDto;
+
+  @ApiProperty({
+    description: 'Policy versions the distribution was derived from',
+    type: [AppliedHealthPolicyDto],
+  })
+  healthPolicies: AppliedHealthPolicyDto[];
+}
+
+export class VehicleRankingDto {
+  @ApiProperty({ example: 'VEHICLE_042' })
+  vehicleId: string;
+
+  @ApiProperty({ example: 82.1 })
+  totalKwhConsumedAc: number;
+
+  @ApiProperty({ example: 57.5 })
+  totalKwhDeliveredDc: number;
+
+  @ApiProperty({
+    description: '0 when no AC energy could be correlated',
+    example: 0.7004,
+  })
+  efficiencyRatio: number;
+
+  @ApiProperty({ example: 41.2 })
+  avgBatteryTemp: number;
+
+  @ApiProperty({ example: 58.4 })
+  maxBatteryTemp: number;
+
+  @ApiProperty({ example: 1440 })
+  readingCount: number;
+
+  @ApiProperty({ example: 2 })
+  anomalyCount: number;
+
+  @ApiProperty({ enum: ['healthy', 'degraded', 'critical'], example: 'critical' })
+  healthStatus: 'healthy' | 'degraded' | 'critical';
+
+  @ApiProperty({ type: [String], example: ['efficiency 0.7004 below 0.75'] })
+  healthReasons: string[];
+
+  @ApiProperty({ type: AppliedHealthPolicyDto })
+  healthPolicy: AppliedHealthPolicyDto;
+}
+
+export class ChargerRankingDto {
+  @ApiProperty({ example: 'METER_017' })
+  meterId: string;
+
+  @ApiProperty({ example: 96.3 })
+  totalKwhConsumedAc: number;
+
+  @ApiProperty({
+    description: 'DC energy delivered to the vehicles assigned to this meter',
+    example: 70.1,
+  })
+  totalKwhDeliveredDc: number;
+
+  @ApiProperty({ example: 0.7279 })
+  efficiencyRatio: number;
+
+  @ApiProperty({ example: 229.8 })
+  avgVoltage: number;
+
+  @ApiProperty({ example: 1440 })
+  readingCount: number;
+
+  @ApiProperty({ example: 0 })
+  anomalyCount: number;
+
+  @ApiProperty({ type: [String], example: ['VEHICLE_042'] })
+  vehicleIds: string[];
+}
+
+export class VehicleLeaderboardDto {
+  @ApiProperty({ example: '2026-02-08T00:00:00.000Z' })
+  periodStart: string;
+
+  @ApiProperty({ example: '2026-02-09T00:00:00.000Z' })
+  periodEnd: string;
+
+  @ApiProperty({ type: [VehicleRankingDto] })
+  items: VehicleRankingDto[];
+
+  @ApiProperty({
+    description: 'Pass as `cursor` to fetch the next page; null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
+
+export class ChargerLeaderboardDto {
+  @ApiProperty({ example: '2026-02-08T00:00:00.000Z' })
+  periodStart: string;
+
+  @ApiProperty({ example: '2026-02-09T00:00:00.000Z' })
+  periodEnd: string;
+
+  @ApiProperty({ type: [ChargerRankingDto] })
+  items: ChargerRankingDto[];
+
+  @ApiProperty({
+    description: 'Pass as `cursor` to fetch the next page; null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
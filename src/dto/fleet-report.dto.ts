@@ -0,0 +1,143 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class FleetReportQueryDto {
+  @ApiProperty({
+    description:
+      'First UTC day of the report, ISO 8601 (defaults to 29 days before `to`)',
+    example: '2026-01-11',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description:
+      'Last UTC day of the report, inclusive, ISO 8601 (defaults to today)',
+    example: '2026-02-09',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class FleetDayDto {
+  @ApiProperty({ description: 'UTC day', example: '2026-02-09' })
+  date: string;
+
+  @ApiProperty({
+    description:
+      'rollup: read from the daily rollup views; live: aggregated from raw history because the rollups do not cover the day yet',
+    enum: ['rollup', 'live'],
+    example: 'rollup',
+  })
+  source: 'rollup' | 'live';
+
+  @ApiProperty({
+    description: 'AC energy consumed by all meters in kWh',
+    example: 2450.125,
+  })
+  totalKwhConsumedAc: number;
+
+  @ApiProperty({
+    description: 'DC energy delivered to all vehicles in kWh',
+    example: 2107.108,
+  })
+  totalKwhDeliveredDc: number;
+
+  @ApiProperty({
+    description: 'Fleet efficiency ratio (DC/AC) for the day',
+    example: 0.86,
+  })
+  efficiencyRatio: number;
+
+  @ApiProperty({
+    description: 'Number of valid vehicle readings',
+    example: 14400,
+  })
+  vehicleReadingCount: number;
+
+  @ApiProperty({
+    description: 'Number of valid meter readings',
+    example: 14400,
+  })
+  meterReadingCount: number;
+
+  @ApiProperty({
+    description: 'Number of meter and vehicle readings flagged as anomalies',
+    example: 12,
+  })
+  anomalyCount: number;
+
+  @ApiProperty({ description: 'Vehicles that reported', example: 10 })
+  activeVehicles: number;
+
+  @ApiProperty({ description: 'Meters that reported', example: 10 })
+  activeMeters: number;
+}
+
+export class FleetReportDto {
+  @ApiProperty({
+    description: 'Start of the first reported day',
+    example: '2026-01-11T00:00:00.000Z',
+  })
+  periodStart: string;
+
+  @ApiProperty({
+    description: 'End of the report (exclusive; now when the report includes today)',
+    example: '2026-02-09T10:30:00.000Z',
+  })
+  periodEnd: string;
+
+  @ApiProperty({
+    description:
+      'Days before this one were read from the rollups; null when the rollups have never been refreshed',
+    example: '2026-02-09',
+    nullable: true,
+  })
+  rollupCoveredUntil: string | null;
+
+  @ApiProperty({
+    description: 'AC energy consumed by all meters in kWh',
+    example: 73503.75,
+  })
+  totalKwhConsumedAc: number;
+
+  @ApiProperty({
+    description: 'DC energy delivered to all vehicles in kWh',
+    example: 63213.24,
+  })
+  totalKwhDeliveredDc: number;
+
+  @ApiProperty({
+    description: 'Fleet efficiency ratio (DC/AC) over the period',
+    example: 0.86,
+  })
+  efficiencyRatio: number;
+
+  @ApiProperty({
+    description: 'Number of valid vehicle readings',
+    example: 432000,
+  })
+  vehicleReadingCount: number;
+
+  @ApiProperty({
+    description: 'Number of valid meter readings',
+    example: 432000,
+  })
+  meterReadingCount: number;
+
+  @ApiProperty({
+    description: 'Number of meter and vehicle readings flagged as anomalies',
+    example: 310,
+  })
+  anomalyCount: number;
+
+  @ApiProperty({
+    description: 'One entry per UTC day, oldest first; days without data are included',
+    type: [FleetDayDto],
+  })
+  days: FleetDayDto[];
+}
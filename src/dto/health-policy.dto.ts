@@ -0,0 +1,185 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+// Profile names appear in URLs, so keep them to a safe character set
+export const HEALTH_PROFILE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+
+export class CreateHealthPolicyDto {
+  @ApiProperty({
+    description: 'Efficiency (DC/AC) at or above which a vehicle is healthy',
+    example: 0.85,
+  })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  @Max(1)
+  healthyEfficiency: number;
+
+  @ApiProperty({
+    description:
+      'Efficiency at or above which a vehicle is degraded; below it is critical',
+    example: 0.75,
+  })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  @Max(1)
+  degradedEfficiency: number;
+
+  @ApiProperty({
+    description:
+      'Average battery temperature in Celsius at or above which a vehicle is degraded (omit to ignore temperature)',
+    example: 40,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(-50)
+  @Max(150)
+  degradedBatteryTemp?: number;
+
+  @ApiProperty({
+    description:
+      'Average battery temperature in Celsius at or above which a vehicle is critical',
+    example: 45,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(-50)
+  @Max(150)
+  criticalBatteryTemp?: number;
+
+  @ApiProperty({
+    description:
+      'Percentage of expected readings received below which a vehicle is degraded (omit to ignore completeness)',
+    example: 95,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  degradedCompletenessPct?: number;
+
+  @ApiProperty({
+    description:
+      'Percentage of expected readings received below which a vehicle is critical',
+    example: 80,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  criticalCompletenessPct?: number;
+
+  @ApiProperty({
+    description: 'Why this version was introduced',
+    example: 'Model X batteries run hotter; tighten temperature limits',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    description:
+      'When the version takes effect, in ISO 8601 format (defaults to now; cannot be in the past)',
+    example: '2026-03-01T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+}
+
+export class HealthPolicyQueryDto {
+  @ApiProperty({
+    description: 'Only list versions of this profile',
+    example: 'default',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  profile?: string;
+}
+
+export class SetVehicleHealthProfileDto {
+  @ApiProperty({
+    description: 'Profile the vehicle is judged by; it must have a version',
+    example: 'model-x',
+  })
+  @Matches(HEALTH_PROFILE_PATTERN)
+  profile: string;
+}
+
+export class HealthPolicyDto {
+  @ApiProperty({ example: 'default' })
+  profile: string;
+
+  @ApiProperty({ example: 2 })
+  version: number;
+
+  @ApiProperty({ example: 0.85 })
+  healthyEfficiency: number;
+
+  @ApiProperty({ example: 0.75 })
+  degradedEfficiency: number;
+
+  @ApiProperty({ example: 40, nullable: true })
+  degradedBatteryTemp: number | null;
+
+  @ApiProperty({ example: 45, nullable: true })
+  criticalBatteryTemp: number | null;
+
+  @ApiProperty({ example: 95, nullable: true })
+  degradedCompletenessPct: number | null;
+
+  @ApiProperty({ example: 80, nullable: true })
+  criticalCompletenessPct: number | null;
+
+  @ApiProperty({ example: 'Add temperature limits', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: '2026-03-01T00:00:00.000Z' })
+  effectiveFrom: string;
+
+  @ApiProperty({ example: '2026-02-20T09:12:44.000Z' })
+  createdAt: string;
+}
+
+export class VehicleHealthProfileDto {
+  @ApiProperty({ example: 'VEHICLE_001' })
+  vehicleId: string;
+
+  @ApiProperty({ example: 'model-x' })
+  profile: string;
+
+  @ApiProperty({
+    description:
+      'False when the vehicle has no explicit profile and `default` applies',
+    example: true,
+  })
+  configured: boolean;
+}
+
+/**
+ * The policy version a health status was derived from. Passing it back as
+ * `healthProfile` / `healthPolicyVersion` reproduces the same status.
+ */
+export class AppliedHealthPolicyDto {
+  @ApiProperty({ example: 'default' })
+  profile: string;
+
+  @ApiProperty({ example: 1 })
+  version: number;
+}
@@ -0,0 +1,96 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class IngestQueueDrainStatsDto {
+  @ApiProperty({ description: 'Drained batches', example: 1250 })
+  batches: number;
+
+  @ApiProperty({ description: 'Readings handed to ingestion', example: 48210 })
+  readings: number;
+
+  @ApiProperty({ example: 47902 })
+  accepted: number;
+
+  @ApiProperty({ example: 120 })
+  duplicates: number;
+
+  @ApiProperty({ example: 180 })
+  stale: number;
+
+  @ApiProperty({
+    description:
+      'Readings refused when drained, e.g. for an unregistered device or one of another tenant; see the log for reasons',
+    example: 8,
+  })
+  rejected: number;
+
+  @ApiProperty({ example: 0 })
+  quarantined: number;
+
+  @ApiProperty({
+    description: 'Batches that failed and were put back for a retry',
+    example: 2,
+  })
+  failed: number;
+
+  @ApiProperty({
+    description: 'When this instance last wrote a batch',
+    example: '2026-02-09T10:30:01.204Z',
+    nullable: true,
+  })
+  lastDrainedAt: string | null;
+}
+
+export class IngestQueueStatsDto {
+  @ApiProperty({
+    description: 'False when ingestion writes synchronously',
+    example: true,
+  })
+  enabled: boolean;
+
+  @ApiProperty({ description: 'Readings waiting to be written', example: 3200 })
+  depth: number;
+
+  @ApiProperty({ description: 'Queued requests holding them', example: 41 })
+  requests: number;
+
+  @ApiProperty({
+    description: 'Queued requests whose last write failed',
+    example: 0,
+  })
+  retrying: number;
+
+  @ApiProperty({
+    description: 'Readings above which new requests get 503 (0 for no limit)',
+    example: 1000000,
+  })
+  maxDepth: number;
+
+  @ApiProperty({
+    description: 'When the oldest waiting request was accepted',
+    example: '2026-02-09T10:29:58.730Z',
+    nullable: true,
+  })
+  oldestEnqueuedAt: string | null;
+
+  @ApiProperty({
+    description: 'Age of the oldest waiting request, 0 when the queue is empty',
+    example: 2.47,
+  })
+  lagSeconds: number;
+
+  @ApiProperty({
+    description: 'Most recent write error among waiting requests',
+    example: null,
+    nullable: true,
+  })
+  lastError: string | null;
+
+  @ApiProperty({ description: 'Drain workers on this instance', example: 2 })
+  workers: number;
+
+  @ApiProperty({
+    description: 'What this instance has drained since it started',
+    type: IngestQueueDrainStatsDto,
+  })
+  drained: IngestQueueDrainStatsDto;
+}
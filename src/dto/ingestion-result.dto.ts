@@ -0,0 +1,145 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class IngestionResultDto {
+  @ApiProperty({
+    description:
+      'accepted: processed; quarantined: held back because the device is not registered (see DEVICE_UNKNOWN_POLICY); queued: stored in the ingest queue and written shortly (see INGEST_QUEUE_ENABLED)',
+    enum: ['accepted', 'quarantined', 'queued'],
+    example: 'accepted',
+  })
+  status: 'accepted' | 'quarantined' | 'queued';
+
+  @ApiProperty({
+    description:
+      'True when this (device, timestamp) reading was already stored; nothing was written',
+    example: false,
+  })
+  duplicate: boolean;
+
+  @ApiProperty({
+    description:
+      'True when the reading is not newer than the device\'s live status; it is stored in history but does not update the dashboard',
+    example: false,
+  })
+  stale: boolean;
+
+  @ApiProperty({
+    description:
+      'Anomaly rules the reading failed; it is stored with status `anomaly` and left out of analytics totals',
+    example: ['voltage-band: voltage 190 V outside nominal band 207-253 V'],
+    required: false,
+    type: [String],
+  })
+  anomalies?: string[];
+}
+
+export enum ReadingOutcome {
+  ACCEPTED = 'accepted',
+  DUPLICATE = 'duplicate',
+  STALE = 'stale',
+  REJECTED = 'rejected',
+  QUARANTINED = 'quarantined',
+  QUEUED = 'queued',
+}
+
+export class ReadingResultDto {
+  @ApiProperty({
+    description: 'Position of the reading in the submitted `readings` array',
+    example: 7,
+  })
+  index: number;
+
+  @ApiProperty({
+    description:
+      'accepted: stored and applied to live status; duplicate: already stored; stale: stored in history only; rejected: not stored; quarantined: held back until its device is registered; queued: valid and waiting in the ingest queue',
+    enum: ReadingOutcome,
+    example: ReadingOutcome.REJECTED,
+  })
+  status: ReadingOutcome;
+
+  @ApiProperty({
+    description: 'Why the reading was rejected',
+    example: 'voltage must not be less than 0',
+    required: false,
+  })
+  reason?: string;
+
+  @ApiProperty({
+    description:
+      'Anomaly rules a stored reading failed; it is kept with status `anomaly` and left out of analytics totals',
+    example: ['soc-jump: SoC changed by 40.00% in 1.0 min (max 5.00%)'],
+    required: false,
+    type: [String],
+  })
+  anomalies?: string[];
+}
+
+export class BatchIngestionResultDto {
+  @ApiProperty({
+    description:
+      'accepted: no reading was rejected; partial: some were; rejected: all were',
+    enum: ['accepted', 'partial', 'rejected'],
+    example: 'partial',
+  })
+  status: 'accepted' | 'partial' | 'rejected';
+
+  @ApiProperty({
+    description: 'Number of readings received',
+    example: 1000,
+  })
+  count: number;
+
+  @ApiProperty({
+    description: 'Number of readings stored and applied to live status',
+    example: 990,
+  })
+  accepted: number;
+
+  @ApiProperty({
+    description:
+      'Number of readings already stored for the same (device, timestamp), including repeats within this batch',
+    example: 3,
+  })
+  duplicates: number;
+
+  @ApiProperty({
+    description:
+      'Number of readings not newer than their device\'s live status (stored in history only)',
+    example: 2,
+  })
+  stale: number;
+
+  @ApiProperty({
+    description:
+      'Number of readings not stored; resubmitting exactly these is safe',
+    example: 5,
+  })
+  rejected: number;
+
+  @ApiProperty({
+    description:
+      'Number of readings held back because their device is not registered',
+    example: 0,
+  })
+  quarantined: number;
+
+  @ApiProperty({
+    description:
+      'Number of valid readings waiting in the ingest queue; their outcome is not reported back',
+    example: 0,
+  })
+  queued: number;
+
+  @ApiProperty({
+    description:
+      'Number of stored readings flagged by the anomaly rules (see `anomalies` on each result)',
+    example: 4,
+  })
+  anomalies: number;
+
+  @ApiProperty({
+    description: 'Outcome of every reading, in submission order',
+    type: [ReadingResultDto],
+  })
+  results: ReadingResultDto[];
+}
@@ -0,0 +1,117 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { TelemetryStatus } from '../entities/current-meter-status.entity';
+import { MeterStatusDto, VehicleStatusDto } from './live-status.dto';
+
+// Why the server ended a stream; the client resumes from its last cursor
+export enum LiveFeedCloseReason {
+  // The client read slower than updates arrived for too many devices
+  OVERFLOW = 'overflow',
+  // Replaying missed updates failed
+  ERROR = 'error',
+}
+
+export class LiveFeedQueryDto {
+  @ApiProperty({
+    description: 'Only meters or only vehicles (default both)',
+    enum: DeviceType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(DeviceType)
+  deviceType?: DeviceType;
+
+  @ApiProperty({
+    description: 'Only these devices, comma-separated in a query string',
+    example: 'VEHICLE_001,VEHICLE_002',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  deviceIds?: string[];
+
+  @ApiProperty({
+    description: 'Only updates leaving the device in this status',
+    enum: TelemetryStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(TelemetryStatus)
+  status?: TelemetryStatus;
+
+  @ApiProperty({
+    description: 'Minimum state of charge (%), inclusive; meters are left out',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  socMin?: number;
+
+  @ApiProperty({
+    description: 'Maximum state of charge (%), inclusive; meters are left out',
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  socMax?: number;
+
+  @ApiProperty({
+    description:
+      'Cursor of the last update received; updates since then are replayed first. SSE clients send it as Last-Event-ID instead',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class LiveTelemetryEventDto {
+  @ApiProperty({
+    description: 'Resume point: pass back as `cursor` (or Last-Event-ID) after reconnecting',
+    example: 'eyJzb3J0Ijoic3RyZWFtIiwidmFsdWUiOiIyMDI2LTAyLTA5VDEwOjMwOjAwLjEyMzQ1NiswMDowMCIsImlkIjoidmVoaWNsZTpWRUhJQ0xFXzAwMSJ9',
+  })
+  cursor: string;
+
+  @ApiProperty({ enum: DeviceType, example: DeviceType.VEHICLE })
+  deviceType: DeviceType;
+
+  @ApiProperty({ example: 'VEHICLE_001' })
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Live status of the device after the update',
+    oneOf: [
+      { $ref: '#/components/schemas/MeterStatusDto' },
+      { $ref: '#/components/schemas/VehicleStatusDto' },
+    ],
+  })
+  state: MeterStatusDto | VehicleStatusDto;
+}
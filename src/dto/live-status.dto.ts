@@ -0,0 +1,193 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TelemetryStatus } from '../entities/current-meter-status.entity';
+
+export enum StatusSortField {
+  ID = 'id',
+  LAST_UPDATE = 'lastUpdate',
+  SOC = 'soc',
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+export class MeterStatusQueryDto {
+  @ApiProperty({
+    description: 'Only devices whose live status is this',
+    enum: TelemetryStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(TelemetryStatus)
+  status?: TelemetryStatus;
+
+  @ApiProperty({
+    description: 'Only devices whose latest reading is older than this instant',
+    example: '2026-02-09T10:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  staleSince?: string;
+
+  @ApiProperty({
+    description: 'Sort key (`soc` is only valid for vehicles)',
+    enum: StatusSortField,
+    default: StatusSortField.ID,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(StatusSortField)
+  sort?: StatusSortField;
+
+  @ApiProperty({
+    enum: SortOrder,
+    default: SortOrder.ASC,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  order?: SortOrder;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 50,
+    default: 50,
+    minimum: 1,
+    maximum: 500,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @ApiProperty({
+    description: '`nextCursor` of the previous page, with the same filters and sort',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class VehicleStatusQueryDto extends MeterStatusQueryDto {
+  @ApiProperty({
+    description: 'Minimum state of charge (%), inclusive',
+    example: 0,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  socMin?: number;
+
+  @ApiProperty({
+    description: 'Maximum state of charge (%), inclusive',
+    example: 20,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  socMax?: number;
+}
+
+export class MeterStatusDto {
+  @ApiProperty({ example: 'METER_001' })
+  meterId: string;
+
+  @ApiProperty({ description: 'Latest AC register reading in kWh', example: 1250.5 })
+  kwhConsumedAc: number;
+
+  @ApiProperty({ example: 230.5 })
+  voltage: number;
+
+  @ApiProperty({
+    description: 'Timestamp of the latest reading',
+    example: '2026-02-09T10:30:00.000Z',
+  })
+  lastUpdateTimestamp: string;
+
+  @ApiProperty({
+    description: '`missing` once the gap detection job has marked the device offline',
+    enum: TelemetryStatus,
+    example: TelemetryStatus.VALID,
+  })
+  status: TelemetryStatus;
+
+  @ApiProperty({ nullable: true, example: null })
+  anomalyReason: string | null;
+}
+
+export class VehicleStatusDto {
+  @ApiProperty({ example: 'VEHICLE_001' })
+  vehicleId: string;
+
+  @ApiProperty({ description: 'State of charge (%)', example: 75.5 })
+  soc: number;
+
+  @ApiProperty({ description: 'Latest DC register reading in kWh', example: 1062.925 })
+  kwhDeliveredDc: number;
+
+  @ApiProperty({ nullable: true, example: 35.2 })
+  batteryTemp: number | null;
+
+  @ApiProperty({
+    description: 'Timestamp of the latest reading',
+    example: '2026-02-09T10:30:00.000Z',
+  })
+  lastUpdateTimestamp: string;
+
+  @ApiProperty({
+    description: '`missing` once the gap detection job has marked the device offline',
+    enum: TelemetryStatus,
+    example: TelemetryStatus.VALID,
+  })
+  status: TelemetryStatus;
+
+  @ApiProperty({ nullable: true, example: null })
+  anomalyReason: string | null;
+}
+
+export class MeterStatusPageDto {
+  @ApiProperty({ type: [MeterStatusDto] })
+  items: MeterStatusDto[];
+
+  @ApiProperty({
+    description: 'Pass as `cursor` to fetch the next page; null on the last page',
+    nullable: true,
+    example: 'eyJzb3J0IjoiaWQiLCJ2YWx1ZSI6Ik1FVEVSXzA1MCIsImlkIjoiTUVURVJfMDUwIn0',
+  })
+  nextCursor: string | null;
+}
+
+export class VehicleStatusPageDto {
+  @ApiProperty({ type: [VehicleStatusDto] })
+  items: VehicleStatusDto[];
+
+  @ApiProperty({
+    description: 'Pass as `cursor` to fetch the next page; null on the last page',
+    nullable: true,
+    example: 'eyJzb3J0Ijoic29jOmFzYyIsInZhbHVlIjoxMi41LCJpZCI6IlZFSElDTEVfMDA3In0',
+  })
+  nextCursor: string | null;
+}
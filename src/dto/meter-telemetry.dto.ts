@@ -1,6 +1,5 @@
-import { IsString, IsNumber, IsDateString, Min, IsNotEmpty, IsArray, ValidateNested } from 'class-validator';
+import { IsString, IsNumber, IsDateString, Min, IsNotEmpty, IsArray } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { Type } from 'class-transformer';
 
 export class MeterTelemetryDto {
   @ApiProperty({
@@ -39,11 +38,10 @@ export class MeterTelemetryDto {
 
 export class MeterTelemetryBatchDto {
   @ApiProperty({
-    description: 'Array of meter telemetry readings',
+    description:
+      'Array of meter telemetry readings; each is validated individually and invalid ones are rejected without failing the batch',
     type: [MeterTelemetryDto],
   })
   @IsArray()
-  @ValidateNested({ each: true })
-  @Type(() => MeterTelemetryDto)
-  readings: MeterTelemetryDto[];
-}
\ No newline at end of file
+  readings: unknown[];
+}
@@ -0,0 +1,136 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/*
+ * Payloads of the OCPP 1.6J calls the central system reads, field for
+ * field as the specification defines them. Validation rejects unknown
+ * fields, so every optional field a charger may send is listed even when
+ * it is ignored.
+ */
+
+export class OcppSampledValueDto {
+  // Decimal number as a string, e.g. "12345.6"
+  @IsString()
+  value: string;
+
+  @IsOptional()
+  @IsString()
+  context?: string;
+
+  @IsOptional()
+  @IsString()
+  format?: string;
+
+  // Energy.Active.Import.Register when absent
+  @IsOptional()
+  @IsString()
+  measurand?: string;
+
+  @IsOptional()
+  @IsString()
+  phase?: string;
+
+  // Outlet when absent
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @IsOptional()
+  @IsString()
+  unit?: string;
+}
+
+export class OcppMeterValueDto {
+  @IsDateString()
+  timestamp: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => OcppSampledValueDto)
+  sampledValue: OcppSampledValueDto[];
+}
+
+export class OcppAuthorizeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  idTag: string;
+}
+
+export class OcppStartTransactionDto {
+  @IsInt()
+  @Min(1)
+  connectorId: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  idTag: string;
+
+  // Energy register of the connector in Wh
+  @IsInt()
+  meterStart: number;
+
+  @IsOptional()
+  @IsInt()
+  reservationId?: number;
+
+  @IsDateString()
+  timestamp: string;
+}
+
+export class OcppStopTransactionDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  idTag?: string;
+
+  // Energy register of the connector in Wh
+  @IsInt()
+  meterStop: number;
+
+  @IsDateString()
+  timestamp: string;
+
+  @IsInt()
+  transactionId: number;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => OcppMeterValueDto)
+  transactionData?: OcppMeterValueDto[];
+}
+
+export class OcppMeterValuesDto {
+  // 0 stands for the main meter of the whole charge point
+  @IsInt()
+  @Min(0)
+  connectorId: number;
+
+  @IsOptional()
+  @IsInt()
+  transactionId?: number;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => OcppMeterValueDto)
+  meterValue: OcppMeterValueDto[];
+}
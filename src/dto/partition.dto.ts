@@ -0,0 +1,103 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export enum RetentionAction {
+  DETACH = 'detach',
+  DROP = 'drop',
+  ARCHIVE = 'archive',
+}
+
+export class PartitionQueryDto {
+  @ApiProperty({
+    description:
+      'Count the rows of every partition instead of using planner estimates (slow on large tables)',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  exact?: boolean;
+}
+
+export class PartitionDto {
+  @ApiProperty({
+    description: 'Partitioned history table',
+    example: 'vehicle_telemetry_history',
+  })
+  table: string;
+
+  @ApiProperty({
+    description: 'Partition name',
+    example: 'vehicle_telemetry_history_2026_02_09',
+  })
+  partition: string;
+
+  @ApiProperty({
+    description: 'Start of the partition range (inclusive); null for the DEFAULT partition',
+    example: '2026-02-09T00:00:00.000Z',
+    nullable: true,
+  })
+  rangeFrom: string | null;
+
+  @ApiProperty({
+    description: 'End of the partition range (exclusive); null for the DEFAULT partition',
+    example: '2026-02-10T00:00:00.000Z',
+    nullable: true,
+  })
+  rangeTo: string | null;
+
+  @ApiProperty({
+    description: 'True for the DEFAULT partition catching readings outside every range',
+    example: false,
+  })
+  isDefault: boolean;
+
+  @ApiProperty({
+    description: 'Rows in the partition (a planner estimate unless rowCountExact)',
+    example: 14400000,
+  })
+  rowCount: number;
+
+  @ApiProperty({
+    description: 'True when rowCount was counted rather than estimated',
+    example: false,
+  })
+  rowCountExact: boolean;
+
+  @ApiProperty({
+    description: 'Size on disk including indexes, in bytes',
+    example: 2160000000,
+  })
+  sizeBytes: number;
+}
+
+export class PartitionMaintenanceResultDto {
+  @ApiProperty({
+    description: 'True when another instance was already running maintenance',
+    example: false,
+  })
+  skipped: boolean;
+
+  @ApiProperty({
+    description: 'Partitions created by this run',
+    example: ['vehicle_telemetry_history_2026_02_16'],
+    type: [String],
+  })
+  created: string[];
+
+  @ApiProperty({
+    description: 'Partitions past the retention period handled by this run',
+    example: ['vehicle_telemetry_history_2025_11_10'],
+    type: [String],
+  })
+  retired: string[];
+
+  @ApiProperty({
+    description: 'What happened to retired partitions',
+    enum: RetentionAction,
+    example: RetentionAction.DETACH,
+  })
+  retentionAction: RetentionAction;
+}
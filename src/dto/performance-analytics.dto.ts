@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { AppliedHealthPolicyDto } from './health-policy.dto';
 
 export class PerformanceAnalyticsDto {
   @ApiProperty({
@@ -44,15 +45,155 @@ export class PerformanceAnalyticsDto {
   avgBatteryTemp: number;
 
   @ApiProperty({
-    description: 'Number of telemetry readings in period',
+    description: 'Number of valid telemetry readings in period',
     example: 1440,
   })
   readingCount: number;
 
   @ApiProperty({
-    description: 'Health status based on efficiency',
+    description:
+      'Number of vehicle readings flagged as anomalies (excluded from the totals above)',
+    example: 3,
+  })
+  anomalyCount: number;
+
+  @ApiProperty({
+    description:
+      'AC energy carried by anomalous meter readings in kWh (not in totalKwhConsumedAc)',
+    example: 0.412,
+  })
+  anomalousKwhConsumedAc: number;
+
+  @ApiProperty({
+    description:
+      'DC energy carried by anomalous vehicle readings in kWh (not in totalKwhDeliveredDc)',
+    example: 0.35,
+  })
+  anomalousKwhDeliveredDc: number;
+
+  @ApiProperty({
+    description: 'Meters the vehicle was assigned to during the period',
+    example: ['METER_001'],
+    type: [String],
+  })
+  meterIds: string[];
+
+  @ApiProperty({
+    description:
+      'Percentage of the readings expected at EXPECTED_REPORT_INTERVAL_SECONDS that arrived in the window',
+    example: 99.72,
+  })
+  completenessPct: number;
+
+  @ApiProperty({
+    description:
+      'Health status from the applied policy: the worst of its efficiency, battery temperature and completeness checks',
     example: 'healthy',
     enum: ['healthy', 'degraded', 'critical'],
   })
   healthStatus: 'healthy' | 'degraded' | 'critical';
+
+  @ApiProperty({
+    description: 'Thresholds that pulled the status below healthy',
+    example: [],
+    type: [String],
+  })
+  healthReasons: string[];
+
+  @ApiProperty({
+    description: 'Policy version the health status was derived from',
+    type: AppliedHealthPolicyDto,
+  })
+  healthPolicy: AppliedHealthPolicyDto;
+}
+
+export class PerformancePointDto {
+  @ApiProperty({
+    description: 'Bucket start time (inclusive)',
+    example: '2026-02-09T10:00:00.000Z',
+  })
+  bucketStart: string;
+
+  @ApiProperty({
+    description: 'Bucket end time (exclusive)',
+    example: '2026-02-09T11:00:00.000Z',
+  })
+  bucketEnd: string;
+
+  @ApiProperty({
+    description: 'AC energy consumed from grid in kWh during the bucket',
+    example: 5.227,
+  })
+  totalKwhConsumedAc: number;
+
+  @ApiProperty({
+    description: 'DC energy delivered to battery in kWh during the bucket',
+    example: 4.443,
+  })
+  totalKwhDeliveredDc: number;
+
+  @ApiProperty({
+    description: 'Energy conversion efficiency ratio (DC/AC) for the bucket',
+    example: 0.85,
+  })
+  efficiencyRatio: number;
+
+  @ApiProperty({
+    description: 'Average battery temperature in Celsius during the bucket',
+    example: 35.2,
+  })
+  avgBatteryTemp: number;
+
+  @ApiProperty({
+    description: 'Number of valid vehicle telemetry readings in the bucket',
+    example: 60,
+  })
+  readingCount: number;
+
+  @ApiProperty({
+    description:
+      'Number of vehicle readings in the bucket flagged as anomalies (excluded from its totals)',
+    example: 0,
+  })
+  anomalyCount: number;
+}
+
+export class PerformanceTimeSeriesDto {
+  @ApiProperty({
+    description: 'Vehicle identifier',
+    example: 'VEHICLE_001',
+  })
+  vehicleId: string;
+
+  @ApiProperty({
+    description: 'Requested window start time',
+    example: '2026-02-02T00:00:00.000Z',
+  })
+  periodStart: string;
+
+  @ApiProperty({
+    description: 'Requested window end time (exclusive)',
+    example: '2026-02-09T00:00:00.000Z',
+  })
+  periodEnd: string;
+
+  @ApiProperty({
+    description: 'Bucket resolution',
+    example: '1h',
+    enum: ['15m', '1h', '1d'],
+  })
+  bucket: string;
+
+  @ApiProperty({
+    description: 'Meters the vehicle was assigned to during the window',
+    example: ['METER_001'],
+    type: [String],
+  })
+  meterIds: string[];
+
+  @ApiProperty({
+    description: 'One point per bucket, oldest first; empty buckets are included',
+    type: [PerformancePointDto],
+  })
+  points: PerformancePointDto[];
 }
@@ -0,0 +1,71 @@
+import {
+  IsDateString,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  IsString,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum PerformanceBucket {
+  FIFTEEN_MINUTES = '15m',
+  ONE_HOUR = '1h',
+  ONE_DAY = '1d',
+}
+
+export class PerformanceQueryDto {
+  @ApiProperty({
+    description:
+      'Start of the analysis window in ISO 8601 format (defaults to 24 hours before `to`)',
+    example: '2026-02-02T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description:
+      'End of the analysis window in ISO 8601 format, exclusive (defaults to now)',
+    example: '2026-02-09T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({
+    description:
+      'Return a time series bucketed at this resolution instead of a single summary',
+    enum: PerformanceBucket,
+    required: false,
+    example: PerformanceBucket.ONE_HOUR,
+  })
+  @IsOptional()
+  @IsEnum(PerformanceBucket)
+  bucket?: PerformanceBucket;
+
+  @ApiProperty({
+    description:
+      'Judge health by this policy profile instead of the vehicle\'s own (use with `healthPolicyVersion` to reproduce an earlier report)',
+    example: 'default',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  healthProfile?: string;
+
+  @ApiProperty({
+    description:
+      'Judge health by this version of the profile instead of the one in effect at the end of the window',
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  healthPolicyVersion?: number;
+}
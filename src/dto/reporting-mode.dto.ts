@@ -0,0 +1,63 @@
+import { IsEnum, IsNumber, IsOptional, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  DeviceType,
+  ReportingMode,
+} from '../entities/device-reporting-mode.entity';
+
+export class SetReportingModeDto {
+  @ApiProperty({
+    description:
+      'cumulative: the energy field is a lifetime register; interval: it is the energy since the previous reading',
+    enum: ReportingMode,
+    example: ReportingMode.CUMULATIVE,
+  })
+  @IsEnum(ReportingMode)
+  mode: ReportingMode;
+
+  @ApiProperty({
+    description:
+      'Highest value the register shows before wrapping to zero (cumulative mode only; defaults to 9999999.999)',
+    example: 99999.999,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @Min(0.001)
+  registerMax?: number;
+}
+
+export class ReportingModeQueryDto {
+  @ApiProperty({
+    description: 'Only return modes configured for this device type',
+    enum: DeviceType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(DeviceType)
+  deviceType?: DeviceType;
+}
+
+export class ReportingModeDto {
+  @ApiProperty({ enum: DeviceType, example: DeviceType.METER })
+  deviceType: DeviceType;
+
+  @ApiProperty({ example: 'METER_001' })
+  deviceId: string;
+
+  @ApiProperty({ enum: ReportingMode, example: ReportingMode.CUMULATIVE })
+  mode: ReportingMode;
+
+  @ApiProperty({
+    description: 'Register wrap-around value used for rollover detection',
+    example: 9999999.999,
+  })
+  registerMax: number;
+
+  @ApiProperty({
+    description:
+      'False when the device has no explicit row and the configured default applies',
+    example: true,
+  })
+  configured: boolean;
+}
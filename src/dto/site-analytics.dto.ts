@@ -0,0 +1,86 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SiteEnergyDto {
+  @ApiProperty({ example: 'depot-north' })
+  siteId: string;
+
+  @ApiProperty({ example: 'North Depot' })
+  name: string;
+
+  @ApiProperty({ example: 'region-north', nullable: true })
+  parentId: string | null;
+
+  @ApiProperty({
+    description: 'AC energy drawn by the meters of the site and its sub-sites',
+    example: 5120.4,
+  })
+  totalKwhConsumedAc: number;
+
+  @ApiProperty({
+    description:
+      'DC energy delivered to the vehicles attached to those meters while they were attached',
+    example: 4505.95,
+  })
+  totalKwhDeliveredDc: number;
+
+  @ApiProperty({
+    description: 'DC delivered / AC consumed; 0 when no AC was consumed',
+    example: 0.88,
+  })
+  efficiencyRatio: number;
+
+  @ApiProperty({
+    description:
+      'Highest AC demand of the whole site over a 15-minute interval, in kW',
+    example: 412.8,
+  })
+  peakDemandKw: number;
+
+  @ApiProperty({
+    description: 'Start of the 15-minute interval with the peak demand',
+    example: '2026-02-08T18:15:00.000Z',
+    nullable: true,
+  })
+  peakDemandAt: string | null;
+
+  @ApiProperty({
+    description: 'Meters of the site that reported in the window',
+    example: 24,
+  })
+  meterCount: number;
+
+  @ApiProperty({
+    description: 'Registered vehicles based at the site or its sub-sites',
+    example: 60,
+  })
+  vehicleCount: number;
+}
+
+export class SiteEnergyListDto {
+  @ApiProperty({ example: '2026-02-08T00:00:00.000Z' })
+  periodStart: string;
+
+  @ApiProperty({ example: '2026-02-09T00:00:00.000Z' })
+  periodEnd: string;
+
+  @ApiProperty({
+    description:
+      'Every site, ordered by ID; each includes the devices of its sub-sites',
+    type: [SiteEnergyDto],
+  })
+  items: SiteEnergyDto[];
+}
+
+export class SiteEnergyReportDto extends SiteEnergyDto {
+  @ApiProperty({ example: '2026-02-08T00:00:00.000Z' })
+  periodStart: string;
+
+  @ApiProperty({ example: '2026-02-09T00:00:00.000Z' })
+  periodEnd: string;
+
+  @ApiProperty({
+    description: 'The same figures for each direct sub-site',
+    type: [SiteEnergyDto],
+  })
+  children: SiteEnergyDto[];
+}
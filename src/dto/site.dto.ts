@@ -0,0 +1,119 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+export class CreateSiteDto {
+  @ApiProperty({
+    description: 'Lowercase letters, digits, dashes and underscores',
+    example: 'depot-north',
+  })
+  @IsString()
+  @MaxLength(100)
+  @Matches(/^[a-z0-9][a-z0-9_-]*$/, {
+    message:
+      'id must start with a lowercase letter or digit and contain only lowercase letters, digits, dashes and underscores',
+  })
+  id: string;
+
+  @ApiProperty({ example: 'North Depot' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({
+    description: 'Site this one belongs to, e.g. the region of a depot',
+    example: 'region-north',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  parentId?: string;
+}
+
+export class UpdateSiteDto {
+  @ApiProperty({ example: 'North Depot', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name?: string;
+
+  @ApiProperty({
+    description: 'Site this one belongs to; null makes it top-level',
+    example: 'region-north',
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  parentId?: string | null;
+}
+
+export class SiteDto {
+  @ApiProperty({ example: 'depot-north' })
+  id: string;
+
+  @ApiProperty({ example: 'North Depot' })
+  name: string;
+
+  @ApiProperty({ example: 'region-north', nullable: true })
+  parentId: string | null;
+
+  @ApiProperty({ example: '2026-02-01T09:00:00.000Z' })
+  createdAt: string;
+
+  @ApiProperty({ example: '2026-02-01T09:00:00.000Z' })
+  updatedAt: string;
+}
+
+export class AssignSiteDevicesDto {
+  @ApiProperty({
+    enum: DeviceType,
+    description:
+      'Meters are installed at the site; vehicles get it as their home depot',
+    example: DeviceType.VEHICLE,
+  })
+  @IsEnum(DeviceType)
+  deviceType: DeviceType;
+
+  @ApiProperty({
+    type: [String],
+    example: ['VEHICLE_001', 'VEHICLE_002'],
+    maxItems: 1000,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  deviceIds: string[];
+}
+
+export class SiteDeviceAssignmentDto {
+  @ApiProperty({
+    description: 'Devices now at the site, including those already there',
+    example: 2,
+  })
+  assigned: number;
+
+  @ApiProperty({
+    description: 'Devices not in the registry; register them first',
+    type: [String],
+    example: [],
+  })
+  unregistered: string[];
+}
@@ -0,0 +1,119 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+export class CreateTenantDto {
+  @ApiProperty({ example: 'Acme Logistics' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
+
+export class TenantDto {
+  @ApiProperty({ example: '7b2c9e1d-4f6a-4b8c-9d0e-1f2a3b4c5d6e' })
+  id: string;
+
+  @ApiProperty({ example: 'Acme Logistics' })
+  name: string;
+
+  @ApiProperty({ example: '2026-02-01T09:00:00.000Z' })
+  createdAt: string;
+}
+
+export class AssignTenantDevicesDto {
+  @ApiProperty({ enum: DeviceType, example: DeviceType.VEHICLE })
+  @IsEnum(DeviceType)
+  deviceType: DeviceType;
+
+  @ApiProperty({
+    type: [String],
+    example: ['VEHICLE_001', 'VEHICLE_002'],
+    maxItems: 1000,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  deviceIds: string[];
+}
+
+export class TenantDeviceQueryDto {
+  @ApiProperty({ enum: DeviceType, required: false })
+  @IsOptional()
+  @IsEnum(DeviceType)
+  deviceType?: DeviceType;
+
+  @ApiProperty({
+    description: 'Page size',
+    example: 100,
+    default: 100,
+    minimum: 1,
+    maximum: 1000,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number;
+
+  @ApiProperty({
+    description: '`nextCursor` of the previous page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class TenantDeviceDto {
+  @ApiProperty({ enum: DeviceType, example: DeviceType.VEHICLE })
+  deviceType: DeviceType;
+
+  @ApiProperty({ example: 'VEHICLE_001' })
+  deviceId: string;
+
+  @ApiProperty({ example: '2026-02-01T09:00:00.000Z' })
+  assignedAt: string;
+}
+
+export class TenantDevicePageDto {
+  @ApiProperty({ type: [TenantDeviceDto] })
+  items: TenantDeviceDto[];
+
+  @ApiProperty({
+    description:
+      'Pass as `cursor` to fetch the next page; null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+}
+
+export class TenantDeviceAssignmentDto {
+  @ApiProperty({ description: 'Devices now owned by the tenant', example: 2 })
+  assigned: number;
+
+  @ApiProperty({
+    type: [String],
+    description: 'Devices left untouched because another tenant owns them',
+    example: [],
+  })
+  conflicts: string[];
+}
@@ -0,0 +1,104 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsDateString,
+  IsOptional,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateVehicleMeterAssignmentDto {
+  @ApiProperty({
+    description: 'Vehicle being attached to the meter',
+    example: 'VEHICLE_001',
+  })
+  @IsString()
+  @IsNotEmpty()
+  vehicleId: string;
+
+  @ApiProperty({
+    description: 'Meter (charger) the vehicle is attached to',
+    example: 'METER_001',
+  })
+  @IsString()
+  @IsNotEmpty()
+  meterId: string;
+
+  @ApiProperty({
+    description: 'Start of the assignment in ISO 8601 format',
+    example: '2026-02-09T08:00:00Z',
+  })
+  @IsDateString()
+  effectiveFrom: string;
+
+  @ApiProperty({
+    description:
+      'End of the assignment in ISO 8601 format (omit for an open-ended assignment)',
+    example: '2026-02-09T12:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveUntil?: string;
+}
+
+export class UpdateVehicleMeterAssignmentDto {
+  @ApiProperty({
+    description: 'Meter (charger) the vehicle is attached to',
+    example: 'METER_002',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  meterId?: string;
+
+  @ApiProperty({
+    description: 'Start of the assignment in ISO 8601 format',
+    example: '2026-02-09T08:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+
+  @ApiProperty({
+    description:
+      'End of the assignment in ISO 8601 format, or null to reopen it',
+    example: '2026-02-09T12:00:00Z',
+    required: false,
+    nullable: true,
+  })
+  @ValidateIf((o) => o.effectiveUntil !== undefined && o.effectiveUntil !== null)
+  @IsDateString()
+  effectiveUntil?: string | null;
+}
+
+export class VehicleMeterAssignmentQueryDto {
+  @ApiProperty({
+    description: 'Only return assignments for this vehicle',
+    example: 'VEHICLE_001',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  vehicleId?: string;
+
+  @ApiProperty({
+    description: 'Only return assignments for this meter',
+    example: 'METER_001',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  meterId?: string;
+
+  @ApiProperty({
+    description: 'Only return assignments in effect at this instant',
+    example: '2026-02-09T10:30:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  activeAt?: string;
+}
@@ -7,10 +7,8 @@ import {
   IsNotEmpty,
   IsOptional,
   IsArray,
-  ValidateNested,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { Type } from 'class-transformer';
 
 export class VehicleTelemetryDto {
   @ApiProperty({
@@ -60,11 +58,10 @@ export class VehicleTelemetryDto {
 
 export class VehicleTelemetryBatchDto {
   @ApiProperty({
-    description: 'Array of vehicle telemetry readings',
+    description:
+      'Array of vehicle telemetry readings; each is validated individually and invalid ones are rejected without failing the batch',
     type: [VehicleTelemetryDto],
   })
   @IsArray()
-  @ValidateNested({ each: true })
-  @Type(() => VehicleTelemetryDto)
-  readings: VehicleTelemetryDto[];
-}
\ No newline at end of file
+  readings: unknown[];
+}
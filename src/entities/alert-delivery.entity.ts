@@ -0,0 +1,61 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum DeliveryStatus {
+  PENDING = 'pending',
+  DELIVERED = 'delivered',
+  // Gave up after ALERT_WEBHOOK_MAX_ATTEMPTS
+  FAILED = 'failed',
+}
+
+/**
+ * One alert event queued for one webhook. The payload is fixed when the
+ * event happens; only the signature is recomputed per attempt.
+ */
+@Entity('alert_delivery')
+@Index('idx_alert_delivery_due', ['nextAttemptAt'], {
+  where: "status = 'pending'",
+})
+@Index('idx_alert_delivery_webhook', ['webhookId', 'createdAt'])
+export class AlertDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'webhook_id', type: 'uuid' })
+  webhookId: string;
+
+  @Column({ name: 'alert_id', type: 'uuid' })
+  alertId: string;
+
+  @Column({ name: 'event', type: 'varchar', length: 16 })
+  event: string;
+
+  @Column({ name: 'payload', type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({ name: 'status', type: 'varchar', length: 16, default: 'pending' })
+  status: DeliveryStatus;
+
+  @Column({ name: 'attempts', type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ name: 'next_attempt_at', type: 'timestamptz' })
+  nextAttemptAt: Date;
+
+  @Column({ name: 'response_status', type: 'integer', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ name: 'delivered_at', type: 'timestamptz', nullable: true })
+  deliveredAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,68 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export enum AlertRuleKind {
+  // Vehicle battery temperature above the threshold (Celsius)
+  BATTERY_TEMP_ABOVE = 'battery_temp_above',
+  // Vehicle state of charge below the threshold (%)
+  SOC_BELOW = 'soc_below',
+  // Meter voltage below / above the threshold (V)
+  VOLTAGE_BELOW = 'voltage_below',
+  VOLTAGE_ABOVE = 'voltage_above',
+  // Vehicle health status `critical` under its health policy
+  VEHICLE_CRITICAL = 'vehicle_critical',
+}
+
+export enum AlertSeverity {
+  WARNING = 'warning',
+  CRITICAL = 'critical',
+}
+
+/**
+ * A condition that raises an alert per device while it holds. Threshold
+ * kinds are checked against each ingested reading; vehicle_critical is
+ * checked on a schedule over recent history.
+ */
+@Entity('alert_rule')
+export class AlertRule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'name', type: 'varchar', length: 100, unique: true })
+  name: string;
+
+  @Column({ name: 'kind', type: 'varchar', length: 32 })
+  kind: AlertRuleKind;
+
+  // Null for kinds without a threshold
+  @Column({
+    name: 'threshold',
+    type: 'decimal',
+    precision: 10,
+    scale: 3,
+    nullable: true,
+  })
+  threshold: number | null;
+
+  @Column({ name: 'severity', type: 'varchar', length: 16, default: 'warning' })
+  severity: AlertSeverity;
+
+  // How long after an alert resolves a recurrence reopens it silently
+  // instead of raising (and notifying) a new one
+  @Column({ name: 'cooldown_seconds', type: 'integer', default: 900 })
+  cooldownSeconds: number;
+
+  @Column({ name: 'enabled', type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
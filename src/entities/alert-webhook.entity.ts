@@ -0,0 +1,41 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+// Alert lifecycle changes a webhook can subscribe to
+export enum AlertEvent {
+  OPENED = 'opened',
+  ACKNOWLEDGED = 'acknowledged',
+  RESOLVED = 'resolved',
+}
+
+/**
+ * An HTTP endpoint alert events are POSTed to, signed with its secret.
+ */
+@Entity('alert_webhook')
+export class AlertWebhook {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'url', type: 'varchar', length: 2048 })
+  url: string;
+
+  @Column({ name: 'secret', type: 'varchar', length: 200 })
+  secret: string;
+
+  @Column({ name: 'events', type: 'text', array: true })
+  events: AlertEvent[];
+
+  @Column({ name: 'enabled', type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
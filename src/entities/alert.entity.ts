@@ -0,0 +1,90 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+import { AlertRuleKind, AlertSeverity } from './alert-rule.entity';
+
+export enum AlertStatus {
+  OPEN = 'open',
+  ACKNOWLEDGED = 'acknowledged',
+  RESOLVED = 'resolved',
+}
+
+export enum AlertResolution {
+  // The condition stopped holding
+  CLEARED = 'cleared',
+  // Resolved through the API
+  MANUAL = 'manual',
+}
+
+/**
+ * One episode of a rule holding for a device. While unresolved, repeats of
+ * the condition update lastSeenAt and occurrences instead of raising a new
+ * alert.
+ */
+@Entity('alert')
+@Index('uq_alert_active', ['ruleId', 'deviceId'], {
+  unique: true,
+  where: "status <> 'resolved'",
+})
+@Index('idx_alert_opened', ['openedAt', 'id'])
+@Index('idx_alert_rule_device', ['ruleId', 'deviceId', 'resolvedAt'])
+export class Alert {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'rule_id', type: 'uuid' })
+  ruleId: string;
+
+  // Copied from the rule so the history reads on its own
+  @Column({ name: 'kind', type: 'varchar', length: 32 })
+  kind: AlertRuleKind;
+
+  @Column({ name: 'device_type', type: 'varchar', length: 16 })
+  deviceType: string;
+
+  @Column({ name: 'device_id', type: 'varchar', length: 50 })
+  deviceId: string;
+
+  @Column({ name: 'status', type: 'varchar', length: 16, default: 'open' })
+  status: AlertStatus;
+
+  @Column({ name: 'severity', type: 'varchar', length: 16 })
+  severity: AlertSeverity;
+
+  @Column({ name: 'message', type: 'text' })
+  message: string;
+
+  // Latest observed value of the checked metric
+  @Column({
+    name: 'value',
+    type: 'decimal',
+    precision: 12,
+    scale: 4,
+    nullable: true,
+  })
+  value: number | null;
+
+  @Column({ name: 'occurrences', type: 'integer', default: 1 })
+  occurrences: number;
+
+  @Column({ name: 'opened_at', type: 'timestamptz' })
+  openedAt: Date;
+
+  @Column({ name: 'last_seen_at', type: 'timestamptz' })
+  lastSeenAt: Date;
+
+  @Column({ name: 'acknowledged_at', type: 'timestamptz', nullable: true })
+  acknowledgedAt: Date | null;
+
+  @Column({
+    name: 'acknowledged_by',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  })
+  acknowledgedBy: string | null;
+
+  @Column({ name: 'resolved_at', type: 'timestamptz', nullable: true })
+  resolvedAt: Date | null;
+
+  @Column({ name: 'resolution', type: 'varchar', length: 16, nullable: true })
+  resolution: AlertResolution | null;
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum ApiKeyScope {
+  // Write telemetry
+  INGEST = 'ingest',
+  // Read analytics, live status and alerts
+  READ = 'read',
+  // Everything, including configuration; platform keys only
+  ADMIN = 'admin',
+}
+
+/**
+ * An API key. Only the SHA-256 of the key is stored; `prefix` is the
+ * public part of the key used to find the row and to tell keys apart.
+ * A key without a tenant is a platform key and reaches every device.
+ */
+@Entity('api_key')
+@Index('idx_api_key_tenant', ['tenantId'])
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'tenant_id', type: 'uuid', nullable: true })
+  tenantId: string | null;
+
+  @Column({ name: 'name', type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ name: 'prefix', type: 'char', length: 8, unique: true })
+  prefix: string;
+
+  @Column({ name: 'key_hash', type: 'char', length: 64 })
+  keyHash: string;
+
+  @Column({ name: 'scopes', type: 'text', array: true })
+  scopes: ApiKeyScope[];
+
+  @Column({ name: 'expires_at', type: 'timestamptz', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ name: 'last_used_at', type: 'timestamptz', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamptz', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,96 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum ChargingSessionStatus {
+  // The vehicle may still be charging; the session can grow
+  OPEN = 'open',
+  // No energy delivered for longer than the session gap
+  COMPLETED = 'completed',
+}
+
+/**
+ * A run of readings in which a vehicle took in DC energy, with no pause
+ * longer than the session gap. Built from vehicle history by the session
+ * builder and rebuilt when late readings change it.
+ */
+@Entity('charging_session')
+@Index(['vehicleId', 'startedAt'], { unique: true })
+export class ChargingSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'vehicle_id', type: 'varchar', length: 50 })
+  vehicleId: string;
+
+  // Meter the vehicle was assigned to when the session started
+  @Column({ name: 'meter_id', type: 'varchar', length: 50, nullable: true })
+  meterId: string | null;
+
+  @Column({ name: 'status', type: 'varchar', length: 16 })
+  status: ChargingSessionStatus;
+
+  // First reading with delivered energy
+  @Column({ name: 'started_at', type: 'timestamptz' })
+  startedAt: Date;
+
+  // Last reading with delivered energy
+  @Column({ name: 'ended_at', type: 'timestamptz' })
+  endedAt: Date;
+
+  @Column({ name: 'start_soc', type: 'decimal', precision: 5, scale: 2 })
+  startSoc: number;
+
+  @Column({ name: 'end_soc', type: 'decimal', precision: 5, scale: 2 })
+  endSoc: number;
+
+  @Column({
+    name: 'kwh_delivered_dc',
+    type: 'decimal',
+    precision: 10,
+    scale: 3,
+  })
+  kwhDeliveredDc: number;
+
+  // Null when the vehicle had no meter assigned
+  @Column({
+    name: 'kwh_consumed_ac',
+    type: 'decimal',
+    precision: 10,
+    scale: 3,
+    nullable: true,
+  })
+  kwhConsumedAc: number | null;
+
+  @Column({
+    name: 'efficiency',
+    type: 'decimal',
+    precision: 10,
+    scale: 4,
+    nullable: true,
+  })
+  efficiency: number | null;
+
+  @Column({
+    name: 'peak_battery_temp',
+    type: 'decimal',
+    precision: 5,
+    scale: 2,
+    nullable: true,
+  })
+  peakBatteryTemp: number | null;
+
+  @Column({ name: 'reading_count', type: 'integer' })
+  readingCount: number;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
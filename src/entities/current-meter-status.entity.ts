@@ -39,6 +39,10 @@ export class CurrentMeterStatus {
   })
   status: TelemetryStatus;
 
+  // Why the rules flagged the reading; null for valid readings
+  @Column({ name: 'anomaly_reason', type: 'text', nullable: true })
+  anomalyReason: string | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt: Date;
 
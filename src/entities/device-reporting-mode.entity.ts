@@ -0,0 +1,55 @@
+import { Entity, Column, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+export enum DeviceType {
+  METER = 'meter',
+  VEHICLE = 'vehicle',
+}
+
+export enum ReportingMode {
+  // Reading carries a monotonically increasing register (lifetime kWh)
+  CUMULATIVE = 'cumulative',
+  // Reading carries the energy measured since the previous reading
+  INTERVAL = 'interval',
+}
+
+// Why a cumulative reading's delta is not a plain difference
+export enum RegisterEvent {
+  // Register wrapped past its maximum back to zero
+  ROLLOVER = 'rollover',
+  // Register went backwards without wrapping (meter replaced or reset)
+  RESET = 'reset',
+}
+
+/**
+ * How a device reports its energy value. Devices without a row use the
+ * per-type default from configuration.
+ */
+@Entity('device_reporting_mode')
+export class DeviceReportingMode {
+  @PrimaryColumn({ name: 'device_type', type: 'varchar', length: 16 })
+  deviceType: DeviceType;
+
+  @PrimaryColumn({ name: 'device_id', type: 'varchar', length: 50 })
+  deviceId: string;
+
+  @Column({
+    name: 'mode',
+    type: 'enum',
+    enum: ReportingMode,
+    enumName: 'reporting_mode',
+  })
+  mode: ReportingMode;
+
+  // Highest value the register can show before wrapping to zero
+  @Column({
+    name: 'register_max',
+    type: 'decimal',
+    precision: 12,
+    scale: 3,
+    nullable: true,
+  })
+  registerMax: number | null;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
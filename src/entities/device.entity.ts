@@ -0,0 +1,73 @@
+import {
+  Entity,
+  Column,
+  PrimaryColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { DeviceType } from './device-reporting-mode.entity';
+
+/**
+ * What to do with a reading from a device that is not in the registry.
+ */
+export enum UnknownDevicePolicy {
+  // Refuse the reading
+  REJECT = 'reject',
+  // Hold the reading back until the device is registered
+  QUARANTINE = 'quarantine',
+  // Register the device on its first reading
+  AUTO_REGISTER = 'auto_register',
+}
+
+/**
+ * A registered meter or vehicle. Inactive (decommissioned) devices keep
+ * their history but may not send readings.
+ */
+@Entity('device')
+export class Device {
+  @PrimaryColumn({ name: 'device_type', type: 'varchar', length: 16 })
+  deviceType: DeviceType;
+
+  @PrimaryColumn({ name: 'device_id', type: 'varchar', length: 50 })
+  deviceId: string;
+
+  @Column({ name: 'model', type: 'varchar', length: 100, nullable: true })
+  model: string | null;
+
+  @Column({ name: 'site', type: 'varchar', length: 100, nullable: true })
+  site: string | null;
+
+  @Column({
+    name: 'battery_capacity_kwh',
+    type: 'decimal',
+    precision: 8,
+    scale: 2,
+    nullable: true,
+  })
+  batteryCapacityKwh: number | null;
+
+  @Column({
+    name: 'nominal_voltage',
+    type: 'decimal',
+    precision: 6,
+    scale: 1,
+    nullable: true,
+  })
+  nominalVoltage: number | null;
+
+  @Column({ name: 'commissioned_on', type: 'date', nullable: true })
+  commissionedOn: string | null;
+
+  @Column({ name: 'active', type: 'boolean', default: true })
+  active: boolean;
+
+  // Registered by its first reading and not yet provisioned by an operator
+  @Column({ name: 'auto_registered', type: 'boolean', default: false })
+  autoRegistered: boolean;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
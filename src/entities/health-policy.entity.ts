@@ -0,0 +1,97 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+
+/**
+ * One version of a health-status policy profile (a vehicle model or fleet
+ * group). Versions are never edited: a change is a new version with a
+ * later effectiveFrom, so a report over a past window resolves the same
+ * version it did when it was first produced.
+ *
+ * Temperature and completeness thresholds are optional; a null threshold
+ * leaves that dimension out of the status.
+ */
+@Entity('health_policy')
+@Unique('uq_health_policy_version', ['profile', 'version'])
+@Index('idx_health_policy_effective', ['profile', 'effectiveFrom'])
+export class HealthPolicy {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'profile', type: 'varchar', length: 64 })
+  profile: string;
+
+  @Column({ name: 'version', type: 'integer' })
+  version: number;
+
+  // Efficiency at or above which a vehicle is healthy / degraded
+  @Column({
+    name: 'healthy_efficiency',
+    type: 'decimal',
+    precision: 5,
+    scale: 4,
+  })
+  healthyEfficiency: number;
+
+  @Column({
+    name: 'degraded_efficiency',
+    type: 'decimal',
+    precision: 5,
+    scale: 4,
+  })
+  degradedEfficiency: number;
+
+  // Average battery temperature (Celsius) at or above which a vehicle is
+  // degraded / critical
+  @Column({
+    name: 'degraded_battery_temp',
+    type: 'decimal',
+    precision: 5,
+    scale: 2,
+    nullable: true,
+  })
+  degradedBatteryTemp: number | null;
+
+  @Column({
+    name: 'critical_battery_temp',
+    type: 'decimal',
+    precision: 5,
+    scale: 2,
+    nullable: true,
+  })
+  criticalBatteryTemp: number | null;
+
+  // Share of expected readings received below which a vehicle is
+  // degraded / critical
+  @Column({
+    name: 'degraded_completeness_pct',
+    type: 'decimal',
+    precision: 5,
+    scale: 2,
+    nullable: true,
+  })
+  degradedCompletenessPct: number | null;
+
+  @Column({
+    name: 'critical_completeness_pct',
+    type: 'decimal',
+    precision: 5,
+    scale: 2,
+    nullable: true,
+  })
+  criticalCompletenessPct: number | null;
+
+  @Column({ name: 'description', type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ name: 'effective_from', type: 'timestamptz' })
+  effectiveFrom: Date;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
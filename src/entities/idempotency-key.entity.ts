@@ -0,0 +1,30 @@
+import { Entity, Column, PrimaryColumn, CreateDateColumn } from 'typeorm';
+
+/**
+ * Client-supplied Idempotency-Key seen on an ingestion route, with the
+ * response that was returned for it. A null response means the original
+ * request is still in flight.
+ */
+@Entity('idempotency_key')
+export class IdempotencyKey {
+  @PrimaryColumn({ name: 'key', type: 'varchar', length: 300 })
+  key: string;
+
+  @Column({ name: 'route', type: 'varchar', length: 255 })
+  route: string;
+
+  @Column({ name: 'request_hash', type: 'char', length: 64 })
+  requestHash: string;
+
+  @Column({ name: 'response', type: 'jsonb', nullable: true })
+  response: object | null;
+
+  @Column({ name: 'status_code', type: 'smallint', nullable: true })
+  statusCode: number | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ name: 'expires_at', type: 'timestamptz' })
+  expiresAt: Date;
+}
@@ -1,7 +1,16 @@
-import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn } from 'typeorm';
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
 import { TelemetryStatus } from './current-meter-status.entity';
+import { RegisterEvent } from './device-reporting-mode.entity';
 
 @Entity('meter_telemetry_history')
+// One row per device per timestamp: retried readings are ignored on insert
+@Index('idx_meter_history_meter_time', ['meterId', 'timestamp'], { unique: true })
 export class MeterTelemetryHistory {
   @PrimaryGeneratedColumn('increment', { type: 'bigint' })
   id: number;
@@ -17,6 +26,25 @@ export class MeterTelemetryHistory {
   })
   kwhConsumedAc: number;
 
+  // Energy since the previous reading; null when it cannot be known (first
+  // reading of a cumulative register, or a register reset)
+  @Column({
+    name: 'kwh_consumed_ac_delta',
+    type: 'decimal',
+    precision: 10,
+    scale: 3,
+    nullable: true,
+  })
+  kwhConsumedAcDelta: number | null;
+
+  @Column({
+    name: 'register_event',
+    type: 'varchar',
+    length: 16,
+    nullable: true,
+  })
+  registerEvent: RegisterEvent | null;
+
   @Column({ name: 'voltage', type: 'decimal', precision: 6, scale: 2 })
   voltage: number;
 
@@ -31,6 +59,10 @@ export class MeterTelemetryHistory {
   })
   status: TelemetryStatus;
 
+  // Why the rules flagged the reading; null for valid readings
+  @Column({ name: 'anomaly_reason', type: 'text', nullable: true })
+  anomalyReason: string | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt: Date;
 }
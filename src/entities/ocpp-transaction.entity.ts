@@ -0,0 +1,70 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * A charging transaction an OCPP charge point started, from
+ * StartTransaction to StopTransaction. Its id is the transactionId the
+ * charger quotes in MeterValues and StopTransaction.
+ */
+@Entity('ocpp_transaction')
+export class OcppTransaction {
+  @PrimaryGeneratedColumn('increment')
+  id: number;
+
+  @Column({ name: 'charge_point_id', type: 'varchar', length: 50 })
+  chargePointId: string;
+
+  @Column({ name: 'connector_id', type: 'integer' })
+  connectorId: number;
+
+  // Meter telemetry of the connector is stored under this ID
+  @Column({ name: 'meter_id', type: 'varchar', length: 50 })
+  meterId: string;
+
+  // The transaction's idTag, which identifies the vehicle
+  @Column({ name: 'vehicle_id', type: 'varchar', length: 50 })
+  vehicleId: string;
+
+  @Column({ name: 'tenant_id', type: 'uuid', nullable: true })
+  tenantId: string | null;
+
+  @Column({ name: 'meter_start_wh', type: 'bigint' })
+  meterStartWh: number;
+
+  // Vehicle's delivered-energy register when the transaction started;
+  // readings continue it with the energy of the transaction
+  @Column({
+    name: 'register_base',
+    type: 'decimal',
+    precision: 10,
+    scale: 3,
+  })
+  registerBase: number;
+
+  // Vehicle-to-meter assignment covering the transaction, if one was made
+  @Column({ name: 'assignment_id', type: 'uuid', nullable: true })
+  assignmentId: string | null;
+
+  @Column({ name: 'started_at', type: 'timestamptz' })
+  startedAt: Date;
+
+  @Column({ name: 'meter_stop_wh', type: 'bigint', nullable: true })
+  meterStopWh: number | null;
+
+  @Column({ name: 'stopped_at', type: 'timestamptz', nullable: true })
+  stoppedAt: Date | null;
+
+  @Column({ name: 'stop_reason', type: 'varchar', length: 32, nullable: true })
+  stopReason: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
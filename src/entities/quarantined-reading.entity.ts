@@ -0,0 +1,42 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { DeviceType } from './device-reporting-mode.entity';
+
+/**
+ * A reading from an unregistered device, held under the quarantine policy
+ * until the device is registered and the reading released, or until it
+ * ages out.
+ */
+@Entity('quarantined_reading')
+@Index('idx_quarantined_reading_device', [
+  'deviceType',
+  'deviceId',
+  'receivedAt',
+])
+@Index('idx_quarantined_reading_received', ['receivedAt'])
+export class QuarantinedReading {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'device_type', type: 'varchar', length: 16 })
+  deviceType: DeviceType;
+
+  @Column({ name: 'device_id', type: 'varchar', length: 50 })
+  deviceId: string;
+
+  // Tenant of the key that sent it, applied again when it is released
+  @Column({ name: 'tenant_id', type: 'uuid', nullable: true })
+  tenantId: string | null;
+
+  // The validated reading as it was submitted
+  @Column({ name: 'reading', type: 'jsonb' })
+  reading: Record<string, unknown>;
+
+  @CreateDateColumn({ name: 'received_at', type: 'timestamptz' })
+  receivedAt: Date;
+}
@@ -0,0 +1,48 @@
+import { Entity, Column, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+export enum RollupRefreshStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+/**
+ * Last refresh of a daily rollup materialized view.
+ *
+ * coveredUntil is the first UTC day the view may be missing readings for;
+ * analytics read that day and later ones from raw history instead.
+ * staleFrom is the earliest day readings were written for since the last
+ * refresh started, which moves that boundary back until the next refresh.
+ */
+@Entity('rollup_refresh')
+export class RollupRefresh {
+  @PrimaryColumn({ name: 'view_name', type: 'varchar', length: 63 })
+  viewName: string;
+
+  @Column({ name: 'status', type: 'varchar', length: 16 })
+  status: RollupRefreshStatus;
+
+  @Column({ name: 'started_at', type: 'timestamptz' })
+  startedAt: Date;
+
+  @Column({ name: 'finished_at', type: 'timestamptz', nullable: true })
+  finishedAt: Date | null;
+
+  @Column({ name: 'duration_ms', type: 'integer', nullable: true })
+  durationMs: number | null;
+
+  @Column({ name: 'covered_until', type: 'date', nullable: true })
+  coveredUntil: string | null;
+
+  @Column({ name: 'stale_from', type: 'date', nullable: true })
+  staleFrom: string | null;
+
+  @Column({ name: 'last_succeeded_at', type: 'timestamptz', nullable: true })
+  lastSucceededAt: Date | null;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,30 @@
+import {
+  Entity,
+  Column,
+  PrimaryColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * A site or depot. Sites nest through their parent, so a region can group
+ * depots; meters are installed at a site and vehicles are based at one
+ * (their home depot), both through the device registry.
+ */
+@Entity('site')
+export class Site {
+  @PrimaryColumn({ name: 'id', type: 'varchar', length: 100 })
+  id: string;
+
+  @Column({ name: 'name', type: 'varchar', length: 200 })
+  name: string;
+
+  @Column({ name: 'parent_id', type: 'varchar', length: 100, nullable: true })
+  parentId: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
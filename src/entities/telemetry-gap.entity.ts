@@ -0,0 +1,32 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+/**
+ * A stretch of time in which a device sent nothing.
+ *
+ * gapStart is the device's last reading before it went quiet; gapEnd is
+ * the first reading after it, or null while the device is still offline.
+ */
+@Entity('telemetry_gap')
+@Index('idx_telemetry_gap_device_start', ['deviceType', 'deviceId', 'gapStart'])
+export class TelemetryGap {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'device_type', type: 'varchar', length: 16 })
+  deviceType: string;
+
+  @Column({ name: 'device_id', type: 'varchar', length: 50 })
+  deviceId: string;
+
+  @Column({ name: 'gap_start', type: 'timestamptz' })
+  gapStart: Date;
+
+  @Column({ name: 'gap_end', type: 'timestamptz', nullable: true })
+  gapEnd: Date | null;
+
+  @Column({ name: 'detected_at', type: 'timestamptz', default: () => 'NOW()' })
+  detectedAt: Date;
+
+  @Column({ name: 'closed_at', type: 'timestamptz', nullable: true })
+  closedAt: Date | null;
+}
@@ -0,0 +1,28 @@
+import {
+  Entity,
+  Column,
+  PrimaryColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { DeviceType } from './device-reporting-mode.entity';
+
+/**
+ * The tenant a meter or vehicle belongs to. Devices without a row belong
+ * to no tenant and are only reachable with platform keys until claimed.
+ */
+@Entity('tenant_device')
+@Index('idx_tenant_device_tenant', ['tenantId', 'deviceType', 'deviceId'])
+export class TenantDevice {
+  @PrimaryColumn({ name: 'device_type', type: 'varchar', length: 16 })
+  deviceType: DeviceType;
+
+  @PrimaryColumn({ name: 'device_id', type: 'varchar', length: 50 })
+  deviceId: string;
+
+  @Column({ name: 'tenant_id', type: 'uuid' })
+  tenantId: string;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,17 @@
+import { Entity, Column, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * The health policy profile a vehicle is judged by. Vehicles without a row
+ * use the `default` profile.
+ */
+@Entity('vehicle_health_profile')
+export class VehicleHealthProfile {
+  @PrimaryColumn({ name: 'vehicle_id', type: 'varchar', length: 50 })
+  vehicleId: string;
+
+  @Column({ name: 'profile', type: 'varchar', length: 64 })
+  profile: string;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
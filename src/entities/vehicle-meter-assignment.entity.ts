@@ -0,0 +1,39 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Records which meter (charger) a vehicle was attached to and when.
+ * An open-ended assignment (effectiveUntil = null) is the vehicle's
+ * current charger.
+ */
+@Entity('vehicle_meter_assignment')
+@Index('idx_assignment_vehicle_period', ['vehicleId', 'effectiveFrom'])
+@Index('idx_assignment_meter_period', ['meterId', 'effectiveFrom'])
+export class VehicleMeterAssignment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'vehicle_id', type: 'varchar', length: 50 })
+  vehicleId: string;
+
+  @Column({ name: 'meter_id', type: 'varchar', length: 50 })
+  meterId: string;
+
+  @Column({ name: 'effective_from', type: 'timestamptz' })
+  effectiveFrom: Date;
+
+  @Column({ name: 'effective_until', type: 'timestamptz', nullable: true })
+  effectiveUntil: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -1,7 +1,16 @@
-import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn } from 'typeorm';
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
 import { TelemetryStatus } from './current-meter-status.entity';
+import { RegisterEvent } from './device-reporting-mode.entity';
 
 @Entity('vehicle_telemetry_history')
+// One row per device per timestamp: retried readings are ignored on insert
+@Index('idx_vehicle_history_vehicle_time', ['vehicleId', 'timestamp'], { unique: true })
 export class VehicleTelemetryHistory {
   @PrimaryGeneratedColumn('increment', { type: 'bigint' })
   id: number;
@@ -20,6 +29,25 @@ export class VehicleTelemetryHistory {
   })
   kwhDeliveredDc: number;
 
+  // Energy since the previous reading; null when it cannot be known (first
+  // reading of a cumulative register, or a register reset)
+  @Column({
+    name: 'kwh_delivered_dc_delta',
+    type: 'decimal',
+    precision: 10,
+    scale: 3,
+    nullable: true,
+  })
+  kwhDeliveredDcDelta: number | null;
+
+  @Column({
+    name: 'register_event',
+    type: 'varchar',
+    length: 16,
+    nullable: true,
+  })
+  registerEvent: RegisterEvent | null;
+
   @Column({
     name: 'battery_temp',
     type: 'decimal',
@@ -40,6 +68,10 @@ export class VehicleTelemetryHistory {
   })
   status: TelemetryStatus;
 
+  // Why the rules flagged the reading; null for valid readings
+  @Column({ name: 'anomaly_reason', type: 'text', nullable: true })
+  anomalyReason: string | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamptz' })
   createdAt: Date;
 }
@@ -0,0 +1,179 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+} from '@nestjs/websockets';
+import { WebSocket } from 'ws';
+import { IncomingMessage } from 'http';
+import {
+  LiveFeedService,
+  LiveFeedSubscription,
+} from '../services/live-feed.service';
+import {
+  LiveFeedCloseReason,
+  LiveFeedQueryDto,
+  LiveTelemetryEventDto,
+} from '../dto/live-feed.dto';
+import { validateReading } from '../utils/validate-reading';
+import {
+  ApiKeyService,
+  ApiPrincipal,
+  PLATFORM_ADMIN,
+  hasScope,
+  readApiKey,
+} from '../services/api-key.service';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+// Stop writing to a socket once this much is queued in its send buffer
+const HIGH_WATER_BYTES = 1024 * 1024;
+
+// Close codes sent when the connection's API key is refused
+const CLOSE_UNAUTHORIZED = 4401;
+const CLOSE_FORBIDDEN = 4403;
+
+/**
+ * WebSocket counterpart of GET /v1/stream.
+ *
+ * Clients send `{"event": "subscribe", "data": {...filters, cursor}}` and
+ * receive `telemetry` messages carrying the same events as the SSE stream.
+ * Subscribing again replaces the previous subscription; a client that falls
+ * too far behind receives `overflow` and is disconnected.
+ *
+ * The HTTP guard does not see WebSocket upgrades, so the API key is checked
+ * on connect, from the X-API-Key/Authorization headers or an `apiKey` query
+ * parameter for browsers. Like GET /v1/stream it needs a platform key with
+ * the read scope; refused clients are closed with 4401 or 4403.
+ */
+@WebSocketGateway({ path: '/v1/stream/ws' })
+export class LiveFeedGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
+  private readonly logger = new Logger(LiveFeedGateway.name);
+  private readonly subscriptions = new Map<WebSocket, LiveFeedSubscription>();
+  private readonly authorized = new WeakMap<WebSocket, Promise<boolean>>();
+  private readonly authEnabled: boolean;
+
+  constructor(
+    private readonly liveFeedService: LiveFeedService,
+    private readonly apiKeyService: ApiKeyService,
+    configService: ConfigService,
+  ) {
+    this.authEnabled =
+      configService.get<string>('AUTH_ENABLED', 'true') !== 'false';
+  }
+
+  handleConnection(client: WebSocket, request: IncomingMessage): void {
+    // Messages can arrive before the key is checked; subscribe waits for it
+    this.authorized.set(
+      client,
+      this.authorize(client, request).catch((error) => {
+        this.logger.error(`WebSocket authentication failed: ${error.message}`);
+        client.close(1011, 'Authentication unavailable');
+        return false;
+      }),
+    );
+  }
+
+  @SubscribeMessage('subscribe')
+  async subscribe(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() body: unknown,
+  ): Promise<void> {
+    if (!(await this.authorized.get(client))) {
+      return;
+    }
+    const check = await validateReading(LiveFeedQueryDto, body ?? {});
+    if (!check.valid) {
+      this.send(client, 'error', { message: check.reason });
+      return;
+    }
+
+    this.unsubscribe(client);
+    try {
+      const subscription = this.liveFeedService.subscribe(check.value, {
+        write: (event: LiveTelemetryEventDto) =>
+          this.send(client, 'telemetry', event, () => {
+            if (client.bufferedAmount < HIGH_WATER_BYTES) {
+              this.subscriptions.get(client)?.drain();
+            }
+          }),
+        close: (reason: LiveFeedCloseReason) => {
+          this.send(client, reason, {});
+          client.close();
+        },
+      });
+      this.subscriptions.set(client, subscription);
+      this.send(client, 'subscribed', {});
+    } catch (error) {
+      this.send(client, 'error', { message: error.message });
+    }
+  }
+
+  handleDisconnect(client: WebSocket): void {
+    this.unsubscribe(client);
+    this.logger.debug('WebSocket client disconnected');
+  }
+
+  private async authorize(
+    client: WebSocket,
+    request: IncomingMessage,
+  ): Promise<boolean> {
+    const refuse = (code: number, message: string): boolean => {
+      this.send(client, 'error', { message });
+      client.close(code, message);
+      return false;
+    };
+
+    let principal: ApiPrincipal | null = PLATFORM_ADMIN;
+    if (this.authEnabled) {
+      const query = new URL(request.url ?? '/', 'http://localhost')
+        .searchParams;
+      const key = readApiKey(request.headers) ?? query.get('apiKey');
+      if (!key) {
+        return refuse(CLOSE_UNAUTHORIZED, 'Missing API key');
+      }
+      principal = await this.apiKeyService.authenticate(key);
+    }
+
+    if (!principal) {
+      return refuse(CLOSE_UNAUTHORIZED, 'Invalid, expired or revoked API key');
+    }
+    if (!hasScope(principal, ApiKeyScope.READ)) {
+      return refuse(CLOSE_FORBIDDEN, 'API key lacks the read scope');
+    }
+    if (principal.tenantId !== null) {
+      return refuse(
+        CLOSE_FORBIDDEN,
+        'The live feed spans every tenant and needs a platform key',
+      );
+    }
+    return true;
+  }
+
+  private unsubscribe(client: WebSocket): void {
+    const subscription = this.subscriptions.get(client);
+    if (subscription) {
+      this.liveFeedService.unsubscribe(subscription);
+      this.subscriptions.delete(client);
+    }
+  }
+
+  // Returns false once the socket's send buffer is over the high-water mark
+  private send(
+    client: WebSocket,
+    event: string,
+    data: unknown,
+    sent?: () => void,
+  ): boolean {
+    if (client.readyState !== WebSocket.OPEN) {
+      return true;
+    }
+    client.send(JSON.stringify({ event, data }), sent);
+    return client.bufferedAmount < HIGH_WATER_BYTES;
+  }
+}
@@ -0,0 +1,280 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnGatewayConnection, WebSocketGateway } from '@nestjs/websockets';
+import { RawData, WebSocket } from 'ws';
+import { IncomingMessage, Server } from 'http';
+import {
+  OcppCallError,
+  OcppChargePoint,
+  OcppErrorCode,
+  OcppService,
+} from '../services/ocpp.service';
+import {
+  ApiKeyService,
+  ApiPrincipal,
+  PLATFORM_ADMIN,
+  hasScope,
+  readApiKey,
+} from '../services/api-key.service';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+const OCPP_PATH = '/v1/ocpp';
+const CHARGE_POINT_PATH = /^\/v1\/ocpp\/([^/]+)$/;
+const SUBPROTOCOL = 'ocpp1.6';
+
+// OCPP-J message type IDs
+const CALL = 2;
+const CALLRESULT = 3;
+const CALLERROR = 4;
+
+// Close codes sent when the connection's API key is refused
+const CLOSE_UNAUTHORIZED = 4401;
+const CLOSE_FORBIDDEN = 4403;
+
+/**
+ * Route charger upgrades to `/v1/ocpp/{chargePointId}`, the URL OCPP-J
+ * prescribes, to the gateway. WsAdapter only matches exact paths, so the
+ * charge point ID is moved into the query string before it looks.
+ */
+export function routeOcppUpgrades(server: Server): void {
+  server.prependListener('upgrade', (request: IncomingMessage) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const match = CHARGE_POINT_PATH.exec(url.pathname);
+    if (match) {
+      let chargePointId: string;
+      try {
+        chargePointId = decodeURIComponent(match[1]);
+      } catch {
+        // Left unrouted; WsAdapter drops the connection
+        return;
+      }
+      url.pathname = OCPP_PATH;
+      url.searchParams.set('chargePointId', chargePointId);
+      request.url = url.pathname + url.search;
+    }
+  });
+}
+
+/**
+ * OCPP 1.6J central-system endpoint at /v1/ocpp/{chargePointId}.
+ *
+ * Chargers connect with the `ocpp1.6` subprotocol and send CALLs, which
+ * OcppService answers one at a time per connection, in the order they
+ * arrived. The central system never calls the charger.
+ *
+ * Like the other telemetry routes it needs an API key with the ingest
+ * scope, from the X-API-Key/Authorization headers. Chargers that only
+ * support OCPP basic auth send the key as the password; the user name is
+ * the charge point ID. Refused chargers are closed with 4401 or 4403.
+ */
+@WebSocketGateway({
+  path: OCPP_PATH,
+  handleProtocols: (protocols: Set<string>) =>
+    protocols.has(SUBPROTOCOL) ? SUBPROTOCOL : false,
+})
+export class OcppGateway implements OnGatewayConnection {
+  private readonly logger = new Logger(OcppGateway.name);
+  private readonly authEnabled: boolean;
+
+  constructor(
+    private readonly ocppService: OcppService,
+    private readonly apiKeyService: ApiKeyService,
+    configService: ConfigService,
+  ) {
+    this.authEnabled =
+      configService.get<string>('AUTH_ENABLED', 'true') !== 'false';
+  }
+
+  handleConnection(client: WebSocket, request: IncomingMessage): void {
+    const query = new URL(request.url ?? '/', 'http://localhost').searchParams;
+    const chargePointId = query.get('chargePointId');
+    if (!chargePointId) {
+      client.close(1008, `Connect to ${OCPP_PATH}/{chargePointId}`);
+      return;
+    }
+    if (client.protocol !== SUBPROTOCOL) {
+      client.close(1002, `The ${SUBPROTOCOL} subprotocol is required`);
+      return;
+    }
+
+    // Messages can arrive before the key is checked; they wait for it
+    const chargePoint = this.authorize(client, request, chargePointId).catch(
+      (error) => {
+        this.logger.error(`OCPP authentication failed: ${error.message}`);
+        client.close(1011, 'Authentication unavailable');
+        return null;
+      },
+    );
+    let queue: Promise<unknown> = chargePoint;
+    client.on('message', (data: RawData) => {
+      queue = queue.then(async () => {
+        const authorized = await chargePoint;
+        if (!authorized) {
+          return;
+        }
+        const text = data.toString();
+        try {
+          await this.handleMessage(client, authorized, text);
+        } catch (error) {
+          // A failed message must not stall the ones queued behind it
+          this.logger.error(
+            `Failed to handle a message from charge point ${authorized.id}: ${error.message}`,
+          );
+          this.replyInternalError(client, text);
+        }
+      });
+    });
+    client.on('close', () =>
+      this.logger.debug(`Charge point ${chargePointId} disconnected`),
+    );
+  }
+
+  private async handleMessage(
+    client: WebSocket,
+    chargePoint: OcppChargePoint,
+    text: string,
+  ): Promise<void> {
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      this.logger.warn(`Charge point ${chargePoint.id} sent invalid JSON`);
+      return;
+    }
+    if (!Array.isArray(message) || typeof message[1] !== 'string') {
+      this.logger.warn(`Charge point ${chargePoint.id} sent no OCPP message`);
+      return;
+    }
+
+    const [type, id, action, payload] = message;
+    if (type !== CALL) {
+      // Answers to calls are not expected; the central system makes none
+      if (type !== CALLRESULT && type !== CALLERROR) {
+        this.send(client, [
+          CALLERROR,
+          id,
+          OcppErrorCode.FORMATION_VIOLATION,
+          `Unknown message type ${type}`,
+          {},
+        ]);
+      }
+      return;
+    }
+    if (typeof action !== 'string') {
+      this.send(client, [
+        CALLERROR,
+        id,
+        OcppErrorCode.FORMATION_VIOLATION,
+        'The action must be a string',
+        {},
+      ]);
+      return;
+    }
+
+    try {
+      const result = await this.ocppService.handleCall(
+        chargePoint,
+        action,
+        payload,
+      );
+      this.send(client, [CALLRESULT, id, result]);
+    } catch (error) {
+      if (error instanceof OcppCallError) {
+        this.send(client, [CALLERROR, id, error.code, error.message, {}]);
+        return;
+      }
+      this.logger.error(
+        `Failed to handle ${action} from charge point ${chargePoint.id}: ${error.message}`,
+      );
+      this.send(client, [
+        CALLERROR,
+        id,
+        OcppErrorCode.INTERNAL_ERROR,
+        'The call could not be processed',
+        {},
+      ]);
+    }
+  }
+
+  private async authorize(
+    client: WebSocket,
+    request: IncomingMessage,
+    chargePointId: string,
+  ): Promise<OcppChargePoint | null> {
+    const refuse = (code: number, message: string): null => {
+      client.close(code, message);
+      return null;
+    };
+
+    let principal: ApiPrincipal | null = PLATFORM_ADMIN;
+    if (this.authEnabled) {
+      const key = readApiKey(request.headers) ?? readBasicPassword(request);
+      if (!key) {
+        return refuse(CLOSE_UNAUTHORIZED, 'Missing API key');
+      }
+      principal = await this.apiKeyService.authenticate(key);
+    }
+
+    if (!principal) {
+      return refuse(CLOSE_UNAUTHORIZED, 'Invalid, expired or revoked API key');
+    }
+    if (!hasScope(principal, ApiKeyScope.INGEST)) {
+      return refuse(CLOSE_FORBIDDEN, 'API key lacks the ingest scope');
+    }
+    this.logger.log(`Charge point ${chargePointId} connected`);
+    return { id: chargePointId, tenantId: principal.tenantId };
+  }
+
+  // Answer a call that failed outside handleCall, when it was a call
+  private replyInternalError(client: WebSocket, text: string): void {
+    const id = callId(text);
+    if (id === null) {
+      return;
+    }
+    try {
+      this.send(client, [
+        CALLERROR,
+        id,
+        OcppErrorCode.INTERNAL_ERROR,
+        'The call could not be processed',
+        {},
+      ]);
+    } catch (error) {
+      this.logger.warn(`Could not answer call ${id}: ${error.message}`);
+    }
+  }
+
+  private send(client: WebSocket, message: unknown[]): void {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  }
+}
+
+// The id of an OCPP call, or null when the text is not one
+function callId(text: string): string | null {
+  try {
+    const message = JSON.parse(text);
+    return Array.isArray(message) &&
+      message[0] === CALL &&
+      typeof message[1] === 'string'
+      ? message[1]
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// The password of OCPP basic auth, which carries the API key
+function readBasicPassword(request: IncomingMessage): string | null {
+  const authorization = request.headers.authorization;
+  if (!authorization?.startsWith('Basic ')) {
+    return null;
+  }
+  const credentials = Buffer.from(
+    authorization.slice('Basic '.length),
+    'base64',
+  ).toString('utf8');
+  const separator = credentials.indexOf(':');
+  return separator < 0 ? null : credentials.slice(separator + 1) || null;
+}
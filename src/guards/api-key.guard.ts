@@ -0,0 +1,120 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import {
+  ApiKeyService,
+  ApiPrincipal,
+  PLATFORM_ADMIN,
+  hasScope,
+  readApiKey,
+} from '../services/api-key.service';
+import { TenantService } from '../services/tenant.service';
+import {
+  PUBLIC_ROUTE,
+  ROUTE_ACCESS,
+  RouteAccess,
+} from '../decorators/auth.decorator';
+
+export type AuthenticatedRequest = Request & { principal?: ApiPrincipal };
+
+// Routes that declare nothing are treated as configuration endpoints and
+// require the admin scope
+const DEFAULT_ACCESS: RouteAccess = { scope: ApiKeyScope.ADMIN };
+
+/**
+ * Applied to every HTTP route. Authenticates the API key, checks the scope
+ * the route requires (see RequireScope) and keeps tenant keys to their own
+ * devices. WebSocket clients authenticate when they connect instead.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly enabled: boolean;
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly tenantService: TenantService,
+    configService: ConfigService,
+  ) {
+    this.enabled =
+      configService.get<string>('AUTH_ENABLED', 'true') !== 'false';
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(PUBLIC_ROUTE, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const access =
+      this.reflector.getAllAndOverride<RouteAccess>(ROUTE_ACCESS, targets) ??
+      DEFAULT_ACCESS;
+    const principal = await this.authenticate(request, access);
+
+    if (!hasScope(principal, access.scope)) {
+      throw new ForbiddenException(`API key lacks the ${access.scope} scope`);
+    }
+    if (principal.tenantId !== null && access.allTenants) {
+      throw new ForbiddenException(
+        'This route spans every tenant and needs a platform key',
+      );
+    }
+    if (access.device) {
+      const deviceType = (access.device.type ??
+        request.params[access.device.typeParam!]) as DeviceType;
+      const deviceId = request.params[access.device.param];
+      if (
+        !(await this.tenantService.canRead(
+          principal.tenantId,
+          deviceType,
+          deviceId,
+        ))
+      ) {
+        throw new NotFoundException(`${deviceType} ${deviceId} not found`);
+      }
+    }
+
+    request.principal = principal;
+    return true;
+  }
+
+  private async authenticate(
+    request: AuthenticatedRequest,
+    access: RouteAccess,
+  ): Promise<ApiPrincipal> {
+    let key = readApiKey(request.headers);
+    if (access.queryKey) {
+      // Removed either way so the route's query validation never sees it
+      const queryKey = request.query.apiKey;
+      delete request.query.apiKey;
+      key ??= typeof queryKey === 'string' && queryKey ? queryKey : null;
+    }
+    if (!this.enabled) {
+      return PLATFORM_ADMIN;
+    }
+    if (!key) {
+      throw new UnauthorizedException(
+        'Missing API key; send it as X-API-Key or Authorization: Bearer',
+      );
+    }
+    const principal = await this.apiKeyService.authenticate(key);
+    if (!principal) {
+      throw new UnauthorizedException('Invalid, expired or revoked API key');
+    }
+    return principal;
+  }
+}
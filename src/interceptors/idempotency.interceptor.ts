@@ -0,0 +1,81 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  BadRequestException,
+} from '@nestjs/common';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, map, mergeMap } from 'rxjs/operators';
+import { Response } from 'express';
+import { IdempotencyService } from '../services/idempotency.service';
+import { AuthenticatedRequest } from '../guards/api-key.guard';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Honors an optional Idempotency-Key request header.
+ *
+ * The first request with a key is processed normally and its response and
+ * status code are stored; a retry with the same key and body gets the
+ * stored response back (flagged with Idempotent-Replayed: true) without
+ * touching the database again. Requests without the header are passed
+ * straight through. Keys are scoped to the caller's tenant, so tenants
+ * cannot collide with (or replay) each other's keys.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<AuthenticatedRequest>();
+    const response = http.getResponse<Response>();
+    const header = request.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (header === undefined) {
+      return next.handle();
+    }
+    if (header.length === 0 || header.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+    const tenantId = request.principal?.tenantId;
+    const key = tenantId ? `${tenantId}:${header}` : header;
+
+    const route = `${request.method} ${request.route?.path ?? request.path}`;
+    const requestHash = this.idempotencyService.hashRequest(request.body);
+
+    return from(this.idempotencyService.begin(key, route, requestHash)).pipe(
+      mergeMap((stored) => {
+        if (stored !== null) {
+          response.status(stored.statusCode);
+          response.setHeader('Idempotent-Replayed', 'true');
+          return of(stored.response);
+        }
+
+        return next.handle().pipe(
+          mergeMap((result) =>
+            from(
+              this.idempotencyService.complete(
+                key,
+                response.statusCode,
+                result,
+              ),
+            ).pipe(
+              map(() => result),
+            ),
+          ),
+          catchError((error) =>
+            from(this.idempotencyService.abandon(key)).pipe(
+              mergeMap(() => throwError(() => error)),
+            ),
+          ),
+        );
+      }),
+    );
+  }
+}
@@ -1,12 +1,22 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { WsAdapter } from '@nestjs/platform-ws';
+import { json } from 'express';
 import { AppModule } from './app.module';
+import { routeOcppUpgrades } from './gateways/ocpp.gateway';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
   const app = await NestFactory.create(AppModule);
 
+  // Bulk loads take far larger bodies than the default 100kb; this parser
+  // runs before Nest's own, which then skips the already-parsed body
+  app.use(
+    ['/v1/ingest/meter/bulk', '/v1/ingest/vehicle/bulk'],
+    json({ limit: process.env.BULK_BODY_LIMIT || '50mb' }),
+  );
+
   app.useGlobalPipes(
     new ValidationPipe({
       transform: true,
@@ -15,7 +25,28 @@ async function bootstrap() {
     }),
   );
 
-  app.enableCors();
+  // Browsers may only call the API from CORS_ORIGINS (comma separated, or *)
+  const corsOrigins = (process.env.CORS_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter((origin) => origin.length > 0);
+  if (corsOrigins.length > 0) {
+    app.enableCors({
+      origin: corsOrigins.includes('*') ? '*' : corsOrigins,
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-API-Key',
+        'Idempotency-Key',
+        'Last-Event-ID',
+      ],
+      exposedHeaders: ['Idempotent-Replayed'],
+    });
+  }
+  // Plain WebSockets for the live feed at /v1/stream/ws and OCPP chargers
+  // at /v1/ocpp/{chargePointId}
+  app.useWebSocketAdapter(new WsAdapter(app));
+  routeOcppUpgrades(app.getHttpServer());
 
   const config = new DocumentBuilder()
     .setTitle('Energy Ingestion Engine API')
@@ -25,6 +56,8 @@ async function bootstrap() {
     .setVersion('1.0')
     .addTag('Ingestion', 'Telemetry data ingestion endpoints')
     .addTag('Analytics', 'Performance analytics and reporting')
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header' }, 'api-key')
+    .addSecurityRequirements('api-key')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
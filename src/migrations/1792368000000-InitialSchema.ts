@@ -0,0 +1,357 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Tables whose updated_at is maintained by update_updated_at_column()
+const UPDATED_AT_TRIGGERS: [string, string][] = [
+  ['update_meter_status_timestamp', 'current_meter_status'],
+  ['update_vehicle_status_timestamp', 'current_vehicle_status'],
+  ['update_assignment_timestamp', 'vehicle_meter_assignment'],
+  ['update_reporting_mode_timestamp', 'device_reporting_mode'],
+];
+
+// Columns the history tables gained after init-db.sql
+const HISTORY_COLUMNS: [string, string][] = [
+  ['meter_telemetry_history', 'kwh_consumed_ac_delta DECIMAL(10, 3)'],
+  ['vehicle_telemetry_history', 'kwh_delivered_dc_delta DECIMAL(10, 3)'],
+];
+
+// Marks a database whose tables init-db.sql created, so down() spares them
+const ADOPTED_COMMENT = 'Adopted from init-db.sql';
+
+/**
+ * Baseline schema: everything init-db.sql used to create, plus what the
+ * service needed before migrations existed.
+ *
+ * Every step is idempotent, so a database bootstrapped from init-db.sql is
+ * upgraded in place: missing columns, tables, DEFAULT partitions and
+ * triggers are added, and the (device, timestamp) history indexes become
+ * unique once duplicate readings are removed (the first stored is kept).
+ * Readings already stored keep a NULL energy delta.
+ */
+export class InitialSchema1792368000000 implements MigrationInterface {
+  name = 'InitialSchema1792368000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const adopted = await queryRunner.hasTable('current_meter_status');
+
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS btree_gist`);
+
+    await createType(
+      queryRunner,
+      `CREATE TYPE telemetry_status AS ENUM ('valid', 'anomaly', 'missing')`,
+    );
+    // How a device reports energy: lifetime register or energy since last reading
+    await createType(
+      queryRunner,
+      `CREATE TYPE reporting_mode AS ENUM ('cumulative', 'interval')`,
+    );
+
+    // Hot tables: one row per device, constantly upserted
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS current_meter_status (
+        meter_id VARCHAR(50) PRIMARY KEY,
+        kwh_consumed_ac DECIMAL(10, 3) NOT NULL,
+        voltage DECIMAL(6, 2) NOT NULL,
+        last_update_timestamp TIMESTAMPTZ NOT NULL,
+        status telemetry_status DEFAULT 'valid',
+        anomaly_reason TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_current_meter_last_update ON current_meter_status(last_update_timestamp DESC)`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS current_vehicle_status (
+        vehicle_id VARCHAR(50) PRIMARY KEY,
+        soc DECIMAL(5, 2) NOT NULL CHECK (soc >= 0 AND soc <= 100),
+        kwh_delivered_dc DECIMAL(10, 3) NOT NULL,
+        battery_temp DECIMAL(5, 2),
+        last_update_timestamp TIMESTAMPTZ NOT NULL,
+        status telemetry_status DEFAULT 'valid',
+        anomaly_reason TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_current_vehicle_last_update ON current_vehicle_status(last_update_timestamp DESC)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_current_vehicle_soc ON current_vehicle_status(soc)`,
+    );
+
+    // init-db.sql created the hot tables without anomaly reasons
+    for (const table of ['current_meter_status', 'current_vehicle_status']) {
+      await queryRunner.query(
+        `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS anomaly_reason TEXT`,
+      );
+    }
+
+    // Cold tables: append-only, one partition per UTC day. Daily partitions
+    // are created and retired by PartitionManagerService; the DEFAULT
+    // partition catches readings for days that have none yet.
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS meter_telemetry_history (
+        id BIGSERIAL,
+        meter_id VARCHAR(50) NOT NULL,
+        kwh_consumed_ac DECIMAL(10, 3) NOT NULL,
+        kwh_consumed_ac_delta DECIMAL(10, 3),
+        register_event VARCHAR(16),
+        voltage DECIMAL(6, 2) NOT NULL,
+        timestamp TIMESTAMPTZ NOT NULL,
+        status telemetry_status DEFAULT 'valid',
+        anomaly_reason TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      ) PARTITION BY RANGE (timestamp)
+    `);
+    for (const [table, deltaColumn] of HISTORY_COLUMNS) {
+      for (const column of [
+        deltaColumn,
+        'register_event VARCHAR(16)',
+        'anomaly_reason TEXT',
+      ]) {
+        await queryRunner.query(
+          `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${column}`,
+        );
+      }
+    }
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS meter_telemetry_history_default PARTITION OF meter_telemetry_history DEFAULT`,
+    );
+    // Unique so a retried reading (same meter, same timestamp) is stored only once
+    await ensureUniqueReadings(
+      queryRunner,
+      'meter_telemetry_history',
+      'meter_id',
+      'idx_meter_history_meter_time',
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_meter_history_timestamp ON meter_telemetry_history(timestamp DESC)`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS vehicle_telemetry_history (
+        id BIGSERIAL,
+        vehicle_id VARCHAR(50) NOT NULL,
+        soc DECIMAL(5, 2) NOT NULL CHECK (soc >= 0 AND soc <= 100),
+        kwh_delivered_dc DECIMAL(10, 3) NOT NULL,
+        kwh_delivered_dc_delta DECIMAL(10, 3),
+        register_event VARCHAR(16),
+        battery_temp DECIMAL(5, 2),
+        timestamp TIMESTAMPTZ NOT NULL,
+        status telemetry_status DEFAULT 'valid',
+        anomaly_reason TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      ) PARTITION BY RANGE (timestamp)
+    `);
+    await queryRunner.query(
+      `CREATE TABLE IF NOT EXISTS vehicle_telemetry_history_default PARTITION OF vehicle_telemetry_history DEFAULT`,
+    );
+    await ensureUniqueReadings(
+      queryRunner,
+      'vehicle_telemetry_history',
+      'vehicle_id',
+      'idx_vehicle_history_vehicle_time',
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_vehicle_history_timestamp ON vehicle_telemetry_history(timestamp DESC)`,
+    );
+
+    // A vehicle is on one charger at a time, and a charger serves one vehicle at a time
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS vehicle_meter_assignment (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        vehicle_id VARCHAR(50) NOT NULL,
+        meter_id VARCHAR(50) NOT NULL,
+        effective_from TIMESTAMPTZ NOT NULL,
+        effective_until TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        CHECK (effective_until IS NULL OR effective_until > effective_from),
+        EXCLUDE USING gist (
+          vehicle_id WITH =,
+          tstzrange(effective_from, effective_until) WITH &&
+        ),
+        EXCLUDE USING gist (
+          meter_id WITH =,
+          tstzrange(effective_from, effective_until) WITH &&
+        )
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_assignment_vehicle_period ON vehicle_meter_assignment(vehicle_id, effective_from)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_assignment_meter_period ON vehicle_meter_assignment(meter_id, effective_from)`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS device_reporting_mode (
+        device_type VARCHAR(16) NOT NULL CHECK (device_type IN ('meter', 'vehicle')),
+        device_id VARCHAR(50) NOT NULL,
+        mode reporting_mode NOT NULL,
+        register_max DECIMAL(12, 3) CHECK (register_max > 0),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (device_type, device_id)
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS telemetry_gap (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        device_type VARCHAR(16) NOT NULL CHECK (device_type IN ('meter', 'vehicle')),
+        device_id VARCHAR(50) NOT NULL,
+        gap_start TIMESTAMPTZ NOT NULL,
+        gap_end TIMESTAMPTZ,
+        detected_at TIMESTAMPTZ DEFAULT NOW(),
+        closed_at TIMESTAMPTZ,
+        CHECK (gap_end IS NULL OR gap_end > gap_start)
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_telemetry_gap_device_start ON telemetry_gap(device_type, device_id, gap_start)`,
+    );
+    // At most one open gap per device
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_telemetry_gap_open ON telemetry_gap(device_type, device_id) WHERE gap_end IS NULL`,
+    );
+
+    // NULL response = original request still in flight
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS idempotency_key (
+        key VARCHAR(255) PRIMARY KEY,
+        route VARCHAR(255) NOT NULL,
+        request_hash CHAR(64) NOT NULL,
+        response JSONB,
+        status_code SMALLINT,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS idx_idempotency_key_expires ON idempotency_key(expires_at)`,
+    );
+
+    await queryRunner.query(`
+      CREATE MATERIALIZED VIEW IF NOT EXISTS daily_vehicle_performance AS
+      SELECT
+        vehicle_id,
+        DATE(timestamp) as performance_date,
+        COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+        COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count,
+        SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'valid') as total_kwh_delivered_dc,
+        AVG(battery_temp) FILTER (WHERE status = 'valid') as avg_battery_temp,
+        MIN(soc) as min_soc,
+        MAX(soc) as max_soc,
+        AVG(soc) as avg_soc
+      FROM vehicle_telemetry_history
+      GROUP BY vehicle_id, DATE(timestamp)
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_perf_vehicle_date ON daily_vehicle_performance(vehicle_id, performance_date DESC)`,
+    );
+
+    await queryRunner.query(`
+      CREATE OR REPLACE FUNCTION update_updated_at_column()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        NEW.updated_at = NOW();
+        RETURN NEW;
+      END;
+      $$ language 'plpgsql'
+    `);
+    for (const [trigger, table] of UPDATED_AT_TRIGGERS) {
+      await queryRunner.query(`DROP TRIGGER IF EXISTS ${trigger} ON ${table}`);
+      await queryRunner.query(`
+        CREATE TRIGGER ${trigger}
+          BEFORE UPDATE ON ${table}
+          FOR EACH ROW
+          EXECUTE FUNCTION update_updated_at_column()
+      `);
+    }
+
+    if (adopted) {
+      await queryRunner.query(
+        `COMMENT ON TABLE current_meter_status IS '${ADOPTED_COMMENT}'`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const [{ comment }] = await queryRunner.query(
+      `SELECT obj_description('current_meter_status'::regclass, 'pg_class') as comment`,
+    );
+    if (comment === ADOPTED_COMMENT) {
+      throw new Error(
+        'The baseline schema was adopted from init-db.sql; reverting it would drop tables and readings this migration did not create. Drop them by hand if that is intended.',
+      );
+    }
+
+    await queryRunner.query(`DROP MATERIALIZED VIEW daily_vehicle_performance`);
+    await queryRunner.query(`DROP TABLE idempotency_key`);
+    await queryRunner.query(`DROP TABLE telemetry_gap`);
+    await queryRunner.query(`DROP TABLE device_reporting_mode`);
+    await queryRunner.query(`DROP TABLE vehicle_meter_assignment`);
+    // Drops every partition with it
+    await queryRunner.query(`DROP TABLE vehicle_telemetry_history`);
+    await queryRunner.query(`DROP TABLE meter_telemetry_history`);
+    await queryRunner.query(`DROP TABLE current_vehicle_status`);
+    await queryRunner.query(`DROP TABLE current_meter_status`);
+    await queryRunner.query(`DROP FUNCTION update_updated_at_column()`);
+    await queryRunner.query(`DROP TYPE reporting_mode`);
+    await queryRunner.query(`DROP TYPE telemetry_status`);
+    // Extensions are left installed; other schemas may rely on them
+  }
+}
+
+// CREATE TYPE without IF NOT EXISTS, which Postgres does not offer for types
+async function createType(
+  queryRunner: QueryRunner,
+  statement: string,
+): Promise<void> {
+  await queryRunner.query(`
+    DO $$ BEGIN
+      ${statement};
+    EXCEPTION WHEN duplicate_object THEN NULL;
+    END $$
+  `);
+}
+
+/**
+ * Make the (device, timestamp) index of a history table unique. init-db.sql
+ * created it as a plain index, so duplicate readings may be stored; all but
+ * the first stored of each are deleted first.
+ */
+async function ensureUniqueReadings(
+  queryRunner: QueryRunner,
+  table: string,
+  idColumn: string,
+  index: string,
+): Promise<void> {
+  const [existing] = await queryRunner.query(
+    `
+    SELECT i.indisunique as is_unique
+    FROM pg_index i JOIN pg_class c ON c.oid = i.indexrelid
+    WHERE c.relname = $1
+    `,
+    [index],
+  );
+  if (existing?.is_unique) {
+    return;
+  }
+
+  await queryRunner.query(`
+    DELETE FROM ${table} a
+    USING ${table} b
+    WHERE a.${idColumn} = b.${idColumn}
+      AND a.timestamp = b.timestamp
+      AND a.id > b.id
+  `);
+  await queryRunner.query(`DROP INDEX IF EXISTS ${index}`);
+  await queryRunner.query(
+    `CREATE UNIQUE INDEX ${index} ON ${table}(${idColumn}, timestamp DESC)`,
+  );
+}
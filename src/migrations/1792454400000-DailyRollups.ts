@@ -0,0 +1,103 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Daily rollups for long-range analytics.
+ *
+ * Rebuilds daily_vehicle_performance on UTC days (DATE(timestamp) followed
+ * the server time zone), adds the matching daily_meter_consumption view, and
+ * a rollup_refresh table tracking each view's last refresh.
+ */
+export class DailyRollups1792454400000 implements MigrationInterface {
+  name = 'DailyRollups1792454400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP MATERIALIZED VIEW daily_vehicle_performance`);
+    await queryRunner.query(`
+      CREATE MATERIALIZED VIEW daily_vehicle_performance AS
+      SELECT
+        vehicle_id,
+        (timestamp AT TIME ZONE 'UTC')::date as performance_date,
+        COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+        COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count,
+        SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'valid') as total_kwh_delivered_dc,
+        AVG(battery_temp) FILTER (WHERE status = 'valid') as avg_battery_temp,
+        MIN(soc) as min_soc,
+        MAX(soc) as max_soc,
+        AVG(soc) as avg_soc
+      FROM vehicle_telemetry_history
+      GROUP BY vehicle_id, performance_date
+    `);
+    // Unique so the view can be refreshed CONCURRENTLY
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX idx_daily_perf_vehicle_date ON daily_vehicle_performance(vehicle_id, performance_date DESC)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX idx_daily_perf_date ON daily_vehicle_performance(performance_date)`,
+    );
+
+    await queryRunner.query(`
+      CREATE MATERIALIZED VIEW daily_meter_consumption AS
+      SELECT
+        meter_id,
+        (timestamp AT TIME ZONE 'UTC')::date as consumption_date,
+        COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+        COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count,
+        SUM(kwh_consumed_ac_delta) FILTER (WHERE status = 'valid') as total_kwh_consumed_ac,
+        AVG(voltage) FILTER (WHERE status = 'valid') as avg_voltage
+      FROM meter_telemetry_history
+      GROUP BY meter_id, consumption_date
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX idx_daily_meter_meter_date ON daily_meter_consumption(meter_id, consumption_date DESC)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX idx_daily_meter_date ON daily_meter_consumption(consumption_date)`,
+    );
+
+    // covered_until: days before it are complete in the view; later days
+    // are read from raw history
+    await queryRunner.query(`
+      CREATE TABLE rollup_refresh (
+        view_name VARCHAR(63) PRIMARY KEY,
+        status VARCHAR(16) NOT NULL CHECK (status IN ('running', 'succeeded', 'failed')),
+        started_at TIMESTAMPTZ NOT NULL,
+        finished_at TIMESTAMPTZ,
+        duration_ms INTEGER,
+        covered_until DATE,
+        last_succeeded_at TIMESTAMPTZ,
+        last_error TEXT,
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(`
+      CREATE TRIGGER update_rollup_refresh_timestamp
+        BEFORE UPDATE ON rollup_refresh
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column()
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE rollup_refresh`);
+    await queryRunner.query(`DROP MATERIALIZED VIEW daily_meter_consumption`);
+    await queryRunner.query(`DROP MATERIALIZED VIEW daily_vehicle_performance`);
+    await queryRunner.query(`
+      CREATE MATERIALIZED VIEW daily_vehicle_performance AS
+      SELECT
+        vehicle_id,
+        DATE(timestamp) as performance_date,
+        COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+        COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count,
+        SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'valid') as total_kwh_delivered_dc,
+        AVG(battery_temp) FILTER (WHERE status = 'valid') as avg_battery_temp,
+        MIN(soc) as min_soc,
+        MAX(soc) as max_soc,
+        AVG(soc) as avg_soc
+      FROM vehicle_telemetry_history
+      GROUP BY vehicle_id, DATE(timestamp)
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX idx_daily_perf_vehicle_date ON daily_vehicle_performance(vehicle_id, performance_date DESC)`,
+    );
+  }
+}
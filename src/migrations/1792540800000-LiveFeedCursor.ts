@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Indexes the live feed replays missed updates from: hot rows changed
+ * since a client's cursor, in updated_at order.
+ */
+export class LiveFeedCursor1792540800000 implements MigrationInterface {
+  name = 'LiveFeedCursor1792540800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE INDEX idx_current_meter_updated ON current_meter_status(updated_at, meter_id)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX idx_current_vehicle_updated ON current_vehicle_status(updated_at, vehicle_id)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX idx_current_vehicle_updated`);
+    await queryRunner.query(`DROP INDEX idx_current_meter_updated`);
+  }
+}
@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Versioned health-status policies and the vehicle-to-profile mapping.
+ * The seeded default reproduces the thresholds reports used before policies
+ * were configurable, effective from the epoch so old windows keep them.
+ */
+export class HealthPolicies1792627200000 implements MigrationInterface {
+  name = 'HealthPolicies1792627200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE health_policy (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        profile VARCHAR(64) NOT NULL,
+        version INTEGER NOT NULL,
+        healthy_efficiency DECIMAL(5, 4) NOT NULL,
+        degraded_efficiency DECIMAL(5, 4) NOT NULL,
+        degraded_battery_temp DECIMAL(5, 2),
+        critical_battery_temp DECIMAL(5, 2),
+        degraded_completeness_pct DECIMAL(5, 2),
+        critical_completeness_pct DECIMAL(5, 2),
+        description TEXT,
+        effective_from TIMESTAMPTZ NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT uq_health_policy_version UNIQUE (profile, version),
+        CONSTRAINT chk_health_policy_efficiency
+          CHECK (healthy_efficiency > degraded_efficiency)
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_health_policy_effective ON health_policy(profile, effective_from)`,
+    );
+    await queryRunner.query(`
+      CREATE TABLE vehicle_health_profile (
+        vehicle_id VARCHAR(50) PRIMARY KEY,
+        profile VARCHAR(64) NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(`
+      INSERT INTO health_policy (
+        profile, version, healthy_efficiency, degraded_efficiency,
+        description, effective_from
+      ) VALUES (
+        'default', 1, 0.85, 0.75,
+        'Efficiency-only thresholds', '1970-01-01T00:00:00Z'
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE vehicle_health_profile`);
+    await queryRunner.query(`DROP TABLE health_policy`);
+  }
+}
@@ -0,0 +1,98 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Alert rules, the alerts they raise, the webhooks alerts are sent to and
+ * the delivery outbox those webhooks are retried from.
+ */
+export class Alerting1792713600000 implements MigrationInterface {
+  name = 'Alerting1792713600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE alert_rule (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        name VARCHAR(100) NOT NULL UNIQUE,
+        kind VARCHAR(32) NOT NULL,
+        threshold DECIMAL(10, 3),
+        severity VARCHAR(16) NOT NULL DEFAULT 'warning',
+        cooldown_seconds INTEGER NOT NULL DEFAULT 900,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE alert (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        rule_id UUID NOT NULL REFERENCES alert_rule(id) ON DELETE CASCADE,
+        kind VARCHAR(32) NOT NULL,
+        device_type VARCHAR(16) NOT NULL,
+        device_id VARCHAR(50) NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'open',
+        severity VARCHAR(16) NOT NULL,
+        message TEXT NOT NULL,
+        value DECIMAL(12, 4),
+        occurrences INTEGER NOT NULL DEFAULT 1,
+        opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        acknowledged_at TIMESTAMPTZ,
+        acknowledged_by VARCHAR(100),
+        resolved_at TIMESTAMPTZ,
+        resolution VARCHAR(16)
+      )
+    `);
+    // At most one unresolved alert per rule and device: repeats update it
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX uq_alert_active ON alert(rule_id, device_id) WHERE status <> 'resolved'`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX idx_alert_opened ON alert(opened_at DESC, id DESC)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX idx_alert_rule_device ON alert(rule_id, device_id, resolved_at)`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE alert_webhook (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        url VARCHAR(2048) NOT NULL,
+        secret VARCHAR(200) NOT NULL,
+        events TEXT[] NOT NULL DEFAULT '{opened,acknowledged,resolved}',
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE alert_delivery (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        webhook_id UUID NOT NULL REFERENCES alert_webhook(id) ON DELETE CASCADE,
+        alert_id UUID NOT NULL REFERENCES alert(id) ON DELETE CASCADE,
+        event VARCHAR(16) NOT NULL,
+        payload JSONB NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        response_status INTEGER,
+        last_error TEXT,
+        delivered_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_alert_delivery_due ON alert_delivery(next_attempt_at) WHERE status = 'pending'`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX idx_alert_delivery_webhook ON alert_delivery(webhook_id, created_at DESC)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE alert_delivery`);
+    await queryRunner.query(`DROP TABLE alert_webhook`);
+    await queryRunner.query(`DROP TABLE alert`);
+    await queryRunner.query(`DROP TABLE alert_rule`);
+  }
+}
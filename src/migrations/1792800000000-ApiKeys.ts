@@ -0,0 +1,70 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Tenants, their API keys (stored as SHA-256 hashes) and the devices each
+ * tenant owns.
+ */
+export class ApiKeys1792800000000 implements MigrationInterface {
+  name = 'ApiKeys1792800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE tenant (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        name VARCHAR(100) NOT NULL UNIQUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+
+    // Keys without a tenant are platform keys; only they may administer
+    await queryRunner.query(`
+      CREATE TABLE api_key (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        tenant_id UUID REFERENCES tenant(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        prefix CHAR(8) NOT NULL UNIQUE,
+        key_hash CHAR(64) NOT NULL,
+        scopes TEXT[] NOT NULL,
+        expires_at TIMESTAMPTZ,
+        last_used_at TIMESTAMPTZ,
+        revoked_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT chk_api_key_admin_platform
+          CHECK (tenant_id IS NULL OR NOT ('admin' = ANY(scopes)))
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_api_key_tenant ON api_key(tenant_id)`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE tenant_device (
+        device_type VARCHAR(16) NOT NULL,
+        device_id VARCHAR(50) NOT NULL,
+        tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (device_type, device_id)
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_tenant_device_tenant ON tenant_device(tenant_id, device_type, device_id)`,
+    );
+
+    // Room for the tenant prefix idempotency keys are now scoped with
+    await queryRunner.query(
+      `ALTER TABLE idempotency_key ALTER COLUMN key TYPE VARCHAR(300)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DELETE FROM idempotency_key WHERE length(key) > 255`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE idempotency_key ALTER COLUMN key TYPE VARCHAR(255)`,
+    );
+    await queryRunner.query(`DROP TABLE tenant_device`);
+    await queryRunner.query(`DROP TABLE api_key`);
+    await queryRunner.query(`DROP TABLE tenant`);
+  }
+}
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Registry of known meters and vehicles, and a holding table for readings
+ * from devices that are not registered yet.
+ */
+export class DeviceRegistry1792886400000 implements MigrationInterface {
+  name = 'DeviceRegistry1792886400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE device (
+        device_type VARCHAR(16) NOT NULL,
+        device_id VARCHAR(50) NOT NULL,
+        model VARCHAR(100),
+        site VARCHAR(100),
+        battery_capacity_kwh DECIMAL(8, 2)
+          CHECK (battery_capacity_kwh > 0),
+        nominal_voltage DECIMAL(6, 1) CHECK (nominal_voltage > 0),
+        commissioned_on DATE,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        auto_registered BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (device_type, device_id)
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_device_site ON device(site) WHERE site IS NOT NULL`,
+    );
+
+    // Every device that has reported so far is known, so switching the
+    // unknown-device policy to reject does not lock out the existing fleet
+    await queryRunner.query(`
+      INSERT INTO device (device_type, device_id, auto_registered)
+      SELECT 'meter', meter_id, TRUE FROM current_meter_status
+      UNION ALL
+      SELECT 'vehicle', vehicle_id, TRUE FROM current_vehicle_status
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE quarantined_reading (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        device_type VARCHAR(16) NOT NULL,
+        device_id VARCHAR(50) NOT NULL,
+        tenant_id UUID REFERENCES tenant(id) ON DELETE CASCADE,
+        reading JSONB NOT NULL,
+        received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_quarantined_reading_device ON quarantined_reading(device_type, device_id, received_at)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX idx_quarantined_reading_received ON quarantined_reading(received_at)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE quarantined_reading`);
+    await queryRunner.query(`DROP TABLE device`);
+  }
+}
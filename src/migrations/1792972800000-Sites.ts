@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Sites and depots, nested by parent. A device's free-text site becomes a
+ * reference to a site: meters and chargers are installed there, vehicles
+ * are based there.
+ */
+export class Sites1792972800000 implements MigrationInterface {
+  name = 'Sites1792972800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE site (
+        id VARCHAR(100) PRIMARY KEY,
+        name VARCHAR(200) NOT NULL,
+        parent_id VARCHAR(100) REFERENCES site(id) ON DELETE RESTRICT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CHECK (parent_id <> id)
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_site_parent ON site(parent_id) WHERE parent_id IS NOT NULL`,
+    );
+
+    // Sites already typed on devices become top-level sites named after
+    // themselves, so the foreign key below holds for existing rows
+    await queryRunner.query(`
+      INSERT INTO site (id, name)
+      SELECT DISTINCT site, site FROM device WHERE site IS NOT NULL
+    `);
+    await queryRunner.query(`
+      ALTER TABLE device
+        ADD CONSTRAINT fk_device_site
+        FOREIGN KEY (site) REFERENCES site(id) ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE device DROP CONSTRAINT fk_device_site`,
+    );
+    await queryRunner.query(`DROP TABLE site`);
+  }
+}
@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Charging sessions segmented from vehicle history, and the backlog of
+ * vehicles with readings not segmented yet.
+ */
+export class ChargingSessions1793059200000 implements MigrationInterface {
+  name = 'ChargingSessions1793059200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE charging_session (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        vehicle_id VARCHAR(50) NOT NULL,
+        meter_id VARCHAR(50),
+        status VARCHAR(16) NOT NULL,
+        started_at TIMESTAMPTZ NOT NULL,
+        ended_at TIMESTAMPTZ NOT NULL,
+        start_soc DECIMAL(5, 2) NOT NULL,
+        end_soc DECIMAL(5, 2) NOT NULL,
+        kwh_delivered_dc DECIMAL(10, 3) NOT NULL,
+        kwh_consumed_ac DECIMAL(10, 3),
+        efficiency DECIMAL(10, 4),
+        peak_battery_temp DECIMAL(5, 2),
+        reading_count INTEGER NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (vehicle_id, started_at)
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_charging_session_started ON charging_session(started_at DESC, id DESC)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX idx_charging_session_meter ON charging_session(meter_id, started_at DESC) WHERE meter_id IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX idx_charging_session_open ON charging_session(ended_at) WHERE status = 'open'`,
+    );
+
+    // One row per vehicle: the earliest reading the builder has not seen
+    await queryRunner.query(`
+      CREATE TABLE charging_session_backlog (
+        vehicle_id VARCHAR(50) PRIMARY KEY,
+        since TIMESTAMPTZ NOT NULL,
+        marked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_charging_session_backlog_marked ON charging_session_backlog(marked_at)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE charging_session_backlog`);
+    await queryRunner.query(`DROP TABLE charging_session`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Durable queue of accepted readings waiting to be written, one row per
+ * request.
+ */
+export class IngestQueue1793145600000 implements MigrationInterface {
+  name = 'IngestQueue1793145600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE ingest_queue (
+        id BIGSERIAL PRIMARY KEY,
+        device_type VARCHAR(16) NOT NULL,
+        tenant_id UUID,
+        readings JSONB NOT NULL,
+        reading_count INTEGER NOT NULL,
+        enqueued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_error TEXT
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX idx_ingest_queue_due ON ingest_queue(next_attempt_at, id)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE ingest_queue`);
+  }
+}
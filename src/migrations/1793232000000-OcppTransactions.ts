@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Charging transactions started by OCPP charge points. The serial id is
+ * the transactionId handed to the charger.
+ */
+export class OcppTransactions1793232000000 implements MigrationInterface {
+  name = 'OcppTransactions1793232000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE ocpp_transaction (
+        id SERIAL PRIMARY KEY,
+        charge_point_id VARCHAR(50) NOT NULL,
+        connector_id INTEGER NOT NULL,
+        meter_id VARCHAR(50) NOT NULL,
+        vehicle_id VARCHAR(50) NOT NULL,
+        tenant_id UUID,
+        meter_start_wh BIGINT NOT NULL,
+        register_base DECIMAL(10, 3) NOT NULL,
+        assignment_id UUID,
+        started_at TIMESTAMPTZ NOT NULL,
+        meter_stop_wh BIGINT,
+        stopped_at TIMESTAMPTZ,
+        stop_reason VARCHAR(32),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX idx_ocpp_transaction_open
+      ON ocpp_transaction(charge_point_id, connector_id)
+      WHERE stopped_at IS NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE ocpp_transaction`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Earliest day written to history since a rollup view's last refresh
+ * started, so backfilled days are read from raw history until then.
+ */
+export class RollupStaleness1793318400000 implements MigrationInterface {
+  name = 'RollupStaleness1793318400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE rollup_refresh ADD COLUMN stale_from DATE`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE rollup_refresh DROP COLUMN stale_from`,
+    );
+  }
+}
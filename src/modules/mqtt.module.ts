@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { TelemetryModule } from './telemetry.module';
+import { MqttIngestionService } from '../services/mqtt-ingestion.service';
+
+// Inert unless MQTT_URL is set
+@Module({
+  imports: [TelemetryModule],
+  providers: [MqttIngestionService],
+})
+export class MqttModule {}
@@ -1,13 +1,89 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { CurrentMeterStatus } from '../entities/current-meter-status.entity';
 import { CurrentVehicleStatus } from '../entities/current-vehicle-status.entity';
 import { MeterTelemetryHistory } from '../entities/meter-telemetry-history.entity';
 import { VehicleTelemetryHistory } from '../entities/vehicle-telemetry-history.entity';
+import { VehicleMeterAssignment } from '../entities/vehicle-meter-assignment.entity';
+import { IdempotencyKey } from '../entities/idempotency-key.entity';
+import { DeviceReportingMode } from '../entities/device-reporting-mode.entity';
+import { TelemetryGap } from '../entities/telemetry-gap.entity';
+import { RollupRefresh } from '../entities/rollup-refresh.entity';
+import { HealthPolicy } from '../entities/health-policy.entity';
+import { VehicleHealthProfile } from '../entities/vehicle-health-profile.entity';
+import { AlertRule } from '../entities/alert-rule.entity';
+import { Alert } from '../entities/alert.entity';
+import { AlertWebhook } from '../entities/alert-webhook.entity';
+import { AlertDelivery } from '../entities/alert-delivery.entity';
+import { Tenant } from '../entities/tenant.entity';
+import { TenantDevice } from '../entities/tenant-device.entity';
+import { ApiKey } from '../entities/api-key.entity';
+import { Device } from '../entities/device.entity';
+import { QuarantinedReading } from '../entities/quarantined-reading.entity';
+import { Site } from '../entities/site.entity';
+import { ChargingSession } from '../entities/charging-session.entity';
+import { OcppTransaction } from '../entities/ocpp-transaction.entity';
 import { IngestionService } from '../services/ingestion.service';
 import { AnalyticsService } from '../services/analytics.service';
+import { VehicleMeterAssignmentService } from '../services/vehicle-meter-assignment.service';
+import { IdempotencyService } from '../services/idempotency.service';
+import { EnergyRegisterService } from '../services/energy-register.service';
+import { AnomalyDetectorService } from '../services/anomaly-detector.service';
+import { GapDetectionService } from '../services/gap-detection.service';
+import { PartitionManagerService } from '../services/partition-manager.service';
+import { RollupService } from '../services/rollup.service';
+import { LiveStatusService } from '../services/live-status.service';
+import { LiveFeedService } from '../services/live-feed.service';
+import { HealthPolicyService } from '../services/health-policy.service';
+import { AlertService } from '../services/alert.service';
+import { AlertWebhookService } from '../services/alert-webhook.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { TenantService } from '../services/tenant.service';
+import { DeviceRegistryService } from '../services/device-registry.service';
+import { SiteService } from '../services/site.service';
+import { ChargingSessionService } from '../services/charging-session.service';
+import { IngestQueueService } from '../services/ingest-queue.service';
+import { BulkLoadService } from '../services/bulk-load.service';
+import { TelemetryUploadService } from '../services/telemetry-upload.service';
+import { OcppService } from '../services/ocpp.service';
+import { ApiKeyGuard } from '../guards/api-key.guard';
+import { ANOMALY_RULES, AnomalyRule } from '../rules/anomaly-rule';
+import { VoltageBandRule } from '../rules/voltage-band.rule';
+import { SocJumpRule } from '../rules/soc-jump.rule';
+import { NegativeDeltaRule } from '../rules/negative-delta.rule';
+import { BatteryTemperatureRule } from '../rules/battery-temperature.rule';
+import { FutureTimestampRule } from '../rules/future-timestamp.rule';
 import { IngestionController } from '../controllers/ingestion.controller';
 import { AnalyticsController } from '../controllers/analytics.controller';
+import { VehicleMeterAssignmentController } from '../controllers/vehicle-meter-assignment.controller';
+import { ReportingModeController } from '../controllers/reporting-mode.controller';
+import { PartitionController } from '../controllers/partition.controller';
+import { RollupController } from '../controllers/rollup.controller';
+import { StatusController } from '../controllers/status.controller';
+import { StreamController } from '../controllers/stream.controller';
+import { HealthPolicyController } from '../controllers/health-policy.controller';
+import { AlertController } from '../controllers/alert.controller';
+import { AlertRuleController } from '../controllers/alert-rule.controller';
+import { AlertWebhookController } from '../controllers/alert-webhook.controller';
+import { ApiKeyController } from '../controllers/api-key.controller';
+import { TenantController } from '../controllers/tenant.controller';
+import { DeviceController } from '../controllers/device.controller';
+import { SiteController } from '../controllers/site.controller';
+import { ChargingSessionController } from '../controllers/charging-session.controller';
+import { IngestQueueController } from '../controllers/ingest-queue.controller';
+import { TelemetryUploadController } from '../controllers/telemetry-upload.controller';
+import { LiveFeedGateway } from '../gateways/live-feed.gateway';
+import { OcppGateway } from '../gateways/ocpp.gateway';
+
+// Checks every ingested reading runs through, in order
+const anomalyRules = [
+  VoltageBandRule,
+  SocJumpRule,
+  NegativeDeltaRule,
+  BatteryTemperatureRule,
+  FutureTimestampRule,
+];
 
 @Module({
   imports: [
@@ -16,10 +92,88 @@ import { AnalyticsController } from '../controllers/analytics.controller';
       CurrentVehicleStatus,
       MeterTelemetryHistory,
       VehicleTelemetryHistory,
+      VehicleMeterAssignment,
+      IdempotencyKey,
+      DeviceReportingMode,
+      TelemetryGap,
+      RollupRefresh,
+      HealthPolicy,
+      VehicleHealthProfile,
+      AlertRule,
+      Alert,
+      AlertWebhook,
+      AlertDelivery,
+      Tenant,
+      TenantDevice,
+      ApiKey,
+      Device,
+      QuarantinedReading,
+      Site,
+      ChargingSession,
+      OcppTransaction,
     ]),
   ],
-  controllers: [IngestionController, AnalyticsController],
-  providers: [IngestionService, AnalyticsService],
-  exports: [IngestionService, AnalyticsService],
+  controllers: [
+    IngestionController,
+    AnalyticsController,
+    VehicleMeterAssignmentController,
+    ReportingModeController,
+    PartitionController,
+    RollupController,
+    StatusController,
+    StreamController,
+    HealthPolicyController,
+    AlertController,
+    AlertRuleController,
+    AlertWebhookController,
+    ApiKeyController,
+    TenantController,
+    DeviceController,
+    SiteController,
+    ChargingSessionController,
+    IngestQueueController,
+    TelemetryUploadController,
+  ],
+  providers: [
+    IngestionService,
+    AnalyticsService,
+    VehicleMeterAssignmentService,
+    IdempotencyService,
+    EnergyRegisterService,
+    ...anomalyRules,
+    {
+      provide: ANOMALY_RULES,
+      useFactory: (...rules: AnomalyRule[]) => rules,
+      inject: anomalyRules,
+    },
+    AnomalyDetectorService,
+    GapDetectionService,
+    PartitionManagerService,
+    RollupService,
+    LiveStatusService,
+    LiveFeedService,
+    LiveFeedGateway,
+    HealthPolicyService,
+    AlertService,
+    AlertWebhookService,
+    ApiKeyService,
+    TenantService,
+    DeviceRegistryService,
+    SiteService,
+    ChargingSessionService,
+    IngestQueueService,
+    BulkLoadService,
+    TelemetryUploadService,
+    OcppService,
+    OcppGateway,
+    // Every HTTP route needs an API key unless marked @Public()
+    { provide: APP_GUARD, useClass: ApiKeyGuard },
+  ],
+  exports: [
+    IngestionService,
+    AnalyticsService,
+    VehicleMeterAssignmentService,
+    EnergyRegisterService,
+  ],
 })
 export class TelemetryModule {}
@@ -0,0 +1,34 @@
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { RegisterDelta } from '../services/energy-register.service';
+
+/**
+ * What a rule sees of one reading. Meter readings carry `voltage`; vehicle
+ * readings carry `soc` and `batteryTemp`.
+ */
+export interface TelemetryCheck {
+  deviceType: DeviceType;
+  deviceId: string;
+  timestamp: Date;
+  voltage?: number;
+  soc?: number;
+  batteryTemp?: number | null;
+  // Energy since the previous reading, as computed for the history row
+  delta?: RegisterDelta;
+  // The reading just before this one (earlier in the batch, or the live
+  // status row), when it is known
+  previous?: { timestamp: Date; soc?: number };
+}
+
+/**
+ * One plausibility check. Returns a human-readable reason when the reading
+ * is anomalous, or null when it passes.
+ */
+export interface AnomalyRule {
+  readonly name: string;
+  // A finding from this rule also keeps the reading out of the live
+  // status table
+  readonly holdsBackLiveStatus?: boolean;
+  check(reading: TelemetryCheck, receivedAt: Date): string | null;
+}
+
+export const ANOMALY_RULES = Symbol('ANOMALY_RULES');
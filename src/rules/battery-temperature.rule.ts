@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnomalyRule, TelemetryCheck } from './anomaly-rule';
+
+/**
+ * Battery temperature outside what a traction battery can physically report.
+ */
+@Injectable()
+export class BatteryTemperatureRule implements AnomalyRule {
+  readonly name = 'battery-temperature';
+  private readonly min: number;
+  private readonly max: number;
+
+  constructor(configService: ConfigService) {
+    this.min = Number(configService.get('ANOMALY_BATTERY_TEMP_MIN', -40));
+    this.max = Number(configService.get('ANOMALY_BATTERY_TEMP_MAX', 80));
+  }
+
+  check(reading: TelemetryCheck): string | null {
+    if (reading.batteryTemp === undefined || reading.batteryTemp === null) {
+      return null;
+    }
+    if (reading.batteryTemp < this.min || reading.batteryTemp > this.max) {
+      return `battery temperature ${reading.batteryTemp} °C outside plausible range ${this.min}-${this.max} °C`;
+    }
+    return null;
+  }
+}
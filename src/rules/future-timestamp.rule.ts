@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnomalyRule, TelemetryCheck } from './anomaly-rule';
+
+/**
+ * Reading stamped ahead of the server clock beyond a small skew allowance.
+ *
+ * Such a reading would become the device's newest reading and mark every
+ * genuine reading after it as stale, so it is kept out of the live status
+ * table.
+ */
+@Injectable()
+export class FutureTimestampRule implements AnomalyRule {
+  readonly name = 'future-timestamp';
+  readonly holdsBackLiveStatus = true;
+  private readonly toleranceMs: number;
+
+  constructor(configService: ConfigService) {
+    this.toleranceMs =
+      Number(configService.get('ANOMALY_FUTURE_TOLERANCE_SECONDS', 300)) *
+      1000;
+  }
+
+  check(reading: TelemetryCheck, receivedAt: Date): string | null {
+    const ahead = reading.timestamp.getTime() - receivedAt.getTime();
+    if (ahead > this.toleranceMs) {
+      return `timestamp is ${Math.round(ahead / 1000)} s in the future`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { RegisterEvent } from '../entities/device-reporting-mode.entity';
+import { AnomalyRule, TelemetryCheck } from './anomaly-rule';
+
+/**
+ * Cumulative energy register went backwards without wrapping around.
+ */
+@Injectable()
+export class NegativeDeltaRule implements AnomalyRule {
+  readonly name = 'negative-delta';
+
+  check(reading: TelemetryCheck): string | null {
+    if (reading.delta?.event === RegisterEvent.RESET) {
+      return 'energy register went backwards (meter reset or replaced)';
+    }
+    if (reading.delta?.delta != null && reading.delta.delta < 0) {
+      return `negative energy delta ${reading.delta.delta} kWh`;
+    }
+    return null;
+  }
+}
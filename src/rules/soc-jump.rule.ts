@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnomalyRule, TelemetryCheck } from './anomaly-rule';
+
+/**
+ * State of charge moving faster than a battery can charge or discharge.
+ * Readings less than a minute apart are allowed one minute's worth of change.
+ */
+@Injectable()
+export class SocJumpRule implements AnomalyRule {
+  readonly name = 'soc-jump';
+  private readonly maxRatePerMinute: number;
+
+  constructor(configService: ConfigService) {
+    this.maxRatePerMinute = Number(
+      configService.get('ANOMALY_SOC_MAX_CHANGE_PER_MINUTE', 5),
+    );
+  }
+
+  check(reading: TelemetryCheck): string | null {
+    const previous = reading.previous;
+    if (
+      reading.soc === undefined ||
+      previous?.soc === undefined ||
+      Number.isNaN(previous.soc)
+    ) {
+      return null;
+    }
+
+    const minutes =
+      (reading.timestamp.getTime() - previous.timestamp.getTime()) / 60000;
+    const change = Math.abs(reading.soc - previous.soc);
+    const allowed = this.maxRatePerMinute * Math.max(minutes, 1);
+
+    if (change > allowed) {
+      return `SoC changed by ${change.toFixed(2)}% in ${minutes.toFixed(1)} min (max ${allowed.toFixed(2)}%)`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnomalyRule, TelemetryCheck } from './anomaly-rule';
+
+/**
+ * Meter voltage outside the nominal supply band (230 V +/- 10% by default).
+ */
+@Injectable()
+export class VoltageBandRule implements AnomalyRule {
+  readonly name = 'voltage-band';
+  private readonly min: number;
+  private readonly max: number;
+
+  constructor(configService: ConfigService) {
+    this.min = Number(configService.get('ANOMALY_VOLTAGE_MIN', 207));
+    this.max = Number(configService.get('ANOMALY_VOLTAGE_MAX', 253));
+  }
+
+  check(reading: TelemetryCheck): string | null {
+    if (reading.voltage === undefined) {
+      return null;
+    }
+    if (reading.voltage < this.min || reading.voltage > this.max) {
+      return `voltage ${reading.voltage} V outside nominal band ${this.min}-${this.max} V`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,388 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { AlertEvent, AlertWebhook } from '../entities/alert-webhook.entity';
+import {
+  AlertDelivery,
+  DeliveryStatus,
+} from '../entities/alert-delivery.entity';
+import {
+  AlertDeliveryDto,
+  AlertWebhookDto,
+  CreateAlertWebhookDto,
+  CreatedAlertWebhookDto,
+  UpdateAlertWebhookDto,
+  WebhookTestResultDto,
+} from '../dto/alert-webhook.dto';
+import { AlertDto } from '../dto/alert.dto';
+import { SIGNATURE_HEADER, signWebhook } from '../utils/webhook-signature';
+
+// Deliveries sent per claim; the flush loop claims again until none are due
+const DELIVERY_BATCH_SIZE = 50;
+
+// Longest wait between two attempts of a delivery
+const MAX_RETRY_DELAY_SECONDS = 3600;
+
+const DELIVERY_HISTORY_LIMIT = 50;
+
+interface ClaimedDelivery {
+  id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+interface SendResult {
+  delivered: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+/**
+ * Sends alert events to the configured webhooks.
+ *
+ * Events go through an outbox (alert_delivery): a row per webhook is
+ * written when the event happens and sent right away, and failed sends are
+ * retried with exponential backoff by a scheduled flush until
+ * ALERT_WEBHOOK_MAX_ATTEMPTS. Deliveries are claimed with SKIP LOCKED and
+ * leased for the request timeout, so several instances can flush at once
+ * without sending a delivery twice in parallel. Delivery is at least once;
+ * receivers dedupe on the X-Alert-Delivery header.
+ */
+@Injectable()
+export class AlertWebhookService {
+  private readonly logger = new Logger(AlertWebhookService.name);
+  private readonly enabled: boolean;
+  private readonly timeoutMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseSeconds: number;
+  private flushing: Promise<void> | null = null;
+  private flushAgain = false;
+
+  constructor(
+    @InjectRepository(AlertWebhook)
+    private readonly webhookRepo: Repository<AlertWebhook>,
+    @InjectRepository(AlertDelivery)
+    private readonly deliveryRepo: Repository<AlertDelivery>,
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.enabled =
+      configService.get<string>('ALERTS_ENABLED', 'true') !== 'false';
+    this.timeoutMs = Number(
+      configService.get('ALERT_WEBHOOK_TIMEOUT_MS', 5000),
+    );
+    this.maxAttempts = Number(
+      configService.get('ALERT_WEBHOOK_MAX_ATTEMPTS', 6),
+    );
+    this.retryBaseSeconds = Number(
+      configService.get('ALERT_WEBHOOK_RETRY_BASE_SECONDS', 30),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_30_SECONDS, { name: 'alert-webhook-retry' })
+  async handleCron(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await this.flush();
+    } catch (error) {
+      // Logged only: the next tick retries, and a throw here would go nowhere
+      this.logger.error(`Webhook flush failed: ${error.message}`, error.stack);
+    }
+  }
+
+  async create(data: CreateAlertWebhookDto): Promise<CreatedAlertWebhookDto> {
+    const saved = await this.webhookRepo.save(
+      this.webhookRepo.create({
+        url: data.url,
+        secret: data.secret ?? randomBytes(24).toString('hex'),
+        events: data.events ?? Object.values(AlertEvent),
+        enabled: data.enabled ?? true,
+      }),
+    );
+    this.logger.log(`Registered alert webhook ${saved.id} for ${saved.url}`);
+    return { ...this.toDto(saved), secret: saved.secret };
+  }
+
+  async findAll(): Promise<AlertWebhookDto[]> {
+    const rows = await this.webhookRepo.find({ order: { createdAt: 'ASC' } });
+    return rows.map((row) => this.toDto(row));
+  }
+
+  async findOne(id: string): Promise<AlertWebhookDto> {
+    return this.toDto(await this.getWebhook(id));
+  }
+
+  async update(
+    id: string,
+    data: UpdateAlertWebhookDto,
+  ): Promise<AlertWebhookDto> {
+    const webhook = await this.getWebhook(id);
+    if (data.url !== undefined) {
+      webhook.url = data.url;
+    }
+    if (data.secret !== undefined) {
+      webhook.secret = data.secret;
+    }
+    if (data.events !== undefined) {
+      webhook.events = data.events;
+    }
+    if (data.enabled !== undefined) {
+      webhook.enabled = data.enabled;
+    }
+    return this.toDto(await this.webhookRepo.save(webhook));
+  }
+
+  async remove(id: string): Promise<void> {
+    const result = await this.webhookRepo.delete({ id });
+    if (!result.affected) {
+      throw new NotFoundException(`Webhook ${id} not found`);
+    }
+  }
+
+  async findDeliveries(id: string): Promise<AlertDeliveryDto[]> {
+    await this.getWebhook(id);
+    const rows = await this.deliveryRepo.find({
+      where: { webhookId: id },
+      order: { createdAt: 'DESC' },
+      take: DELIVERY_HISTORY_LIMIT,
+    });
+    return rows.map((row) => ({
+      id: row.id,
+      alertId: row.alertId,
+      event: row.event,
+      status: row.status,
+      attempts: row.attempts,
+      responseStatus: row.responseStatus,
+      lastError: row.lastError,
+      createdAt: row.createdAt.toISOString(),
+      deliveredAt: row.deliveredAt?.toISOString() ?? null,
+      nextAttemptAt: row.nextAttemptAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Send a signed `ping` to a webhook now, bypassing the outbox, so a
+   * receiver can be checked before it gets real alerts.
+   */
+  async test(id: string): Promise<WebhookTestResultDto> {
+    const webhook = await this.getWebhook(id);
+    const payload = {
+      event: 'ping',
+      webhookId: webhook.id,
+      occurredAt: new Date().toISOString(),
+    };
+    return this.send(
+      webhook.url,
+      webhook.secret,
+      'ping',
+      `ping-${Date.now()}`,
+      payload,
+    );
+  }
+
+  /**
+   * Queue an alert event for every enabled webhook subscribed to it and
+   * start sending. Resolves once the deliveries are stored, not sent.
+   */
+  async enqueue(alert: AlertDto, event: AlertEvent): Promise<void> {
+    const webhooks = await this.webhookRepo.find({ where: { enabled: true } });
+    const targets = webhooks.filter((webhook) =>
+      webhook.events.includes(event),
+    );
+    if (targets.length === 0) {
+      return;
+    }
+
+    const payload = {
+      event: `alert.${event}`,
+      occurredAt: new Date().toISOString(),
+      alert,
+    };
+    await this.deliveryRepo.insert(
+      targets.map((webhook) => ({
+        webhookId: webhook.id,
+        alertId: alert.id,
+        event,
+        payload,
+        nextAttemptAt: new Date(),
+      })),
+    );
+    this.kick();
+  }
+
+  /**
+   * Send every due delivery. Concurrent calls share one run, which goes
+   * round again if it was asked to while busy.
+   */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      try {
+        do {
+          this.flushAgain = false;
+          // A full batch means more may be due
+          let sent: number;
+          do {
+            sent = await this.sendDue();
+          } while (sent === DELIVERY_BATCH_SIZE);
+        } while (this.flushAgain);
+      } finally {
+        this.flushing = null;
+      }
+    })();
+    return this.flushing;
+  }
+
+  private kick(): void {
+    this.flush().catch((error) =>
+      this.logger.error(`Webhook flush failed: ${error.message}`, error.stack),
+    );
+  }
+
+  private async sendDue(): Promise<number> {
+    const now = new Date();
+    // Lease claimed rows past the request timeout so no other flush picks
+    // them up mid-send; a crash leaves them due again after the lease
+    const lease = new Date(now.getTime() + this.timeoutMs * 2);
+    const claimed: ClaimedDelivery[] = await this.dataSource.query(
+      `
+      UPDATE alert_delivery d
+      SET next_attempt_at = $2
+      FROM alert_webhook w
+      WHERE d.id IN (
+          SELECT d2.id FROM alert_delivery d2
+          JOIN alert_webhook w2 ON w2.id = d2.webhook_id AND w2.enabled
+          WHERE d2.status = 'pending' AND d2.next_attempt_at <= $1
+          ORDER BY d2.next_attempt_at
+          LIMIT $3
+          FOR UPDATE OF d2 SKIP LOCKED
+        )
+        AND w.id = d.webhook_id
+      RETURNING d.id, d.event, d.payload, d.attempts, w.url, w.secret
+      `,
+      [now, lease, DELIVERY_BATCH_SIZE],
+    );
+
+    for (const delivery of claimed) {
+      const result = await this.send(
+        delivery.url,
+        delivery.secret,
+        delivery.event,
+        delivery.id,
+        delivery.payload,
+      );
+      await this.record(delivery, result);
+    }
+    return claimed.length;
+  }
+
+  private async record(
+    delivery: ClaimedDelivery,
+    result: SendResult,
+  ): Promise<void> {
+    const attempts = delivery.attempts + 1;
+
+    if (result.delivered) {
+      await this.deliveryRepo.update(delivery.id, {
+        status: DeliveryStatus.DELIVERED,
+        attempts,
+        responseStatus: result.responseStatus,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+      return;
+    }
+
+    const exhausted = attempts >= this.maxAttempts;
+    const delaySeconds = Math.min(
+      this.retryBaseSeconds * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY_SECONDS,
+    );
+    await this.deliveryRepo.update(delivery.id, {
+      status: exhausted ? DeliveryStatus.FAILED : DeliveryStatus.PENDING,
+      attempts,
+      responseStatus: result.responseStatus,
+      lastError: result.error,
+      nextAttemptAt: new Date(Date.now() + delaySeconds * 1000),
+    });
+
+    if (exhausted) {
+      this.logger.error(
+        `Delivery ${delivery.id} to ${delivery.url} failed after ${attempts} attempts: ${result.error}`,
+      );
+    } else {
+      this.logger.warn(
+        `Delivery ${delivery.id} to ${delivery.url} failed (${result.error}); retrying in ${delaySeconds}s`,
+      );
+    }
+  }
+
+  private async send(
+    url: string,
+    secret: string,
+    event: string,
+    deliveryId: string,
+    payload: Record<string, unknown>,
+  ): Promise<SendResult> {
+    const body = JSON.stringify(payload);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-alert-event': event,
+          'x-alert-delivery': deliveryId,
+          [SIGNATURE_HEADER]: signWebhook(secret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+
+      return response.ok
+        ? { delivered: true, responseStatus: response.status, error: null }
+        : {
+            delivered: false,
+            responseStatus: response.status,
+            error: `HTTP ${response.status}`,
+          };
+    } catch (error) {
+      return {
+        delivered: false,
+        responseStatus: null,
+        error: error.name === 'TimeoutError' ? 'Timed out' : error.message,
+      };
+    }
+  }
+
+  private async getWebhook(id: string): Promise<AlertWebhook> {
+    const webhook = await this.webhookRepo.findOne({ where: { id } });
+    if (!webhook) {
+      throw new NotFoundException(`Webhook ${id} not found`);
+    }
+    return webhook;
+  }
+
+  private toDto(webhook: AlertWebhook): AlertWebhookDto {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.events,
+      enabled: webhook.enabled,
+    };
+  }
+}
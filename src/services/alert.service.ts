@@ -0,0 +1,782 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, In, Repository } from 'typeorm';
+import {
+  AlertRule,
+  AlertRuleKind,
+  AlertSeverity,
+} from '../entities/alert-rule.entity';
+import { Alert, AlertResolution, AlertStatus } from '../entities/alert.entity';
+import { AlertEvent } from '../entities/alert-webhook.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import {
+  AlertDto,
+  AlertPageDto,
+  AlertQueryDto,
+  AlertRuleDto,
+  CreateAlertRuleDto,
+  UpdateAlertRuleDto,
+} from '../dto/alert.dto';
+import { AlertWebhookService } from './alert-webhook.service';
+import { AnalyticsService } from './analytics.service';
+import { HotRow } from './live-feed.service';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+
+/**
+ * Rule kinds checked against the latest reading of a device: the live
+ * status column they read and which side of the threshold raises.
+ */
+interface ReadingRuleSpec {
+  deviceType: DeviceType;
+  table: string;
+  id: string;
+  column: string;
+  above: boolean;
+  label: string;
+}
+
+const READING_RULES: Partial<Record<AlertRuleKind, ReadingRuleSpec>> = {
+  [AlertRuleKind.BATTERY_TEMP_ABOVE]: {
+    deviceType: DeviceType.VEHICLE,
+    table: 'current_vehicle_status',
+    id: 'vehicle_id',
+    column: 'battery_temp',
+    above: true,
+    label: 'Battery temperature',
+  },
+  [AlertRuleKind.SOC_BELOW]: {
+    deviceType: DeviceType.VEHICLE,
+    table: 'current_vehicle_status',
+    id: 'vehicle_id',
+    column: 'soc',
+    above: false,
+    label: 'State of charge',
+  },
+  [AlertRuleKind.VOLTAGE_BELOW]: {
+    deviceType: DeviceType.METER,
+    table: 'current_meter_status',
+    id: 'meter_id',
+    column: 'voltage',
+    above: false,
+    label: 'Voltage',
+  },
+  [AlertRuleKind.VOLTAGE_ABOVE]: {
+    deviceType: DeviceType.METER,
+    table: 'current_meter_status',
+    id: 'meter_id',
+    column: 'voltage',
+    above: true,
+    label: 'Voltage',
+  },
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// The condition holding for one device
+interface Observation {
+  deviceId: string;
+  value: number | null;
+  seenAt: Date;
+  message: string;
+}
+
+/**
+ * Raises, deduplicates and resolves alerts.
+ *
+ * Reading rules are checked against every ingested reading once its
+ * transaction has committed; vehicle_critical is checked on a schedule
+ * over the last ALERT_HEALTH_WINDOW_MINUTES. While a rule holds for a
+ * device there is one unresolved alert for the pair, and repeats only bump
+ * its occurrences. When the condition clears the alert resolves; if it
+ * comes back within the rule's cooldown the same alert reopens without a
+ * new notification, so a flapping sensor does not page anyone twice.
+ *
+ * Enabled rules and the unresolved (rule, device) pairs are cached so a
+ * reading that raises nothing costs no query. Another instance's changes
+ * reach the cache on the next scheduled pass, which also re-checks reading
+ * rules against the live status tables and resolves what no longer holds.
+ */
+@Injectable()
+export class AlertService {
+  private readonly logger = new Logger(AlertService.name);
+  private readonly enabled: boolean;
+  private readonly healthWindowMinutes: number;
+  private rules: AlertRule[] = [];
+  private readonly active = new Set<string>();
+  private loaded: Promise<void> | null = null;
+
+  constructor(
+    @InjectRepository(AlertRule)
+    private readonly ruleRepo: Repository<AlertRule>,
+    @InjectRepository(Alert)
+    private readonly alertRepo: Repository<Alert>,
+    private readonly dataSource: DataSource,
+    private readonly analyticsService: AnalyticsService,
+    private readonly webhookService: AlertWebhookService,
+    configService: ConfigService,
+  ) {
+    this.enabled =
+      configService.get<string>('ALERTS_ENABLED', 'true') !== 'false';
+    this.healthWindowMinutes = Number(
+      configService.get('ALERT_HEALTH_WINDOW_MINUTES', 60),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'alert-evaluation' })
+  async handleCron(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await this.reload();
+      await this.withLock('alert-evaluation', () => this.reconcileReadings());
+    } catch (error) {
+      // Logged only: the next tick retries, and a throw here would go nowhere
+      this.logger.error(
+        `Alert evaluation failed: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'alert-health-evaluation' })
+  async handleHealthCron(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await this.withLock('alert-health-evaluation', () =>
+        this.evaluateHealth(),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Health alert evaluation failed: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async createRule(data: CreateAlertRuleDto): Promise<AlertRuleDto> {
+    this.assertThreshold(data.kind, data.threshold);
+    const saved = await this.saveRule(
+      this.ruleRepo.create({
+        name: data.name,
+        kind: data.kind,
+        threshold: data.threshold ?? null,
+        severity: data.severity ?? AlertSeverity.WARNING,
+        cooldownSeconds: data.cooldownSeconds ?? 900,
+        enabled: data.enabled ?? true,
+      }),
+    );
+    this.logger.log(`Created alert rule ${saved.name} (${saved.kind})`);
+    return this.toRuleDto(saved);
+  }
+
+  async findRules(): Promise<AlertRuleDto[]> {
+    const rows = await this.ruleRepo.find({ order: { name: 'ASC' } });
+    return rows.map((row) => this.toRuleDto(row));
+  }
+
+  async findRule(id: string): Promise<AlertRuleDto> {
+    return this.toRuleDto(await this.getRule(id));
+  }
+
+  async updateRule(
+    id: string,
+    data: UpdateAlertRuleDto,
+  ): Promise<AlertRuleDto> {
+    const rule = await this.getRule(id);
+    if (data.threshold !== undefined) {
+      this.assertThreshold(rule.kind, data.threshold);
+      rule.threshold = data.threshold;
+    }
+    if (data.name !== undefined) {
+      rule.name = data.name;
+    }
+    if (data.severity !== undefined) {
+      rule.severity = data.severity;
+    }
+    if (data.cooldownSeconds !== undefined) {
+      rule.cooldownSeconds = data.cooldownSeconds;
+    }
+    if (data.enabled !== undefined) {
+      rule.enabled = data.enabled;
+    }
+    return this.toRuleDto(await this.saveRule(rule));
+  }
+
+  /**
+   * Delete a rule together with its alert history.
+   */
+  async removeRule(id: string): Promise<void> {
+    const result = await this.ruleRepo.delete({ id });
+    if (!result.affected) {
+      throw new NotFoundException(`Alert rule ${id} not found`);
+    }
+    await this.reload();
+  }
+
+  /**
+   * Alerts, most recently opened first.
+   */
+  async findAlerts(query: AlertQueryDto): Promise<AlertPageDto> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const qb = this.alertRepo
+      .createQueryBuilder('a')
+      .orderBy('a.opened_at', 'DESC')
+      .addOrderBy('a.id', 'DESC')
+      .take(limit + 1);
+
+    if (query.status) {
+      qb.andWhere('a.status = :status', { status: query.status });
+    }
+    if (query.deviceId) {
+      qb.andWhere('a.device_id = :deviceId', { deviceId: query.deviceId });
+    }
+    if (query.ruleId) {
+      qb.andWhere('a.rule_id = :ruleId', { ruleId: query.ruleId });
+    }
+    if (query.severity) {
+      qb.andWhere('a.severity = :severity', { severity: query.severity });
+    }
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, 'opened');
+      qb.andWhere('(a.opened_at, a.id) < (:cursorValue, :cursorId)', {
+        cursorValue: cursor.value,
+        cursorId: cursor.id,
+      });
+    }
+
+    const rows = await qb.getMany();
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => this.toDto(row)),
+      nextCursor:
+        rows.length > limit
+          ? encodeCursor({
+              sort: 'opened',
+              value: last.openedAt.toISOString(),
+              id: last.id,
+            })
+          : null,
+    };
+  }
+
+  async findAlert(id: string): Promise<AlertDto> {
+    return this.toDto(await this.getAlert(id));
+  }
+
+  /**
+   * Mark an open alert as being handled. It still resolves by itself when
+   * the condition clears.
+   */
+  async acknowledge(id: string, by?: string): Promise<AlertDto> {
+    const alert = await this.getAlert(id);
+    if (alert.status === AlertStatus.RESOLVED) {
+      throw new ConflictException(`Alert ${id} is already resolved`);
+    }
+    if (alert.status === AlertStatus.ACKNOWLEDGED) {
+      return this.toDto(alert);
+    }
+
+    alert.status = AlertStatus.ACKNOWLEDGED;
+    alert.acknowledgedAt = new Date();
+    alert.acknowledgedBy = by ?? null;
+    const saved = await this.alertRepo.save(alert);
+    await this.notify([saved], AlertEvent.ACKNOWLEDGED);
+    return this.toDto(saved);
+  }
+
+  /**
+   * Resolve an alert by hand. If its condition still holds, the next
+   * reading reopens it (within the cooldown) or raises a new one.
+   */
+  async resolve(id: string): Promise<AlertDto> {
+    const alert = await this.getAlert(id);
+    if (alert.status === AlertStatus.RESOLVED) {
+      throw new ConflictException(`Alert ${id} is already resolved`);
+    }
+
+    alert.status = AlertStatus.RESOLVED;
+    alert.resolvedAt = new Date();
+    alert.resolution = AlertResolution.MANUAL;
+    const saved = await this.alertRepo.save(alert);
+    this.active.delete(this.key(saved.ruleId, saved.deviceId));
+    await this.notify([saved], AlertEvent.RESOLVED);
+    return this.toDto(saved);
+  }
+
+  /**
+   * Check freshly committed live status rows against the reading rules.
+   * Runs in the background and never throws, so alerting cannot fail or
+   * slow down an ingest.
+   */
+  observe(deviceType: DeviceType, rows: HotRow[]): void {
+    if (!this.enabled || rows.length === 0) {
+      return;
+    }
+
+    this.evaluateReadings(deviceType, rows).catch((error) =>
+      this.logger.error(
+        `Alert evaluation of ${rows.length} ${deviceType} readings failed: ${error.message}`,
+        error.stack,
+      ),
+    );
+  }
+
+  async evaluateReadings(
+    deviceType: DeviceType,
+    rows: HotRow[],
+  ): Promise<void> {
+    await this.ensureLoaded();
+
+    for (const rule of this.rules) {
+      const spec = READING_RULES[rule.kind];
+      if (!spec || spec.deviceType !== deviceType) {
+        continue;
+      }
+
+      // Latest row per device, in case a batch carried several
+      const latest = new Map<string, HotRow>();
+      for (const row of rows) {
+        latest.set(row[spec.id], row);
+      }
+
+      const holding: Observation[] = [];
+      const cleared: string[] = [];
+      for (const [deviceId, row] of latest) {
+        const observation = this.check(rule, spec, deviceId, row);
+        if (observation) {
+          holding.push(observation);
+        } else if (this.active.has(this.key(rule.id, deviceId))) {
+          cleared.push(deviceId);
+        }
+      }
+
+      await this.raise(rule, spec.deviceType, holding, true);
+      await this.clear(rule, cleared);
+    }
+  }
+
+  /**
+   * Re-check every reading rule against the live status tables: raise what
+   * holds without an alert (readings taken on another instance, or rules
+   * added since) and resolve what no longer holds.
+   */
+  async reconcileReadings(): Promise<void> {
+    for (const rule of this.rules) {
+      const spec = READING_RULES[rule.kind];
+      if (!spec) {
+        continue;
+      }
+
+      const rows: HotRow[] = await this.dataSource.query(
+        `
+        SELECT ${spec.id}, ${spec.column}, last_update_timestamp
+        FROM ${spec.table}
+        WHERE ${spec.column} ${spec.above ? '>' : '<'} $1
+        `,
+        [rule.threshold],
+      );
+      const holding = rows.map(
+        (row) => this.check(rule, spec, row[spec.id], row)!,
+      );
+
+      await this.raise(rule, spec.deviceType, holding, false);
+      await this.clearExcept(
+        rule,
+        holding.map((observation) => observation.deviceId),
+      );
+    }
+  }
+
+  /**
+   * Raise vehicle_critical alerts for vehicles whose health status over the
+   * last ALERT_HEALTH_WINDOW_MINUTES is critical, and resolve the others.
+   */
+  async evaluateHealth(now: Date = new Date()): Promise<void> {
+    await this.ensureLoaded();
+    const rules = this.rules.filter(
+      (rule) => rule.kind === AlertRuleKind.VEHICLE_CRITICAL,
+    );
+    if (rules.length === 0) {
+      return;
+    }
+
+    const startTime = Date.now();
+    const vehicles = await this.analyticsService.getVehicleHealth({
+      from: new Date(now.getTime() - this.healthWindowMinutes * 60 * 1000),
+      to: now,
+    });
+    const critical: Observation[] = vehicles
+      .filter((vehicle) => vehicle.health.status === 'critical')
+      .map((vehicle) => ({
+        deviceId: vehicle.vehicleId,
+        value: vehicle.efficiencyRatio,
+        seenAt: now,
+        message: `Vehicle health critical under ${vehicle.policy.profile} v${vehicle.policy.version}: ${vehicle.health.reasons.join('; ')}`,
+      }));
+
+    for (const rule of rules) {
+      await this.raise(rule, DeviceType.VEHICLE, critical, true);
+      await this.clearExcept(
+        rule,
+        critical.map((observation) => observation.deviceId),
+      );
+    }
+
+    const duration = Date.now() - startTime;
+    this.logger.log(
+      `Health alerts evaluated for ${vehicles.length} vehicles in ${duration}ms (${critical.length} critical)`,
+    );
+  }
+
+  /**
+   * Reload enabled rules and unresolved alerts into the cache.
+   */
+  async reload(): Promise<void> {
+    const load = (async () => {
+      const [rules, active] = await Promise.all([
+        this.ruleRepo.find({ where: { enabled: true } }),
+        this.alertRepo.find({
+          select: { ruleId: true, deviceId: true },
+          where: { status: In([AlertStatus.OPEN, AlertStatus.ACKNOWLEDGED]) },
+        }),
+      ]);
+      this.rules = rules;
+      this.active.clear();
+      for (const alert of active) {
+        this.active.add(this.key(alert.ruleId, alert.deviceId));
+      }
+    })();
+    this.loaded = load;
+    try {
+      await load;
+    } catch (error) {
+      // Let the next caller try again rather than keep a failed load
+      this.loaded = null;
+      throw error;
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    return this.loaded ?? this.reload();
+  }
+
+  private check(
+    rule: AlertRule,
+    spec: ReadingRuleSpec,
+    deviceId: string,
+    row: HotRow,
+  ): Observation | null {
+    const raw = row[spec.column];
+    if (raw === null || raw === undefined) {
+      return null;
+    }
+    const value = parseFloat(raw);
+    const threshold = Number(rule.threshold);
+    const holds = spec.above ? value > threshold : value < threshold;
+    if (!holds) {
+      return null;
+    }
+    return {
+      deviceId,
+      value,
+      seenAt: new Date(row.last_update_timestamp),
+      message: `${spec.label} ${value} ${spec.above ? 'above' : 'below'} ${threshold}`,
+    };
+  }
+
+  /**
+   * Record that a rule holds for some devices: bump their unresolved alert,
+   * reopen one resolved within the cooldown, or open a new one (the only
+   * case that notifies). `repeat` is false for reconciliation passes, which
+   * must not count as a new occurrence.
+   */
+  private async raise(
+    rule: AlertRule,
+    deviceType: DeviceType,
+    observations: Observation[],
+    repeat: boolean,
+  ): Promise<void> {
+    if (observations.length === 0) {
+      return;
+    }
+
+    const columns = (list: Observation[]) => [
+      list.map((o) => o.deviceId),
+      list.map((o) => o.value),
+      list.map((o) => o.seenAt),
+      list.map((o) => o.message),
+    ];
+    const VALUES = `unnest($2::varchar[], $3::numeric[], $4::timestamptz[], $5::text[])
+      AS v(device_id, value, seen_at, message)`;
+
+    const [bumped]: [{ device_id: string }[], number] =
+      await this.dataSource.query(
+        `
+      UPDATE alert a
+      SET last_seen_at = GREATEST(a.last_seen_at, v.seen_at),
+          value = v.value,
+          message = v.message,
+          occurrences = a.occurrences + $6
+      FROM ${VALUES}
+      WHERE a.rule_id = $1
+        AND a.device_id = v.device_id
+        AND a.status <> 'resolved'
+      RETURNING a.device_id
+      `,
+        [rule.id, ...columns(observations), repeat ? 1 : 0],
+      );
+    let remaining = this.without(observations, bumped);
+    if (remaining.length === 0) {
+      return;
+    }
+
+    const [reopened]: [{ device_id: string }[], number] =
+      await this.dataSource.query(
+        `
+      UPDATE alert a
+      SET status = 'open',
+          resolved_at = NULL,
+          resolution = NULL,
+          acknowledged_at = NULL,
+          acknowledged_by = NULL,
+          last_seen_at = v.seen_at,
+          value = v.value,
+          message = v.message,
+          occurrences = a.occurrences + 1
+      FROM (
+        SELECT DISTINCT ON (device_id) id, device_id
+        FROM alert
+        WHERE rule_id = $1
+          AND device_id = ANY($2::varchar[])
+          AND status = 'resolved'
+          AND resolved_at > $6
+        ORDER BY device_id, resolved_at DESC
+      ) recent, ${VALUES}
+      WHERE a.id = recent.id
+        AND v.device_id = recent.device_id
+      RETURNING a.device_id
+      `,
+        [
+          rule.id,
+          ...columns(remaining),
+          new Date(Date.now() - rule.cooldownSeconds * 1000),
+        ],
+      );
+    for (const row of reopened) {
+      this.active.add(this.key(rule.id, row.device_id));
+    }
+    remaining = this.without(remaining, reopened);
+    if (remaining.length === 0) {
+      return;
+    }
+
+    // A concurrent raise for the same pair wins; this one is dropped
+    const opened: { id: string }[] = await this.dataSource.query(
+      `
+      INSERT INTO alert (
+        rule_id, kind, device_type, device_id, severity, message, value,
+        opened_at, last_seen_at
+      )
+      SELECT $1, $6, $7, v.device_id, $8, v.message, v.value, v.seen_at, v.seen_at
+      FROM ${VALUES}
+      ON CONFLICT (rule_id, device_id) WHERE status <> 'resolved' DO NOTHING
+      RETURNING id
+      `,
+      [rule.id, ...columns(remaining), rule.kind, deviceType, rule.severity],
+    );
+    if (opened.length === 0) {
+      return;
+    }
+
+    const alerts = await this.alertRepo.findBy({
+      id: In(opened.map((row) => row.id)),
+    });
+    for (const alert of alerts) {
+      this.active.add(this.key(rule.id, alert.deviceId));
+      this.logger.warn(
+        `Alert ${rule.name} opened for ${alert.deviceType} ${alert.deviceId}: ${alert.message}`,
+      );
+    }
+    await this.notify(alerts, AlertEvent.OPENED);
+  }
+
+  private async clear(rule: AlertRule, deviceIds: string[]): Promise<void> {
+    if (deviceIds.length === 0) {
+      return;
+    }
+    await this.resolveWhere(rule, 'AND device_id = ANY($2::varchar[])', [
+      deviceIds,
+    ]);
+  }
+
+  private async clearExcept(
+    rule: AlertRule,
+    deviceIds: string[],
+  ): Promise<void> {
+    await this.resolveWhere(rule, 'AND NOT (device_id = ANY($2::varchar[]))', [
+      deviceIds,
+    ]);
+  }
+
+  private async resolveWhere(
+    rule: AlertRule,
+    condition: string,
+    params: unknown[],
+  ): Promise<void> {
+    const [rows]: [{ id: string }[], number] = await this.dataSource.query(
+      `
+      UPDATE alert
+      SET status = 'resolved', resolved_at = NOW(), resolution = 'cleared'
+      WHERE rule_id = $1
+        AND status <> 'resolved'
+        ${condition}
+      RETURNING id
+      `,
+      [rule.id, ...params],
+    );
+    if (rows.length === 0) {
+      return;
+    }
+
+    const alerts = await this.alertRepo.findBy({
+      id: In(rows.map((row) => row.id)),
+    });
+    for (const alert of alerts) {
+      this.active.delete(this.key(rule.id, alert.deviceId));
+      this.logger.log(
+        `Alert ${rule.name} resolved for ${alert.deviceType} ${alert.deviceId}`,
+      );
+    }
+    await this.notify(alerts, AlertEvent.RESOLVED);
+  }
+
+  private async notify(alerts: Alert[], event: AlertEvent): Promise<void> {
+    for (const alert of alerts) {
+      await this.webhookService.enqueue(this.toDto(alert), event);
+    }
+  }
+
+  private without(
+    observations: Observation[],
+    handled: { device_id: string }[],
+  ): Observation[] {
+    const done = new Set(handled.map((row) => row.device_id));
+    return observations.filter((o) => !done.has(o.deviceId));
+  }
+
+  /**
+   * Run a scheduled pass on one instance at a time.
+   */
+  private async withLock(name: string, fn: () => Promise<void>): Promise<void> {
+    const runner = this.dataSource.createQueryRunner();
+    await runner.connect();
+    try {
+      const [{ locked }] = await runner.query(
+        `SELECT pg_try_advisory_lock(hashtext($1)) as locked`,
+        [name],
+      );
+      if (!locked) {
+        this.logger.debug(`${name} already running elsewhere`);
+        return;
+      }
+      try {
+        await fn();
+      } finally {
+        await runner.query(`SELECT pg_advisory_unlock(hashtext($1))`, [name]);
+      }
+    } finally {
+      await runner.release();
+    }
+  }
+
+  private async saveRule(rule: AlertRule): Promise<AlertRule> {
+    try {
+      const saved = await this.ruleRepo.save(rule);
+      await this.reload();
+      return saved;
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ConflictException(
+          `An alert rule named ${rule.name} already exists`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  private assertThreshold(kind: AlertRuleKind, threshold?: number): void {
+    if (READING_RULES[kind] && threshold === undefined) {
+      throw new BadRequestException(`${kind} rules need a threshold`);
+    }
+    if (!READING_RULES[kind] && threshold !== undefined) {
+      throw new BadRequestException(`${kind} rules take no threshold`);
+    }
+  }
+
+  private async getRule(id: string): Promise<AlertRule> {
+    const rule = await this.ruleRepo.findOne({ where: { id } });
+    if (!rule) {
+      throw new NotFoundException(`Alert rule ${id} not found`);
+    }
+    return rule;
+  }
+
+  private async getAlert(id: string): Promise<Alert> {
+    const alert = await this.alertRepo.findOne({ where: { id } });
+    if (!alert) {
+      throw new NotFoundException(`Alert ${id} not found`);
+    }
+    return alert;
+  }
+
+  private key(ruleId: string, deviceId: string): string {
+    return `${ruleId}:${deviceId}`;
+  }
+
+  private toRuleDto(rule: AlertRule): AlertRuleDto {
+    return {
+      id: rule.id,
+      name: rule.name,
+      kind: rule.kind,
+      threshold: rule.threshold === null ? null : Number(rule.threshold),
+      severity: rule.severity,
+      cooldownSeconds: rule.cooldownSeconds,
+      enabled: rule.enabled,
+    };
+  }
+
+  private toDto(alert: Alert): AlertDto {
+    return {
+      id: alert.id,
+      ruleId: alert.ruleId,
+      kind: alert.kind,
+      deviceType: alert.deviceType as DeviceType,
+      deviceId: alert.deviceId,
+      status: alert.status,
+      severity: alert.severity,
+      message: alert.message,
+      value: alert.value === null ? null : Number(alert.value),
+      occurrences: alert.occurrences,
+      openedAt: alert.openedAt.toISOString(),
+      lastSeenAt: alert.lastSeenAt.toISOString(),
+      acknowledgedAt: alert.acknowledgedAt?.toISOString() ?? null,
+      acknowledgedBy: alert.acknowledgedBy,
+      resolvedAt: alert.resolvedAt?.toISOString() ?? null,
+      resolution: alert.resolution,
+    };
+  }
+}
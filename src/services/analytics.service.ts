@@ -1,9 +1,290 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
 import { VehicleTelemetryHistory } from '../entities/vehicle-telemetry-history.entity';
 import { MeterTelemetryHistory } from '../entities/meter-telemetry-history.entity';
-import { PerformanceAnalyticsDto } from '../dto/performance-analytics.dto';
+import {
+  PerformanceAnalyticsDto,
+  PerformancePointDto,
+  PerformanceTimeSeriesDto,
+} from '../dto/performance-analytics.dto';
+import { PerformanceBucket } from '../dto/performance-query.dto';
+import { FleetDayDto, FleetReportDto } from '../dto/fleet-report.dto';
+import {
+  ChargerLeaderboardDto,
+  ChargerLeaderboardQueryDto,
+  ChargerRankBy,
+  FleetSummaryDto,
+  VehicleLeaderboardDto,
+  VehicleLeaderboardQueryDto,
+  VehicleRankBy,
+} from '../dto/fleet-analytics.dto';
+import {
+  SiteEnergyDto,
+  SiteEnergyListDto,
+  SiteEnergyReportDto,
+} from '../dto/site-analytics.dto';
+import { SortOrder } from '../dto/live-status.dto';
+import { RollupService } from './rollup.service';
+import {
+  HealthAssessment,
+  HealthPolicySelector,
+  HealthPolicyService,
+} from './health-policy.service';
+import { HealthPolicy } from '../entities/health-policy.entity';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+
+const BUCKET_INTERVALS: Record<PerformanceBucket, { sql: string; ms: number }> =
+  {
+    [PerformanceBucket.FIFTEEN_MINUTES]: {
+      sql: '15 minutes',
+      ms: 15 * 60 * 1000,
+    },
+    [PerformanceBucket.ONE_HOUR]: { sql: '1 hour', ms: 60 * 60 * 1000 },
+    [PerformanceBucket.ONE_DAY]: { sql: '1 day', ms: 24 * 60 * 60 * 1000 },
+  };
+
+// Upper bound on points per series so a 15m bucket over a year can't
+// produce a response the dashboard can't render anyway
+const MAX_SERIES_POINTS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = 366;
+
+// Fleet aggregates scan raw history for every device, so their window is
+// capped; longer periods are served by the fleet report's rollups
+const MAX_FLEET_WINDOW_DAYS = 31;
+const DEFAULT_LEADERBOARD_SIZE = 10;
+
+// Leaderboard sort keys and the per-device stats column each ranks on
+const VEHICLE_RANK_COLUMNS: Record<VehicleRankBy, string> = {
+  [VehicleRankBy.EFFICIENCY]: 'efficiency',
+  [VehicleRankBy.DELIVERED_DC]: 'kwh_dc',
+  [VehicleRankBy.CONSUMED_AC]: 'kwh_ac',
+  [VehicleRankBy.AVG_BATTERY_TEMP]: 'avg_battery_temp',
+  [VehicleRankBy.MAX_BATTERY_TEMP]: 'max_battery_temp',
+};
+
+const CHARGER_RANK_COLUMNS: Record<ChargerRankBy, string> = {
+  [ChargerRankBy.EFFICIENCY]: 'efficiency',
+  [ChargerRankBy.CONSUMED_AC]: 'kwh_ac',
+  [ChargerRankBy.DELIVERED_DC]: 'kwh_dc',
+};
+
+/**
+ * Per-vehicle totals over the window $1..$2, one row per vehicle that
+ * reported. AC energy is correlated through the assignment table exactly as
+ * for a single vehicle; values are rounded here so leaderboard cursors
+ * compare against what clients were shown.
+ */
+const VEHICLE_STATS_SQL = `
+  WITH vehicle AS (
+    SELECT
+      vehicle_id,
+      SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'valid') as kwh_dc,
+      AVG(battery_temp) FILTER (WHERE status = 'valid') as avg_battery_temp,
+      MAX(battery_temp) FILTER (WHERE status = 'valid') as max_battery_temp,
+      COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+      COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count
+    FROM vehicle_telemetry_history
+    WHERE timestamp >= $1
+      AND timestamp < $2
+    GROUP BY vehicle_id
+  ),
+  meter AS (
+    SELECT
+      a.vehicle_id,
+      SUM(m.kwh_consumed_ac_delta) FILTER (WHERE m.status = 'valid') as kwh_ac
+    FROM vehicle_meter_assignment a
+    JOIN meter_telemetry_history m
+      ON m.meter_id = a.meter_id
+      AND m.timestamp >= GREATEST(a.effective_from, $1)
+      AND m.timestamp < $2
+      AND (a.effective_until IS NULL OR m.timestamp < a.effective_until)
+    WHERE a.effective_from < $2
+      AND (a.effective_until IS NULL OR a.effective_until > $1)
+    GROUP BY a.vehicle_id
+  )
+  SELECT
+    v.vehicle_id,
+    ROUND(COALESCE(v.kwh_dc, 0), 3) as kwh_dc,
+    ROUND(COALESCE(m.kwh_ac, 0), 3) as kwh_ac,
+    CASE WHEN COALESCE(m.kwh_ac, 0) > 0
+      THEN ROUND(COALESCE(v.kwh_dc, 0) / m.kwh_ac, 4)
+      ELSE 0
+    END as efficiency,
+    ROUND(COALESCE(v.avg_battery_temp, 0), 2) as avg_battery_temp,
+    ROUND(COALESCE(v.max_battery_temp, 0), 2) as max_battery_temp,
+    v.reading_count,
+    v.anomaly_count
+  FROM vehicle v
+  LEFT JOIN meter m USING (vehicle_id)
+`;
+
+/**
+ * Per-meter totals over the window $1..$2, with the DC energy delivered to
+ * the vehicles assigned to each meter while they were attached.
+ */
+const CHARGER_STATS_SQL = `
+  WITH meter AS (
+    SELECT
+      meter_id,
+      SUM(kwh_consumed_ac_delta) FILTER (WHERE status = 'valid') as kwh_ac,
+      AVG(voltage) FILTER (WHERE status = 'valid') as avg_voltage,
+      COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+      COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count
+    FROM meter_telemetry_history
+    WHERE timestamp >= $1
+      AND timestamp < $2
+    GROUP BY meter_id
+  ),
+  delivered AS (
+    SELECT
+      a.meter_id,
+      SUM(v.kwh_delivered_dc_delta) FILTER (WHERE v.status = 'valid') as kwh_dc,
+      ARRAY_AGG(DISTINCT a.vehicle_id) as vehicle_ids
+    FROM vehicle_meter_assignment a
+    JOIN vehicle_telemetry_history v
+      ON v.vehicle_id = a.vehicle_id
+      AND v.timestamp >= GREATEST(a.effective_from, $1)
+      AND v.timestamp < $2
+      AND (a.effective_until IS NULL OR v.timestamp < a.effective_until)
+    WHERE a.effective_from < $2
+      AND (a.effective_until IS NULL OR a.effective_until > $1)
+    GROUP BY a.meter_id
+  )
+  SELECT
+    m.meter_id,
+    ROUND(COALESCE(m.kwh_ac, 0), 3) as kwh_ac,
+    ROUND(COALESCE(d.kwh_dc, 0), 3) as kwh_dc,
+    CASE WHEN COALESCE(m.kwh_ac, 0) > 0
+      THEN ROUND(COALESCE(d.kwh_dc, 0) / m.kwh_ac, 4)
+      ELSE 0
+    END as efficiency,
+    ROUND(COALESCE(m.avg_voltage, 0), 2) as avg_voltage,
+    m.reading_count,
+    m.anomaly_count,
+    COALESCE(d.vehicle_ids, '{}') as vehicle_ids
+  FROM meter m
+  LEFT JOIN delivered d USING (meter_id)
+`;
+
+// Peak demand is the highest site-wide AC draw over one of these intervals
+const PEAK_DEMAND_INTERVAL =
+  BUCKET_INTERVALS[PerformanceBucket.FIFTEEN_MINUTES];
+
+/**
+ * Per-site totals over the window $1..$2, each covering the site and all of
+ * its sub-sites. With a site ID in $3 only that site and its direct
+ * sub-sites are returned, otherwise every site. AC and peak demand come
+ * from the meters installed at the sites, DC from the vehicles attached to
+ * those meters while they were attached (as for the charger leaderboard);
+ * vehicles are counted at their home depot. $4 is the peak demand interval.
+ */
+const SITE_STATS_SQL = `
+  WITH RECURSIVE tree AS (
+    SELECT id as site_id, id as member_id
+    FROM site
+    WHERE $3::varchar IS NULL OR id = $3 OR parent_id = $3
+    UNION
+    SELECT t.site_id, s.id
+    FROM tree t
+    JOIN site s ON s.parent_id = t.member_id
+  ),
+  meter AS (
+    SELECT t.site_id, d.device_id as meter_id
+    FROM tree t
+    JOIN device d ON d.site = t.member_id AND d.device_type = 'meter'
+  ),
+  demand AS (
+    SELECT
+      m.site_id,
+      date_bin($4::interval, h.timestamp, TIMESTAMPTZ '1970-01-01 00:00:00+00') as bucket_start,
+      SUM(h.kwh_consumed_ac_delta) FILTER (WHERE h.status = 'valid') as kwh_ac,
+      ARRAY_AGG(DISTINCT h.meter_id) as meter_ids
+    FROM meter m
+    JOIN meter_telemetry_history h
+      ON h.meter_id = m.meter_id
+      AND h.timestamp >= $1
+      AND h.timestamp < $2
+    GROUP BY m.site_id, bucket_start
+  ),
+  consumed AS (
+    SELECT site_id, SUM(kwh_ac) as kwh_ac
+    FROM demand
+    GROUP BY site_id
+  ),
+  reporting AS (
+    SELECT site_id, COUNT(DISTINCT meter_id) as meter_count
+    FROM demand, UNNEST(meter_ids) as meter_id
+    GROUP BY site_id
+  ),
+  peak AS (
+    SELECT DISTINCT ON (site_id) site_id, kwh_ac, bucket_start
+    FROM demand
+    WHERE kwh_ac IS NOT NULL
+    ORDER BY site_id, kwh_ac DESC, bucket_start
+  ),
+  delivered AS (
+    SELECT
+      m.site_id,
+      SUM(v.kwh_delivered_dc_delta) FILTER (WHERE v.status = 'valid') as kwh_dc
+    FROM meter m
+    JOIN vehicle_meter_assignment a
+      ON a.meter_id = m.meter_id
+      AND a.effective_from < $2
+      AND (a.effective_until IS NULL OR a.effective_until > $1)
+    JOIN vehicle_telemetry_history v
+      ON v.vehicle_id = a.vehicle_id
+      AND v.timestamp >= GREATEST(a.effective_from, $1)
+      AND v.timestamp < $2
+      AND (a.effective_until IS NULL OR v.timestamp < a.effective_until)
+    GROUP BY m.site_id
+  ),
+  based AS (
+    SELECT t.site_id, COUNT(*) as vehicle_count
+    FROM tree t
+    JOIN device d ON d.site = t.member_id AND d.device_type = 'vehicle'
+    GROUP BY t.site_id
+  )
+  SELECT
+    s.id as site_id,
+    s.name,
+    s.parent_id,
+    ROUND(COALESCE(c.kwh_ac, 0), 3) as kwh_ac,
+    ROUND(COALESCE(d.kwh_dc, 0), 3) as kwh_dc,
+    COALESCE(p.kwh_ac, 0) as peak_kwh,
+    p.bucket_start as peak_at,
+    COALESCE(r.meter_count, 0) as meter_count,
+    COALESCE(b.vehicle_count, 0) as vehicle_count
+  FROM site s
+  JOIN (SELECT DISTINCT site_id FROM tree) scope ON scope.site_id = s.id
+  LEFT JOIN consumed c ON c.site_id = s.id
+  LEFT JOIN reporting r ON r.site_id = s.id
+  LEFT JOIN peak p ON p.site_id = s.id
+  LEFT JOIN delivered d ON d.site_id = s.id
+  LEFT JOIN based b ON b.site_id = s.id
+  ORDER BY s.id
+`;
+
+export interface AnalyticsWindow {
+  from: Date;
+  to: Date;
+}
+
+export interface VehicleHealth {
+  vehicleId: string;
+  efficiencyRatio: number;
+  health: HealthAssessment;
+  policy: HealthPolicy;
+}
 
 @Injectable()
 export class AnalyticsService {
@@ -15,73 +296,116 @@ export class AnalyticsService {
     @InjectRepository(MeterTelemetryHistory)
     private readonly meterHistoryRepo: Repository<MeterTelemetryHistory>,
     private readonly dataSource: DataSource,
+    private readonly rollupService: RollupService,
+    private readonly healthPolicyService: HealthPolicyService,
   ) {}
 
   /**
-   * Get 24-hour performance analytics for a vehicle
-   * 
+   * Resolve optional from/to query values into a concrete window.
+   * Defaults to the rolling 24 hours ending now.
+   */
+  resolveWindow(from?: string, to?: string): AnalyticsWindow {
+    const end = to ? new Date(to) : new Date();
+    const start = from
+      ? new Date(from)
+      : new Date(end.getTime() - 24 * 60 * 60 * 1000);
+
+    if (start >= end) {
+      throw new BadRequestException('`from` must be earlier than `to`');
+    }
+
+    return { from: start, to: end };
+  }
+
+  /**
+   * Get performance analytics for a vehicle over a time window
+   *
    * PERFORMANCE OPTIMIZATION STRATEGY:
    * 1. Uses indexed columns (vehicle_id, timestamp) to avoid full table scan
    * 2. Leverages partitioning on timestamp for faster data access
    * 3. Aggregates data in database rather than application layer
    * 4. Returns pre-computed metrics in single query
-   * 
+   *
+   * Energy totals sum the per-reading deltas computed at ingestion, never
+   * the raw register values, so cumulative and interval devices add up the
+   * same way and rollovers/resets do not distort the totals.
+   *
+   * Only readings with status 'valid' feed the totals, averages and
+   * efficiency; readings flagged as anomalies are counted and their energy
+   * reported separately.
+   *
+   * Health status follows the vehicle's policy version in effect at the end
+   * of the window, unless `healthPolicy` pins another one.
+   *
    * Query Plan: Index Scan on vehicle_telemetry_history_partition
    * Expected execution time: <100ms even with millions of rows
    */
-  async getVehiclePerformance24h(
+  async getVehiclePerformance(
     vehicleId: string,
+    window: AnalyticsWindow,
+    healthPolicy: HealthPolicySelector = {},
   ): Promise<PerformanceAnalyticsDto> {
     const startTime = Date.now();
-    const now = new Date();
-    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
     try {
       // CRITICAL: This query uses composite index (vehicle_id, timestamp)
       // to avoid scanning the entire partitioned table
       const vehicleData = await this.dataSource.query(
         `
-        SELECT 
+        SELECT
           vehicle_id,
-          COUNT(*) as reading_count,
-          SUM(kwh_delivered_dc) as total_kwh_delivered_dc,
-          AVG(battery_temp) as avg_battery_temp,
+          COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+          COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count,
+          SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'valid') as total_kwh_delivered_dc,
+          SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'anomaly') as anomalous_kwh_delivered_dc,
+          AVG(battery_temp) FILTER (WHERE status = 'valid') as avg_battery_temp,
           MIN(timestamp) as period_start,
           MAX(timestamp) as period_end
         FROM vehicle_telemetry_history
         WHERE vehicle_id = $1
           AND timestamp >= $2
-          AND timestamp <= $3
+          AND timestamp < $3
         GROUP BY vehicle_id
         `,
-        [vehicleId, twentyFourHoursAgo, now],
+        [vehicleId, window.from, window.to],
       );
 
       if (!vehicleData || vehicleData.length === 0) {
         throw new NotFoundException(
-          `No telemetry data found for vehicle ${vehicleId} in the last 24 hours`,
+          `No telemetry data found for vehicle ${vehicleId} between ${window.from.toISOString()} and ${window.to.toISOString()}`,
         );
       }
 
       const vehicleStats = vehicleData[0];
 
-      // To calculate efficiency, we need to correlate with meter data
-      // Assumption: One meter can serve multiple vehicles, but we can identify
-      // the meter by finding meter readings in the same time window
-      // For production, you'd maintain a vehicle_to_meter mapping table
-
-      // OPTIMIZATION: Query only the relevant time window with index
+      // Correlate only with the meter(s) the vehicle was attached to, and
+      // only for the slice of the window each assignment covers
       const meterData = await this.dataSource.query(
         `
-        SELECT 
-          SUM(kwh_consumed_ac) as total_kwh_consumed_ac
-        FROM meter_telemetry_history
-        WHERE timestamp >= $1
-          AND timestamp <= $2
+        SELECT
+          SUM(m.kwh_consumed_ac_delta) FILTER (WHERE m.status = 'valid') as total_kwh_consumed_ac,
+          SUM(m.kwh_consumed_ac_delta) FILTER (WHERE m.status = 'anomaly') as anomalous_kwh_consumed_ac,
+          ARRAY_AGG(DISTINCT a.meter_id) as meter_ids
+        FROM vehicle_meter_assignment a
+        LEFT JOIN meter_telemetry_history m
+          ON m.meter_id = a.meter_id
+          AND m.timestamp >= GREATEST(a.effective_from, $2)
+          AND m.timestamp < $3
+          AND (a.effective_until IS NULL OR m.timestamp < a.effective_until)
+        WHERE a.vehicle_id = $1
+          AND a.effective_from < $3
+          AND (a.effective_until IS NULL OR a.effective_until > $2)
         `,
-        [twentyFourHoursAgo, now],
+        [vehicleId, window.from, window.to],
       );
 
+      const meterIds: string[] = meterData[0]?.meter_ids ?? [];
+      if (meterIds.length === 0) {
+        this.logger.warn(
+          `Vehicle ${vehicleId} has no meter assignment in the requested window; efficiency cannot be correlated`,
+        );
+      }
+
       const totalKwhConsumedAc = parseFloat(meterData[0]?.total_kwh_consumed_ac) || 0;
       const totalKwhDeliveredDc =
         parseFloat(vehicleStats.total_kwh_delivered_dc) || 0;
@@ -92,15 +416,23 @@ export class AnalyticsService {
           ? totalKwhDeliveredDc / totalKwhConsumedAc
           : 0;
 
-      // Determine health status based on efficiency
-      let healthStatus: 'healthy' | 'degraded' | 'critical';
-      if (efficiencyRatio >= 0.85) {
-        healthStatus = 'healthy';
-      } else if (efficiencyRatio >= 0.75) {
-        healthStatus = 'degraded';
-      } else {
-        healthStatus = 'critical';
-      }
+      const policy = await this.healthPolicyService.resolve(
+        vehicleId,
+        window.to,
+        healthPolicy,
+      );
+      const readingCount = parseInt(vehicleStats.reading_count);
+      const anomalyCount = parseInt(vehicleStats.anomaly_count ?? '0');
+      const avgBatteryTemp = parseFloat(
+        (parseFloat(vehicleStats.avg_battery_temp) || 0).toFixed(2),
+      );
+      const health = this.healthPolicyService.assess(policy, {
+        efficiencyRatio: parseFloat(efficiencyRatio.toFixed(4)),
+        avgBatteryTemp,
+        readingCount: readingCount + anomalyCount,
+        from: window.from,
+        to: window.to,
+      });
 
       const result: PerformanceAnalyticsDto = {
         vehicleId,
@@ -109,11 +441,20 @@ export class AnalyticsService {
         totalKwhConsumedAc: parseFloat(totalKwhConsumedAc.toFixed(3)),
         totalKwhDeliveredDc: parseFloat(totalKwhDeliveredDc.toFixed(3)),
         efficiencyRatio: parseFloat(efficiencyRatio.toFixed(4)),
-        avgBatteryTemp: parseFloat(
-          (parseFloat(vehicleStats.avg_battery_temp) || 0).toFixed(2),
+        avgBatteryTemp,
+        readingCount,
+        anomalyCount,
+        anomalousKwhConsumedAc: parseFloat(
+          (parseFloat(meterData[0]?.anomalous_kwh_consumed_ac) || 0).toFixed(3),
         ),
-        readingCount: parseInt(vehicleStats.reading_count),
-        healthStatus,
+        anomalousKwhDeliveredDc: parseFloat(
+          (parseFloat(vehicleStats.anomalous_kwh_delivered_dc) || 0).toFixed(3),
+        ),
+        meterIds,
+        completenessPct: health.completenessPct,
+        healthStatus: health.status,
+        healthReasons: health.reasons,
+        healthPolicy: this.healthPolicyService.applied(policy),
       };
 
       const duration = Date.now() - startTime;
@@ -135,138 +476,764 @@ export class AnalyticsService {
   }
 
   /**
-   * Get performance analytics for a specific vehicle with meter correlation
-   * This version finds the specific meter(s) associated with the vehicle
+   * Get a bucketed performance time series for a vehicle
+   *
+   * Vehicle and meter sides are aggregated separately with date_bin() so
+   * each query still prunes partitions and uses its (device_id, timestamp)
+   * index; the two series are merged per bucket in the application.
    */
-  async getVehiclePerformanceWithMeter(
+  async getVehiclePerformanceSeries(
     vehicleId: string,
-    meterId?: string,
-  ): Promise<PerformanceAnalyticsDto> {
+    window: AnalyticsWindow,
+    bucket: PerformanceBucket,
+  ): Promise<PerformanceTimeSeriesDto> {
     const startTime = Date.now();
-    const now = new Date();
-    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    const interval = BUCKET_INTERVALS[bucket];
+
+    // Buckets are aligned to the Unix epoch (UTC midnight), matching the
+    // origin passed to date_bin() below
+    const firstBucket =
+      Math.floor(window.from.getTime() / interval.ms) * interval.ms;
+    const bucketCount = Math.ceil(
+      (window.to.getTime() - firstBucket) / interval.ms,
+    );
+
+    if (bucketCount > MAX_SERIES_POINTS) {
+      throw new BadRequestException(
+        `Requested window produces ${bucketCount} ${bucket} buckets; the maximum is ${MAX_SERIES_POINTS}. Use a coarser bucket or a shorter window.`,
+      );
+    }
 
     try {
-      // Query vehicle telemetry with index optimization
-      const vehicleData = await this.dataSource.query(
+      const vehicleRows = await this.dataSource.query(
         `
-        SELECT 
-          vehicle_id,
-          COUNT(*) as reading_count,
-          SUM(kwh_delivered_dc) as total_kwh_delivered_dc,
-          AVG(battery_temp) as avg_battery_temp,
-          MIN(timestamp) as period_start,
-          MAX(timestamp) as period_end
+        SELECT
+          date_bin($4::interval, timestamp, TIMESTAMPTZ '1970-01-01 00:00:00+00') as bucket_start,
+          COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+          COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count,
+          SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'valid') as total_kwh_delivered_dc,
+          AVG(battery_temp) FILTER (WHERE status = 'valid') as avg_battery_temp
         FROM vehicle_telemetry_history
         WHERE vehicle_id = $1
           AND timestamp >= $2
-          AND timestamp <= $3
-        GROUP BY vehicle_id
+          AND timestamp < $3
+        GROUP BY bucket_start
         `,
-        [vehicleId, twentyFourHoursAgo, now],
+        [vehicleId, window.from, window.to, interval.sql],
       );
 
-      if (!vehicleData || vehicleData.length === 0) {
+      if (!vehicleRows || vehicleRows.length === 0) {
         throw new NotFoundException(
-          `No telemetry data found for vehicle ${vehicleId}`,
+          `No telemetry data found for vehicle ${vehicleId} between ${window.from.toISOString()} and ${window.to.toISOString()}`,
         );
       }
 
-      const vehicleStats = vehicleData[0];
+      const meterRows = await this.dataSource.query(
+        `
+        SELECT
+          date_bin($4::interval, m.timestamp, TIMESTAMPTZ '1970-01-01 00:00:00+00') as bucket_start,
+          SUM(m.kwh_consumed_ac_delta) FILTER (WHERE m.status = 'valid') as total_kwh_consumed_ac
+        FROM vehicle_meter_assignment a
+        JOIN meter_telemetry_history m
+          ON m.meter_id = a.meter_id
+          AND m.timestamp >= GREATEST(a.effective_from, $2)
+          AND m.timestamp < $3
+          AND (a.effective_until IS NULL OR m.timestamp < a.effective_until)
+        WHERE a.vehicle_id = $1
+          AND a.effective_from < $3
+          AND (a.effective_until IS NULL OR a.effective_until > $2)
+        GROUP BY bucket_start
+        `,
+        [vehicleId, window.from, window.to, interval.sql],
+      );
 
-      // Query meter telemetry with optional meter filter
-      let meterQuery = `
-        SELECT 
-          SUM(kwh_consumed_ac) as total_kwh_consumed_ac
-        FROM meter_telemetry_history
-        WHERE timestamp >= $1
-          AND timestamp <= $2
-      `;
-      const meterParams: any[] = [twentyFourHoursAgo, now];
-
-      if (meterId) {
-        meterQuery += ' AND meter_id = $3';
-        meterParams.push(meterId);
-      }
+      const meterIdRows = await this.dataSource.query(
+        `
+        SELECT DISTINCT meter_id
+        FROM vehicle_meter_assignment
+        WHERE vehicle_id = $1
+          AND effective_from < $3
+          AND (effective_until IS NULL OR effective_until > $2)
+        `,
+        [vehicleId, window.from, window.to],
+      );
 
-      const meterData = await this.dataSource.query(meterQuery, meterParams);
+      const vehicleByBucket = new Map<number, any>(
+        vehicleRows.map((row: any) => [
+          new Date(row.bucket_start).getTime(),
+          row,
+        ]),
+      );
+      const meterByBucket = new Map<number, any>(
+        meterRows.map((row: any) => [
+          new Date(row.bucket_start).getTime(),
+          row,
+        ]),
+      );
 
-      const totalKwhConsumedAc =
-        parseFloat(meterData[0]?.total_kwh_consumed_ac) || 0;
-      const totalKwhDeliveredDc =
-        parseFloat(vehicleStats.total_kwh_delivered_dc) || 0;
+      const points: PerformancePointDto[] = [];
+      for (let i = 0; i < bucketCount; i++) {
+        const bucketStart = firstBucket + i * interval.ms;
+        const vehicleRow = vehicleByBucket.get(bucketStart);
+        const meterRow = meterByBucket.get(bucketStart);
 
-      const efficiencyRatio =
-        totalKwhConsumedAc > 0
-          ? totalKwhDeliveredDc / totalKwhConsumedAc
-          : 0;
+        const totalKwhConsumedAc =
+          parseFloat(meterRow?.total_kwh_consumed_ac) || 0;
+        const totalKwhDeliveredDc =
+          parseFloat(vehicleRow?.total_kwh_delivered_dc) || 0;
+        const efficiencyRatio =
+          totalKwhConsumedAc > 0
+            ? totalKwhDeliveredDc / totalKwhConsumedAc
+            : 0;
 
-      let healthStatus: 'healthy' | 'degraded' | 'critical';
-      if (efficiencyRatio >= 0.85) {
-        healthStatus = 'healthy';
-      } else if (efficiencyRatio >= 0.75) {
-        healthStatus = 'degraded';
-      } else {
-        healthStatus = 'critical';
+        points.push({
+          bucketStart: new Date(bucketStart).toISOString(),
+          bucketEnd: new Date(bucketStart + interval.ms).toISOString(),
+          totalKwhConsumedAc: parseFloat(totalKwhConsumedAc.toFixed(3)),
+          totalKwhDeliveredDc: parseFloat(totalKwhDeliveredDc.toFixed(3)),
+          efficiencyRatio: parseFloat(efficiencyRatio.toFixed(4)),
+          avgBatteryTemp: parseFloat(
+            (parseFloat(vehicleRow?.avg_battery_temp) || 0).toFixed(2),
+          ),
+          readingCount: parseInt(vehicleRow?.reading_count ?? '0'),
+          anomalyCount: parseInt(vehicleRow?.anomaly_count ?? '0'),
+        });
       }
 
-      const result: PerformanceAnalyticsDto = {
+      const duration = Date.now() - startTime;
+      this.logger.log(
+        `Series for ${vehicleId} (${points.length} x ${bucket}) computed in ${duration}ms`,
+      );
+
+      return {
         vehicleId,
-        periodStart: vehicleStats.period_start,
-        periodEnd: vehicleStats.period_end,
+        periodStart: window.from.toISOString(),
+        periodEnd: window.to.toISOString(),
+        bucket,
+        meterIds: meterIdRows.map((row: any) => row.meter_id),
+        points,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to compute analytics series: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Fleet-wide totals per UTC day over a multi-day period
+   *
+   * Days the rollup views cover are read from daily_vehicle_performance and
+   * daily_meter_consumption (one row per device per day); only the days
+   * after the last refresh - normally just today - are aggregated from raw
+   * history. A 30-day report therefore scans at most a day or two of
+   * readings.
+   */
+  async getFleetReport(
+    from?: string,
+    to?: string,
+    now: Date = new Date(),
+  ): Promise<FleetReportDto> {
+    const startTime = Date.now();
+
+    const lastDay =
+      Math.floor((to ? new Date(to) : now).getTime() / DAY_MS) * DAY_MS;
+    const firstDay = from
+      ? Math.floor(new Date(from).getTime() / DAY_MS) * DAY_MS
+      : lastDay - (DEFAULT_REPORT_DAYS - 1) * DAY_MS;
+
+    if (firstDay > lastDay) {
+      throw new BadRequestException('`from` must not be later than `to`');
+    }
+    const dayCount = (lastDay - firstDay) / DAY_MS + 1;
+    if (dayCount > MAX_REPORT_DAYS) {
+      throw new BadRequestException(
+        `Requested ${dayCount} days; the maximum is ${MAX_REPORT_DAYS}`,
+      );
+    }
+
+    const periodStart = firstDay;
+    const periodEnd = Math.max(
+      periodStart,
+      Math.min(lastDay + DAY_MS, now.getTime()),
+    );
+
+    try {
+      const coveredUntil = await this.rollupService.coveredUntil();
+      // Days before `split` come from the rollups, the rest from raw history
+      const split = Math.min(
+        Math.max(coveredUntil ?? periodStart, periodStart),
+        periodEnd,
+      );
+
+      const byDay = new Map<
+        string,
+        { source: 'rollup' | 'live'; vehicle?: any; meter?: any }
+      >();
+      const collect = (
+        rows: any[],
+        side: 'vehicle' | 'meter',
+        source: 'rollup' | 'live',
+      ) => {
+        for (const row of rows) {
+          const entry = byDay.get(row.day) ?? { source };
+          entry[side] = row;
+          byDay.set(row.day, entry);
+        }
+      };
+
+      if (split > periodStart) {
+        const rollupRange = [
+          new Date(periodStart).toISOString().slice(0, 10),
+          new Date(split).toISOString().slice(0, 10),
+        ];
+        collect(
+          await this.dataSource.query(
+            `
+            SELECT
+              performance_date::text as day,
+              SUM(reading_count) as reading_count,
+              SUM(anomaly_count) as anomaly_count,
+              SUM(total_kwh_delivered_dc) as total_kwh_delivered_dc,
+              COUNT(DISTINCT vehicle_id) as active_devices
+            FROM daily_vehicle_performance
+            WHERE performance_date >= $1::date
+              AND performance_date < $2::date
+            GROUP BY performance_date
+            `,
+            rollupRange,
+          ),
+          'vehicle',
+          'rollup',
+        );
+        collect(
+          await this.dataSource.query(
+            `
+            SELECT
+              consumption_date::text as day,
+              SUM(reading_count) as reading_count,
+              SUM(anomaly_count) as anomaly_count,
+              SUM(total_kwh_consumed_ac) as total_kwh_consumed_ac,
+              COUNT(DISTINCT meter_id) as active_devices
+            FROM daily_meter_consumption
+            WHERE consumption_date >= $1::date
+              AND consumption_date < $2::date
+            GROUP BY consumption_date
+            `,
+            rollupRange,
+          ),
+          'meter',
+          'rollup',
+        );
+      }
+
+      if (periodEnd > split) {
+        const liveRange = [new Date(split), new Date(periodEnd)];
+        collect(
+          await this.dataSource.query(
+            `
+            SELECT
+              to_char(date_bin('1 day', timestamp, TIMESTAMPTZ '1970-01-01 00:00:00+00') AT TIME ZONE 'UTC', 'YYYY-MM-DD') as day,
+              COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+              COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count,
+              SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'valid') as total_kwh_delivered_dc,
+              COUNT(DISTINCT vehicle_id) as active_devices
+            FROM vehicle_telemetry_history
+            WHERE timestamp >= $1
+              AND timestamp < $2
+            GROUP BY day
+            `,
+            liveRange,
+          ),
+          'vehicle',
+          'live',
+        );
+        collect(
+          await this.dataSource.query(
+            `
+            SELECT
+              to_char(date_bin('1 day', timestamp, TIMESTAMPTZ '1970-01-01 00:00:00+00') AT TIME ZONE 'UTC', 'YYYY-MM-DD') as day,
+              COUNT(*) FILTER (WHERE status = 'valid') as reading_count,
+              COUNT(*) FILTER (WHERE status = 'anomaly') as anomaly_count,
+              SUM(kwh_consumed_ac_delta) FILTER (WHERE status = 'valid') as total_kwh_consumed_ac,
+              COUNT(DISTINCT meter_id) as active_devices
+            FROM meter_telemetry_history
+            WHERE timestamp >= $1
+              AND timestamp < $2
+            GROUP BY day
+            `,
+            liveRange,
+          ),
+          'meter',
+          'live',
+        );
+      }
+
+      const days: FleetDayDto[] = [];
+      for (let day = firstDay; day < periodEnd; day += DAY_MS) {
+        const date = new Date(day).toISOString().slice(0, 10);
+        const entry = byDay.get(date);
+        const totalKwhConsumedAc =
+          parseFloat(entry?.meter?.total_kwh_consumed_ac) || 0;
+        const totalKwhDeliveredDc =
+          parseFloat(entry?.vehicle?.total_kwh_delivered_dc) || 0;
+
+        days.push({
+          date,
+          source: entry?.source ?? (day < split ? 'rollup' : 'live'),
+          totalKwhConsumedAc: parseFloat(totalKwhConsumedAc.toFixed(3)),
+          totalKwhDeliveredDc: parseFloat(totalKwhDeliveredDc.toFixed(3)),
+          efficiencyRatio: this.efficiency(
+            totalKwhDeliveredDc,
+            totalKwhConsumedAc,
+          ),
+          vehicleReadingCount: parseInt(entry?.vehicle?.reading_count ?? '0'),
+          meterReadingCount: parseInt(entry?.meter?.reading_count ?? '0'),
+          anomalyCount:
+            parseInt(entry?.vehicle?.anomaly_count ?? '0') +
+            parseInt(entry?.meter?.anomaly_count ?? '0'),
+          activeVehicles: parseInt(entry?.vehicle?.active_devices ?? '0'),
+          activeMeters: parseInt(entry?.meter?.active_devices ?? '0'),
+        });
+      }
+
+      const sum = (field: keyof FleetDayDto) =>
+        days.reduce((total, day) => total + (day[field] as number), 0);
+      const totalKwhConsumedAc = sum('totalKwhConsumedAc');
+      const totalKwhDeliveredDc = sum('totalKwhDeliveredDc');
+
+      const duration = Date.now() - startTime;
+      this.logger.log(
+        `Fleet report for ${days.length} days computed in ${duration}ms (${days.filter((day) => day.source === 'live').length} from raw history)`,
+      );
+
+      return {
+        periodStart: new Date(periodStart).toISOString(),
+        periodEnd: new Date(periodEnd).toISOString(),
+        rollupCoveredUntil:
+          coveredUntil === null
+            ? null
+            : new Date(coveredUntil).toISOString().slice(0, 10),
         totalKwhConsumedAc: parseFloat(totalKwhConsumedAc.toFixed(3)),
         totalKwhDeliveredDc: parseFloat(totalKwhDeliveredDc.toFixed(3)),
-        efficiencyRatio: parseFloat(efficiencyRatio.toFixed(4)),
-        avgBatteryTemp: parseFloat(
-          (parseFloat(vehicleStats.avg_battery_temp) || 0).toFixed(2),
+        efficiencyRatio: this.efficiency(
+          totalKwhDeliveredDc,
+          totalKwhConsumedAc,
         ),
-        readingCount: parseInt(vehicleStats.reading_count),
-        healthStatus,
+        vehicleReadingCount: sum('vehicleReadingCount'),
+        meterReadingCount: sum('meterReadingCount'),
+        anomalyCount: sum('anomalyCount'),
+        days,
       };
+    } catch (error) {
+      this.logger.error(
+        `Failed to compute fleet report: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Fleet-wide totals over a window: AC and DC energy, fleet efficiency,
+   * battery temperatures and how many vehicles fall in each health status.
+   * Energy is aggregated in SQL; health is judged per vehicle here, since
+   * each vehicle may follow a different policy.
+   */
+  async getFleetSummary(window: AnalyticsWindow): Promise<FleetSummaryDto> {
+    const startTime = Date.now();
+    this.assertFleetWindow(window);
+
+    try {
+      const vehicles = await this.dataSource.query(
+        `SELECT * FROM (${VEHICLE_STATS_SQL}) stats`,
+        [window.from, window.to],
+      );
+      const [totals] = await this.dataSource.query(
+        `
+        SELECT
+          (SELECT SUM(kwh_consumed_ac_delta) FILTER (WHERE status = 'valid')
+            FROM meter_telemetry_history
+            WHERE timestamp >= $1 AND timestamp < $2) as kwh_ac,
+          (SELECT COUNT(DISTINCT meter_id)
+            FROM meter_telemetry_history
+            WHERE timestamp >= $1 AND timestamp < $2) as meter_count,
+          (SELECT SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'valid')
+            FROM vehicle_telemetry_history
+            WHERE timestamp >= $1 AND timestamp < $2) as kwh_dc,
+          (SELECT AVG(battery_temp) FILTER (WHERE status = 'valid')
+            FROM vehicle_telemetry_history
+            WHERE timestamp >= $1 AND timestamp < $2) as avg_battery_temp
+        `,
+        [window.from, window.to],
+      );
+
+      const totalKwhConsumedAc = parseFloat(totals.kwh_ac) || 0;
+      const totalKwhDeliveredDc = parseFloat(totals.kwh_dc) || 0;
+
+      const { health, policies } = await this.assessVehicles(vehicles, window);
+      const healthDistribution = { healthy: 0, degraded: 0, critical: 0 };
+      let maxBatteryTemp = 0;
+      vehicles.forEach((row: any, i: number) => {
+        healthDistribution[health[i].status]++;
+        maxBatteryTemp = Math.max(
+          maxBatteryTemp,
+          parseFloat(row.max_battery_temp) || 0,
+        );
+      });
 
       const duration = Date.now() - startTime;
       this.logger.log(
-        `Analytics for ${vehicleId} computed in ${duration}ms`,
+        `Fleet summary for ${vehicles.length} vehicles computed in ${duration}ms`,
       );
 
-      return result;
+      return {
+        periodStart: window.from.toISOString(),
+        periodEnd: window.to.toISOString(),
+        totalKwhConsumedAc: parseFloat(totalKwhConsumedAc.toFixed(3)),
+        totalKwhDeliveredDc: parseFloat(totalKwhDeliveredDc.toFixed(3)),
+        efficiencyRatio: this.efficiency(
+          totalKwhDeliveredDc,
+          totalKwhConsumedAc,
+        ),
+        vehicleCount: vehicles.length,
+        meterCount: parseInt(totals.meter_count ?? '0'),
+        avgBatteryTemp: parseFloat(
+          (parseFloat(totals.avg_battery_temp) || 0).toFixed(2),
+        ),
+        maxBatteryTemp,
+        healthDistribution,
+        healthPolicies: [...new Set(policies)]
+          .sort((a, b) =>
+            a.profile === b.profile
+              ? a.version - b.version
+              : a.profile.localeCompare(b.profile),
+          )
+          .map((policy) => this.healthPolicyService.applied(policy)),
+      };
     } catch (error) {
-      if (error instanceof NotFoundException) {
-        throw error;
-      }
       this.logger.error(
-        `Failed to compute analytics: ${error.message}`,
+        `Failed to compute fleet summary: ${error.message}`,
         error.stack,
       );
       throw error;
     }
   }
 
+  /**
+   * Vehicles ranked by efficiency, energy or battery temperature over a
+   * window; by default the least efficient first.
+   */
+  async getVehicleLeaderboard(
+    window: AnalyticsWindow,
+    query: VehicleLeaderboardQueryDto,
+  ): Promise<VehicleLeaderboardDto> {
+    const sort = query.sort ?? VehicleRankBy.EFFICIENCY;
+    const { rows, nextCursor } = await this.rankPage(
+      VEHICLE_STATS_SQL,
+      'vehicle_id',
+      VEHICLE_RANK_COLUMNS[sort],
+      sort,
+      sort === VehicleRankBy.EFFICIENCY ? SortOrder.ASC : SortOrder.DESC,
+      window,
+      query,
+    );
+
+    const { health, policies } = await this.assessVehicles(rows, window);
+
+    return {
+      periodStart: window.from.toISOString(),
+      periodEnd: window.to.toISOString(),
+      items: rows.map((row, i) => ({
+        vehicleId: row.vehicle_id,
+        totalKwhConsumedAc: parseFloat(row.kwh_ac),
+        totalKwhDeliveredDc: parseFloat(row.kwh_dc),
+        efficiencyRatio: parseFloat(row.efficiency),
+        avgBatteryTemp: parseFloat(row.avg_battery_temp),
+        maxBatteryTemp: parseFloat(row.max_battery_temp),
+        readingCount: parseInt(row.reading_count),
+        anomalyCount: parseInt(row.anomaly_count),
+        healthStatus: health[i].status,
+        healthReasons: health[i].reasons,
+        healthPolicy: this.healthPolicyService.applied(policies[i]),
+      })),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Health of every vehicle that reported in a window, each judged by its
+   * own policy.
+   */
+  async getVehicleHealth(window: AnalyticsWindow): Promise<VehicleHealth[]> {
+    this.assertFleetWindow(window);
+    const rows = await this.dataSource.query(
+      `SELECT * FROM (${VEHICLE_STATS_SQL}) stats`,
+      [window.from, window.to],
+    );
+    const { health, policies } = await this.assessVehicles(rows, window);
+    return rows.map((row: any, i: number) => ({
+      vehicleId: row.vehicle_id,
+      efficiencyRatio: parseFloat(row.efficiency),
+      health: health[i],
+      policy: policies[i],
+    }));
+  }
+
+  /**
+   * Chargers (meters) ranked by efficiency or energy over a window; by
+   * default the least efficient first.
+   */
+  async getChargerLeaderboard(
+    window: AnalyticsWindow,
+    query: ChargerLeaderboardQueryDto,
+  ): Promise<ChargerLeaderboardDto> {
+    const sort = query.sort ?? ChargerRankBy.EFFICIENCY;
+    const { rows, nextCursor } = await this.rankPage(
+      CHARGER_STATS_SQL,
+      'meter_id',
+      CHARGER_RANK_COLUMNS[sort],
+      sort,
+      sort === ChargerRankBy.EFFICIENCY ? SortOrder.ASC : SortOrder.DESC,
+      window,
+      query,
+    );
+
+    return {
+      periodStart: window.from.toISOString(),
+      periodEnd: window.to.toISOString(),
+      items: rows.map((row) => ({
+        meterId: row.meter_id,
+        totalKwhConsumedAc: parseFloat(row.kwh_ac),
+        totalKwhDeliveredDc: parseFloat(row.kwh_dc),
+        efficiencyRatio: parseFloat(row.efficiency),
+        avgVoltage: parseFloat(row.avg_voltage),
+        readingCount: parseInt(row.reading_count),
+        anomalyCount: parseInt(row.anomaly_count),
+        vehicleIds: row.vehicle_ids,
+      })),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Energy, efficiency and peak demand of every site over a window, each
+   * including its sub-sites.
+   */
+  async getSiteSummaries(window: AnalyticsWindow): Promise<SiteEnergyListDto> {
+    const rows = await this.querySites(window, null);
+    return {
+      periodStart: window.from.toISOString(),
+      periodEnd: window.to.toISOString(),
+      items: rows.map((row) => this.toSiteEnergy(row)),
+    };
+  }
+
+  /**
+   * One site's figures over a window, with the same figures for each of
+   * its direct sub-sites.
+   */
+  async getSiteReport(
+    siteId: string,
+    window: AnalyticsWindow,
+  ): Promise<SiteEnergyReportDto> {
+    const rows = await this.querySites(window, siteId);
+    const site = rows.find((row) => row.site_id === siteId);
+    if (!site) {
+      throw new NotFoundException(`Site ${siteId} not found`);
+    }
+
+    return {
+      periodStart: window.from.toISOString(),
+      periodEnd: window.to.toISOString(),
+      ...this.toSiteEnergy(site),
+      children: rows
+        .filter((row) => row.site_id !== siteId)
+        .map((row) => this.toSiteEnergy(row)),
+    };
+  }
+
   /**
    * Explain query plan for debugging performance
    * Use this to verify that queries are using indexes correctly
    */
-  async explainQueryPlan(vehicleId: string): Promise<any> {
-    const now = new Date();
-    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
+  async explainQueryPlan(
+    vehicleId: string,
+    window: AnalyticsWindow,
+  ): Promise<any> {
     const plan = await this.dataSource.query(
       `
       EXPLAIN ANALYZE
-      SELECT 
+      SELECT
         vehicle_id,
         COUNT(*) as reading_count,
-        SUM(kwh_delivered_dc) as total_kwh_delivered_dc,
+        SUM(kwh_delivered_dc_delta) as total_kwh_delivered_dc,
         AVG(battery_temp) as avg_battery_temp
       FROM vehicle_telemetry_history
       WHERE vehicle_id = $1
         AND timestamp >= $2
-        AND timestamp <= $3
+        AND timestamp < $3
       GROUP BY vehicle_id
       `,
-      [vehicleId, twentyFourHoursAgo, now],
+      [vehicleId, window.from, window.to],
     );
 
     return plan;
   }
-}
\ No newline at end of file
+
+  /**
+   * One page of a leaderboard: rank the per-device stats on (sort column,
+   * id) and continue after the cursor's row. The cursor is bound to the
+   * window as well as the sort, since ranks from another window are
+   * meaningless.
+   */
+  private async rankPage(
+    statsSql: string,
+    idColumn: string,
+    sortColumn: string,
+    sort: string,
+    defaultOrder: SortOrder,
+    window: AnalyticsWindow,
+    query: { order?: SortOrder; limit?: number; cursor?: string },
+  ): Promise<{ rows: any[]; nextCursor: string | null }> {
+    const startTime = Date.now();
+    this.assertFleetWindow(window);
+
+    const order = query.order ?? defaultOrder;
+    const limit = query.limit ?? DEFAULT_LEADERBOARD_SIZE;
+    const cursorSort = `${sort}:${order}:${window.from.toISOString()}:${window.to.toISOString()}`;
+    const direction = order === SortOrder.ASC ? 'ASC' : 'DESC';
+    const comparison = order === SortOrder.ASC ? '>' : '<';
+
+    const params: unknown[] = [window.from, window.to, limit + 1];
+    let after = '';
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, cursorSort);
+      params.push(cursor.value, cursor.id);
+      after = `WHERE (${sortColumn}, ${idColumn}) ${comparison} ($4::numeric, $5)`;
+    }
+
+    try {
+      const rows = await this.dataSource.query(
+        `
+        SELECT * FROM (${statsSql}) stats
+        ${after}
+        ORDER BY ${sortColumn} ${direction}, ${idColumn} ${direction}
+        LIMIT $3
+        `,
+        params,
+      );
+
+      const duration = Date.now() - startTime;
+      this.logger.log(
+        `Leaderboard by ${sort} (${rows.length} rows) computed in ${duration}ms`,
+      );
+
+      if (rows.length <= limit) {
+        return { rows, nextCursor: null };
+      }
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      return {
+        rows: page,
+        nextCursor: encodeCursor({
+          sort: cursorSort,
+          value: String(last[sortColumn]),
+          id: last[idColumn],
+        }),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to compute leaderboard: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  private assertFleetWindow(window: AnalyticsWindow): void {
+    const days = (window.to.getTime() - window.from.getTime()) / DAY_MS;
+    if (days > MAX_FLEET_WINDOW_DAYS) {
+      throw new BadRequestException(
+        `Fleet aggregates cover at most ${MAX_FLEET_WINDOW_DAYS} days; use the fleet report for longer periods`,
+      );
+    }
+  }
+
+  private async querySites(
+    window: AnalyticsWindow,
+    siteId: string | null,
+  ): Promise<any[]> {
+    const startTime = Date.now();
+    this.assertFleetWindow(window);
+
+    const rows = await this.dataSource.query(SITE_STATS_SQL, [
+      window.from,
+      window.to,
+      siteId,
+      PEAK_DEMAND_INTERVAL.sql,
+    ]);
+
+    const duration = Date.now() - startTime;
+    this.logger.log(
+      `Site stats for ${rows.length} sites computed in ${duration}ms`,
+    );
+    return rows;
+  }
+
+  private toSiteEnergy(row: any): SiteEnergyDto {
+    const kwhAc = parseFloat(row.kwh_ac);
+    const kwhDc = parseFloat(row.kwh_dc);
+    const intervalHours = PEAK_DEMAND_INTERVAL.ms / (60 * 60 * 1000);
+    return {
+      siteId: row.site_id,
+      name: row.name,
+      parentId: row.parent_id,
+      totalKwhConsumedAc: kwhAc,
+      totalKwhDeliveredDc: kwhDc,
+      efficiencyRatio: this.efficiency(kwhDc, kwhAc),
+      peakDemandKw: parseFloat(
+        (parseFloat(row.peak_kwh) / intervalHours).toFixed(3),
+      ),
+      peakDemandAt: row.peak_at ? new Date(row.peak_at).toISOString() : null,
+      meterCount: parseInt(row.meter_count),
+      vehicleCount: parseInt(row.vehicle_count),
+    };
+  }
+
+  private efficiency(deliveredDc: number, consumedAc: number): number {
+    return consumedAc > 0
+      ? parseFloat((deliveredDc / consumedAc).toFixed(4))
+      : 0;
+  }
+
+  /**
+   * Judge VEHICLE_STATS_SQL rows by the policy each vehicle follows at the
+   * end of the window; results line up with the rows.
+   */
+  private async assessVehicles(
+    rows: any[],
+    window: AnalyticsWindow,
+  ): Promise<{ health: HealthAssessment[]; policies: HealthPolicy[] }> {
+    const byVehicle = await this.healthPolicyService.resolveMany(
+      rows.map((row) => row.vehicle_id),
+      window.to,
+    );
+    const policies = rows.map((row) => byVehicle.get(row.vehicle_id)!);
+    const health = rows.map((row, i) =>
+      this.healthPolicyService.assess(policies[i], {
+        efficiencyRatio: parseFloat(row.efficiency),
+        avgBatteryTemp: parseFloat(row.avg_battery_temp),
+        readingCount: parseInt(row.reading_count) + parseInt(row.anomaly_count),
+        from: window.from,
+        to: window.to,
+      }),
+    );
+    return { health, policies };
+  }
+}
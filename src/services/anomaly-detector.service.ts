@@ -0,0 +1,96 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { TelemetryStatus } from '../entities/current-meter-status.entity';
+import {
+  ANOMALY_RULES,
+  AnomalyRule,
+  TelemetryCheck,
+} from '../rules/anomaly-rule';
+import { readingKey } from '../utils/reading-key';
+
+export interface AnomalyVerdict {
+  status: TelemetryStatus;
+  reasons: string[];
+  // True when a finding must not reach the live status table
+  holdBack: boolean;
+}
+
+/**
+ * Runs every registered AnomalyRule over incoming readings.
+ *
+ * Rules are provided under the ANOMALY_RULES token; adding a check means
+ * writing one more rule class and listing it in TelemetryModule.
+ */
+@Injectable()
+export class AnomalyDetectorService {
+  private readonly logger = new Logger(AnomalyDetectorService.name);
+
+  constructor(
+    @Inject(ANOMALY_RULES) private readonly rules: AnomalyRule[],
+  ) {}
+
+  /**
+   * Judge each reading, keyed by readingKey.
+   *
+   * Readings are walked per device in timestamp order so each one is
+   * compared with the reading just before it: the previous one in the
+   * batch, or for the first, the device's latest stored reading when that
+   * is older.
+   */
+  inspect(
+    checks: Omit<TelemetryCheck, 'previous'>[],
+    latest: Map<string, { timestamp: Date; soc?: number }>,
+    receivedAt: Date = new Date(),
+  ): Map<string, AnomalyVerdict> {
+    const verdicts = new Map<string, AnomalyVerdict>();
+    const ordered = [...checks].sort(
+      (a, b) =>
+        a.deviceId.localeCompare(b.deviceId) ||
+        a.timestamp.getTime() - b.timestamp.getTime(),
+    );
+
+    let previous: TelemetryCheck['previous'];
+    let previousDevice: string | undefined;
+    for (const check of ordered) {
+      if (check.deviceId !== previousDevice) {
+        const stored = latest.get(check.deviceId);
+        previous =
+          stored && stored.timestamp < check.timestamp ? stored : undefined;
+        previousDevice = check.deviceId;
+      }
+
+      verdicts.set(
+        readingKey(check.deviceId, check.timestamp),
+        this.judge({ ...check, previous }, receivedAt),
+      );
+      previous = { timestamp: check.timestamp, soc: check.soc };
+    }
+
+    return verdicts;
+  }
+
+  private judge(check: TelemetryCheck, receivedAt: Date): AnomalyVerdict {
+    const reasons: string[] = [];
+    let holdBack = false;
+
+    for (const rule of this.rules) {
+      const reason = rule.check(check, receivedAt);
+      if (reason !== null) {
+        reasons.push(`${rule.name}: ${reason}`);
+        holdBack = holdBack || rule.holdsBackLiveStatus === true;
+      }
+    }
+
+    if (reasons.length > 0) {
+      this.logger.warn(
+        `Anomalous ${check.deviceType} reading ${check.deviceId} at ${check.timestamp.toISOString()}: ${reasons.join('; ')}`,
+      );
+    }
+
+    return {
+      status:
+        reasons.length > 0 ? TelemetryStatus.ANOMALY : TelemetryStatus.VALID,
+      reasons,
+      holdBack,
+    };
+  }
+}
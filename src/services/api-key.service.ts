@@ -0,0 +1,270 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { ApiKey, ApiKeyScope } from '../entities/api-key.entity';
+import { Tenant } from '../entities/tenant.entity';
+import {
+  ApiKeyDto,
+  ApiKeyQueryDto,
+  CreateApiKeyDto,
+  CreatedApiKeyDto,
+} from '../dto/api-key.dto';
+
+/**
+ * Who a request acts for. `tenantId` is null for platform keys, which
+ * reach every tenant's devices.
+ */
+export interface ApiPrincipal {
+  keyId: string | null;
+  tenantId: string | null;
+  scopes: ApiKeyScope[];
+}
+
+export const API_KEY_HEADER = 'x-api-key';
+
+// What AUTH_BOOTSTRAP_KEY and disabled authentication act as
+export const PLATFORM_ADMIN: ApiPrincipal = Object.freeze({
+  keyId: null,
+  tenantId: null,
+  scopes: [ApiKeyScope.ADMIN],
+});
+
+// eie_<prefix>_<secret>: the prefix finds the row, the whole key is hashed
+const KEY_PATTERN = /^eie_([0-9a-f]{8})_[A-Za-z0-9_-]{43}$/;
+
+// last_used_at is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+interface CachedPrincipal {
+  principal: ApiPrincipal;
+  until: number;
+}
+
+/**
+ * The API key in a request: `X-API-Key`, or an `Authorization: Bearer`
+ * header.
+ */
+export function readApiKey(headers: IncomingHttpHeaders): string | null {
+  const header = headers[API_KEY_HEADER];
+  if (typeof header === 'string' && header.length > 0) {
+    return header;
+  }
+  const authorization = headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  return null;
+}
+
+export function hasScope(principal: ApiPrincipal, scope: ApiKeyScope): boolean {
+  return (
+    principal.scopes.includes(ApiKeyScope.ADMIN) ||
+    principal.scopes.includes(scope)
+  );
+}
+
+/**
+ * Issues, revokes and checks API keys.
+ *
+ * Keys are random and only their SHA-256 is stored, so a leaked table does
+ * not leak usable keys. Keys that checked out are cached for
+ * AUTH_CACHE_SECONDS to keep a database round trip off every ingest call;
+ * a revocation therefore reaches other instances within that time.
+ */
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly cacheMs: number;
+  private readonly bootstrapHash: Buffer | null;
+  private readonly cache = new Map<string, CachedPrincipal>();
+  private readonly lastUsedWrites = new Map<string, number>();
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly keyRepo: Repository<ApiKey>,
+    @InjectRepository(Tenant)
+    private readonly tenantRepo: Repository<Tenant>,
+    configService: ConfigService,
+  ) {
+    this.cacheMs = Number(configService.get('AUTH_CACHE_SECONDS', 60)) * 1000;
+    const bootstrap = configService.get<string>('AUTH_BOOTSTRAP_KEY', '');
+    this.bootstrapHash = bootstrap ? this.hash(bootstrap) : null;
+  }
+
+  /**
+   * Issue a key. The key itself is only ever returned here.
+   */
+  async create(data: CreateApiKeyDto): Promise<CreatedApiKeyDto> {
+    if (data.tenantId && data.scopes.includes(ApiKeyScope.ADMIN)) {
+      throw new BadRequestException(
+        'Tenant keys cannot have the admin scope; omit tenantId for a platform key',
+      );
+    }
+    const expiresAt = data.expiresAt ? new Date(data.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+    if (
+      data.tenantId &&
+      !(await this.tenantRepo.exists({ where: { id: data.tenantId } }))
+    ) {
+      throw new NotFoundException(`Tenant ${data.tenantId} not found`);
+    }
+
+    const prefix = randomBytes(4).toString('hex');
+    const key = `eie_${prefix}_${randomBytes(32).toString('base64url')}`;
+    const saved = await this.keyRepo.save(
+      this.keyRepo.create({
+        tenantId: data.tenantId ?? null,
+        name: data.name,
+        prefix,
+        keyHash: this.hash(key).toString('hex'),
+        scopes: data.scopes,
+        expiresAt,
+      }),
+    );
+
+    this.logger.log(
+      `Issued API key ${saved.prefix} (${saved.scopes.join(', ')}) for ${saved.tenantId ? `tenant ${saved.tenantId}` : 'the platform'}`,
+    );
+    return { ...this.toDto(saved), key };
+  }
+
+  async findAll(query: ApiKeyQueryDto): Promise<ApiKeyDto[]> {
+    const rows = await this.keyRepo.find({
+      where: query.tenantId ? { tenantId: query.tenantId } : {},
+      order: { createdAt: 'DESC' },
+    });
+    return rows.map((row) => this.toDto(row));
+  }
+
+  async findOne(id: string): Promise<ApiKeyDto> {
+    return this.toDto(await this.getKey(id));
+  }
+
+  /**
+   * Revoke a key. Revoked keys are kept so their use can still be audited.
+   */
+  async revoke(id: string): Promise<ApiKeyDto> {
+    const key = await this.getKey(id);
+    if (!key.revokedAt) {
+      key.revokedAt = new Date();
+      await this.keyRepo.update(
+        { id, revokedAt: IsNull() },
+        { revokedAt: key.revokedAt },
+      );
+      this.logger.log(`Revoked API key ${key.prefix}`);
+    }
+    this.evict((principal) => principal.keyId === id);
+    return this.toDto(key);
+  }
+
+  /**
+   * Drop cached keys of a tenant, after the tenant was deleted.
+   */
+  evictTenant(tenantId: string): void {
+    this.evict((principal) => principal.tenantId === tenantId);
+  }
+
+  /**
+   * The principal a key acts as, or null when the key is unknown, revoked
+   * or expired.
+   */
+  async authenticate(key: string): Promise<ApiPrincipal | null> {
+    const hash = this.hash(key);
+    if (this.bootstrapHash && timingSafeEqual(hash, this.bootstrapHash)) {
+      return PLATFORM_ADMIN;
+    }
+
+    const cacheKey = hash.toString('hex');
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.until > Date.now()) {
+      this.touch(cached.principal.keyId!);
+      return cached.principal;
+    }
+    this.cache.delete(cacheKey);
+
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+      return null;
+    }
+    const row = await this.keyRepo.findOne({ where: { prefix: match[1] } });
+    if (!row || !timingSafeEqual(Buffer.from(row.keyHash, 'hex'), hash)) {
+      return null;
+    }
+    const now = Date.now();
+    if (row.revokedAt || (row.expiresAt && row.expiresAt.getTime() <= now)) {
+      return null;
+    }
+
+    const principal: ApiPrincipal = {
+      keyId: row.id,
+      tenantId: row.tenantId,
+      scopes: row.scopes,
+    };
+    this.cache.set(cacheKey, {
+      principal,
+      until: Math.min(now + this.cacheMs, row.expiresAt?.getTime() ?? Infinity),
+    });
+    this.touch(row.id);
+    return principal;
+  }
+
+  // Record use in the background; losing a write only blurs last_used_at
+  private touch(keyId: string): void {
+    const now = Date.now();
+    if (now - (this.lastUsedWrites.get(keyId) ?? 0) < LAST_USED_RESOLUTION_MS) {
+      return;
+    }
+    this.lastUsedWrites.set(keyId, now);
+    this.keyRepo
+      .update({ id: keyId }, { lastUsedAt: new Date(now) })
+      .catch((error) =>
+        this.logger.warn(
+          `Could not record use of API key ${keyId}: ${error.message}`,
+        ),
+      );
+  }
+
+  private evict(matches: (principal: ApiPrincipal) => boolean): void {
+    for (const [hash, entry] of this.cache) {
+      if (matches(entry.principal)) {
+        this.cache.delete(hash);
+      }
+    }
+  }
+
+  private hash(key: string): Buffer {
+    return createHash('sha256').update(key).digest();
+  }
+
+  private async getKey(id: string): Promise<ApiKey> {
+    const key = await this.keyRepo.findOne({ where: { id } });
+    if (!key) {
+      throw new NotFoundException(`API key ${id} not found`);
+    }
+    return key;
+  }
+
+  private toDto(key: ApiKey): ApiKeyDto {
+    return {
+      id: key.id,
+      name: key.name,
+      prefix: key.prefix,
+      tenantId: key.tenantId,
+      scopes: key.scopes,
+      expiresAt: key.expiresAt?.toISOString() ?? null,
+      lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+      revokedAt: key.revokedAt?.toISOString() ?? null,
+      createdAt: key.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,479 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { PoolClient } from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { MeterTelemetryDto } from '../dto/meter-telemetry.dto';
+import { VehicleTelemetryDto } from '../dto/vehicle-telemetry.dto';
+import { BulkLoadErrorDto, BulkLoadResultDto } from '../dto/bulk-load.dto';
+import { EnergyRegisterService } from './energy-register.service';
+import { AnomalyDetectorService } from './anomaly-detector.service';
+import { DeviceRegistryService } from './device-registry.service';
+import { TenantService } from './tenant.service';
+import { ChargingSessionService } from './charging-session.service';
+import { RollupService } from './rollup.service';
+import { validateReading } from '../utils/validate-reading';
+
+// Refusals listed in a result; the rest are only counted
+const MAX_ERRORS = 100;
+
+// COPY data is sent in chunks of about this many characters
+const COPY_CHUNK_SIZE = 64 * 1024;
+
+// Readings are judged on their own: no stored reading is looked up
+const NO_LATEST = new Map<string, { timestamp: Date; soc?: number }>();
+
+const STAGING_COLUMNS =
+  'ord, device_id, value, voltage, soc, battery_temp, timestamp, status, anomaly_reason, hold_back';
+
+// Where each device type's staged readings go; `columns` maps staging
+// columns to history and live status columns
+const TARGETS: Record<
+  DeviceType,
+  { history: string; hot: string; id: string; columns: Record<string, string> }
+> = {
+  [DeviceType.METER]: {
+    history: 'meter_telemetry_history',
+    hot: 'current_meter_status',
+    id: 'meter_id',
+    columns: { value: 'kwh_consumed_ac', voltage: 'voltage' },
+  },
+  [DeviceType.VEHICLE]: {
+    history: 'vehicle_telemetry_history',
+    hot: 'current_vehicle_status',
+    id: 'vehicle_id',
+    columns: {
+      soc: 'soc',
+      value: 'kwh_delivered_dc',
+      battery_temp: 'battery_temp',
+    },
+  },
+};
+
+interface StagedReading {
+  deviceId: string;
+  value: number;
+  timestamp: Date;
+  voltage?: number;
+  soc?: number;
+  batteryTemp?: number | null;
+}
+
+interface LoadTally {
+  count: number;
+  rejected: number;
+  errors: BulkLoadErrorDto[];
+}
+
+/**
+ * Stands in for an uploaded line that is not a reading at all, so it is
+ * refused with `reason` at its place in the load.
+ */
+export class UnparsableReading {
+  constructor(readonly reason: string) {}
+}
+
+/**
+ * Bulk loads for backfills too large for the batch path.
+ *
+ * Readings are validated as they stream in and sent with COPY FROM STDIN
+ * into a temporary staging table; the batch path instead sends multi-row
+ * INSERTs of 1000. History is then filled from the staging table in one
+ * INSERT ... SELECT, energy deltas are recomputed over each device's
+ * loaded span in one UPDATE, and the latest reading per device is merged
+ * into the live status tables in one upsert. Everything runs in one
+ * transaction, so a failed load leaves nothing behind.
+ *
+ * Registry and tenant checks refuse a device's readings as a whole; bulk
+ * loads do not quarantine. Anomaly rules that judge a reading on its own
+ * apply, while rules that compare it with its predecessor (SoC jumps,
+ * negative deltas) do not. Loads publish nothing to the live feed and
+ * raise no alerts.
+ */
+@Injectable()
+export class BulkLoadService {
+  private readonly logger = new Logger(BulkLoadService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly energyRegisterService: EnergyRegisterService,
+    private readonly anomalyDetectorService: AnomalyDetectorService,
+    private readonly deviceRegistryService: DeviceRegistryService,
+    private readonly tenantService: TenantService,
+    private readonly chargingSessionService: ChargingSessionService,
+    private readonly rollupService: RollupService,
+  ) {}
+
+  async load(
+    deviceType: DeviceType,
+    readings: Iterable<unknown> | AsyncIterable<unknown>,
+    tenantId: string | null = null,
+  ): Promise<BulkLoadResultDto> {
+    const startTime = Date.now();
+    const target = TARGETS[deviceType];
+    const tally: LoadTally = { count: 0, rejected: 0, errors: [] };
+
+    const runner = this.dataSource.createQueryRunner();
+    const client: PoolClient = await runner.connect();
+    await runner.startTransaction();
+    try {
+      await runner.query(`
+        CREATE TEMP TABLE bulk_staging (
+          ord BIGINT NOT NULL,
+          device_id VARCHAR(50) NOT NULL,
+          value DECIMAL(10, 3) NOT NULL,
+          voltage DECIMAL(6, 2),
+          soc DECIMAL(5, 2),
+          battery_temp DECIMAL(5, 2),
+          timestamp TIMESTAMPTZ NOT NULL,
+          status telemetry_status NOT NULL,
+          anomaly_reason TEXT,
+          hold_back BOOLEAN NOT NULL
+        ) ON COMMIT DROP
+      `);
+      await pipeline(
+        Readable.from(this.stage(deviceType, readings, tally, new Date())),
+        client.query(
+          copyFrom(
+            `COPY bulk_staging (${STAGING_COLUMNS}) FROM STDIN WITH (FORMAT csv)`,
+          ),
+        ),
+      );
+
+      await this.refuseDevices(runner.manager, deviceType, tenantId, tally);
+
+      // Span of readings written per device, for deltas and sessions
+      await runner.query(`
+        CREATE TEMP TABLE bulk_span (
+          device_id VARCHAR(50) PRIMARY KEY,
+          lo TIMESTAMPTZ NOT NULL,
+          hi TIMESTAMPTZ NOT NULL,
+          inserted INTEGER NOT NULL,
+          anomalies INTEGER NOT NULL
+        ) ON COMMIT DROP
+      `);
+      const columns = Object.entries(target.columns);
+      await runner.query(`
+        WITH incoming AS (
+          SELECT DISTINCT ON (device_id, timestamp) *
+          FROM bulk_staging
+          ORDER BY device_id, timestamp, ord
+        ),
+        inserted AS (
+          INSERT INTO ${target.history} (
+            ${target.id}, ${columns.map(([, to]) => to).join(', ')},
+            timestamp, status, anomaly_reason
+          )
+          SELECT
+            device_id, ${columns.map(([from]) => from).join(', ')},
+            timestamp, status, anomaly_reason
+          FROM incoming
+          ON CONFLICT DO NOTHING
+          RETURNING ${target.id} as device_id, timestamp, status
+        )
+        INSERT INTO bulk_span
+        SELECT
+          device_id,
+          MIN(timestamp),
+          MAX(timestamp),
+          COUNT(*),
+          COUNT(*) FILTER (WHERE status = 'anomaly')
+        FROM inserted
+        GROUP BY device_id
+      `);
+      const spans: {
+        device_id: string;
+        lo: Date;
+        hi: Date;
+        inserted: number;
+        anomalies: number;
+      }[] = await runner.query(`SELECT * FROM bulk_span ORDER BY device_id`);
+
+      await this.energyRegisterService.recomputeDeltas(
+        runner.manager,
+        deviceType,
+        spans.map((span) => ({
+          deviceId: span.device_id,
+          from: new Date(span.lo),
+          to: new Date(span.hi),
+        })),
+      );
+      await this.rollupService.markWritten(
+        runner.manager,
+        deviceType,
+        spans.map((span) => new Date(span.lo)),
+      );
+      if (deviceType === DeviceType.VEHICLE) {
+        await this.chargingSessionService.markPending(
+          runner.manager,
+          spans.map((span) => ({
+            vehicleId: span.device_id,
+            timestamp: new Date(span.lo),
+          })),
+        );
+      }
+
+      // Rows are upserted in device order, as the batch path locks them
+      const [{ updated }] = await runner.query(`
+        WITH latest AS (
+          SELECT DISTINCT ON (device_id) *
+          FROM bulk_staging
+          WHERE NOT hold_back
+          ORDER BY device_id, timestamp DESC, ord
+        ),
+        written AS (
+          INSERT INTO ${target.hot} (
+            ${target.id}, ${columns.map(([, to]) => to).join(', ')},
+            last_update_timestamp, status, anomaly_reason
+          )
+          SELECT
+            device_id, ${columns.map(([from]) => from).join(', ')},
+            timestamp, status, anomaly_reason
+          FROM latest
+          ORDER BY device_id
+          ON CONFLICT (${target.id}) DO UPDATE SET
+            ${columns.map(([, to]) => `${to} = EXCLUDED.${to}`).join(', ')},
+            last_update_timestamp = EXCLUDED.last_update_timestamp,
+            status = EXCLUDED.status,
+            anomaly_reason = EXCLUDED.anomaly_reason,
+            updated_at = NOW()
+          WHERE ${target.hot}.last_update_timestamp < EXCLUDED.last_update_timestamp
+          RETURNING 1
+        )
+        SELECT COUNT(*) as updated FROM written
+      `);
+
+      await runner.commitTransaction();
+
+      const inserted = spans.reduce((sum, span) => sum + span.inserted, 0);
+      const result = this.buildResult(tally, spans.length, inserted, {
+        anomalies: spans.reduce((sum, span) => sum + span.anomalies, 0),
+        liveStatusUpdated: parseInt(updated),
+        durationMs: Date.now() - startTime,
+      });
+      this.logger.log(
+        `Bulk loaded ${result.count} ${deviceType} readings in ${result.durationMs}ms (${result.inserted} inserted, ${result.duplicates} duplicate, ${result.rejected} rejected)`,
+      );
+      return result;
+    } catch (error) {
+      await runner.rollbackTransaction();
+      throw error;
+    } finally {
+      await runner.release();
+    }
+  }
+
+  /**
+   * Validate and judge readings as they arrive and turn the valid ones
+   * into COPY rows, batched into chunks.
+   */
+  private async *stage(
+    deviceType: DeviceType,
+    readings: Iterable<unknown> | AsyncIterable<unknown>,
+    tally: LoadTally,
+    receivedAt: Date,
+  ): AsyncGenerator<string> {
+    let chunk = '';
+    for await (const plain of readings) {
+      const index = tally.count++;
+      if (plain instanceof UnparsableReading) {
+        this.refuse(tally, index, 1, plain.reason);
+        continue;
+      }
+      const check = await this.parse(deviceType, plain);
+      if (!check.valid) {
+        this.refuse(tally, index, 1, check.reason);
+        continue;
+      }
+
+      const reading = check.reading;
+      const [verdict] = this.anomalyDetectorService
+        .inspect(
+          [
+            {
+              deviceType,
+              deviceId: reading.deviceId,
+              timestamp: reading.timestamp,
+              voltage: reading.voltage,
+              soc: reading.soc,
+              batteryTemp: reading.batteryTemp,
+            },
+          ],
+          NO_LATEST,
+          receivedAt,
+        )
+        .values();
+      chunk +=
+        [
+          index,
+          csvField(reading.deviceId),
+          reading.value,
+          reading.voltage,
+          reading.soc,
+          reading.batteryTemp,
+          reading.timestamp.toISOString(),
+          verdict.status,
+          csvField(verdict.reasons.length ? verdict.reasons.join('; ') : null),
+          verdict.holdBack,
+        ]
+          .map((field) => (field == null ? '' : String(field)))
+          .join(',') + '\n';
+
+      if (chunk.length >= COPY_CHUNK_SIZE) {
+        yield chunk;
+        chunk = '';
+      }
+    }
+    if (chunk.length > 0) {
+      yield chunk;
+    }
+  }
+
+  private async parse(
+    deviceType: DeviceType,
+    plain: unknown,
+  ): Promise<
+    { valid: true; reading: StagedReading } | { valid: false; reason: string }
+  > {
+    if (deviceType === DeviceType.METER) {
+      const check = await validateReading(MeterTelemetryDto, plain);
+      return check.valid
+        ? {
+            valid: true,
+            reading: {
+              deviceId: check.value.meterId,
+              value: check.value.kwhConsumedAc,
+              voltage: check.value.voltage,
+              timestamp: new Date(check.value.timestamp),
+            },
+          }
+        : check;
+    }
+
+    const check = await validateReading(VehicleTelemetryDto, plain);
+    return check.valid
+      ? {
+          valid: true,
+          reading: {
+            deviceId: check.value.vehicleId,
+            value: check.value.kwhDeliveredDc,
+            soc: check.value.soc,
+            batteryTemp: check.value.batteryTemp ?? null,
+            timestamp: new Date(check.value.timestamp),
+          },
+        }
+      : check;
+  }
+
+  /**
+   * Drop the staged readings of devices the registry or the caller's
+   * tenant does not admit.
+   */
+  private async refuseDevices(
+    manager: EntityManager,
+    deviceType: DeviceType,
+    tenantId: string | null,
+    tally: LoadTally,
+  ): Promise<void> {
+    const rows = await manager.query(
+      `SELECT DISTINCT device_id FROM bulk_staging`,
+    );
+    const deviceIds: string[] = rows.map((row: any) => row.device_id);
+
+    const screening = await this.deviceRegistryService.screen(
+      deviceType,
+      deviceIds,
+    );
+    const refused = new Map(screening.rejected);
+    for (const id of screening.quarantined) {
+      refused.set(
+        id,
+        `${deviceType} ${id} is not registered; bulk loads do not quarantine`,
+      );
+    }
+    const denied = await this.tenantService.deniedWrites(
+      tenantId,
+      deviceType,
+      deviceIds.filter((id) => !refused.has(id)),
+    );
+    for (const id of denied) {
+      refused.set(id, `${deviceType} ${id} is not registered to this tenant`);
+    }
+    if (refused.size === 0) {
+      return;
+    }
+
+    const removed = await manager.query(
+      `
+      WITH removed AS (
+        DELETE FROM bulk_staging
+        WHERE device_id = ANY($1)
+        RETURNING device_id, ord
+      )
+      SELECT device_id, COUNT(*) as readings, MIN(ord) as first_index
+      FROM removed
+      GROUP BY device_id
+      `,
+      [[...refused.keys()]],
+    );
+    for (const row of removed) {
+      this.refuse(
+        tally,
+        Number(row.first_index),
+        parseInt(row.readings),
+        refused.get(row.device_id)!,
+      );
+    }
+  }
+
+  private refuse(
+    tally: LoadTally,
+    index: number,
+    readings: number,
+    reason: string,
+  ): void {
+    tally.rejected += readings;
+    // One more than listed marks the list as truncated
+    if (tally.errors.length <= MAX_ERRORS) {
+      tally.errors.push({ index, readings, reason });
+    }
+  }
+
+  private buildResult(
+    tally: LoadTally,
+    devices: number,
+    inserted: number,
+    rest: Pick<
+      BulkLoadResultDto,
+      'anomalies' | 'liveStatusUpdated' | 'durationMs'
+    >,
+  ): BulkLoadResultDto {
+    let status: BulkLoadResultDto['status'] = 'accepted';
+    if (tally.rejected > 0) {
+      status = tally.rejected === tally.count ? 'rejected' : 'partial';
+    }
+
+    return {
+      status,
+      count: tally.count,
+      inserted,
+      duplicates: tally.count - tally.rejected - inserted,
+      rejected: tally.rejected,
+      devices,
+      ...rest,
+      errors: tally.errors
+        .sort((a, b) => a.index - b.index)
+        .slice(0, MAX_ERRORS),
+      errorsTruncated: tally.errors.length > MAX_ERRORS,
+    };
+  }
+}
+
+/**
+ * Quote a text value for COPY's CSV format; NULL is an unquoted empty field.
+ */
+function csvField(value: string | null): string | null {
+  return value === null ? null : `"${value.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,483 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { ChargingSession } from '../entities/charging-session.entity';
+import {
+  ChargingSessionDto,
+  ChargingSessionPageDto,
+  ChargingSessionQueryDto,
+  RebuildSessionsDto,
+  RebuildSessionsResultDto,
+} from '../dto/charging-session.dto';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Vehicles re-segmented per builder run
+const BUILD_BATCH_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REBUILD_DAYS = 31;
+
+/**
+ * Re-segment the vehicles $1 from the times $2 on into sessions and store
+ * them, in one statement. Segmentation restarts at the start of any stored
+ * session that ended within the gap $3 of that time, since a reading there
+ * may extend or join it. Valid readings with delivered energy are charging
+ * readings; a pause longer than $3 ends a session, and sessions under $4
+ * kWh are dropped. Sessions ended before $5 are completed. Stored sessions
+ * in the re-segmented range that no longer exist are deleted; the others
+ * keep their ID.
+ */
+const BUILD_SQL = `
+  WITH claimed AS (
+    SELECT * FROM UNNEST($1::varchar[], $2::timestamptz[]) as c(vehicle_id, since)
+  ),
+  scope AS (
+    SELECT c.vehicle_id, LEAST(c.since, MIN(s.started_at)) as from_ts
+    FROM claimed c
+    LEFT JOIN charging_session s
+      ON s.vehicle_id = c.vehicle_id
+      AND s.ended_at >= c.since - $3::interval
+    GROUP BY c.vehicle_id, c.since
+  ),
+  charging AS (
+    SELECT
+      h.vehicle_id,
+      h.timestamp,
+      h.soc,
+      h.kwh_delivered_dc_delta as kwh,
+      h.battery_temp,
+      CASE WHEN LAG(h.timestamp) OVER w >= h.timestamp - $3::interval
+        THEN 0
+        ELSE 1
+      END as starts
+    FROM scope sc
+    JOIN vehicle_telemetry_history h
+      ON h.vehicle_id = sc.vehicle_id
+      AND h.timestamp >= sc.from_ts
+    WHERE h.status = 'valid'
+      AND h.kwh_delivered_dc_delta > 0
+    WINDOW w AS (PARTITION BY h.vehicle_id ORDER BY h.timestamp)
+  ),
+  numbered AS (
+    SELECT
+      *,
+      SUM(starts) OVER (PARTITION BY vehicle_id ORDER BY timestamp) as session_no
+    FROM charging
+  ),
+  sessions AS (
+    SELECT
+      vehicle_id,
+      MIN(timestamp) as started_at,
+      MAX(timestamp) as ended_at,
+      (ARRAY_AGG(soc ORDER BY timestamp))[1] as start_soc,
+      (ARRAY_AGG(soc ORDER BY timestamp DESC))[1] as end_soc,
+      SUM(kwh) as kwh_dc,
+      MAX(battery_temp) as peak_battery_temp,
+      COUNT(*) as reading_count
+    FROM numbered
+    GROUP BY vehicle_id, session_no
+    HAVING SUM(kwh) >= $4
+  ),
+  fresh AS (
+    SELECT
+      s.*,
+      a.meter_id,
+      CASE WHEN a.meter_id IS NOT NULL THEN COALESCE(ac.kwh_ac, 0) END as kwh_ac
+    FROM sessions s
+    LEFT JOIN LATERAL (
+      SELECT meter_id
+      FROM vehicle_meter_assignment
+      WHERE vehicle_id = s.vehicle_id
+        AND effective_from <= s.started_at
+        AND (effective_until IS NULL OR effective_until > s.started_at)
+      ORDER BY effective_from DESC
+      LIMIT 1
+    ) a ON TRUE
+    LEFT JOIN LATERAL (
+      SELECT SUM(kwh_consumed_ac_delta) FILTER (WHERE status = 'valid') as kwh_ac
+      FROM meter_telemetry_history
+      WHERE meter_id = a.meter_id
+        AND timestamp >= s.started_at
+        AND timestamp <= s.ended_at
+    ) ac ON TRUE
+  ),
+  removed AS (
+    DELETE FROM charging_session cs
+    USING scope sc
+    WHERE cs.vehicle_id = sc.vehicle_id
+      AND cs.started_at >= sc.from_ts
+      AND NOT EXISTS (
+        SELECT 1 FROM fresh f
+        WHERE f.vehicle_id = cs.vehicle_id AND f.started_at = cs.started_at
+      )
+    RETURNING cs.id
+  ),
+  upserted AS (
+    INSERT INTO charging_session (
+      vehicle_id, meter_id, status, started_at, ended_at, start_soc, end_soc,
+      kwh_delivered_dc, kwh_consumed_ac, efficiency, peak_battery_temp,
+      reading_count
+    )
+    SELECT
+      vehicle_id,
+      meter_id,
+      CASE WHEN ended_at < $5 THEN 'completed' ELSE 'open' END,
+      started_at,
+      ended_at,
+      start_soc,
+      end_soc,
+      ROUND(kwh_dc, 3),
+      ROUND(kwh_ac, 3),
+      CASE WHEN kwh_ac > 0 THEN ROUND(kwh_dc / kwh_ac, 4) END,
+      peak_battery_temp,
+      reading_count
+    FROM fresh
+    ON CONFLICT (vehicle_id, started_at) DO UPDATE SET
+      meter_id = EXCLUDED.meter_id,
+      status = EXCLUDED.status,
+      ended_at = EXCLUDED.ended_at,
+      start_soc = EXCLUDED.start_soc,
+      end_soc = EXCLUDED.end_soc,
+      kwh_delivered_dc = EXCLUDED.kwh_delivered_dc,
+      kwh_consumed_ac = EXCLUDED.kwh_consumed_ac,
+      efficiency = EXCLUDED.efficiency,
+      peak_battery_temp = EXCLUDED.peak_battery_temp,
+      reading_count = EXCLUDED.reading_count,
+      updated_at = NOW()
+    RETURNING id
+  )
+  SELECT
+    (SELECT COUNT(*) FROM upserted) as upserted,
+    (SELECT COUNT(*) FROM removed) as removed
+`;
+
+export interface SessionBuildResult {
+  vehicles: number;
+  upserted: number;
+  removed: number;
+}
+
+/**
+ * Segments vehicle history into charging sessions.
+ *
+ * Ingestion marks every vehicle it stores readings for in
+ * charging_session_backlog, in the same transaction, with the earliest
+ * timestamp stored. A scheduled builder takes vehicles off the backlog and
+ * re-segments them from that point, so late readings extend, split or join
+ * sessions the same way on-time ones do. Open sessions are built once more
+ * after CHARGING_SESSION_GAP_MINUTES without energy to complete them, which
+ * also picks up meter readings that arrived after the vehicle's.
+ */
+@Injectable()
+export class ChargingSessionService {
+  private readonly logger = new Logger(ChargingSessionService.name);
+  private readonly enabled: boolean;
+  private readonly gapMs: number;
+  private readonly minKwh: number;
+
+  constructor(
+    @InjectRepository(ChargingSession)
+    private readonly sessionRepo: Repository<ChargingSession>,
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.enabled =
+      configService.get<string>('CHARGING_SESSIONS_ENABLED', 'true') !==
+      'false';
+    this.gapMs =
+      Number(configService.get('CHARGING_SESSION_GAP_MINUTES', 10)) * 60000;
+    this.minKwh = Number(configService.get('CHARGING_SESSION_MIN_KWH', 0.5));
+  }
+
+  /**
+   * Queue the vehicles of newly stored readings for the builder. Must run
+   * in the transaction that stores the readings, so a rolled-back batch
+   * leaves no mark and a committed one cannot be missed.
+   */
+  async markPending(
+    manager: EntityManager,
+    readings: { vehicleId: string; timestamp: Date }[],
+  ): Promise<void> {
+    const since = new Map<string, Date>();
+    for (const reading of readings) {
+      const current = since.get(reading.vehicleId);
+      if (!current || reading.timestamp < current) {
+        since.set(reading.vehicleId, reading.timestamp);
+      }
+    }
+    if (since.size > 0) {
+      await this.mark(manager, since);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'charging-sessions' })
+  async handleCron(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await this.build();
+    } catch (error) {
+      this.logger.error(
+        `Charging session build failed: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Re-segment up to BUILD_BATCH_SIZE backlogged vehicles, plus vehicles
+   * whose open sessions are due to complete. Only one instance builds at a
+   * time; the others return at once. Backlog entries taken by a failed
+   * build are put back.
+   */
+  async build(now: Date = new Date()): Promise<SessionBuildResult> {
+    const result: SessionBuildResult = { vehicles: 0, upserted: 0, removed: 0 };
+    const runner = this.dataSource.createQueryRunner();
+    await runner.connect();
+
+    try {
+      const lock = 'charging-session-build';
+      const [{ locked }] = await runner.query(
+        `SELECT pg_try_advisory_lock(hashtext($1)) as locked`,
+        [lock],
+      );
+      if (!locked) {
+        this.logger.debug('Charging session build already running elsewhere');
+        return result;
+      }
+
+      try {
+        const startTime = Date.now();
+        const completeBefore = new Date(now.getTime() - this.gapMs);
+
+        const [claimed] = await runner.query(
+          `
+          DELETE FROM charging_session_backlog
+          WHERE vehicle_id IN (
+            SELECT vehicle_id FROM charging_session_backlog
+            ORDER BY marked_at
+            LIMIT $1
+          )
+          RETURNING vehicle_id, since
+          `,
+          [BUILD_BATCH_SIZE],
+        );
+        const due = await runner.query(
+          `
+          SELECT vehicle_id, MIN(started_at) as since
+          FROM charging_session
+          WHERE status = 'open' AND ended_at < $1
+          GROUP BY vehicle_id
+          LIMIT $2
+          `,
+          [completeBefore, BUILD_BATCH_SIZE],
+        );
+
+        const since = new Map<string, Date>();
+        for (const row of [...claimed, ...due]) {
+          const at = new Date(row.since);
+          const current = since.get(row.vehicle_id);
+          if (!current || at < current) {
+            since.set(row.vehicle_id, at);
+          }
+        }
+        if (since.size === 0) {
+          return result;
+        }
+
+        let counts: { upserted: string; removed: string };
+        try {
+          [counts] = await runner.query(BUILD_SQL, [
+            [...since.keys()],
+            [...since.values()],
+            `${this.gapMs / 1000} seconds`,
+            this.minKwh,
+            completeBefore,
+          ]);
+        } catch (error) {
+          await this.mark(
+            runner.manager,
+            new Map(
+              claimed.map((row: any) => [row.vehicle_id, new Date(row.since)]),
+            ),
+          );
+          throw error;
+        }
+
+        result.vehicles = since.size;
+        result.upserted = parseInt(counts.upserted);
+        result.removed = parseInt(counts.removed);
+        this.logger.log(
+          `Built charging sessions for ${result.vehicles} vehicles in ${Date.now() - startTime}ms (${result.upserted} stored, ${result.removed} removed)`,
+        );
+        return result;
+      } finally {
+        await runner.query(`SELECT pg_advisory_unlock(hashtext($1))`, [lock]);
+      }
+    } finally {
+      await runner.release();
+    }
+  }
+
+  /**
+   * Queue vehicles, or every vehicle that has reported, to be re-segmented
+   * from a point in time, e.g. to build sessions for history stored before
+   * the builder existed or after an assignment was corrected.
+   */
+  async rebuild(
+    data: RebuildSessionsDto,
+    now: Date = new Date(),
+  ): Promise<RebuildSessionsResultDto> {
+    const from = new Date(data.from);
+    if (from >= now) {
+      throw new BadRequestException('`from` must be in the past');
+    }
+    if (now.getTime() - from.getTime() > MAX_REBUILD_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `Sessions can be rebuilt at most ${MAX_REBUILD_DAYS} days back`,
+      );
+    }
+
+    if (data.vehicleIds) {
+      const vehicleIds = [...new Set(data.vehicleIds)];
+      await this.mark(
+        this.dataSource.manager,
+        new Map(vehicleIds.map((id) => [id, from])),
+      );
+      return { queued: vehicleIds.length };
+    }
+
+    const rows = await this.dataSource.query(
+      `
+      INSERT INTO charging_session_backlog (vehicle_id, since)
+      SELECT vehicle_id, $1 FROM current_vehicle_status
+      ON CONFLICT (vehicle_id) DO UPDATE
+        SET since = LEAST(charging_session_backlog.since, EXCLUDED.since)
+      RETURNING vehicle_id
+      `,
+      [from],
+    );
+    this.logger.log(
+      `Queued ${rows.length} vehicles for a session rebuild from ${from.toISOString()}`,
+    );
+    return { queued: rows.length };
+  }
+
+  /**
+   * Sessions, most recently started first.
+   */
+  async findAll(
+    query: ChargingSessionQueryDto,
+  ): Promise<ChargingSessionPageDto> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const qb = this.sessionRepo
+      .createQueryBuilder('s')
+      .orderBy('s.started_at', 'DESC')
+      .addOrderBy('s.id', 'DESC')
+      .take(limit + 1);
+
+    if (query.vehicleId) {
+      qb.andWhere('s.vehicle_id = :vehicleId', { vehicleId: query.vehicleId });
+    }
+    if (query.meterId) {
+      qb.andWhere('s.meter_id = :meterId', { meterId: query.meterId });
+    }
+    if (query.status) {
+      qb.andWhere('s.status = :status', { status: query.status });
+    }
+    if (query.from) {
+      qb.andWhere('s.started_at >= :from', { from: new Date(query.from) });
+    }
+    if (query.to) {
+      qb.andWhere('s.started_at < :to', { to: new Date(query.to) });
+    }
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, 'started');
+      qb.andWhere('(s.started_at, s.id) < (:cursorValue, :cursorId)', {
+        cursorValue: cursor.value,
+        cursorId: cursor.id,
+      });
+    }
+
+    const rows = await qb.getMany();
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => this.toDto(row)),
+      nextCursor:
+        rows.length > limit
+          ? encodeCursor({
+              sort: 'started',
+              value: last.startedAt.toISOString(),
+              id: last.id,
+            })
+          : null,
+    };
+  }
+
+  async findOne(id: string): Promise<ChargingSessionDto> {
+    const session = await this.sessionRepo.findOne({ where: { id } });
+    if (!session) {
+      throw new NotFoundException(`Charging session ${id} not found`);
+    }
+    return this.toDto(session);
+  }
+
+  /**
+   * Add vehicles to the backlog, keeping the earlier time for vehicles
+   * already on it.
+   */
+  private async mark(
+    manager: EntityManager,
+    since: Map<string, Date>,
+  ): Promise<void> {
+    // Sorted so concurrent batches lock backlog rows in the same order
+    const entries = [...since].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    await manager.query(
+      `
+      INSERT INTO charging_session_backlog (vehicle_id, since)
+      SELECT * FROM UNNEST($1::varchar[], $2::timestamptz[])
+      ON CONFLICT (vehicle_id) DO UPDATE
+        SET since = LEAST(charging_session_backlog.since, EXCLUDED.since)
+      `,
+      [entries.map(([id]) => id), entries.map(([, at]) => at)],
+    );
+  }
+
+  private toDto(session: ChargingSession): ChargingSessionDto {
+    return {
+      id: session.id,
+      vehicleId: session.vehicleId,
+      meterId: session.meterId,
+      status: session.status,
+      startedAt: session.startedAt.toISOString(),
+      endedAt: session.endedAt.toISOString(),
+      durationMinutes: Math.round(
+        (session.endedAt.getTime() - session.startedAt.getTime()) / 60000,
+      ),
+      startSoc: Number(session.startSoc),
+      endSoc: Number(session.endSoc),
+      kwhDeliveredDc: Number(session.kwhDeliveredDc),
+      kwhConsumedAc:
+        session.kwhConsumedAc === null ? null : Number(session.kwhConsumedAc),
+      efficiencyRatio:
+        session.efficiency === null ? null : Number(session.efficiency),
+      peakBatteryTemp:
+        session.peakBatteryTemp === null
+          ? null
+          : Number(session.peakBatteryTemp),
+      readingCount: session.readingCount,
+    };
+  }
+}
@@ -0,0 +1,496 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, In, LessThan, Repository } from 'typeorm';
+import { Device, UnknownDevicePolicy } from '../entities/device.entity';
+import { QuarantinedReading } from '../entities/quarantined-reading.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import {
+  CreateDeviceDto,
+  DeviceDto,
+  DevicePageDto,
+  DeviceQueryDto,
+  QuarantinedReadingDto,
+  QuarantinePageDto,
+  QuarantineQueryDto,
+  UpdateDeviceDto,
+} from '../dto/device.dto';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+interface CachedDevice {
+  active: boolean;
+  until: number;
+}
+
+/**
+ * What may happen to readings of a set of devices. Devices in neither
+ * collection are registered, active and may be written.
+ */
+export interface DeviceScreening {
+  // Devices whose readings are refused, with the reason
+  rejected: Map<string, string>;
+  // Unregistered devices whose readings are held back
+  quarantined: Set<string>;
+}
+
+/**
+ * The registry of known meters and vehicles.
+ *
+ * Every reading is screened against it, so a typo in a device ID cannot
+ * create a phantom device. What happens to readings of unregistered
+ * devices is set by DEVICE_UNKNOWN_POLICY; readings of inactive devices are
+ * always rejected. Registered devices are cached for DEVICE_CACHE_SECONDS,
+ * so a change made on another instance applies there within that time.
+ */
+@Injectable()
+export class DeviceRegistryService {
+  private readonly logger = new Logger(DeviceRegistryService.name);
+  private readonly policy: UnknownDevicePolicy;
+  private readonly cacheMs: number;
+  private readonly retentionDays: number;
+  private readonly devices = new Map<string, CachedDevice>();
+
+  constructor(
+    @InjectRepository(Device)
+    private readonly deviceRepo: Repository<Device>,
+    @InjectRepository(QuarantinedReading)
+    private readonly quarantineRepo: Repository<QuarantinedReading>,
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.policy = configService.get(
+      'DEVICE_UNKNOWN_POLICY',
+      UnknownDevicePolicy.AUTO_REGISTER,
+    );
+    // A typo would otherwise silently reject every unregistered device
+    const policies = Object.values(UnknownDevicePolicy) as string[];
+    if (!policies.includes(this.policy)) {
+      throw new Error(
+        `DEVICE_UNKNOWN_POLICY must be one of ${policies.join(', ')}, not "${this.policy}"`,
+      );
+    }
+    this.cacheMs = Number(configService.get('DEVICE_CACHE_SECONDS', 60)) * 1000;
+    this.retentionDays = Number(
+      configService.get('DEVICE_QUARANTINE_RETENTION_DAYS', 7),
+    );
+  }
+
+  async create(data: CreateDeviceDto): Promise<DeviceDto> {
+    try {
+      const saved = await this.deviceRepo.save(
+        this.deviceRepo.create({
+          deviceType: data.deviceType,
+          deviceId: data.deviceId,
+          model: data.model ?? null,
+          site: data.site ?? null,
+          batteryCapacityKwh: data.batteryCapacityKwh ?? null,
+          nominalVoltage: data.nominalVoltage ?? null,
+          commissionedOn: data.commissionedOn ?? null,
+          active: data.active ?? true,
+          autoRegistered: false,
+        }),
+      );
+      this.logger.log(`Registered ${saved.deviceType} ${saved.deviceId}`);
+      return this.toDto(saved);
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ConflictException(
+          `${data.deviceType} ${data.deviceId} is already registered; update it instead`,
+        );
+      }
+      if (error.code === '23503') {
+        throw new BadRequestException(`Site ${data.site} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async findAll(query: DeviceQueryDto): Promise<DevicePageDto> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const qb = this.deviceRepo
+      .createQueryBuilder('d')
+      .orderBy('d.device_type')
+      .addOrderBy('d.device_id')
+      .take(limit + 1);
+
+    if (query.deviceType) {
+      qb.andWhere('d.device_type = :deviceType', {
+        deviceType: query.deviceType,
+      });
+    }
+    if (query.site) {
+      qb.andWhere('d.site = :site', { site: query.site });
+    }
+    if (query.active !== undefined) {
+      qb.andWhere('d.active = :active', { active: query.active });
+    }
+    if (query.autoRegistered !== undefined) {
+      qb.andWhere('d.auto_registered = :autoRegistered', {
+        autoRegistered: query.autoRegistered,
+      });
+    }
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, 'device');
+      qb.andWhere('(d.device_type, d.device_id) > (:cursorValue, :cursorId)', {
+        cursorValue: cursor.value,
+        cursorId: cursor.id,
+      });
+    }
+
+    const rows = await qb.getMany();
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => this.toDto(row)),
+      nextCursor:
+        rows.length > limit
+          ? encodeCursor({
+              sort: 'device',
+              value: last.deviceType,
+              id: last.deviceId,
+            })
+          : null,
+    };
+  }
+
+  async findOne(deviceType: DeviceType, deviceId: string): Promise<DeviceDto> {
+    return this.toDto(await this.getDevice(deviceType, deviceId));
+  }
+
+  /**
+   * Update a device. An auto-registered device counts as provisioned once
+   * an operator has updated it.
+   */
+  async update(
+    deviceType: DeviceType,
+    deviceId: string,
+    data: UpdateDeviceDto,
+  ): Promise<DeviceDto> {
+    const device = await this.getDevice(deviceType, deviceId);
+    Object.assign(device, data, { autoRegistered: false });
+    let saved: Device;
+    try {
+      saved = await this.deviceRepo.save(device);
+    } catch (error) {
+      if (error.code === '23503') {
+        throw new BadRequestException(`Site ${data.site} not found`);
+      }
+      throw error;
+    }
+    this.devices.delete(this.key(deviceType, deviceId));
+    return this.toDto(saved);
+  }
+
+  /**
+   * Remove a device from the registry. Its telemetry is kept; new readings
+   * are handled by the unknown-device policy again.
+   */
+  async remove(deviceType: DeviceType, deviceId: string): Promise<void> {
+    const result = await this.deviceRepo.delete({ deviceType, deviceId });
+    if (!result.affected) {
+      throw new NotFoundException(`${deviceType} ${deviceId} not registered`);
+    }
+    this.devices.delete(this.key(deviceType, deviceId));
+  }
+
+  /**
+   * Decide what happens to readings of the given devices, registering
+   * unknown ones first under the auto-register policy.
+   */
+  async screen(
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<DeviceScreening> {
+    const screening: DeviceScreening = {
+      rejected: new Map(),
+      quarantined: new Set(),
+    };
+    const unique = [...new Set(deviceIds)];
+    if (unique.length === 0) {
+      return screening;
+    }
+
+    const known = await this.registered(deviceType, unique);
+    let unknown = unique.filter((id) => !known.has(id));
+    if (
+      unknown.length > 0 &&
+      this.policy === UnknownDevicePolicy.AUTO_REGISTER
+    ) {
+      await this.autoRegister(deviceType, unknown);
+      for (const [id, active] of await this.load(deviceType, unknown)) {
+        known.set(id, active);
+      }
+      unknown = unknown.filter((id) => !known.has(id));
+    }
+
+    for (const id of unknown) {
+      if (this.policy === UnknownDevicePolicy.QUARANTINE) {
+        screening.quarantined.add(id);
+      } else {
+        screening.rejected.set(id, `${deviceType} ${id} is not registered`);
+      }
+    }
+    for (const [id, active] of known) {
+      if (!active) {
+        screening.rejected.set(id, `${deviceType} ${id} is decommissioned`);
+      }
+    }
+    return screening;
+  }
+
+  /**
+   * Hold readings of unregistered devices back until they are released.
+   */
+  async quarantine(
+    deviceType: DeviceType,
+    tenantId: string | null,
+    readings: { deviceId: string; reading: object }[],
+  ): Promise<void> {
+    if (readings.length === 0) {
+      return;
+    }
+    await this.quarantineRepo.insert(
+      readings.map(({ deviceId, reading }) => ({
+        deviceType,
+        deviceId,
+        tenantId,
+        reading: { ...reading },
+      })),
+    );
+    this.logger.debug(
+      `Quarantined ${readings.length} reading(s) of unregistered ${deviceType}s`,
+    );
+  }
+
+  async findQuarantined(query: QuarantineQueryDto): Promise<QuarantinePageDto> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const qb = this.quarantineRepo
+      .createQueryBuilder('q')
+      .orderBy('q.received_at', 'DESC')
+      .addOrderBy('q.id', 'DESC')
+      .take(limit + 1);
+
+    if (query.deviceType) {
+      qb.andWhere('q.device_type = :deviceType', {
+        deviceType: query.deviceType,
+      });
+    }
+    if (query.deviceId) {
+      qb.andWhere('q.device_id = :deviceId', { deviceId: query.deviceId });
+    }
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, 'received');
+      qb.andWhere('(q.received_at, q.id) < (:cursorValue, :cursorId)', {
+        cursorValue: cursor.value,
+        cursorId: cursor.id,
+      });
+    }
+
+    const rows = await qb.getMany();
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => this.toQuarantinedDto(row)),
+      nextCursor:
+        rows.length > limit
+          ? encodeCursor({
+              sort: 'received',
+              value: last.receivedAt.toISOString(),
+              id: last.id,
+            })
+          : null,
+    };
+  }
+
+  /**
+   * The oldest readings quarantined for a device, for release.
+   */
+  async findQuarantinedFor(
+    deviceType: DeviceType,
+    deviceId: string,
+    limit: number,
+  ): Promise<QuarantinedReading[]> {
+    return this.quarantineRepo.find({
+      where: { deviceType, deviceId },
+      order: { receivedAt: 'ASC', id: 'ASC' },
+      take: limit,
+    });
+  }
+
+  async countQuarantined(
+    deviceType: DeviceType,
+    deviceId: string,
+  ): Promise<number> {
+    return this.quarantineRepo.count({ where: { deviceType, deviceId } });
+  }
+
+  async deleteQuarantined(ids: string[]): Promise<void> {
+    if (ids.length > 0) {
+      await this.quarantineRepo.delete({ id: In(ids) });
+    }
+  }
+
+  /**
+   * Drop everything quarantined for a device.
+   */
+  async discardQuarantined(
+    deviceType: DeviceType,
+    deviceId: string,
+  ): Promise<void> {
+    const result = await this.quarantineRepo.delete({ deviceType, deviceId });
+    if (!result.affected) {
+      throw new NotFoundException(
+        `No readings quarantined for ${deviceType} ${deviceId}`,
+      );
+    }
+    this.logger.log(
+      `Discarded ${result.affected} quarantined reading(s) of ${deviceType} ${deviceId}`,
+    );
+  }
+
+  @Cron(CronExpression.EVERY_HOUR, { name: 'quarantine-purge' })
+  async handleCron(): Promise<void> {
+    try {
+      await this.purgeQuarantine();
+    } catch (error) {
+      this.logger.error(
+        `Quarantine purge failed: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Drop quarantined readings older than DEVICE_QUARANTINE_RETENTION_DAYS.
+   */
+  async purgeQuarantine(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.retentionDays * 86400000);
+    const result = await this.quarantineRepo.delete({
+      receivedAt: LessThan(cutoff),
+    });
+    if (result.affected) {
+      this.logger.log(
+        `Purged ${result.affected} quarantined reading(s) received before ${cutoff.toISOString()}`,
+      );
+    }
+    return result.affected ?? 0;
+  }
+
+  // Active flag of registered devices, from cache where fresh
+  private async registered(
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<Map<string, boolean>> {
+    const now = Date.now();
+    const known = new Map<string, boolean>();
+    const missing: string[] = [];
+    for (const deviceId of deviceIds) {
+      const cached = this.devices.get(this.key(deviceType, deviceId));
+      if (cached && cached.until > now) {
+        known.set(deviceId, cached.active);
+      } else {
+        missing.push(deviceId);
+      }
+    }
+    if (missing.length > 0) {
+      for (const [id, active] of await this.load(deviceType, missing)) {
+        known.set(id, active);
+      }
+    }
+    return known;
+  }
+
+  private async load(
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<Map<string, boolean>> {
+    const rows = await this.deviceRepo.find({
+      select: { deviceId: true, active: true },
+      where: { deviceType, deviceId: In(deviceIds) },
+    });
+    const until = Date.now() + this.cacheMs;
+    const known = new Map<string, boolean>();
+    for (const row of rows) {
+      known.set(row.deviceId, row.active);
+      this.devices.set(this.key(deviceType, row.deviceId), {
+        active: row.active,
+        until,
+      });
+    }
+    return known;
+  }
+
+  private async autoRegister(
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<void> {
+    await this.dataSource.query(
+      `
+      INSERT INTO device (device_type, device_id, auto_registered)
+      SELECT $1, unnest($2::varchar[]), TRUE
+      ON CONFLICT (device_type, device_id) DO NOTHING
+      `,
+      [deviceType, deviceIds],
+    );
+    this.logger.log(
+      `Auto-registered ${deviceIds.length} ${deviceType}(s) on first reading`,
+    );
+  }
+
+  private key(deviceType: DeviceType, deviceId: string): string {
+    return `${deviceType}:${deviceId}`;
+  }
+
+  private async getDevice(
+    deviceType: DeviceType,
+    deviceId: string,
+  ): Promise<Device> {
+    const device = await this.deviceRepo.findOne({
+      where: { deviceType, deviceId },
+    });
+    if (!device) {
+      throw new NotFoundException(`${deviceType} ${deviceId} not registered`);
+    }
+    return device;
+  }
+
+  private toDto(device: Device): DeviceDto {
+    return {
+      deviceType: device.deviceType,
+      deviceId: device.deviceId,
+      model: device.model,
+      site: device.site,
+      batteryCapacityKwh:
+        device.batteryCapacityKwh != null
+          ? Number(device.batteryCapacityKwh)
+          : null,
+      nominalVoltage:
+        device.nominalVoltage != null ? Number(device.nominalVoltage) : null,
+      commissionedOn: device.commissionedOn,
+      active: device.active,
+      autoRegistered: device.autoRegistered,
+      createdAt: device.createdAt.toISOString(),
+      updatedAt: device.updatedAt.toISOString(),
+    };
+  }
+
+  private toQuarantinedDto(row: QuarantinedReading): QuarantinedReadingDto {
+    return {
+      id: row.id,
+      deviceType: row.deviceType,
+      deviceId: row.deviceId,
+      tenantId: row.tenantId,
+      reading: row.reading,
+      receivedAt: row.receivedAt.toISOString(),
+    };
+  }
+}
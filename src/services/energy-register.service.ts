@@ -0,0 +1,545 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, EntityManager, In } from 'typeorm';
+import {
+  DeviceReportingMode,
+  DeviceType,
+  ReportingMode,
+  RegisterEvent,
+} from '../entities/device-reporting-mode.entity';
+import {
+  SetReportingModeDto,
+  ReportingModeQueryDto,
+  ReportingModeDto,
+} from '../dto/reporting-mode.dto';
+import { readingKey } from '../utils/reading-key';
+
+// DECIMAL(10, 3) cannot hold more, so an unconfigured register wraps here
+const DEFAULT_REGISTER_MAX = 9999999.999;
+
+// Smallest step the register can show (DECIMAL scale 3)
+const REGISTER_RESOLUTION = 0.001;
+
+// A drop is a rollover only when the previous value sat in the top tenth of
+// the register and the new value in the bottom tenth; anything else is a reset
+const ROLLOVER_BAND = 0.1;
+
+const REGISTER_COLUMNS: Record<
+  DeviceType,
+  { table: string; id: string; value: string; delta: string }
+> = {
+  [DeviceType.METER]: {
+    table: 'meter_telemetry_history',
+    id: 'meter_id',
+    value: 'kwh_consumed_ac',
+    delta: 'kwh_consumed_ac_delta',
+  },
+  [DeviceType.VEHICLE]: {
+    table: 'vehicle_telemetry_history',
+    id: 'vehicle_id',
+    value: 'kwh_delivered_dc',
+    delta: 'kwh_delivered_dc_delta',
+  },
+};
+
+export interface RegisterReading {
+  deviceId: string;
+  timestamp: Date;
+  value: number;
+}
+
+export interface RegisterPoint {
+  timestamp: Date;
+  value: number;
+}
+
+export interface RegisterDelta {
+  delta: number | null;
+  event: RegisterEvent | null;
+}
+
+export interface RegisterCorrection extends RegisterDelta {
+  deviceId: string;
+  timestamp: Date;
+}
+
+/**
+ * Deltas for incoming readings (keyed by readingKey) and corrections for
+ * stored readings whose predecessor changes because a late reading lands
+ * before them.
+ */
+export interface RegisterPlan {
+  deltas: Map<string, RegisterDelta>;
+  corrections: RegisterCorrection[];
+}
+
+interface DeviceRegister {
+  mode: ReportingMode;
+  registerMax: number;
+}
+
+@Injectable()
+export class EnergyRegisterService {
+  private readonly logger = new Logger(EnergyRegisterService.name);
+  private readonly defaultModes: Record<DeviceType, ReportingMode>;
+
+  constructor(
+    @InjectRepository(DeviceReportingMode)
+    private readonly modeRepo: Repository<DeviceReportingMode>,
+    configService: ConfigService,
+  ) {
+    this.defaultModes = {
+      [DeviceType.METER]: configService.get(
+        'METER_REPORTING_MODE',
+        ReportingMode.CUMULATIVE,
+      ),
+      [DeviceType.VEHICLE]: configService.get(
+        'VEHICLE_REPORTING_MODE',
+        ReportingMode.CUMULATIVE,
+      ),
+    };
+    // A typo would otherwise read every unconfigured device's register
+    // the wrong way
+    const modes = Object.values(ReportingMode) as string[];
+    for (const [key, mode] of [
+      ['METER_REPORTING_MODE', this.defaultModes[DeviceType.METER]],
+      ['VEHICLE_REPORTING_MODE', this.defaultModes[DeviceType.VEHICLE]],
+    ]) {
+      if (!modes.includes(mode)) {
+        throw new Error(
+          `${key} must be one of ${modes.join(', ')}, not "${mode}"`,
+        );
+      }
+    }
+  }
+
+  async findAll(query: ReportingModeQueryDto): Promise<ReportingModeDto[]> {
+    const rows = await this.modeRepo.find({
+      where: query.deviceType ? { deviceType: query.deviceType } : {},
+      order: { deviceType: 'ASC', deviceId: 'ASC' },
+    });
+    return rows.map((row) => this.toDto(row));
+  }
+
+  /**
+   * Effective mode for a device, falling back to the configured default.
+   */
+  async findOne(
+    deviceType: DeviceType,
+    deviceId: string,
+  ): Promise<ReportingModeDto> {
+    const row = await this.modeRepo.findOne({
+      where: { deviceType, deviceId },
+    });
+    if (row) {
+      return this.toDto(row);
+    }
+
+    return {
+      deviceType,
+      deviceId,
+      mode: this.defaultModes[deviceType],
+      registerMax: DEFAULT_REGISTER_MAX,
+      configured: false,
+    };
+  }
+
+  /**
+   * Set a device's mode. Only readings ingested afterwards use it; stored
+   * deltas are not recomputed.
+   */
+  async set(
+    deviceType: DeviceType,
+    deviceId: string,
+    data: SetReportingModeDto,
+  ): Promise<ReportingModeDto> {
+    const saved = await this.modeRepo.save(
+      this.modeRepo.create({
+        deviceType,
+        deviceId,
+        mode: data.mode,
+        registerMax: data.registerMax ?? null,
+      }),
+    );
+    this.logger.log(
+      `Reporting mode for ${deviceType} ${deviceId} set to ${data.mode}`,
+    );
+    return this.toDto(saved);
+  }
+
+  async remove(deviceType: DeviceType, deviceId: string): Promise<void> {
+    const result = await this.modeRepo.delete({ deviceType, deviceId });
+    if (!result.affected) {
+      throw new NotFoundException(
+        `No reporting mode configured for ${deviceType} ${deviceId}`,
+      );
+    }
+  }
+
+  /**
+   * Work out the energy delta of each incoming reading.
+   *
+   * `latest` holds the newest stored reading per device (the locked hot
+   * row). A device whose readings all come after it chains from that value
+   * without touching history. Otherwise (late readings, or a device with no
+   * hot row) the stored readings around the incoming ones are loaded so each
+   * reading is diffed against its true predecessor, and the stored readings
+   * that follow get corrected deltas.
+   */
+  async plan(
+    manager: EntityManager,
+    deviceType: DeviceType,
+    readings: RegisterReading[],
+    latest: Map<string, RegisterPoint>,
+  ): Promise<RegisterPlan> {
+    const plan: RegisterPlan = { deltas: new Map(), corrections: [] };
+    if (readings.length === 0) {
+      return plan;
+    }
+
+    const byDevice = this.groupByDevice(readings);
+    const registers = await this.resolveRegisters(manager, deviceType, [
+      ...byDevice.keys(),
+    ]);
+
+    for (const [deviceId, series] of byDevice) {
+      const register = registers.get(deviceId)!;
+
+      if (register.mode === ReportingMode.INTERVAL) {
+        for (const reading of series) {
+          plan.deltas.set(readingKey(deviceId, reading.timestamp), {
+            delta: this.round(reading.value),
+            event: null,
+          });
+        }
+        continue;
+      }
+
+      const last = latest.get(deviceId);
+      if (last && series[0].timestamp > last.timestamp) {
+        let previous = last.value;
+        for (const reading of series) {
+          plan.deltas.set(
+            readingKey(deviceId, reading.timestamp),
+            this.computeDelta(previous, reading.value, register),
+          );
+          previous = reading.value;
+        }
+      } else {
+        await this.planFromHistory(
+          manager,
+          deviceType,
+          deviceId,
+          series,
+          register,
+          plan,
+        );
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Write corrected deltas for stored readings. Must run in the same
+   * transaction as the insert the plan was made for.
+   */
+  async applyCorrections(
+    manager: EntityManager,
+    deviceType: DeviceType,
+    corrections: RegisterCorrection[],
+  ): Promise<void> {
+    const columns = REGISTER_COLUMNS[deviceType];
+    for (const correction of corrections) {
+      await manager.query(
+        `UPDATE ${columns.table}
+         SET ${columns.delta} = $1, register_event = $2
+         WHERE ${columns.id} = $3 AND timestamp = $4`,
+        [
+          correction.delta,
+          correction.event,
+          correction.deviceId,
+          correction.timestamp,
+        ],
+      );
+    }
+
+    if (corrections.length > 0) {
+      this.logger.debug(
+        `Corrected ${corrections.length} ${deviceType} delta(s) after late readings`,
+      );
+    }
+  }
+
+  /**
+   * Recompute the stored deltas of each device from `from` through the
+   * first reading after `to`, in one statement, with the same rules as
+   * `plan`. For readings inserted without deltas, e.g. by a bulk load; the
+   * reading before `from` keeps its own delta. Returns the rows changed.
+   */
+  async recomputeDeltas(
+    manager: EntityManager,
+    deviceType: DeviceType,
+    spans: { deviceId: string; from: Date; to: Date }[],
+  ): Promise<number> {
+    if (spans.length === 0) {
+      return 0;
+    }
+
+    const columns = REGISTER_COLUMNS[deviceType];
+    const [, changed] = await manager.query(
+      `
+      WITH span AS (
+        SELECT s.device_id, s.lo, s.hi,
+          COALESCE(m.mode, $4) as mode,
+          COALESCE(m.register_max, $5) as register_max
+        FROM UNNEST($1::varchar[], $2::timestamptz[], $3::timestamptz[])
+          as s(device_id, lo, hi)
+        LEFT JOIN device_reporting_mode m
+          ON m.device_type = $6 AND m.device_id = s.device_id
+      ),
+      timeline AS (
+        SELECT
+          h.${columns.id} as device_id,
+          h.timestamp,
+          h.${columns.value} as value,
+          h.${columns.delta} as delta,
+          h.register_event as event,
+          LAG(h.${columns.value}) OVER (
+            PARTITION BY h.${columns.id} ORDER BY h.timestamp
+          ) as previous,
+          sp.lo,
+          sp.mode,
+          sp.register_max
+        FROM span sp
+        JOIN ${columns.table} h
+          ON h.${columns.id} = sp.device_id
+          AND h.timestamp >= COALESCE(
+            (SELECT MAX(timestamp) FROM ${columns.table}
+             WHERE ${columns.id} = sp.device_id AND timestamp < sp.lo), sp.lo)
+          AND h.timestamp <= COALESCE(
+            (SELECT MIN(timestamp) FROM ${columns.table}
+             WHERE ${columns.id} = sp.device_id AND timestamp > sp.hi), sp.hi)
+      ),
+      computed AS (
+        SELECT
+          device_id,
+          timestamp,
+          delta,
+          event,
+          CASE
+            WHEN mode = 'interval' THEN ROUND(value, 3)
+            WHEN previous IS NULL THEN NULL
+            WHEN value >= previous THEN ROUND(value - previous, 3)
+            WHEN previous >= register_max * (1 - $7) AND value <= register_max * $7
+              THEN ROUND(register_max + $8 - previous + value, 3)
+          END as next_delta,
+          CASE
+            WHEN mode = 'interval' OR previous IS NULL OR value >= previous
+              THEN NULL
+            WHEN previous >= register_max * (1 - $7) AND value <= register_max * $7
+              THEN 'rollover'
+            ELSE 'reset'
+          END as next_event
+        FROM timeline
+        WHERE timestamp >= lo
+      )
+      UPDATE ${columns.table} h
+      SET ${columns.delta} = c.next_delta, register_event = c.next_event
+      FROM computed c
+      WHERE h.${columns.id} = c.device_id
+        AND h.timestamp = c.timestamp
+        AND (c.delta IS DISTINCT FROM c.next_delta
+          OR c.event IS DISTINCT FROM c.next_event)
+      `,
+      [
+        spans.map((span) => span.deviceId),
+        spans.map((span) => span.from),
+        spans.map((span) => span.to),
+        this.defaultModes[deviceType],
+        DEFAULT_REGISTER_MAX,
+        deviceType,
+        ROLLOVER_BAND,
+        REGISTER_RESOLUTION,
+      ],
+    );
+
+    this.logger.debug(
+      `Recomputed deltas of ${spans.length} ${deviceType}(s); ${changed} reading(s) changed`,
+    );
+    return changed;
+  }
+
+  private async planFromHistory(
+    manager: EntityManager,
+    deviceType: DeviceType,
+    deviceId: string,
+    series: RegisterReading[],
+    register: DeviceRegister,
+    plan: RegisterPlan,
+  ): Promise<void> {
+    const columns = REGISTER_COLUMNS[deviceType];
+    const first = series[0].timestamp;
+    const last = series[series.length - 1].timestamp;
+
+    // The stored reading just before the first incoming one, every stored
+    // reading in between, and the stored reading just after the last one
+    const rows = await manager.query(
+      `SELECT timestamp, ${columns.value} AS value,
+              ${columns.delta} AS delta, register_event AS event
+       FROM ${columns.table}
+       WHERE ${columns.id} = $1
+         AND timestamp >= COALESCE(
+           (SELECT MAX(timestamp) FROM ${columns.table}
+            WHERE ${columns.id} = $1 AND timestamp < $2), $2)
+         AND timestamp <= COALESCE(
+           (SELECT MIN(timestamp) FROM ${columns.table}
+            WHERE ${columns.id} = $1 AND timestamp > $3), $3)
+       ORDER BY timestamp`,
+      [deviceId, first, last],
+    );
+
+    const stored: (RegisterPoint & { stored?: RegisterDelta })[] = rows.map(
+      (row: any) => ({
+        timestamp: new Date(row.timestamp),
+        value: Number(row.value),
+        stored: {
+          delta: row.delta === null ? null : Number(row.delta),
+          event: row.event,
+        },
+      }),
+    );
+    const storedAt = new Set(stored.map((row) => row.timestamp.getTime()));
+
+    // Incoming readings already stored are duplicates the insert will skip
+    const timeline = [
+      ...stored,
+      ...series
+        .filter((reading) => !storedAt.has(reading.timestamp.getTime()))
+        .map((reading) => ({ ...reading, stored: undefined })),
+    ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    let previous: number | null = null;
+    for (const entry of timeline) {
+      if (entry.stored && entry.timestamp < first) {
+        // The predecessor keeps its own delta
+        previous = entry.value;
+        continue;
+      }
+
+      const next = this.computeDelta(previous, entry.value, register);
+      if (!entry.stored) {
+        plan.deltas.set(readingKey(deviceId, entry.timestamp), next);
+      } else if (
+        next.delta !== entry.stored.delta ||
+        next.event !== entry.stored.event
+      ) {
+        plan.corrections.push({
+          deviceId,
+          timestamp: entry.timestamp,
+          ...next,
+        });
+      }
+      previous = entry.value;
+    }
+  }
+
+  /**
+   * Energy between two consecutive cumulative register values.
+   */
+  private computeDelta(
+    previous: number | null,
+    current: number,
+    register: DeviceRegister,
+  ): RegisterDelta {
+    if (previous === null) {
+      return { delta: null, event: null };
+    }
+    if (current >= previous) {
+      return { delta: this.round(current - previous), event: null };
+    }
+
+    const band = register.registerMax * ROLLOVER_BAND;
+    if (previous >= register.registerMax - band && current <= band) {
+      return {
+        delta: this.round(
+          register.registerMax + REGISTER_RESOLUTION - previous + current,
+        ),
+        event: RegisterEvent.ROLLOVER,
+      };
+    }
+
+    // Energy across a reset cannot be known; leave it out of the totals
+    return { delta: null, event: RegisterEvent.RESET };
+  }
+
+  private async resolveRegisters(
+    manager: EntityManager,
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<Map<string, DeviceRegister>> {
+    const rows = await manager.find(DeviceReportingMode, {
+      where: { deviceType, deviceId: In(deviceIds) },
+    });
+    const configured = new Map(rows.map((row) => [row.deviceId, row]));
+
+    return new Map(
+      deviceIds.map((deviceId) => {
+        const row = configured.get(deviceId);
+        return [
+          deviceId,
+          {
+            mode: row?.mode ?? this.defaultModes[deviceType],
+            registerMax:
+              row?.registerMax != null
+                ? Number(row.registerMax)
+                : DEFAULT_REGISTER_MAX,
+          },
+        ];
+      }),
+    );
+  }
+
+  /**
+   * Group readings per device in timestamp order, keeping the first copy of
+   * a reading repeated within the batch (the one the insert keeps).
+   */
+  private groupByDevice(
+    readings: RegisterReading[],
+  ): Map<string, RegisterReading[]> {
+    const byDevice = new Map<string, Map<number, RegisterReading>>();
+    for (const reading of readings) {
+      const series = byDevice.get(reading.deviceId) ?? new Map();
+      if (!series.has(reading.timestamp.getTime())) {
+        series.set(reading.timestamp.getTime(), reading);
+      }
+      byDevice.set(reading.deviceId, series);
+    }
+
+    return new Map(
+      [...byDevice].map(([deviceId, series]) => [
+        deviceId,
+        [...series.values()].sort(
+          (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+        ),
+      ]),
+    );
+  }
+
+  private toDto(row: DeviceReportingMode): ReportingModeDto {
+    return {
+      deviceType: row.deviceType,
+      deviceId: row.deviceId,
+      mode: row.mode,
+      registerMax:
+        row.registerMax != null ? Number(row.registerMax) : DEFAULT_REGISTER_MAX,
+      configured: true,
+    };
+  }
+
+  // Keep deltas on the register's 3-decimal grid, free of float noise
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -0,0 +1,321 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource } from 'typeorm';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import {
+  DailyCompletenessDto,
+  DataCompletenessDto,
+  TelemetryGapDto,
+} from '../dto/data-completeness.dto';
+
+const STATUS_TABLES: Record<
+  DeviceType,
+  { hot: string; history: string; id: string }
+> = {
+  [DeviceType.METER]: {
+    hot: 'current_meter_status',
+    history: 'meter_telemetry_history',
+    id: 'meter_id',
+  },
+  [DeviceType.VEHICLE]: {
+    hot: 'current_vehicle_status',
+    history: 'vehicle_telemetry_history',
+    id: 'vehicle_id',
+  },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest completeness report, so a typo in `from` can't scan years of history
+const MAX_COMPLETENESS_DAYS = 366;
+
+export interface GapScanResult {
+  closed: number;
+  opened: number;
+  markedOffline: number;
+}
+
+/**
+ * Finds devices that stopped reporting.
+ *
+ * A scheduled scan of the live status tables opens a gap for every device
+ * whose last reading is older than OFFLINE_AFTER_SECONDS and sets its live
+ * status to 'missing'. The next reading restores the status through the
+ * normal ingestion upsert; the following scan closes the gap at that
+ * reading's timestamp.
+ */
+@Injectable()
+export class GapDetectionService {
+  private readonly logger = new Logger(GapDetectionService.name);
+  private readonly enabled: boolean;
+  private readonly expectedIntervalSeconds: number;
+  private readonly offlineAfterSeconds: number;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.enabled =
+      configService.get<string>('GAP_DETECTION_ENABLED', 'true') !== 'false';
+    this.expectedIntervalSeconds = Number(
+      configService.get('EXPECTED_REPORT_INTERVAL_SECONDS', 60),
+    );
+    this.offlineAfterSeconds = Number(
+      configService.get('OFFLINE_AFTER_SECONDS', 180),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'gap-detection' })
+  async handleCron(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await this.scan();
+    } catch (error) {
+      // Logged only: the next tick retries, and a throw here would go nowhere
+      this.logger.error(`Gap detection failed: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Close gaps for devices that reported again, then open gaps and mark
+   * offline every device silent for longer than the offline threshold.
+   */
+  async scan(now: Date = new Date()): Promise<GapScanResult> {
+    const startTime = Date.now();
+    const cutoff = new Date(now.getTime() - this.offlineAfterSeconds * 1000);
+    const result: GapScanResult = { closed: 0, opened: 0, markedOffline: 0 };
+
+    await this.dataSource.transaction(async (manager) => {
+      for (const deviceType of Object.values(DeviceType)) {
+        const { hot, history, id } = STATUS_TABLES[deviceType];
+
+        // The gap ends at the first stored reading after it started, which
+        // may be earlier than the live row when readings arrived late
+        const [, closed] = await manager.query(
+          `
+          UPDATE telemetry_gap g
+          SET gap_end = COALESCE(
+                (SELECT MIN(h.timestamp) FROM ${history} h
+                 WHERE h.${id} = g.device_id AND h.timestamp > g.gap_start),
+                s.last_update_timestamp
+              ),
+              closed_at = $2
+          FROM ${hot} s
+          WHERE g.device_type = $1
+            AND g.gap_end IS NULL
+            AND s.${id} = g.device_id
+            AND s.last_update_timestamp > g.gap_start
+          `,
+          [deviceType, now],
+        );
+
+        const opened = await manager.query(
+          `
+          INSERT INTO telemetry_gap (device_type, device_id, gap_start, detected_at)
+          SELECT $1, ${id}, last_update_timestamp, $3
+          FROM ${hot}
+          WHERE last_update_timestamp < $2
+          ON CONFLICT (device_type, device_id) WHERE gap_end IS NULL DO NOTHING
+          RETURNING device_id
+          `,
+          [deviceType, cutoff, now],
+        );
+
+        const [, markedOffline] = await manager.query(
+          `
+          UPDATE ${hot}
+          SET status = 'missing', anomaly_reason = NULL
+          WHERE last_update_timestamp < $1
+            AND status <> 'missing'
+          `,
+          [cutoff],
+        );
+
+        for (const row of opened) {
+          this.logger.warn(
+            `${deviceType} ${row.device_id} has not reported for over ${this.offlineAfterSeconds}s; marked offline`,
+          );
+        }
+
+        result.closed += closed ?? 0;
+        result.opened += opened.length;
+        result.markedOffline += markedOffline ?? 0;
+      }
+    });
+
+    const duration = Date.now() - startTime;
+    this.logger.log(
+      `Gap scan finished in ${duration}ms: ${result.opened} opened, ${result.closed} closed, ${result.markedOffline} marked offline`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Per-UTC-day share of expected readings that actually arrived, with the
+   * recorded gaps that explain the shortfall.
+   *
+   * Expected readings assume one reading every
+   * EXPECTED_REPORT_INTERVAL_SECONDS; the current day only counts up to now.
+   */
+  async getCompleteness(
+    deviceType: DeviceType,
+    deviceId: string,
+    from?: string,
+    to?: string,
+    now: Date = new Date(),
+  ): Promise<DataCompletenessDto> {
+    const { hot, history, id } = STATUS_TABLES[deviceType];
+
+    const lastDay = this.startOfDay(to ? new Date(to) : now);
+    const firstDay = from
+      ? this.startOfDay(new Date(from))
+      : lastDay - 6 * DAY_MS;
+
+    if (firstDay > lastDay) {
+      throw new BadRequestException('`from` must not be later than `to`');
+    }
+    const dayCount = (lastDay - firstDay) / DAY_MS + 1;
+    if (dayCount > MAX_COMPLETENESS_DAYS) {
+      throw new BadRequestException(
+        `Requested ${dayCount} days; the maximum is ${MAX_COMPLETENESS_DAYS}`,
+      );
+    }
+
+    const periodStart = new Date(firstDay);
+    const periodEnd = new Date(Math.min(lastDay + DAY_MS, now.getTime()));
+
+    try {
+      const [device] = await this.dataSource.query(
+        `SELECT last_update_timestamp, status FROM ${hot} WHERE ${id} = $1`,
+        [deviceId],
+      );
+      if (!device) {
+        throw new NotFoundException(`${deviceType} ${deviceId} not found`);
+      }
+
+      const countRows =
+        periodEnd > periodStart
+          ? await this.dataSource.query(
+              `
+              SELECT
+                date_bin('1 day', timestamp, TIMESTAMPTZ '1970-01-01 00:00:00+00') as day,
+                COUNT(*) as received
+              FROM ${history}
+              WHERE ${id} = $1
+                AND timestamp >= $2
+                AND timestamp < $3
+              GROUP BY day
+              `,
+              [deviceId, periodStart, periodEnd],
+            )
+          : [];
+
+      const gapRows = await this.dataSource.query(
+        `
+        SELECT gap_start, gap_end
+        FROM telemetry_gap
+        WHERE device_type = $1
+          AND device_id = $2
+          AND gap_start < $4
+          AND (gap_end IS NULL OR gap_end > $3)
+        ORDER BY gap_start
+        `,
+        [deviceType, deviceId, periodStart, periodEnd],
+      );
+
+      const receivedByDay = new Map<number, number>(
+        countRows.map((row: any) => [
+          new Date(row.day).getTime(),
+          parseInt(row.received),
+        ]),
+      );
+      const gaps = gapRows.map((row: any) => ({
+        start: new Date(row.gap_start).getTime(),
+        end: row.gap_end ? new Date(row.gap_end).getTime() : now.getTime(),
+        open: !row.gap_end,
+      }));
+
+      const days: DailyCompletenessDto[] = [];
+      let totalExpected = 0;
+      let totalReceived = 0;
+      for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+        const dayEnd = Math.min(day + DAY_MS, now.getTime());
+        if (dayEnd <= day) {
+          break;
+        }
+
+        const expectedReadings = Math.max(
+          1,
+          Math.floor((dayEnd - day) / 1000 / this.expectedIntervalSeconds),
+        );
+        const receivedReadings = receivedByDay.get(day) ?? 0;
+        const missingMs = gaps.reduce(
+          (sum: number, gap: { start: number; end: number }) =>
+            sum +
+            Math.max(0, Math.min(gap.end, dayEnd) - Math.max(gap.start, day)),
+          0,
+        );
+
+        totalExpected += expectedReadings;
+        totalReceived += Math.min(receivedReadings, expectedReadings);
+        days.push({
+          date: new Date(day).toISOString().slice(0, 10),
+          expectedReadings,
+          receivedReadings,
+          completenessPct: this.percentage(receivedReadings, expectedReadings),
+          missingSeconds: Math.round(missingMs / 1000),
+        });
+      }
+
+      return {
+        deviceType,
+        deviceId,
+        expectedIntervalSeconds: this.expectedIntervalSeconds,
+        online: device.status !== 'missing',
+        lastSeen: new Date(device.last_update_timestamp).toISOString(),
+        periodStart: periodStart.toISOString(),
+        periodEnd: periodEnd.toISOString(),
+        completenessPct: this.percentage(totalReceived, totalExpected),
+        days,
+        gaps: gaps.map(
+          (gap: { start: number; end: number; open: boolean }) =>
+            ({
+              gapStart: new Date(gap.start).toISOString(),
+              gapEnd: gap.open ? null : new Date(gap.end).toISOString(),
+              durationSeconds: Math.round((gap.end - gap.start) / 1000),
+            }) as TelemetryGapDto,
+        ),
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to compute completeness: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  private startOfDay(date: Date): number {
+    return Math.floor(date.getTime() / DAY_MS) * DAY_MS;
+  }
+
+  private percentage(received: number, expected: number): number {
+    if (expected === 0) {
+      return 0;
+    }
+    return parseFloat(Math.min(100, (received / expected) * 100).toFixed(2));
+  }
+}
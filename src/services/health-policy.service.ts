@@ -0,0 +1,434 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In } from 'typeorm';
+import { HealthPolicy } from '../entities/health-policy.entity';
+import { VehicleHealthProfile } from '../entities/vehicle-health-profile.entity';
+import {
+  AppliedHealthPolicyDto,
+  CreateHealthPolicyDto,
+  HEALTH_PROFILE_PATTERN,
+  HealthPolicyDto,
+  HealthPolicyQueryDto,
+  SetVehicleHealthProfileDto,
+  VehicleHealthProfileDto,
+} from '../dto/health-policy.dto';
+
+export const DEFAULT_HEALTH_PROFILE = 'default';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'critical';
+
+const STATUS_RANK: Record<HealthStatus, number> = {
+  healthy: 0,
+  degraded: 1,
+  critical: 2,
+};
+
+/**
+ * What a vehicle's status is judged on over a window. readingCount counts
+ * every reading received, anomalies included, since completeness is about
+ * whether data arrived rather than whether it was plausible.
+ */
+export interface HealthMetrics {
+  efficiencyRatio: number;
+  avgBatteryTemp: number;
+  readingCount: number;
+  from: Date;
+  to: Date;
+}
+
+export interface HealthAssessment {
+  status: HealthStatus;
+  // One entry per threshold that pulled the status down
+  reasons: string[];
+  completenessPct: number;
+}
+
+// Pin a report to a profile and/or version instead of the vehicle's own
+export interface HealthPolicySelector {
+  profile?: string;
+  version?: number;
+}
+
+@Injectable()
+export class HealthPolicyService {
+  private readonly logger = new Logger(HealthPolicyService.name);
+  private readonly expectedIntervalSeconds: number;
+
+  constructor(
+    @InjectRepository(HealthPolicy)
+    private readonly policyRepo: Repository<HealthPolicy>,
+    @InjectRepository(VehicleHealthProfile)
+    private readonly profileRepo: Repository<VehicleHealthProfile>,
+    configService: ConfigService,
+  ) {
+    this.expectedIntervalSeconds = Number(
+      configService.get('EXPECTED_REPORT_INTERVAL_SECONDS', 60),
+    );
+  }
+
+  async findAll(query: HealthPolicyQueryDto): Promise<HealthPolicyDto[]> {
+    const rows = await this.policyRepo.find({
+      where: query.profile ? { profile: query.profile } : {},
+      order: { profile: 'ASC', version: 'DESC' },
+    });
+    return rows.map((row) => this.toDto(row));
+  }
+
+  /**
+   * The version of a profile in effect now.
+   */
+  async findCurrent(profile: string): Promise<HealthPolicyDto> {
+    const policy = (await this.effectivePolicies([profile], new Date())).get(
+      profile,
+    );
+    if (!policy) {
+      throw new NotFoundException(
+        `Health policy profile ${profile} has no version in effect`,
+      );
+    }
+    return this.toDto(policy);
+  }
+
+  async findVersion(profile: string, version: number): Promise<HealthPolicyDto> {
+    return this.toDto(await this.getVersion(profile, version));
+  }
+
+  /**
+   * Add the next version of a profile (creating the profile with version 1).
+   * A version cannot take effect in the past, or before the current latest
+   * version, since that would change the status of reports already served.
+   */
+  async create(
+    profile: string,
+    data: CreateHealthPolicyDto,
+  ): Promise<HealthPolicyDto> {
+    this.assertProfileName(profile);
+    this.assertThresholds(data);
+
+    const now = new Date();
+    const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom) : now;
+    if (effectiveFrom < now) {
+      throw new BadRequestException(
+        '`effectiveFrom` cannot be in the past; reports already produced keep the version they used',
+      );
+    }
+
+    const latest = await this.policyRepo.findOne({
+      where: { profile },
+      order: { version: 'DESC' },
+    });
+    if (latest && effectiveFrom < latest.effectiveFrom) {
+      throw new BadRequestException(
+        `\`effectiveFrom\` must not be earlier than version ${latest.version} (${latest.effectiveFrom.toISOString()})`,
+      );
+    }
+
+    try {
+      const saved = await this.policyRepo.save(
+        this.policyRepo.create({
+          profile,
+          version: (latest?.version ?? 0) + 1,
+          healthyEfficiency: data.healthyEfficiency,
+          degradedEfficiency: data.degradedEfficiency,
+          degradedBatteryTemp: data.degradedBatteryTemp ?? null,
+          criticalBatteryTemp: data.criticalBatteryTemp ?? null,
+          degradedCompletenessPct: data.degradedCompletenessPct ?? null,
+          criticalCompletenessPct: data.criticalCompletenessPct ?? null,
+          description: data.description ?? null,
+          effectiveFrom,
+        }),
+      );
+      this.logger.log(
+        `Health policy ${profile} v${saved.version} effective from ${effectiveFrom.toISOString()}`,
+      );
+      return this.toDto(saved);
+    } catch (error) {
+      // Another version of the profile was added concurrently
+      if (error.code === '23505') {
+        throw new ConflictException(
+          `Health policy ${profile} was changed concurrently; retry`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  async getVehicleProfile(vehicleId: string): Promise<VehicleHealthProfileDto> {
+    const row = await this.profileRepo.findOne({ where: { vehicleId } });
+    return {
+      vehicleId,
+      profile: row?.profile ?? DEFAULT_HEALTH_PROFILE,
+      configured: !!row,
+    };
+  }
+
+  async setVehicleProfile(
+    vehicleId: string,
+    data: SetVehicleHealthProfileDto,
+  ): Promise<VehicleHealthProfileDto> {
+    const exists = await this.policyRepo.exists({
+      where: { profile: data.profile },
+    });
+    if (!exists) {
+      throw new NotFoundException(
+        `Health policy profile ${data.profile} has no versions`,
+      );
+    }
+
+    await this.profileRepo.save(
+      this.profileRepo.create({ vehicleId, profile: data.profile }),
+    );
+    this.logger.log(`Vehicle ${vehicleId} judged by health profile ${data.profile}`);
+    return { vehicleId, profile: data.profile, configured: true };
+  }
+
+  async removeVehicleProfile(vehicleId: string): Promise<void> {
+    const result = await this.profileRepo.delete({ vehicleId });
+    if (!result.affected) {
+      throw new NotFoundException(
+        `No health profile configured for vehicle ${vehicleId}`,
+      );
+    }
+  }
+
+  /**
+   * The policy a vehicle is judged by at `at` (the end of the report
+   * window): the latest version of its profile effective by then, or of
+   * the default profile when its own has none yet. A selector pins the
+   * profile and/or version instead, and must then exist.
+   */
+  async resolve(
+    vehicleId: string,
+    at: Date,
+    selector: HealthPolicySelector = {},
+  ): Promise<HealthPolicy> {
+    const assigned = selector.profile
+      ? null
+      : await this.profileRepo.findOne({ where: { vehicleId } });
+    const profile =
+      selector.profile ?? assigned?.profile ?? DEFAULT_HEALTH_PROFILE;
+
+    if (selector.version !== undefined) {
+      return this.getVersion(profile, selector.version);
+    }
+
+    const policies = await this.effectivePolicies(
+      [profile, DEFAULT_HEALTH_PROFILE],
+      at,
+    );
+    const policy =
+      policies.get(profile) ??
+      (selector.profile ? undefined : policies.get(DEFAULT_HEALTH_PROFILE));
+    if (!policy) {
+      throw new NotFoundException(
+        `Health policy profile ${profile} has no version in effect at ${at.toISOString()}`,
+      );
+    }
+    return policy;
+  }
+
+  /**
+   * resolve() for many vehicles with two queries, for fleet aggregates.
+   */
+  async resolveMany(
+    vehicleIds: string[],
+    at: Date,
+  ): Promise<Map<string, HealthPolicy>> {
+    const assigned =
+      vehicleIds.length > 0
+        ? await this.profileRepo.find({ where: { vehicleId: In(vehicleIds) } })
+        : [];
+    const profileOf = new Map(assigned.map((row) => [row.vehicleId, row.profile]));
+
+    const policies = await this.effectivePolicies(
+      [...new Set(profileOf.values()), DEFAULT_HEALTH_PROFILE],
+      at,
+    );
+    const fallback = policies.get(DEFAULT_HEALTH_PROFILE);
+
+    const resolved = new Map<string, HealthPolicy>();
+    for (const vehicleId of vehicleIds) {
+      const policy =
+        policies.get(profileOf.get(vehicleId) ?? DEFAULT_HEALTH_PROFILE) ??
+        fallback;
+      if (!policy) {
+        throw new NotFoundException(
+          `Health policy profile ${DEFAULT_HEALTH_PROFILE} has no version in effect at ${at.toISOString()}`,
+        );
+      }
+      resolved.set(vehicleId, policy);
+    }
+    return resolved;
+  }
+
+  /**
+   * Judge a vehicle against a policy. Each configured dimension yields its
+   * own status and the worst one wins, so a perfectly efficient vehicle
+   * with an overheating battery is still flagged.
+   */
+  assess(policy: HealthPolicy, metrics: HealthMetrics): HealthAssessment {
+    const completenessPct = this.completenessPct(metrics);
+    let status: HealthStatus = 'healthy';
+    const reasons: string[] = [];
+    const flag = (level: HealthStatus, reason: string) => {
+      if (STATUS_RANK[level] > STATUS_RANK[status]) {
+        status = level;
+      }
+      reasons.push(reason);
+    };
+
+    const healthyEfficiency = Number(policy.healthyEfficiency);
+    const degradedEfficiency = Number(policy.degradedEfficiency);
+    if (metrics.efficiencyRatio < degradedEfficiency) {
+      flag(
+        'critical',
+        `efficiency ${metrics.efficiencyRatio} below ${degradedEfficiency}`,
+      );
+    } else if (metrics.efficiencyRatio < healthyEfficiency) {
+      flag(
+        'degraded',
+        `efficiency ${metrics.efficiencyRatio} below ${healthyEfficiency}`,
+      );
+    }
+
+    const criticalTemp = this.threshold(policy.criticalBatteryTemp);
+    const degradedTemp = this.threshold(policy.degradedBatteryTemp);
+    if (criticalTemp !== null && metrics.avgBatteryTemp >= criticalTemp) {
+      flag(
+        'critical',
+        `average battery temperature ${metrics.avgBatteryTemp} at or above ${criticalTemp}`,
+      );
+    } else if (degradedTemp !== null && metrics.avgBatteryTemp >= degradedTemp) {
+      flag(
+        'degraded',
+        `average battery temperature ${metrics.avgBatteryTemp} at or above ${degradedTemp}`,
+      );
+    }
+
+    const criticalPct = this.threshold(policy.criticalCompletenessPct);
+    const degradedPct = this.threshold(policy.degradedCompletenessPct);
+    if (criticalPct !== null && completenessPct < criticalPct) {
+      flag('critical', `completeness ${completenessPct}% below ${criticalPct}%`);
+    } else if (degradedPct !== null && completenessPct < degradedPct) {
+      flag('degraded', `completeness ${completenessPct}% below ${degradedPct}%`);
+    }
+
+    return { status, reasons, completenessPct };
+  }
+
+  applied(policy: HealthPolicy): AppliedHealthPolicyDto {
+    return { profile: policy.profile, version: policy.version };
+  }
+
+  /**
+   * Latest version of each profile effective at `at`.
+   */
+  private async effectivePolicies(
+    profiles: string[],
+    at: Date,
+  ): Promise<Map<string, HealthPolicy>> {
+    const rows = await this.policyRepo
+      .createQueryBuilder('p')
+      .distinctOn(['p.profile'])
+      .where('p.profile IN (:...profiles)', { profiles })
+      .andWhere('p.effective_from <= :at', { at })
+      .orderBy('p.profile')
+      .addOrderBy('p.version', 'DESC')
+      .getMany();
+    return new Map(rows.map((row) => [row.profile, row]));
+  }
+
+  private async getVersion(
+    profile: string,
+    version: number,
+  ): Promise<HealthPolicy> {
+    const policy = await this.policyRepo.findOne({
+      where: { profile, version },
+    });
+    if (!policy) {
+      throw new NotFoundException(
+        `Health policy ${profile} v${version} not found`,
+      );
+    }
+    return policy;
+  }
+
+  /**
+   * Share of the readings expected at EXPECTED_REPORT_INTERVAL_SECONDS
+   * that arrived; a window reaching into the future only counts up to now.
+   */
+  private completenessPct(metrics: HealthMetrics): number {
+    const end = Math.min(metrics.to.getTime(), Date.now());
+    const expected = Math.floor(
+      (end - metrics.from.getTime()) / 1000 / this.expectedIntervalSeconds,
+    );
+    if (expected <= 0) {
+      return 100;
+    }
+    return parseFloat(
+      Math.min(100, (metrics.readingCount / expected) * 100).toFixed(2),
+    );
+  }
+
+  private assertProfileName(profile: string): void {
+    if (!HEALTH_PROFILE_PATTERN.test(profile)) {
+      throw new BadRequestException(
+        'Profile names are 1-64 letters, digits, `.`, `_` or `-`',
+      );
+    }
+  }
+
+  private assertThresholds(data: CreateHealthPolicyDto): void {
+    if (data.healthyEfficiency <= data.degradedEfficiency) {
+      throw new BadRequestException(
+        '`healthyEfficiency` must be greater than `degradedEfficiency`',
+      );
+    }
+    if (
+      data.degradedBatteryTemp !== undefined &&
+      data.criticalBatteryTemp !== undefined &&
+      data.criticalBatteryTemp <= data.degradedBatteryTemp
+    ) {
+      throw new BadRequestException(
+        '`criticalBatteryTemp` must be greater than `degradedBatteryTemp`',
+      );
+    }
+    if (
+      data.degradedCompletenessPct !== undefined &&
+      data.criticalCompletenessPct !== undefined &&
+      data.criticalCompletenessPct >= data.degradedCompletenessPct
+    ) {
+      throw new BadRequestException(
+        '`criticalCompletenessPct` must be less than `degradedCompletenessPct`',
+      );
+    }
+  }
+
+  // Decimal columns come back from pg as strings
+  private threshold(value: number | string | null): number | null {
+    return value === null || value === undefined ? null : Number(value);
+  }
+
+  private toDto(policy: HealthPolicy): HealthPolicyDto {
+    return {
+      profile: policy.profile,
+      version: policy.version,
+      healthyEfficiency: Number(policy.healthyEfficiency),
+      degradedEfficiency: Number(policy.degradedEfficiency),
+      degradedBatteryTemp: this.threshold(policy.degradedBatteryTemp),
+      criticalBatteryTemp: this.threshold(policy.criticalBatteryTemp),
+      degradedCompletenessPct: this.threshold(policy.degradedCompletenessPct),
+      criticalCompletenessPct: this.threshold(policy.criticalCompletenessPct),
+      description: policy.description,
+      effectiveFrom: policy.effectiveFrom.toISOString(),
+      createdAt: policy.createdAt.toISOString(),
+    };
+  }
+}
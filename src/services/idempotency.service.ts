@@ -0,0 +1,142 @@
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan } from 'typeorm';
+import { createHash } from 'crypto';
+import { IdempotencyKey } from '../entities/idempotency-key.entity';
+
+// Expired keys are purged lazily, at most this often
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly ttlMs: number;
+  private lastPurge = 0;
+
+  constructor(
+    @InjectRepository(IdempotencyKey)
+    private readonly keyRepo: Repository<IdempotencyKey>,
+    configService: ConfigService,
+  ) {
+    this.ttlMs =
+      Number(configService.get('IDEMPOTENCY_KEY_TTL_HOURS', 24)) *
+      60 *
+      60 *
+      1000;
+  }
+
+  hashRequest(body: unknown): string {
+    return createHash('sha256')
+      .update(JSON.stringify(body ?? null))
+      .digest('hex');
+  }
+
+  /**
+   * Claim a key for a new request.
+   *
+   * Returns null when the caller should process the request, or the stored
+   * response when the same request was already completed under this key.
+   * Throws 409 while the original request is still in flight and 422 when
+   * the key is reused for a different request.
+   */
+  async begin(
+    key: string,
+    route: string,
+    requestHash: string,
+  ): Promise<{ statusCode: number; response: object } | null> {
+    await this.purgeExpired();
+
+    const now = new Date();
+    const claimed = await this.keyRepo
+      .createQueryBuilder()
+      .insert()
+      .into(IdempotencyKey)
+      .values({
+        key,
+        route,
+        requestHash,
+        response: null,
+        statusCode: null,
+        expiresAt: new Date(now.getTime() + this.ttlMs),
+      })
+      // An expired key may be reused as if it had never been seen
+      .orUpdate(
+        [
+          'route',
+          'request_hash',
+          'response',
+          'status_code',
+          'created_at',
+          'expires_at',
+        ],
+        ['key'],
+        {
+          overwriteCondition: {
+            where: 'idempotency_key.expires_at < NOW()',
+          },
+        },
+      )
+      .returning('key')
+      .execute();
+
+    if ((claimed.raw ?? []).length > 0) {
+      return null;
+    }
+
+    const existing = await this.keyRepo.findOne({ where: { key } });
+    if (!existing) {
+      // Purged between the insert and the lookup; treat as a fresh claim
+      return this.begin(key, route, requestHash);
+    }
+
+    if (existing.route !== route || existing.requestHash !== requestHash) {
+      throw new UnprocessableEntityException(
+        `Idempotency-Key ${key} was already used for a different request`,
+      );
+    }
+    if (existing.response === null || existing.statusCode === null) {
+      throw new ConflictException(
+        `A request with Idempotency-Key ${key} is still being processed`,
+      );
+    }
+
+    this.logger.debug(`Replaying response for Idempotency-Key ${key}`);
+    return { statusCode: existing.statusCode, response: existing.response };
+  }
+
+  async complete(
+    key: string,
+    statusCode: number,
+    response: object,
+  ): Promise<void> {
+    await this.keyRepo.update({ key }, { statusCode, response });
+  }
+
+  /**
+   * Release a key whose request failed so the client can retry with it.
+   */
+  async abandon(key: string): Promise<void> {
+    await this.keyRepo.delete({ key });
+  }
+
+  private async purgeExpired(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPurge < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurge = now;
+
+    const result = await this.keyRepo.delete({
+      expiresAt: LessThan(new Date(now)),
+    });
+    if (result.affected) {
+      this.logger.debug(`Purged ${result.affected} expired idempotency keys`);
+    }
+  }
+}
@@ -0,0 +1,442 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource } from 'typeorm';
+import { ClassConstructor } from 'class-transformer';
+import { IndexedReading, IngestionService } from './ingestion.service';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { MeterTelemetryDto } from '../dto/meter-telemetry.dto';
+import { VehicleTelemetryDto } from '../dto/vehicle-telemetry.dto';
+import {
+  BatchIngestionResultDto,
+  IngestionResultDto,
+  ReadingOutcome,
+  ReadingResultDto,
+} from '../dto/ingestion-result.dto';
+import {
+  IngestQueueDrainStatsDto,
+  IngestQueueStatsDto,
+} from '../dto/ingest-queue.dto';
+import { validateReading } from '../utils/validate-reading';
+
+// How long a claimed batch is hidden from other workers; a worker that dies
+// mid-write leaves it to be drained again after this
+const LEASE_SECONDS = 120;
+
+// Longest wait before retrying a batch whose write failed
+const MAX_RETRY_DELAY_SECONDS = 300;
+
+/**
+ * Claim due requests in queue order until $3 readings are reached (or $3
+ * requests, since every request holds at least one reading), leasing them
+ * until $2.
+ */
+const CLAIM_SQL = `
+  WITH due AS (
+    SELECT id, reading_count
+    FROM ingest_queue
+    WHERE next_attempt_at <= $1
+    ORDER BY id
+    LIMIT $3
+    FOR UPDATE SKIP LOCKED
+  ),
+  picked AS (
+    SELECT id
+    FROM (
+      SELECT id, SUM(reading_count) OVER (ORDER BY id) - reading_count as before
+      FROM due
+    ) d
+    WHERE before < $3
+  )
+  UPDATE ingest_queue q
+  SET next_attempt_at = $2, attempts = q.attempts + 1
+  FROM picked
+  WHERE q.id = picked.id
+  RETURNING q.id, q.device_type, q.tenant_id, q.readings, q.attempts
+`;
+
+// The device a validated reading is for
+function deviceIdOf(deviceType: DeviceType, reading: object): string {
+  return deviceType === DeviceType.METER
+    ? (reading as MeterTelemetryDto).meterId
+    : (reading as VehicleTelemetryDto).vehicleId;
+}
+
+interface QueuedRequest {
+  id: string;
+  device_type: DeviceType;
+  tenant_id: string | null;
+  readings: unknown[];
+  attempts: number;
+}
+
+/**
+ * Write-behind ingestion.
+ *
+ * With INGEST_QUEUE_ENABLED, the ingest routes only validate and screen
+ * readings and append them to ingest_queue, a Postgres table, so a 202
+ * means the readings are durable but not yet written. Screening is the
+ * registry and tenant checks of the synchronous path, so refused readings
+ * get the same 400/403 or per-reading outcome and are never queued. A pool of INGEST_QUEUE_WORKERS
+ * drains the queue: each worker claims the oldest requests with SKIP LOCKED
+ * up to INGEST_QUEUE_BATCH_SIZE readings, hands them to the batch path per
+ * device type and tenant, and deletes them once written. Requests that
+ * arrive while a batch is being written coalesce into the next one.
+ *
+ * Draining is at least once. A batch whose write fails is retried with
+ * backoff, and one left behind by a crashed worker is drained again after
+ * its lease; readings already stored come back as duplicates and are not
+ * written twice. The checks run again when a batch is drained; readings
+ * refused only then (e.g. a device decommissioned in between) are logged
+ * and counted.
+ */
+@Injectable()
+export class IngestQueueService {
+  private readonly logger = new Logger(IngestQueueService.name);
+  readonly enabled: boolean;
+  private readonly workers: number;
+  private readonly batchSize: number;
+  private readonly maxDepth: number;
+  private readonly retryBaseSeconds: number;
+  // Readings waiting, as of the last stats query plus own enqueues since
+  private depth = 0;
+  private draining: Promise<void> | null = null;
+  private drainAgain = false;
+  private readonly drained: IngestQueueDrainStatsDto = {
+    batches: 0,
+    readings: 0,
+    accepted: 0,
+    duplicates: 0,
+    stale: 0,
+    rejected: 0,
+    quarantined: 0,
+    failed: 0,
+    lastDrainedAt: null,
+  };
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly ingestionService: IngestionService,
+    configService: ConfigService,
+  ) {
+    this.enabled =
+      configService.get<string>('INGEST_QUEUE_ENABLED', 'true') !== 'false';
+    this.workers = Number(configService.get('INGEST_QUEUE_WORKERS', 2));
+    this.batchSize = Number(configService.get('INGEST_QUEUE_BATCH_SIZE', 5000));
+    this.maxDepth = Number(
+      configService.get('INGEST_QUEUE_MAX_DEPTH', 1000000),
+    );
+    this.retryBaseSeconds = Number(
+      configService.get('INGEST_QUEUE_RETRY_BASE_SECONDS', 5),
+    );
+  }
+
+  /**
+   * Safety net behind the drain started by each enqueue: picks up requests
+   * due for a retry or left by another instance, and refreshes the depth
+   * that backpressure is based on.
+   */
+  @Cron(CronExpression.EVERY_5_SECONDS, { name: 'ingest-queue' })
+  async handleCron(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await this.getStats();
+      await this.drain();
+    } catch (error) {
+      this.logger.error(
+        `Ingest queue drain failed: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Screen and queue one reading that has already passed the validation
+   * pipe. Throws as the synchronous path would for a device the caller may
+   * not write to; a quarantined reading is not queued.
+   */
+  async enqueueReading(
+    deviceType: DeviceType,
+    reading: object,
+    tenantId: string | null = null,
+  ): Promise<IngestionResultDto> {
+    const admitted = await this.ingestionService.screenReading(
+      tenantId,
+      deviceType,
+      deviceIdOf(deviceType, reading),
+      reading,
+    );
+    if (!admitted) {
+      return { status: 'quarantined', duplicate: false, stale: false };
+    }
+    await this.enqueue(deviceType, [reading], tenantId);
+    return { status: 'queued', duplicate: false, stale: false };
+  }
+
+  /**
+   * Validate and screen a batch reading by reading and queue the rest.
+   * Refused readings are rejected or quarantined right away, as the
+   * synchronous path would.
+   */
+  async enqueueBatch<T extends object>(
+    deviceType: DeviceType,
+    dto: ClassConstructor<T>,
+    readings: unknown[],
+    tenantId: string | null = null,
+  ): Promise<BatchIngestionResultDto> {
+    const results: ReadingResultDto[] = [];
+    const valid: IndexedReading<T>[] = [];
+    for (const [index, plain] of readings.entries()) {
+      const check = await validateReading(dto, plain);
+      if (check.valid) {
+        valid.push({ index, reading: check.value });
+      } else {
+        results.push({
+          index,
+          status: ReadingOutcome.REJECTED,
+          reason: check.reason,
+        });
+      }
+    }
+    const writable = await this.ingestionService.screenBatch(
+      tenantId,
+      deviceType,
+      valid,
+      (reading) => deviceIdOf(deviceType, reading),
+      results,
+    );
+    if (writable.length > 0) {
+      // Queued as sent; the drain validates them again
+      await this.enqueue(
+        deviceType,
+        writable.map((item) => readings[item.index]),
+        tenantId,
+      );
+    }
+    results.push(
+      ...writable.map((item) => ({
+        index: item.index,
+        status: ReadingOutcome.QUEUED,
+      })),
+    );
+
+    const tally = (status: ReadingOutcome) =>
+      results.filter((result) => result.status === status).length;
+    const rejected = tally(ReadingOutcome.REJECTED);
+    let status: BatchIngestionResultDto['status'] = 'accepted';
+    if (rejected > 0) {
+      status = rejected === readings.length ? 'rejected' : 'partial';
+    }
+    return {
+      status,
+      count: readings.length,
+      accepted: 0,
+      duplicates: 0,
+      stale: 0,
+      rejected,
+      quarantined: tally(ReadingOutcome.QUARANTINED),
+      queued: writable.length,
+      anomalies: 0,
+      results: results.sort((x, y) => x.index - y.index),
+    };
+  }
+
+  /**
+   * Drain every due request. Concurrent calls share one run, which goes
+   * round again if it was asked to while busy.
+   */
+  drain(): Promise<void> {
+    if (this.draining) {
+      this.drainAgain = true;
+      return this.draining;
+    }
+
+    this.draining = (async () => {
+      try {
+        do {
+          this.drainAgain = false;
+          await Promise.all(
+            Array.from({ length: this.workers }, () => this.work()),
+          );
+        } while (this.drainAgain);
+      } finally {
+        this.draining = null;
+      }
+    })();
+    return this.draining;
+  }
+
+  async getStats(now: Date = new Date()): Promise<IngestQueueStatsDto> {
+    const [row] = await this.dataSource.query(
+      `
+      SELECT
+        COUNT(*) as requests,
+        COALESCE(SUM(reading_count), 0) as depth,
+        COUNT(*) FILTER (WHERE last_error IS NOT NULL) as retrying,
+        MIN(enqueued_at) as oldest_enqueued_at,
+        (ARRAY_AGG(last_error ORDER BY id DESC)
+          FILTER (WHERE last_error IS NOT NULL))[1] as last_error
+      FROM ingest_queue
+      `,
+    );
+    this.depth = parseInt(row.depth);
+
+    const oldest = row.oldest_enqueued_at
+      ? new Date(row.oldest_enqueued_at)
+      : null;
+    return {
+      enabled: this.enabled,
+      depth: this.depth,
+      requests: parseInt(row.requests),
+      retrying: parseInt(row.retrying),
+      maxDepth: this.maxDepth,
+      oldestEnqueuedAt: oldest?.toISOString() ?? null,
+      lagSeconds: oldest
+        ? Math.max(0, (now.getTime() - oldest.getTime()) / 1000)
+        : 0,
+      lastError: row.last_error ?? null,
+      workers: this.workers,
+      drained: { ...this.drained },
+    };
+  }
+
+  private async enqueue(
+    deviceType: DeviceType,
+    readings: unknown[],
+    tenantId: string | null,
+  ): Promise<void> {
+    if (this.maxDepth > 0 && this.depth >= this.maxDepth) {
+      throw new ServiceUnavailableException(
+        `Ingest queue is full (${this.depth} readings waiting); retry later`,
+      );
+    }
+
+    await this.dataSource.query(
+      `
+      INSERT INTO ingest_queue (device_type, tenant_id, readings, reading_count)
+      VALUES ($1, $2, $3, $4)
+      `,
+      [deviceType, tenantId, JSON.stringify(readings), readings.length],
+    );
+    this.depth += readings.length;
+    this.kick();
+  }
+
+  private kick(): void {
+    this.drain().catch((error) =>
+      this.logger.error(
+        `Ingest queue drain failed: ${error.message}`,
+        error.stack,
+      ),
+    );
+  }
+
+  private async work(): Promise<void> {
+    // Requests found means more may be waiting
+    let claimed: number;
+    do {
+      claimed = await this.drainBatch();
+    } while (claimed > 0);
+  }
+
+  private async drainBatch(): Promise<number> {
+    const now = new Date();
+    const lease = new Date(now.getTime() + LEASE_SECONDS * 1000);
+    const [claimed]: [QueuedRequest[], number] = await this.dataSource.query(
+      CLAIM_SQL,
+      [now, lease, this.batchSize],
+    );
+
+    const groups = new Map<string, QueuedRequest[]>();
+    for (const request of claimed) {
+      const key = `${request.device_type}:${request.tenant_id ?? ''}`;
+      groups.set(key, [...(groups.get(key) ?? []), request]);
+    }
+    for (const requests of groups.values()) {
+      await this.write(requests);
+    }
+    return claimed.length;
+  }
+
+  private async write(requests: QueuedRequest[]): Promise<void> {
+    const { device_type: deviceType, tenant_id: tenantId } = requests[0];
+    const ids = requests.map((request) => request.id);
+    const readings = requests.flatMap((request) => request.readings);
+
+    let report: BatchIngestionResultDto;
+    try {
+      report =
+        deviceType === DeviceType.METER
+          ? await this.ingestionService.ingestMeterBatch(
+              readings,
+              tenantId,
+              true,
+            )
+          : await this.ingestionService.ingestVehicleBatch(
+              readings,
+              tenantId,
+              true,
+            );
+    } catch (error) {
+      await this.retryLater(requests, error);
+      return;
+    }
+
+    await this.dataSource.query(`DELETE FROM ingest_queue WHERE id = ANY($1)`, [
+      ids,
+    ]);
+    this.depth = Math.max(0, this.depth - readings.length);
+
+    this.drained.batches++;
+    this.drained.readings += readings.length;
+    this.drained.accepted += report.accepted;
+    this.drained.duplicates += report.duplicates;
+    this.drained.stale += report.stale;
+    this.drained.rejected += report.rejected;
+    this.drained.quarantined += report.quarantined;
+    this.drained.lastDrainedAt = new Date().toISOString();
+
+    if (report.rejected > 0) {
+      const first = report.results.find(
+        (result) => result.status === ReadingOutcome.REJECTED,
+      );
+      this.logger.warn(
+        `Rejected ${report.rejected} queued ${deviceType} readings (e.g. ${first?.reason})`,
+      );
+    }
+  }
+
+  private async retryLater(
+    requests: QueuedRequest[],
+    error: Error,
+  ): Promise<void> {
+    this.drained.failed++;
+    const attempts = Math.max(...requests.map((request) => request.attempts));
+    const delaySeconds = Math.min(
+      this.retryBaseSeconds * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY_SECONDS,
+    );
+    await this.dataSource.query(
+      `
+      UPDATE ingest_queue
+      SET next_attempt_at = $2, last_error = $3
+      WHERE id = ANY($1)
+      `,
+      [
+        requests.map((request) => request.id),
+        new Date(Date.now() + delaySeconds * 1000),
+        error.message,
+      ],
+    );
+    this.logger.warn(
+      `Writing ${requests.length} queued requests failed (${error.message}); retrying in ${delaySeconds}s`,
+    );
+  }
+}
@@ -1,12 +1,71 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
+import { Repository, DataSource, EntityManager, EntityTarget } from 'typeorm';
 import { CurrentMeterStatus } from '../entities/current-meter-status.entity';
 import { CurrentVehicleStatus } from '../entities/current-vehicle-status.entity';
 import { MeterTelemetryHistory } from '../entities/meter-telemetry-history.entity';
 import { VehicleTelemetryHistory } from '../entities/vehicle-telemetry-history.entity';
 import { MeterTelemetryDto } from '../dto/meter-telemetry.dto';
 import { VehicleTelemetryDto } from '../dto/vehicle-telemetry.dto';
+import {
+  IngestionResultDto,
+  BatchIngestionResultDto,
+  ReadingResultDto,
+  ReadingOutcome,
+} from '../dto/ingestion-result.dto';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import {
+  EnergyRegisterService,
+  RegisterDelta,
+  RegisterPlan,
+  RegisterPoint,
+} from './energy-register.service';
+import {
+  AnomalyDetectorService,
+  AnomalyVerdict,
+} from './anomaly-detector.service';
+import { TelemetryStatus } from '../entities/current-meter-status.entity';
+import { CURSOR_AT_SQL, HotRow, LiveFeedService } from './live-feed.service';
+import { AlertService } from './alert.service';
+import { TenantService } from './tenant.service';
+import { DeviceRegistryService } from './device-registry.service';
+import { ChargingSessionService } from './charging-session.service';
+import { RollupService } from './rollup.service';
+import { QuarantineReleaseDto } from '../dto/device.dto';
+import { validateReading } from '../utils/validate-reading';
+import { readingKey } from '../utils/reading-key';
+
+// Quarantined readings released per call; the caller repeats for the rest
+const RELEASE_LIMIT = 10000;
+
+const QUARANTINED: IngestionResultDto = {
+  status: 'quarantined',
+  duplicate: false,
+  stale: false,
+};
+
+export interface IndexedReading<T> {
+  index: number;
+  reading: T;
+}
+
+// Latest stored reading of a device, read from its locked hot row
+interface LatestReading extends RegisterPoint {
+  soc?: number;
+}
+
+// Everything decided about a set of readings before they are written
+interface PreparedReadings {
+  latest: Map<string, LatestReading>;
+  registers: RegisterPlan;
+  verdicts: Map<string, AnomalyVerdict>;
+}
 
 @Injectable()
 export class IngestionService {
@@ -22,60 +81,93 @@ export class IngestionService {
     @InjectRepository(VehicleTelemetryHistory)
     private readonly vehicleHistoryRepo: Repository<VehicleTelemetryHistory>,
     private readonly dataSource: DataSource,
+    private readonly energyRegisterService: EnergyRegisterService,
+    private readonly anomalyDetectorService: AnomalyDetectorService,
+    private readonly liveFeedService: LiveFeedService,
+    private readonly alertService: AlertService,
+    private readonly tenantService: TenantService,
+    private readonly deviceRegistryService: DeviceRegistryService,
+    private readonly chargingSessionService: ChargingSessionService,
+    private readonly rollupService: RollupService,
   ) {}
 
   /**
    * Ingest meter telemetry with dual-path strategy:
-   * 1. UPSERT to hot table (current_meter_status) for dashboard
-   * 2. INSERT to cold table (meter_telemetry_history) for analytics
+   * 1. INSERT to cold table (meter_telemetry_history) for analytics
+   * 2. UPSERT to hot table (current_meter_status) for dashboard
+   *
+   * A reading already stored for the same (meter, timestamp) is a device
+   * retry: it is acknowledged as a duplicate and nothing is written. A
+   * reading that is not newer than the meter's last_update_timestamp is
+   * still written to history but leaves the hot table untouched.
+   *
+   * Each history row also stores the energy since the meter's previous
+   * reading (kwh_consumed_ac_delta), which is what analytics sums, and the
+   * verdict of the anomaly rules. Anomalous readings are stored and
+   * reported, but a reading held back by a rule (e.g. a future timestamp)
+   * never reaches the hot table.
    */
-  async ingestMeterTelemetry(data: MeterTelemetryDto): Promise<void> {
+  async ingestMeterTelemetry(
+    data: MeterTelemetryDto,
+    tenantId: string | null = null,
+  ): Promise<IngestionResultDto> {
     const startTime = Date.now();
+    let updated: HotRow[] = [];
+    if (!(await this.screenReading(tenantId, DeviceType.METER, data.meterId, data))) {
+      return QUARANTINED;
+    }
 
     try {
-      await this.dataSource.transaction(async (manager) => {
-        // HOT PATH: UPSERT current status
-        // This ensures dashboard always shows latest state without scanning history
-        await manager
-          .createQueryBuilder()
-          .insert()
-          .into(CurrentMeterStatus)
-          .values({
-            meterId: data.meterId,
-            kwhConsumedAc: data.kwhConsumedAc,
-            voltage: data.voltage,
-            lastUpdateTimestamp: new Date(data.timestamp),
-          })
-          .orUpdate(
-            [
-              'kwh_consumed_ac',
-              'voltage',
-              'last_update_timestamp',
-              'updated_at',
-            ],
-            ['meter_id'],
-          )
-          .execute();
+      const result = await this.dataSource.transaction(async (manager) => {
+        const { registers, verdicts } = await this.prepareMeterReadings(
+          manager,
+          [data],
+        );
 
         // COLD PATH: INSERT to history for time-series analytics
         // Append-only design for audit trail and long-term reporting
-        await manager
-          .createQueryBuilder()
-          .insert()
-          .into(MeterTelemetryHistory)
-          .values({
-            meterId: data.meterId,
-            kwhConsumedAc: data.kwhConsumedAc,
-            voltage: data.voltage,
-            timestamp: new Date(data.timestamp),
-          })
-          .execute();
+        const inserted = await this.insertMeterHistory(
+          manager,
+          [data],
+          registers.deltas,
+          verdicts,
+        );
+        if (inserted.length === 0) {
+          return { duplicate: true, stale: false };
+        }
+        await this.energyRegisterService.applyCorrections(
+          manager,
+          DeviceType.METER,
+          registers.corrections,
+        );
+
+        const verdict = verdicts.get(readingKey(data.meterId, data.timestamp));
+        if (verdict?.holdBack) {
+          return { duplicate: false, stale: false, anomalies: verdict.reasons };
+        }
+
+        // HOT PATH: UPSERT current status
+        // This ensures dashboard always shows latest state without scanning history
+        updated = await this.upsertCurrentMeterStatus(
+          manager,
+          [data],
+          verdicts,
+        );
+
+        return {
+          duplicate: false,
+          stale: updated.length === 0,
+          ...this.anomaliesOf(verdict),
+        };
       });
+      this.afterCommit(DeviceType.METER, updated);
 
       const duration = Date.now() - startTime;
       this.logger.debug(
-        `Meter ${data.meterId} ingested in ${duration}ms`,
+        `Meter ${data.meterId} ingested in ${duration}ms${this.describeOutcome(result)}`,
       );
+
+      return { status: 'accepted', ...result };
     } catch (error) {
       this.logger.error(
         `Failed to ingest meter telemetry: ${error.message}`,
@@ -87,57 +179,75 @@ export class IngestionService {
 
   /**
    * Ingest vehicle telemetry with dual-path strategy:
-   * 1. UPSERT to hot table (current_vehicle_status) for live SoC display
-   * 2. INSERT to cold table (vehicle_telemetry_history) for efficiency analytics
+   * 1. INSERT to cold table (vehicle_telemetry_history) for efficiency analytics
+   * 2. UPSERT to hot table (current_vehicle_status) for live SoC display
+   *
+   * The vehicle is also queued for the charging session builder.
    */
-  async ingestVehicleTelemetry(data: VehicleTelemetryDto): Promise<void> {
+  async ingestVehicleTelemetry(
+    data: VehicleTelemetryDto,
+    tenantId: string | null = null,
+  ): Promise<IngestionResultDto> {
     const startTime = Date.now();
+    let updated: HotRow[] = [];
+    if (!(await this.screenReading(tenantId, DeviceType.VEHICLE, data.vehicleId, data))) {
+      return QUARANTINED;
+    }
 
     try {
-      await this.dataSource.transaction(async (manager) => {
-        // HOT PATH: UPSERT current status
-        await manager
-          .createQueryBuilder()
-          .insert()
-          .into(CurrentVehicleStatus)
-          .values({
-            vehicleId: data.vehicleId,
-            soc: data.soc,
-            kwhDeliveredDc: data.kwhDeliveredDc,
-            batteryTemp: data.batteryTemp ?? null,
-            lastUpdateTimestamp: new Date(data.timestamp),
-          })
-          .orUpdate(
-            [
-              'soc',
-              'kwh_delivered_dc',
-              'battery_temp',
-              'last_update_timestamp',
-              'updated_at',
-            ],
-            ['vehicle_id'],
-          )
-          .execute();
+      const result = await this.dataSource.transaction(async (manager) => {
+        const { registers, verdicts } = await this.prepareVehicleReadings(
+          manager,
+          [data],
+        );
 
         // COLD PATH: INSERT to history
-        await manager
-          .createQueryBuilder()
-          .insert()
-          .into(VehicleTelemetryHistory)
-          .values({
-            vehicleId: data.vehicleId,
-            soc: data.soc,
-            kwhDeliveredDc: data.kwhDeliveredDc,
-            batteryTemp: data.batteryTemp ?? null,
-            timestamp: new Date(data.timestamp),
-          })
-          .execute();
+        const inserted = await this.insertVehicleHistory(
+          manager,
+          [data],
+          registers.deltas,
+          verdicts,
+        );
+        if (inserted.length === 0) {
+          return { duplicate: true, stale: false };
+        }
+        await this.energyRegisterService.applyCorrections(
+          manager,
+          DeviceType.VEHICLE,
+          registers.corrections,
+        );
+        await this.chargingSessionService.markPending(manager, [
+          { vehicleId: data.vehicleId, timestamp: new Date(data.timestamp) },
+        ]);
+
+        const verdict = verdicts.get(
+          readingKey(data.vehicleId, data.timestamp),
+        );
+        if (verdict?.holdBack) {
+          return { duplicate: false, stale: false, anomalies: verdict.reasons };
+        }
+
+        // HOT PATH: UPSERT current status
+        updated = await this.upsertCurrentVehicleStatus(
+          manager,
+          [data],
+          verdicts,
+        );
+
+        return {
+          duplicate: false,
+          stale: updated.length === 0,
+          ...this.anomaliesOf(verdict),
+        };
       });
+      this.afterCommit(DeviceType.VEHICLE, updated);
 
       const duration = Date.now() - startTime;
       this.logger.debug(
-        `Vehicle ${data.vehicleId} ingested in ${duration}ms`,
+        `Vehicle ${data.vehicleId} ingested in ${duration}ms${this.describeOutcome(result)}`,
       );
+
+      return { status: 'accepted', ...result };
     } catch (error) {
       this.logger.error(
         `Failed to ingest vehicle telemetry: ${error.message}`,
@@ -150,138 +260,1016 @@ export class IngestionService {
   /**
    * Batch ingestion for high-throughput scenarios
    * Optimized for 10,000+ devices sending data every 60 seconds
+   *
+   * Every reading gets its own outcome instead of the whole batch failing:
+   * invalid readings are rejected up front, and a chunk whose transaction
+   * fails is retried reading by reading so only the offending ones are
+   * rejected. Rejected readings are never stored, so resubmitting exactly
+   * those is safe.
+   *
+   * With `retryable`, a failure that is not a data error (connection loss,
+   * timeout) is thrown instead of rejecting the chunk, for callers such as
+   * the ingest queue that write the whole batch again later.
    */
-  async ingestMeterBatch(readings: MeterTelemetryDto[]): Promise<void> {
+  async ingestMeterBatch(
+    readings: unknown[],
+    tenantId: string | null = null,
+    retryable = false,
+  ): Promise<BatchIngestionResultDto> {
     const startTime = Date.now();
     const batchSize = 1000;
+    const results: ReadingResultDto[] = [];
 
-    try {
-      // Process in batches to avoid memory overflow
-      for (let i = 0; i < readings.length; i += batchSize) {
-        const batch = readings.slice(i, i + batchSize);
-
-        await this.dataSource.transaction(async (manager) => {
-          // Bulk UPSERT for hot table
-          const hotValues = batch.map((r) => ({
-            meterId: r.meterId,
-            kwhConsumedAc: r.kwhConsumedAc,
-            voltage: r.voltage,
-            lastUpdateTimestamp: new Date(r.timestamp),
-          }));
-
-          await manager
-            .createQueryBuilder()
-            .insert()
-            .into(CurrentMeterStatus)
-            .values(hotValues)
-            .orUpdate(
-              [
-                'kwh_consumed_ac',
-                'voltage',
-                'last_update_timestamp',
-                'updated_at',
-              ],
-              ['meter_id'],
-            )
-            .execute();
-
-          // Bulk INSERT for cold table
-          const coldValues = batch.map((r) => ({
-            meterId: r.meterId,
-            kwhConsumedAc: r.kwhConsumedAc,
-            voltage: r.voltage,
-            timestamp: new Date(r.timestamp),
-          }));
-
-          await manager
-            .createQueryBuilder()
-            .insert()
-            .into(MeterTelemetryHistory)
-            .values(coldValues)
-            .execute();
+    const valid: IndexedReading<MeterTelemetryDto>[] = [];
+    for (const [index, plain] of readings.entries()) {
+      const check = await validateReading(MeterTelemetryDto, plain);
+      if (check.valid) {
+        valid.push({ index, reading: check.value });
+      } else {
+        results.push({
+          index,
+          status: ReadingOutcome.REJECTED,
+          reason: check.reason,
         });
-
-        this.logger.debug(`Processed batch ${i / batchSize + 1}`);
       }
+    }
+    const writable = await this.screenBatch(
+      tenantId,
+      DeviceType.METER,
+      valid,
+      (reading) => reading.meterId,
+      results,
+    );
 
-      const duration = Date.now() - startTime;
-      this.logger.log(
-        `Batch ingested ${readings.length} meter readings in ${duration}ms`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Failed to ingest meter batch: ${error.message}`,
-        error.stack,
+    // Process in batches to avoid memory overflow
+    for (let i = 0; i < writable.length; i += batchSize) {
+      const chunk = writable.slice(i, i + batchSize);
+
+      results.push(
+        ...(await this.ingestChunk(
+          chunk,
+          async (items) => {
+            // Handed on only once the chunk's transaction has committed
+            const updated: HotRow[] = [];
+            const written = await this.dataSource.transaction((manager) =>
+              this.writeMeterChunk(manager, items, updated),
+            );
+            this.afterCommit(DeviceType.METER, updated);
+            return written;
+          },
+          retryable,
+        )),
       );
-      throw error;
+
+      this.logger.debug(`Processed batch ${i / batchSize + 1}`);
     }
+
+    const report = this.buildBatchReport(readings.length, results);
+    const duration = Date.now() - startTime;
+    this.logger.log(
+      `Batch ingested ${readings.length} meter readings in ${duration}ms (${report.duplicates} duplicate, ${report.stale} stale, ${report.rejected} rejected, ${report.quarantined} quarantined, ${report.anomalies} anomalous)`,
+    );
+
+    return report;
   }
 
-  async ingestVehicleBatch(readings: VehicleTelemetryDto[]): Promise<void> {
+  async ingestVehicleBatch(
+    readings: unknown[],
+    tenantId: string | null = null,
+    retryable = false,
+  ): Promise<BatchIngestionResultDto> {
     const startTime = Date.now();
     const batchSize = 1000;
+    const results: ReadingResultDto[] = [];
 
-    try {
-      for (let i = 0; i < readings.length; i += batchSize) {
-        const batch = readings.slice(i, i + batchSize);
-
-        await this.dataSource.transaction(async (manager) => {
-          // Bulk UPSERT for hot table
-          const hotValues = batch.map((r) => ({
-            vehicleId: r.vehicleId,
-            soc: r.soc,
-            kwhDeliveredDc: r.kwhDeliveredDc,
-            batteryTemp: r.batteryTemp ?? null,
-            lastUpdateTimestamp: new Date(r.timestamp),
-          }));
-
-          await manager
-            .createQueryBuilder()
-            .insert()
-            .into(CurrentVehicleStatus)
-            .values(hotValues)
-            .orUpdate(
-              [
-                'soc',
-                'kwh_delivered_dc',
-                'battery_temp',
-                'last_update_timestamp',
-                'updated_at',
-              ],
-              ['vehicle_id'],
-            )
-            .execute();
-
-          // Bulk INSERT for cold table
-          const coldValues = batch.map((r) => ({
-            vehicleId: r.vehicleId,
-            soc: r.soc,
-            kwhDeliveredDc: r.kwhDeliveredDc,
-            batteryTemp: r.batteryTemp ?? null,
-            timestamp: new Date(r.timestamp),
-          }));
-
-          await manager
-            .createQueryBuilder()
-            .insert()
-            .into(VehicleTelemetryHistory)
-            .values(coldValues)
-            .execute();
+    const valid: IndexedReading<VehicleTelemetryDto>[] = [];
+    for (const [index, plain] of readings.entries()) {
+      const check = await validateReading(VehicleTelemetryDto, plain);
+      if (check.valid) {
+        valid.push({ index, reading: check.value });
+      } else {
+        results.push({
+          index,
+          status: ReadingOutcome.REJECTED,
+          reason: check.reason,
         });
+      }
+    }
+    const writable = await this.screenBatch(
+      tenantId,
+      DeviceType.VEHICLE,
+      valid,
+      (reading) => reading.vehicleId,
+      results,
+    );
+
+    for (let i = 0; i < writable.length; i += batchSize) {
+      const chunk = writable.slice(i, i + batchSize);
+
+      results.push(
+        ...(await this.ingestChunk(
+          chunk,
+          async (items) => {
+            const updated: HotRow[] = [];
+            const written = await this.dataSource.transaction((manager) =>
+              this.writeVehicleChunk(manager, items, updated),
+            );
+            this.afterCommit(DeviceType.VEHICLE, updated);
+            return written;
+          },
+          retryable,
+        )),
+      );
+
+      this.logger.debug(`Processed batch ${i / batchSize + 1}`);
+    }
+
+    const report = this.buildBatchReport(readings.length, results);
+    const duration = Date.now() - startTime;
+    this.logger.log(
+      `Batch ingested ${readings.length} vehicle readings in ${duration}ms (${report.duplicates} duplicate, ${report.stale} stale, ${report.rejected} rejected, ${report.quarantined} quarantined, ${report.anomalies} anomalous)`,
+    );
+
+    return report;
+  }
+
+  /**
+   * Write one chunk of meter readings in the caller's transaction and
+   * classify each reading. Hot rows it advances are added to `updated`.
+   */
+  private async writeMeterChunk(
+    manager: EntityManager,
+    chunk: IndexedReading<MeterTelemetryDto>[],
+    updated: HotRow[],
+  ): Promise<ReadingResultDto[]> {
+    const readings = chunk.map((item) => item.reading);
+    const {
+      latest: watermarks,
+      registers,
+      verdicts,
+    } = await this.prepareMeterReadings(manager, readings);
+
+    // Bulk INSERT for cold table; re-sent readings are skipped by the
+    // unique (meter_id, timestamp) index
+    const inserted = await this.insertMeterHistory(
+      manager,
+      readings,
+      registers.deltas,
+      verdicts,
+    );
+    const { stored, duplicates } = this.splitDuplicates(
+      chunk,
+      inserted.map((row) => readingKey(row.meter_id, row.timestamp)),
+      (r) => readingKey(r.meterId, r.timestamp),
+    );
+    await this.energyRegisterService.applyCorrections(
+      manager,
+      DeviceType.METER,
+      registers.corrections,
+    );
+
+    const { fresh, stale } = this.splitStale(stored, (r) =>
+      watermarks.get(r.meterId),
+    );
+
+    // Bulk UPSERT for hot table, one row per meter
+    const latest = this.latestPerDevice(
+      fresh
+        .map((item) => item.reading)
+        .filter(
+          (r) => !verdicts.get(readingKey(r.meterId, r.timestamp))?.holdBack,
+        ),
+      (r) => r.meterId,
+    );
+    if (latest.length > 0) {
+      updated.push(
+        ...(await this.upsertCurrentMeterStatus(manager, latest, verdicts)),
+      );
+    }
+
+    return [
+      ...fresh.map((item) => ({
+        index: item.index,
+        status: ReadingOutcome.ACCEPTED,
+        ...this.anomaliesOf(
+          verdicts.get(readingKey(item.reading.meterId, item.reading.timestamp)),
+        ),
+      })),
+      ...duplicates.map((item) => ({
+        index: item.index,
+        status: ReadingOutcome.DUPLICATE,
+      })),
+      ...stale.map((item) => ({
+        index: item.index,
+        status: ReadingOutcome.STALE,
+        ...this.anomaliesOf(
+          verdicts.get(readingKey(item.reading.meterId, item.reading.timestamp)),
+        ),
+      })),
+    ];
+  }
+
+  private async writeVehicleChunk(
+    manager: EntityManager,
+    chunk: IndexedReading<VehicleTelemetryDto>[],
+    updated: HotRow[],
+  ): Promise<ReadingResultDto[]> {
+    const readings = chunk.map((item) => item.reading);
+    const {
+      latest: watermarks,
+      registers,
+      verdicts,
+    } = await this.prepareVehicleReadings(manager, readings);
+
+    // Bulk INSERT for cold table
+    const inserted = await this.insertVehicleHistory(
+      manager,
+      readings,
+      registers.deltas,
+      verdicts,
+    );
+    const { stored, duplicates } = this.splitDuplicates(
+      chunk,
+      inserted.map((row) => readingKey(row.vehicle_id, row.timestamp)),
+      (r) => readingKey(r.vehicleId, r.timestamp),
+    );
+    await this.energyRegisterService.applyCorrections(
+      manager,
+      DeviceType.VEHICLE,
+      registers.corrections,
+    );
+    await this.chargingSessionService.markPending(
+      manager,
+      inserted.map((row) => ({
+        vehicleId: row.vehicle_id,
+        timestamp: new Date(row.timestamp),
+      })),
+    );
+
+    const { fresh, stale } = this.splitStale(stored, (r) =>
+      watermarks.get(r.vehicleId),
+    );
+
+    // Bulk UPSERT for hot table, one row per vehicle
+    const latest = this.latestPerDevice(
+      fresh
+        .map((item) => item.reading)
+        .filter(
+          (r) =>
+            !verdicts.get(readingKey(r.vehicleId, r.timestamp))?.holdBack,
+        ),
+      (r) => r.vehicleId,
+    );
+    if (latest.length > 0) {
+      updated.push(
+        ...(await this.upsertCurrentVehicleStatus(manager, latest, verdicts)),
+      );
+    }
+
+    return [
+      ...fresh.map((item) => ({
+        index: item.index,
+        status: ReadingOutcome.ACCEPTED,
+        ...this.anomaliesOf(
+          verdicts.get(
+            readingKey(item.reading.vehicleId, item.reading.timestamp),
+          ),
+        ),
+      })),
+      ...duplicates.map((item) => ({
+        index: item.index,
+        status: ReadingOutcome.DUPLICATE,
+      })),
+      ...stale.map((item) => ({
+        index: item.index,
+        status: ReadingOutcome.STALE,
+        ...this.anomaliesOf(
+          verdicts.get(
+            readingKey(item.reading.vehicleId, item.reading.timestamp),
+          ),
+        ),
+      })),
+    ];
+  }
+
+  /**
+   * Ingest the readings quarantined for a device, oldest first, once it is
+   * registered. Each reading is ingested as it would have been on arrival,
+   * under the tenant that sent it; all but rejected readings leave the
+   * quarantine.
+   */
+  async releaseQuarantined(
+    deviceType: DeviceType,
+    deviceId: string,
+  ): Promise<QuarantineReleaseDto> {
+    const device = await this.deviceRegistryService.findOne(
+      deviceType,
+      deviceId,
+    );
+    if (!device.active) {
+      throw new ConflictException(
+        `${deviceType} ${deviceId} is decommissioned; activate it first`,
+      );
+    }
+
+    const held = await this.deviceRegistryService.findQuarantinedFor(
+      deviceType,
+      deviceId,
+      RELEASE_LIMIT,
+    );
+    const byTenant = new Map<string | null, number[]>();
+    held.forEach((row, index) =>
+      byTenant.set(row.tenantId, [...(byTenant.get(row.tenantId) ?? []), index]),
+    );
+
+    const results: ReadingResultDto[] = [];
+    for (const [tenantId, indexes] of byTenant) {
+      const readings = indexes.map((index) => held[index].reading);
+      const report =
+        deviceType === DeviceType.METER
+          ? await this.ingestMeterBatch(readings, tenantId)
+          : await this.ingestVehicleBatch(readings, tenantId);
+      results.push(
+        ...report.results.map((result) => ({
+          ...result,
+          index: indexes[result.index],
+        })),
+      );
+    }
 
-        this.logger.debug(`Processed batch ${i / batchSize + 1}`);
+    await this.deviceRegistryService.deleteQuarantined(
+      results
+        .filter((result) => result.status !== ReadingOutcome.REJECTED)
+        .map((result) => held[result.index].id),
+    );
+    const report = this.buildBatchReport(held.length, results);
+    this.logger.log(
+      `Released ${held.length} quarantined reading(s) of ${deviceType} ${deviceId} (${report.rejected} rejected)`,
+    );
+
+    return {
+      ...report,
+      remaining: await this.deviceRegistryService.countQuarantined(
+        deviceType,
+        deviceId,
+      ),
+    };
+  }
+
+  /**
+   * Run a reading past the caller's tenant and the device registry before
+   * it is written: false when it was quarantined, a 400 or 403 when it may
+   * not be written. The tenant goes first so a refused write never
+   * auto-registers or quarantines a device. The ingest queue calls this
+   * before queueing, so queued readings are refused as they would be
+   * without it.
+   */
+  async screenReading(
+    tenantId: string | null,
+    deviceType: DeviceType,
+    deviceId: string,
+    reading: object,
+  ): Promise<boolean> {
+    await this.assertWritable(tenantId, deviceType, deviceId);
+    return this.admit(tenantId, deviceType, deviceId, reading);
+  }
+
+  /**
+   * Batch counterpart of screenReading: readings that are rejected or
+   * quarantined get their outcome in `results`; returns the rest.
+   */
+  async screenBatch<T extends object>(
+    tenantId: string | null,
+    deviceType: DeviceType,
+    valid: IndexedReading<T>[],
+    deviceIdOf: (reading: T) => string,
+    results: ReadingResultDto[],
+  ): Promise<IndexedReading<T>[]> {
+    const writable = await this.withoutForeignDevices(
+      tenantId,
+      deviceType,
+      valid,
+      deviceIdOf,
+      results,
+    );
+    return this.withoutUnregisteredDevices(
+      tenantId,
+      deviceType,
+      writable,
+      deviceIdOf,
+      results,
+    );
+  }
+
+  /**
+   * Screen a single reading against the device registry: false when it was
+   * quarantined, an error when the device may not send readings.
+   */
+  private async admit(
+    tenantId: string | null,
+    deviceType: DeviceType,
+    deviceId: string,
+    reading: object,
+  ): Promise<boolean> {
+    const screening = await this.deviceRegistryService.screen(deviceType, [
+      deviceId,
+    ]);
+    const reason = screening.rejected.get(deviceId);
+    if (reason) {
+      throw new BadRequestException(reason);
+    }
+    if (screening.quarantined.has(deviceId)) {
+      await this.deviceRegistryService.quarantine(deviceType, tenantId, [
+        { deviceId, reading },
+      ]);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Reject or quarantine the readings of devices the registry does not
+   * admit; returns the rest.
+   */
+  private async withoutUnregisteredDevices<T extends object>(
+    tenantId: string | null,
+    deviceType: DeviceType,
+    valid: IndexedReading<T>[],
+    deviceIdOf: (reading: T) => string,
+    results: ReadingResultDto[],
+  ): Promise<IndexedReading<T>[]> {
+    const screening = await this.deviceRegistryService.screen(
+      deviceType,
+      valid.map((item) => deviceIdOf(item.reading)),
+    );
+    if (screening.rejected.size === 0 && screening.quarantined.size === 0) {
+      return valid;
+    }
+
+    const admitted: IndexedReading<T>[] = [];
+    const quarantined: IndexedReading<T>[] = [];
+    for (const item of valid) {
+      const deviceId = deviceIdOf(item.reading);
+      const reason = screening.rejected.get(deviceId);
+      if (reason) {
+        results.push({
+          index: item.index,
+          status: ReadingOutcome.REJECTED,
+          reason,
+        });
+      } else if (screening.quarantined.has(deviceId)) {
+        quarantined.push(item);
+      } else {
+        admitted.push(item);
       }
+    }
 
-      const duration = Date.now() - startTime;
-      this.logger.log(
-        `Batch ingested ${readings.length} vehicle readings in ${duration}ms`,
+    await this.deviceRegistryService.quarantine(
+      deviceType,
+      tenantId,
+      quarantined.map((item) => ({
+        deviceId: deviceIdOf(item.reading),
+        reading: item.reading,
+      })),
+    );
+    results.push(
+      ...quarantined.map((item) => ({
+        index: item.index,
+        status: ReadingOutcome.QUARANTINED,
+      })),
+    );
+    return admitted;
+  }
+
+  private async assertWritable(
+    tenantId: string | null,
+    deviceType: DeviceType,
+    deviceId: string,
+  ): Promise<void> {
+    const denied = await this.tenantService.deniedWrites(tenantId, deviceType, [
+      deviceId,
+    ]);
+    if (denied.size > 0) {
+      throw new ForbiddenException(
+        `${deviceType} ${deviceId} is not registered to this tenant`,
       );
+    }
+  }
+
+  /**
+   * Reject the readings of devices the caller's tenant may not write to;
+   * returns the rest.
+   */
+  private async withoutForeignDevices<T>(
+    tenantId: string | null,
+    deviceType: DeviceType,
+    valid: IndexedReading<T>[],
+    deviceIdOf: (reading: T) => string,
+    results: ReadingResultDto[],
+  ): Promise<IndexedReading<T>[]> {
+    const denied = await this.tenantService.deniedWrites(
+      tenantId,
+      deviceType,
+      valid.map((item) => deviceIdOf(item.reading)),
+    );
+    if (denied.size === 0) {
+      return valid;
+    }
+
+    const writable: IndexedReading<T>[] = [];
+    for (const item of valid) {
+      const deviceId = deviceIdOf(item.reading);
+      if (denied.has(deviceId)) {
+        results.push({
+          index: item.index,
+          status: ReadingOutcome.REJECTED,
+          reason: `${deviceType} ${deviceId} is not registered to this tenant`,
+        });
+      } else {
+        writable.push(item);
+      }
+    }
+    return writable;
+  }
+
+  /**
+   * Hand committed live status rows to the consumers that must never see
+   * a rolled-back write: the live feed and the alert rules.
+   */
+  private afterCommit(deviceType: DeviceType, updated: HotRow[]): void {
+    this.liveFeedService.publish(deviceType, updated);
+    this.alertService.observe(deviceType, updated);
+  }
+
+  /**
+   * Run a chunk write; if its transaction fails, isolate the bad readings.
+   *
+   * Data errors (SQLSTATE class 22/23, e.g. a reading with no matching
+   * partition) are retried one reading at a time so the rest of the chunk
+   * still commits. Any other failure (connection loss, timeout) rejects the
+   * whole chunk, or is thrown when `retryable`: retrying row by row would
+   * only repeat the same error.
+   */
+  private async ingestChunk<T>(
+    chunk: IndexedReading<T>[],
+    write: (items: IndexedReading<T>[]) => Promise<ReadingResultDto[]>,
+    retryable = false,
+  ): Promise<ReadingResultDto[]> {
+    try {
+      return await write(chunk);
     } catch (error) {
-      this.logger.error(
-        `Failed to ingest vehicle batch: ${error.message}`,
-        error.stack,
+      const code: string | undefined = error.code ?? error.driverError?.code;
+      const isDataError =
+        typeof code === 'string' &&
+        (code.startsWith('22') || code.startsWith('23'));
+
+      if (!isDataError && retryable) {
+        throw error;
+      }
+      if (!isDataError || chunk.length === 1) {
+        this.logger.warn(
+          `Rejected ${chunk.length} reading(s): ${error.message}`,
+        );
+        return chunk.map((item) => ({
+          index: item.index,
+          status: ReadingOutcome.REJECTED,
+          reason: error.message,
+        }));
+      }
+
+      this.logger.warn(
+        `Chunk of ${chunk.length} readings failed (${error.message}); retrying individually`,
       );
-      throw error;
+      const results: ReadingResultDto[] = [];
+      for (const item of chunk) {
+        results.push(...(await this.ingestChunk([item], write, retryable)));
+      }
+      return results;
+    }
+  }
+
+  private buildBatchReport(
+    count: number,
+    results: ReadingResultDto[],
+  ): BatchIngestionResultDto {
+    const tally = (status: ReadingOutcome) =>
+      results.filter((r) => r.status === status).length;
+    const rejected = tally(ReadingOutcome.REJECTED);
+
+    let status: BatchIngestionResultDto['status'] = 'accepted';
+    if (rejected > 0) {
+      status = rejected === count ? 'rejected' : 'partial';
+    }
+
+    return {
+      status,
+      count,
+      accepted: tally(ReadingOutcome.ACCEPTED),
+      duplicates: tally(ReadingOutcome.DUPLICATE),
+      stale: tally(ReadingOutcome.STALE),
+      rejected,
+      quarantined: tally(ReadingOutcome.QUARANTINED),
+      queued: tally(ReadingOutcome.QUEUED),
+      anomalies: results.filter((r) => r.anomalies !== undefined).length,
+      results: results.sort((x, y) => x.index - y.index),
+    };
+  }
+
+  /**
+   * INSERT meter history rows, skipping any (meter_id, timestamp) already
+   * stored, and mark the rollup stale for past days they land on. Returns
+   * the rows actually inserted.
+   */
+  private async insertMeterHistory(
+    manager: EntityManager,
+    readings: MeterTelemetryDto[],
+    deltas: Map<string, RegisterDelta>,
+    verdicts: Map<string, AnomalyVerdict>,
+  ): Promise<{ meter_id: string; timestamp: Date }[]> {
+    const result = await manager
+      .createQueryBuilder()
+      .insert()
+      .into(MeterTelemetryHistory)
+      .values(
+        readings.map((r) => ({
+          meterId: r.meterId,
+          kwhConsumedAc: r.kwhConsumedAc,
+          kwhConsumedAcDelta:
+            deltas.get(readingKey(r.meterId, r.timestamp))?.delta ?? null,
+          registerEvent:
+            deltas.get(readingKey(r.meterId, r.timestamp))?.event ?? null,
+          voltage: r.voltage,
+          timestamp: new Date(r.timestamp),
+          ...this.statusOf(verdicts.get(readingKey(r.meterId, r.timestamp))),
+        })),
+      )
+      .orIgnore()
+      .returning('meter_id, timestamp')
+      .execute();
+
+    const inserted: { meter_id: string; timestamp: Date }[] = result.raw ?? [];
+    await this.rollupService.markWritten(
+      manager,
+      DeviceType.METER,
+      inserted.map((row) => new Date(row.timestamp)),
+    );
+    return inserted;
+  }
+
+  /**
+   * INSERT vehicle history rows, skipping any (vehicle_id, timestamp)
+   * already stored, and mark the rollup stale for past days they land on.
+   * Returns the rows actually inserted.
+   */
+  private async insertVehicleHistory(
+    manager: EntityManager,
+    readings: VehicleTelemetryDto[],
+    deltas: Map<string, RegisterDelta>,
+    verdicts: Map<string, AnomalyVerdict>,
+  ): Promise<{ vehicle_id: string; timestamp: Date }[]> {
+    const result = await manager
+      .createQueryBuilder()
+      .insert()
+      .into(VehicleTelemetryHistory)
+      .values(
+        readings.map((r) => ({
+          vehicleId: r.vehicleId,
+          soc: r.soc,
+          kwhDeliveredDc: r.kwhDeliveredDc,
+          kwhDeliveredDcDelta:
+            deltas.get(readingKey(r.vehicleId, r.timestamp))?.delta ?? null,
+          registerEvent:
+            deltas.get(readingKey(r.vehicleId, r.timestamp))?.event ?? null,
+          batteryTemp: r.batteryTemp ?? null,
+          timestamp: new Date(r.timestamp),
+          ...this.statusOf(
+            verdicts.get(readingKey(r.vehicleId, r.timestamp)),
+          ),
+        })),
+      )
+      .orIgnore()
+      .returning('vehicle_id, timestamp')
+      .execute();
+
+    const inserted: { vehicle_id: string; timestamp: Date }[] =
+      result.raw ?? [];
+    await this.rollupService.markWritten(
+      manager,
+      DeviceType.VEHICLE,
+      inserted.map((row) => new Date(row.timestamp)),
+    );
+    return inserted;
+  }
+
+  /**
+   * UPSERT meter hot rows, only advancing rows whose stored timestamp is
+   * older than the incoming one. Returns the rows actually written.
+   */
+  private async upsertCurrentMeterStatus(
+    manager: EntityManager,
+    readings: MeterTelemetryDto[],
+    verdicts: Map<string, AnomalyVerdict>,
+  ): Promise<HotRow[]> {
+    const result = await manager
+      .createQueryBuilder()
+      .insert()
+      .into(CurrentMeterStatus)
+      .values(
+        readings.map((r) => ({
+          meterId: r.meterId,
+          kwhConsumedAc: r.kwhConsumedAc,
+          voltage: r.voltage,
+          lastUpdateTimestamp: new Date(r.timestamp),
+          ...this.statusOf(verdicts.get(readingKey(r.meterId, r.timestamp))),
+        })),
+      )
+      .orUpdate(
+        [
+          'kwh_consumed_ac',
+          'voltage',
+          'last_update_timestamp',
+          'status',
+          'anomaly_reason',
+          'updated_at',
+        ],
+        ['meter_id'],
+        {
+          overwriteCondition: {
+            where:
+              'current_meter_status.last_update_timestamp < EXCLUDED.last_update_timestamp',
+          },
+        },
+      )
+      .returning(`*, ${CURSOR_AT_SQL}`)
+      .execute();
+
+    return result.raw ?? [];
+  }
+
+  /**
+   * UPSERT vehicle hot rows with the same out-of-order guard as meters.
+   * Returns the rows actually written.
+   */
+  private async upsertCurrentVehicleStatus(
+    manager: EntityManager,
+    readings: VehicleTelemetryDto[],
+    verdicts: Map<string, AnomalyVerdict>,
+  ): Promise<HotRow[]> {
+    const result = await manager
+      .createQueryBuilder()
+      .insert()
+      .into(CurrentVehicleStatus)
+      .values(
+        readings.map((r) => ({
+          vehicleId: r.vehicleId,
+          soc: r.soc,
+          kwhDeliveredDc: r.kwhDeliveredDc,
+          batteryTemp: r.batteryTemp ?? null,
+          lastUpdateTimestamp: new Date(r.timestamp),
+          ...this.statusOf(
+            verdicts.get(readingKey(r.vehicleId, r.timestamp)),
+          ),
+        })),
+      )
+      .orUpdate(
+        [
+          'soc',
+          'kwh_delivered_dc',
+          'battery_temp',
+          'last_update_timestamp',
+          'status',
+          'anomaly_reason',
+          'updated_at',
+        ],
+        ['vehicle_id'],
+        {
+          overwriteCondition: {
+            where:
+              'current_vehicle_status.last_update_timestamp < EXCLUDED.last_update_timestamp',
+          },
+        },
+      )
+      .returning(`*, ${CURSOR_AT_SQL}`)
+      .execute();
+
+    return result.raw ?? [];
+  }
+
+  /**
+   * Read and row-lock the latest reading (last_update_timestamp and energy
+   * value) for each device. Rows are locked in ID order so concurrent
+   * batches cannot deadlock.
+   */
+  private async lockWatermarks(
+    manager: EntityManager,
+    entity: EntityTarget<CurrentMeterStatus | CurrentVehicleStatus>,
+    idColumn: 'meter_id' | 'vehicle_id',
+    valueColumn: 'kwh_consumed_ac' | 'kwh_delivered_dc',
+    ids: string[],
+    socColumn?: 'soc',
+  ): Promise<Map<string, LatestReading>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const query = manager
+      .createQueryBuilder(entity, 'hot')
+      .select(`hot.${idColumn}`, 'id')
+      .addSelect('hot.last_update_timestamp', 'ts')
+      .addSelect(`hot.${valueColumn}`, 'value');
+    if (socColumn) {
+      query.addSelect(`hot.${socColumn}`, 'soc');
+    }
+
+    const rows = await query
+      .where(`hot.${idColumn} IN (:...ids)`, { ids: [...new Set(ids)] })
+      .orderBy(`hot.${idColumn}`)
+      .setLock('pessimistic_write')
+      .getRawMany();
+
+    return new Map(
+      rows.map((row) => [
+        row.id,
+        {
+          timestamp: new Date(row.ts),
+          value: Number(row.value),
+          soc: row.soc == null ? undefined : Number(row.soc),
+        },
+      ]),
+    );
+  }
+
+  /**
+   * Lock the meters' hot rows, then work out each reading's energy delta
+   * and anomaly verdict against the same latest reading per meter.
+   */
+  private async prepareMeterReadings(
+    manager: EntityManager,
+    readings: MeterTelemetryDto[],
+  ): Promise<PreparedReadings> {
+    const latest = await this.lockWatermarks(
+      manager,
+      CurrentMeterStatus,
+      'meter_id',
+      'kwh_consumed_ac',
+      readings.map((r) => r.meterId),
+    );
+    const registers = await this.energyRegisterService.plan(
+      manager,
+      DeviceType.METER,
+      this.meterRegisterReadings(readings),
+      latest,
+    );
+    const verdicts = this.anomalyDetectorService.inspect(
+      readings.map((r) => ({
+        deviceType: DeviceType.METER,
+        deviceId: r.meterId,
+        timestamp: new Date(r.timestamp),
+        voltage: r.voltage,
+        delta: registers.deltas.get(readingKey(r.meterId, r.timestamp)),
+      })),
+      latest,
+    );
+
+    return { latest, registers, verdicts };
+  }
+
+  private async prepareVehicleReadings(
+    manager: EntityManager,
+    readings: VehicleTelemetryDto[],
+  ): Promise<PreparedReadings> {
+    const latest = await this.lockWatermarks(
+      manager,
+      CurrentVehicleStatus,
+      'vehicle_id',
+      'kwh_delivered_dc',
+      readings.map((r) => r.vehicleId),
+      'soc',
+    );
+    const registers = await this.energyRegisterService.plan(
+      manager,
+      DeviceType.VEHICLE,
+      this.vehicleRegisterReadings(readings),
+      latest,
+    );
+    const verdicts = this.anomalyDetectorService.inspect(
+      readings.map((r) => ({
+        deviceType: DeviceType.VEHICLE,
+        deviceId: r.vehicleId,
+        timestamp: new Date(r.timestamp),
+        soc: r.soc,
+        batteryTemp: r.batteryTemp ?? null,
+        delta: registers.deltas.get(readingKey(r.vehicleId, r.timestamp)),
+      })),
+      latest,
+    );
+
+    return { latest, registers, verdicts };
+  }
+
+  private statusOf(verdict?: AnomalyVerdict): {
+    status: TelemetryStatus;
+    anomalyReason: string | null;
+  } {
+    return {
+      status: verdict?.status ?? TelemetryStatus.VALID,
+      anomalyReason: verdict?.reasons.length
+        ? verdict.reasons.join('; ')
+        : null,
+    };
+  }
+
+  private anomaliesOf(verdict?: AnomalyVerdict): { anomalies?: string[] } {
+    return verdict?.reasons.length ? { anomalies: verdict.reasons } : {};
+  }
+
+  private meterRegisterReadings(readings: MeterTelemetryDto[]) {
+    return readings.map((r) => ({
+      deviceId: r.meterId,
+      timestamp: new Date(r.timestamp),
+      value: r.kwhConsumedAc,
+    }));
+  }
+
+  private vehicleRegisterReadings(readings: VehicleTelemetryDto[]) {
+    return readings.map((r) => ({
+      deviceId: r.vehicleId,
+      timestamp: new Date(r.timestamp),
+      value: r.kwhDeliveredDc,
+    }));
+  }
+
+  /**
+   * Split a chunk into readings that were inserted and duplicates. A reading
+   * repeated inside the same chunk is inserted once; later copies count as
+   * duplicates.
+   */
+  private splitDuplicates<T>(
+    chunk: IndexedReading<T>[],
+    insertedKeys: string[],
+    key: (reading: T) => string,
+  ): { stored: IndexedReading<T>[]; duplicates: IndexedReading<T>[] } {
+    const pending = new Set(insertedKeys);
+    const stored: IndexedReading<T>[] = [];
+    const duplicates: IndexedReading<T>[] = [];
+    for (const item of chunk) {
+      (pending.delete(key(item.reading)) ? stored : duplicates).push(item);
+    }
+    return { stored, duplicates };
+  }
+
+  private splitStale<T extends { timestamp: string }>(
+    items: IndexedReading<T>[],
+    watermark: (reading: T) => RegisterPoint | undefined,
+  ): { fresh: IndexedReading<T>[]; stale: IndexedReading<T>[] } {
+    const fresh: IndexedReading<T>[] = [];
+    const stale: IndexedReading<T>[] = [];
+    for (const item of items) {
+      const isStale = this.isStale(
+        item.reading.timestamp,
+        watermark(item.reading)?.timestamp,
+      );
+      (isStale ? stale : fresh).push(item);
+    }
+    return { fresh, stale };
+  }
+
+  private describeOutcome(result: {
+    duplicate: boolean;
+    stale: boolean;
+    anomalies?: string[];
+  }): string {
+    if (result.duplicate) {
+      return ' (duplicate)';
+    }
+    if (result.anomalies) {
+      return ' (anomaly)';
+    }
+    return result.stale ? ' (stale)' : '';
+  }
+
+  private isStale(timestamp: string, watermark?: Date): boolean {
+    return watermark !== undefined && new Date(timestamp) <= watermark;
+  }
+
+  /**
+   * Postgres rejects an ON CONFLICT DO UPDATE that touches the same row
+   * twice, so a batch must carry at most one hot-table row per device.
+   */
+  private latestPerDevice<T extends { timestamp: string }>(
+    readings: T[],
+    deviceId: (reading: T) => string,
+  ): T[] {
+    const latest = new Map<string, T>();
+    for (const reading of readings) {
+      const current = latest.get(deviceId(reading));
+      if (
+        !current ||
+        new Date(reading.timestamp) >= new Date(current.timestamp)
+      ) {
+        latest.set(deviceId(reading), reading);
+      }
     }
+    return [...latest.values()];
   }
 }
@@ -0,0 +1,472 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import {
+  LiveFeedCloseReason,
+  LiveFeedQueryDto,
+  LiveTelemetryEventDto,
+} from '../dto/live-feed.dto';
+import { MeterStatusDto, VehicleStatusDto } from '../dto/live-status.dto';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+
+const CURSOR_SORT = 'stream';
+
+/**
+ * SQL for a hot row's `cursor_at`: updated_at as UTC ISO 8601 with
+ * microseconds, so cursors neither lose precision nor depend on DateStyle.
+ */
+export const CURSOR_AT_SQL = `to_char(updated_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') as cursor_at`;
+
+// Hot rows replayed per query while a subscriber catches up
+const CATCH_UP_PAGE_SIZE = 500;
+
+/**
+ * Transport side of a subscription (an SSE response or a WebSocket).
+ */
+export interface LiveFeedSink {
+  // Returns false once the transport buffer is full; the transport calls
+  // LiveFeedSubscription.drain() when it can take more
+  write(event: LiveTelemetryEventDto): boolean;
+  close(reason: LiveFeedCloseReason): void;
+}
+
+/**
+ * A hot row as returned by the upserts (RETURNING) or the catch-up query,
+ * with its CURSOR_AT_SQL column.
+ */
+export type HotRow = Record<string, any> & { cursor_at: string };
+
+/**
+ * One subscriber. Updates the sink cannot take yet wait in `pending`,
+ * coalesced per device: only the latest state of a device is worth sending,
+ * so a slow reader costs at most one entry per device. A reader that falls
+ * behind on more than STREAM_MAX_PENDING devices is disconnected and
+ * resumes from its last cursor.
+ */
+export class LiveFeedSubscription {
+  private readonly pending = new Map<string, LiveTelemetryEventDto>();
+  // Live updates that arrive while missed updates are being replayed
+  private readonly held = new Map<string, LiveTelemetryEventDto>();
+  private readonly waiters: (() => void)[] = [];
+  private paused = false;
+  private closed = false;
+
+  constructor(
+    readonly filter: LiveFeedQueryDto,
+    private readonly sink: LiveFeedSink,
+    private readonly maxPending: number,
+    private catchingUp: boolean,
+  ) {}
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /** Offer a live update; ignored when it does not match the filter. */
+  offer(event: LiveTelemetryEventDto): void {
+    if (this.closed || !matchesFilter(this.filter, event)) {
+      return;
+    }
+    this.enqueue(this.catchingUp ? this.held : this.pending, event);
+    if (!this.catchingUp) {
+      this.flush();
+    }
+  }
+
+  /** Deliver one replayed update (already filtered by the query). */
+  replay(event: LiveTelemetryEventDto): void {
+    this.enqueue(this.pending, event);
+    this.flush();
+  }
+
+  /** Replay is done: release the live updates held back meanwhile. */
+  finishCatchUp(): void {
+    this.catchingUp = false;
+    for (const event of this.held.values()) {
+      this.enqueue(this.pending, event);
+    }
+    this.held.clear();
+    this.flush();
+  }
+
+  /** The transport can take more. */
+  drain(): void {
+    this.paused = false;
+    this.flush();
+  }
+
+  /** Resolves once the sink is not paused, so replay does not outrun it. */
+  whenWritable(): Promise<void> {
+    if (!this.paused || this.closed) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  close(reason?: LiveFeedCloseReason): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.pending.clear();
+    this.held.clear();
+    this.releaseWaiters();
+    if (reason) {
+      this.sink.close(reason);
+    }
+  }
+
+  // Re-inserting moves the device to the back, keeping the queue in
+  // update order so a client's last cursor never skips an undelivered one
+  private enqueue(
+    queue: Map<string, LiveTelemetryEventDto>,
+    event: LiveTelemetryEventDto,
+  ): void {
+    const key = `${event.deviceType}:${event.deviceId}`;
+    queue.delete(key);
+    queue.set(key, event);
+
+    if (this.pending.size + this.held.size > this.maxPending) {
+      this.close(LiveFeedCloseReason.OVERFLOW);
+    }
+  }
+
+  private flush(): void {
+    while (!this.closed && !this.paused && this.pending.size > 0) {
+      const [key, event] = this.pending.entries().next().value!;
+      this.pending.delete(key);
+      this.paused = !this.sink.write(event);
+    }
+    if (!this.paused) {
+      this.releaseWaiters();
+    }
+  }
+
+  private releaseWaiters(): void {
+    for (const resolve of this.waiters.splice(0)) {
+      resolve();
+    }
+  }
+}
+
+export function matchesFilter(
+  filter: LiveFeedQueryDto,
+  event: LiveTelemetryEventDto,
+): boolean {
+  if (filter.deviceType && event.deviceType !== filter.deviceType) {
+    return false;
+  }
+  if (filter.deviceIds && !filter.deviceIds.includes(event.deviceId)) {
+    return false;
+  }
+  if (filter.status && event.state.status !== filter.status) {
+    return false;
+  }
+  if (filter.socMin !== undefined || filter.socMax !== undefined) {
+    if (event.deviceType !== DeviceType.VEHICLE) {
+      return false;
+    }
+    const { soc } = event.state as VehicleStatusDto;
+    if (
+      (filter.socMin !== undefined && soc < filter.socMin) ||
+      (filter.socMax !== undefined && soc > filter.socMax)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Fans hot-path changes out to live subscribers (SSE and WebSocket).
+ *
+ * IngestionService publishes every hot row it advanced once its transaction
+ * has committed. Each update carries a cursor built from the row's
+ * updated_at; a client that reconnects with its last cursor is first sent
+ * the current state of every matching device updated since then, read from
+ * the hot tables, so nothing is missed even if it reconnects to another
+ * instance. Replay starts STREAM_REPLAY_OVERLAP_SECONDS before the cursor
+ * to cover transactions that committed out of order, so a resumed client
+ * may see an update twice; apply updates by lastUpdateTimestamp.
+ */
+@Injectable()
+export class LiveFeedService {
+  private readonly logger = new Logger(LiveFeedService.name);
+  private readonly subscriptions = new Set<LiveFeedSubscription>();
+  private readonly maxPending: number;
+  private readonly replayOverlapMs: number;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.maxPending = Number(configService.get('STREAM_MAX_PENDING', 10000));
+    this.replayOverlapMs =
+      Number(configService.get('STREAM_REPLAY_OVERLAP_SECONDS', 5)) * 1000;
+  }
+
+  /**
+   * Register a subscriber. An invalid cursor is rejected here, before the
+   * transport has sent anything; replay of missed updates runs afterwards.
+   */
+  subscribe(filter: LiveFeedQueryDto, sink: LiveFeedSink): LiveFeedSubscription {
+    const bySoc = filter.socMin !== undefined || filter.socMax !== undefined;
+    if (bySoc && filter.deviceType === DeviceType.METER) {
+      throw new BadRequestException('socMin and socMax only apply to vehicles');
+    }
+    if (
+      filter.socMin !== undefined &&
+      filter.socMax !== undefined &&
+      filter.socMin > filter.socMax
+    ) {
+      throw new BadRequestException('socMin must not be greater than socMax');
+    }
+
+    const since = filter.cursor
+      ? new Date(
+          new Date(decodeCursor(filter.cursor, CURSOR_SORT).value).getTime() -
+            this.replayOverlapMs,
+        )
+      : null;
+
+    const subscription = new LiveFeedSubscription(
+      filter,
+      sink,
+      this.maxPending,
+      since !== null,
+    );
+    this.subscriptions.add(subscription);
+
+    if (since) {
+      this.catchUp(subscription, since).catch((error) => {
+        this.logger.error(
+          `Failed to replay missed updates: ${error.message}`,
+          error.stack,
+        );
+        subscription.close(LiveFeedCloseReason.ERROR);
+        this.subscriptions.delete(subscription);
+      });
+    }
+
+    return subscription;
+  }
+
+  unsubscribe(subscription: LiveFeedSubscription): void {
+    subscription.close();
+    this.subscriptions.delete(subscription);
+  }
+
+  /**
+   * Publish hot rows written by a committed transaction. Never throws, so
+   * a failing subscriber cannot fail ingestion; a row that cannot be
+   * converted is skipped and a subscriber whose sink throws is closed,
+   * without holding back the others.
+   */
+  publish(deviceType: DeviceType, rows: HotRow[]): void {
+    if (this.subscriptions.size === 0 || rows.length === 0) {
+      return;
+    }
+
+    const events: LiveTelemetryEventDto[] = [];
+    for (const row of rows) {
+      try {
+        events.push(this.toEvent(deviceType, row));
+      } catch (error) {
+        this.logger.error(
+          `Failed to publish a ${deviceType} update: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    for (const subscription of this.subscriptions) {
+      if (subscription.isClosed) {
+        this.subscriptions.delete(subscription);
+        continue;
+      }
+      try {
+        for (const event of events) {
+          subscription.offer(event);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to deliver ${deviceType} updates: ${error.message}`,
+          error.stack,
+        );
+        this.subscriptions.delete(subscription);
+        try {
+          subscription.close(LiveFeedCloseReason.ERROR);
+        } catch {
+          // The sink may be past closing too; it is dropped either way
+        }
+      }
+    }
+  }
+
+  /**
+   * Replay the current state of every matching device updated since
+   * `since`, oldest update first, paging on (updated_at, type, id) and
+   * waiting for the sink between pages.
+   */
+  private async catchUp(
+    subscription: LiveFeedSubscription,
+    since: Date,
+  ): Promise<void> {
+    const { sql, params } = this.buildCatchUpQuery(subscription.filter);
+    let after: [string, string, string] = [since.toISOString(), '', ''];
+    let replayed = 0;
+
+    for (;;) {
+      const rows: {
+        device_type: DeviceType;
+        cursor_at: string;
+        device_id: string;
+        row: HotRow;
+      }[] = await this.dataSource.query(sql, [...params, ...after]);
+
+      for (const row of rows) {
+        subscription.replay(
+          this.toEvent(row.device_type, { ...row.row, cursor_at: row.cursor_at }),
+        );
+      }
+      replayed += rows.length;
+
+      if (rows.length < CATCH_UP_PAGE_SIZE || subscription.isClosed) {
+        break;
+      }
+      const last = rows[rows.length - 1];
+      after = [last.cursor_at, last.device_type, last.device_id];
+      await subscription.whenWritable();
+    }
+
+    this.logger.debug(`Replayed ${replayed} updates since ${since.toISOString()}`);
+    subscription.finishCatchUp();
+  }
+
+  private buildCatchUpQuery(filter: LiveFeedQueryDto): {
+    sql: string;
+    params: unknown[];
+  } {
+    const params: unknown[] = [];
+    const param = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    const common = (idColumn: string) => {
+      const conditions: string[] = [];
+      if (filter.deviceIds) {
+        conditions.push(`${idColumn} = ANY(${param(filter.deviceIds)})`);
+      }
+      if (filter.status) {
+        conditions.push(`status = ${param(filter.status)}`);
+      }
+      return conditions;
+    };
+
+    const bySoc = filter.socMin !== undefined || filter.socMax !== undefined;
+    const branches: string[] = [];
+
+    if (
+      (!filter.deviceType || filter.deviceType === DeviceType.METER) &&
+      !bySoc
+    ) {
+      branches.push(
+        this.catchUpBranch(
+          DeviceType.METER,
+          'current_meter_status',
+          'meter_id',
+          common('meter_id'),
+        ),
+      );
+    }
+    if (!filter.deviceType || filter.deviceType === DeviceType.VEHICLE) {
+      const conditions = common('vehicle_id');
+      if (filter.socMin !== undefined) {
+        conditions.push(`soc >= ${param(filter.socMin)}`);
+      }
+      if (filter.socMax !== undefined) {
+        conditions.push(`soc <= ${param(filter.socMax)}`);
+      }
+      branches.push(
+        this.catchUpBranch(
+          DeviceType.VEHICLE,
+          'current_vehicle_status',
+          'vehicle_id',
+          conditions,
+        ),
+      );
+    }
+
+    const first = params.length + 1;
+    const sql = `
+      SELECT device_type, device_id, cursor_at, row
+      FROM (${branches.join(' UNION ALL ')}) changes
+      WHERE (updated_at, device_type, device_id) > ($${first}::timestamptz, $${first + 1}, $${first + 2})
+      ORDER BY updated_at, device_type, device_id
+      LIMIT ${CATCH_UP_PAGE_SIZE}
+    `;
+    return { sql, params };
+  }
+
+  private catchUpBranch(
+    deviceType: DeviceType,
+    table: string,
+    idColumn: string,
+    conditions: string[],
+  ): string {
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    return `
+      SELECT '${deviceType}'::text as device_type, ${idColumn} as device_id,
+        updated_at, ${CURSOR_AT_SQL}, to_jsonb(t) as row
+      FROM ${table} t ${where}
+    `;
+  }
+
+  private toEvent(deviceType: DeviceType, row: HotRow): LiveTelemetryEventDto {
+    const deviceId =
+      deviceType === DeviceType.METER ? row.meter_id : row.vehicle_id;
+    return {
+      cursor: encodeCursor({
+        sort: CURSOR_SORT,
+        value: row.cursor_at,
+        id: `${deviceType}:${deviceId}`,
+      }),
+      deviceType,
+      deviceId,
+      state:
+        deviceType === DeviceType.METER
+          ? this.toMeterState(row)
+          : this.toVehicleState(row),
+    };
+  }
+
+  // Rows come from the driver (decimals as strings, timestamps as Dates)
+  // or from to_jsonb (numbers and ISO strings); normalise both
+  private toMeterState(row: HotRow): MeterStatusDto {
+    return {
+      meterId: row.meter_id,
+      kwhConsumedAc: Number(row.kwh_consumed_ac),
+      voltage: Number(row.voltage),
+      lastUpdateTimestamp: new Date(row.last_update_timestamp).toISOString(),
+      status: row.status,
+      anomalyReason: row.anomaly_reason ?? null,
+    };
+  }
+
+  private toVehicleState(row: HotRow): VehicleStatusDto {
+    return {
+      vehicleId: row.vehicle_id,
+      soc: Number(row.soc),
+      kwhDeliveredDc: Number(row.kwh_delivered_dc),
+      batteryTemp:
+        row.battery_temp === null || row.battery_temp === undefined
+          ? null
+          : Number(row.battery_temp),
+      lastUpdateTimestamp: new Date(row.last_update_timestamp).toISOString(),
+      status: row.status,
+      anomalyReason: row.anomaly_reason ?? null,
+    };
+  }
+}
@@ -0,0 +1,205 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ObjectLiteral, Repository, SelectQueryBuilder } from 'typeorm';
+import { CurrentMeterStatus } from '../entities/current-meter-status.entity';
+import { CurrentVehicleStatus } from '../entities/current-vehicle-status.entity';
+import {
+  MeterStatusDto,
+  MeterStatusPageDto,
+  MeterStatusQueryDto,
+  SortOrder,
+  StatusSortField,
+  VehicleStatusDto,
+  VehicleStatusPageDto,
+  VehicleStatusQueryDto,
+} from '../dto/live-status.dto';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Read side of the hot tables: one row per device with its latest reading.
+ *
+ * Lists use keyset pagination on (sort key, device id) so a page costs the
+ * same however deep it is, and sorting by last update or SoC walks the
+ * idx_current_*_last_update and idx_current_vehicle_soc indexes.
+ */
+@Injectable()
+export class LiveStatusService {
+  constructor(
+    @InjectRepository(CurrentMeterStatus)
+    private readonly meterStatusRepo: Repository<CurrentMeterStatus>,
+    @InjectRepository(CurrentVehicleStatus)
+    private readonly vehicleStatusRepo: Repository<CurrentVehicleStatus>,
+  ) {}
+
+  async listMeters(query: MeterStatusQueryDto): Promise<MeterStatusPageDto> {
+    if (query.sort === StatusSortField.SOC) {
+      throw new BadRequestException('Meters cannot be sorted by soc');
+    }
+
+    const qb = this.meterStatusRepo.createQueryBuilder('s');
+    this.applyCommonFilters(qb, query);
+
+    const { rows, nextCursor } = await this.paginate(qb, 's.meterId', query);
+    return {
+      items: rows.map((row) => this.toMeterDto(row)),
+      nextCursor,
+    };
+  }
+
+  async listVehicles(
+    query: VehicleStatusQueryDto,
+  ): Promise<VehicleStatusPageDto> {
+    if (
+      query.socMin !== undefined &&
+      query.socMax !== undefined &&
+      query.socMin > query.socMax
+    ) {
+      throw new BadRequestException('socMin must not be greater than socMax');
+    }
+
+    const qb = this.vehicleStatusRepo.createQueryBuilder('s');
+    this.applyCommonFilters(qb, query);
+    if (query.socMin !== undefined) {
+      qb.andWhere('s.soc >= :socMin', { socMin: query.socMin });
+    }
+    if (query.socMax !== undefined) {
+      qb.andWhere('s.soc <= :socMax', { socMax: query.socMax });
+    }
+
+    const { rows, nextCursor } = await this.paginate(qb, 's.vehicleId', query);
+    return {
+      items: rows.map((row) => this.toVehicleDto(row)),
+      nextCursor,
+    };
+  }
+
+  async findMeter(meterId: string): Promise<MeterStatusDto> {
+    const row = await this.meterStatusRepo.findOneBy({ meterId });
+    if (!row) {
+      throw new NotFoundException(`Meter ${meterId} has not reported yet`);
+    }
+    return this.toMeterDto(row);
+  }
+
+  async findVehicle(vehicleId: string): Promise<VehicleStatusDto> {
+    const row = await this.vehicleStatusRepo.findOneBy({ vehicleId });
+    if (!row) {
+      throw new NotFoundException(`Vehicle ${vehicleId} has not reported yet`);
+    }
+    return this.toVehicleDto(row);
+  }
+
+  private applyCommonFilters<T extends ObjectLiteral>(
+    qb: SelectQueryBuilder<T>,
+    query: MeterStatusQueryDto,
+  ): void {
+    if (query.status) {
+      qb.andWhere('s.status = :status', { status: query.status });
+    }
+    if (query.staleSince) {
+      qb.andWhere('s.lastUpdateTimestamp < :staleSince', {
+        staleSince: new Date(query.staleSince),
+      });
+    }
+  }
+
+  /**
+   * Order by (sort key, id) and fetch one row past the page to know whether
+   * another page follows. The cursor carries the sort and direction it was
+   * issued for, so it cannot be replayed against a different ordering.
+   */
+  private async paginate<T extends CurrentMeterStatus | CurrentVehicleStatus>(
+    qb: SelectQueryBuilder<T>,
+    idColumn: string,
+    query: MeterStatusQueryDto,
+  ): Promise<{ rows: T[]; nextCursor: string | null }> {
+    const sort = query.sort ?? StatusSortField.ID;
+    const order = query.order ?? SortOrder.ASC;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const cursorSort = `${sort}:${order}`;
+    const direction = order === SortOrder.ASC ? 'ASC' : 'DESC';
+    const comparison = order === SortOrder.ASC ? '>' : '<';
+
+    const sortColumn =
+      sort === StatusSortField.LAST_UPDATE
+        ? 's.lastUpdateTimestamp'
+        : sort === StatusSortField.SOC
+          ? 's.soc'
+          : null;
+
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, cursorSort);
+      if (sortColumn) {
+        qb.andWhere(
+          `(${sortColumn}, ${idColumn}) ${comparison} (:cursorValue, :cursorId)`,
+          {
+            cursorValue:
+              sort === StatusSortField.LAST_UPDATE
+                ? new Date(cursor.value)
+                : cursor.value,
+            cursorId: cursor.id,
+          },
+        );
+      } else {
+        qb.andWhere(`${idColumn} ${comparison} :cursorId`, {
+          cursorId: cursor.id,
+        });
+      }
+    }
+
+    if (sortColumn) {
+      qb.orderBy(sortColumn, direction).addOrderBy(idColumn, direction);
+    } else {
+      qb.orderBy(idColumn, direction);
+    }
+
+    const rows = await qb.take(limit + 1).getMany();
+    if (rows.length <= limit) {
+      return { rows, nextCursor: null };
+    }
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const id = 'meterId' in last ? last.meterId : last.vehicleId;
+    const value =
+      sort === StatusSortField.LAST_UPDATE
+        ? last.lastUpdateTimestamp.toISOString()
+        : sort === StatusSortField.SOC
+          ? Number((last as CurrentVehicleStatus).soc)
+          : id;
+
+    return {
+      rows: page,
+      nextCursor: encodeCursor({ sort: cursorSort, value, id }),
+    };
+  }
+
+  private toMeterDto(row: CurrentMeterStatus): MeterStatusDto {
+    return {
+      meterId: row.meterId,
+      kwhConsumedAc: Number(row.kwhConsumedAc),
+      voltage: Number(row.voltage),
+      lastUpdateTimestamp: row.lastUpdateTimestamp.toISOString(),
+      status: row.status,
+      anomalyReason: row.anomalyReason,
+    };
+  }
+
+  private toVehicleDto(row: CurrentVehicleStatus): VehicleStatusDto {
+    return {
+      vehicleId: row.vehicleId,
+      soc: Number(row.soc),
+      kwhDeliveredDc: Number(row.kwhDeliveredDc),
+      batteryTemp: row.batteryTemp === null ? null : Number(row.batteryTemp),
+      lastUpdateTimestamp: row.lastUpdateTimestamp.toISOString(),
+      status: row.status,
+      anomalyReason: row.anomalyReason,
+    };
+  }
+}
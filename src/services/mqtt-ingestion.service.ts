@@ -0,0 +1,272 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { connect, MqttClient } from 'mqtt';
+import { hostname } from 'os';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { MeterTelemetryDto } from '../dto/meter-telemetry.dto';
+import { VehicleTelemetryDto } from '../dto/vehicle-telemetry.dto';
+import { IngestionService } from './ingestion.service';
+import { validateReading } from '../utils/validate-reading';
+
+interface TopicRoute {
+  deviceType: DeviceType;
+  // Topic filter with one `+` level standing for the device ID
+  filter: string;
+  idField: 'meterId' | 'vehicleId';
+  ingest: (payload: object) => Promise<string | null>;
+}
+
+/**
+ * Subscribes to device telemetry on an MQTT broker (MQTT_URL; unset keeps
+ * this off) and writes it through IngestionService.
+ *
+ * Payloads are the JSON bodies of the single-reading HTTP routes; the
+ * device ID may be left out, as the topic carries it. Readings are written
+ * as MQTT_TENANT_ID, the tenant the broker credentials belong to, or as
+ * the platform when it is unset; the broker's topic ACLs are then all that
+ * keeps one publisher from writing another's devices.
+ *
+ * QoS 1 messages are acknowledged only once the reading is stored, or once
+ * it is refused for good (bad JSON, failed validation, unregistered or
+ * foreign device). When storing fails, the message is left unacknowledged
+ * and the client reconnects after MQTT_RETRY_SECONDS; the persistent
+ * session makes the broker deliver it again.
+ *
+ * mqtt.js hands over one message at a time and only takes the next once
+ * the previous is acknowledged, so each instance writes serially. With
+ * MQTT_SHARE_GROUP set, instances split the topics through a shared
+ * subscription instead of each receiving every message.
+ */
+@Injectable()
+export class MqttIngestionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MqttIngestionService.name);
+  private readonly url: string | undefined;
+  private readonly routes: TopicRoute[];
+  private readonly shareGroup: string | undefined;
+  private readonly retryMs: number;
+  private readonly tenantId: string | null;
+  private client: MqttClient | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly ingestionService: IngestionService,
+  ) {
+    this.url = configService.get<string>('MQTT_URL') || undefined;
+    this.shareGroup =
+      configService.get<string>('MQTT_SHARE_GROUP') || undefined;
+    this.retryMs = Number(configService.get('MQTT_RETRY_SECONDS', 5)) * 1000;
+    this.tenantId = configService.get<string>('MQTT_TENANT_ID') || null;
+    this.routes = [
+      {
+        deviceType: DeviceType.METER,
+        filter: configService.get('MQTT_METER_TOPIC', 'meters/+/telemetry'),
+        idField: 'meterId',
+        ingest: async (payload) => {
+          const check = await validateReading(MeterTelemetryDto, payload);
+          if (!check.valid) {
+            return check.reason;
+          }
+          await this.ingestionService.ingestMeterTelemetry(
+            check.value,
+            this.tenantId,
+          );
+          return null;
+        },
+      },
+      {
+        deviceType: DeviceType.VEHICLE,
+        filter: configService.get('MQTT_VEHICLE_TOPIC', 'vehicles/+/telemetry'),
+        idField: 'vehicleId',
+        ingest: async (payload) => {
+          const check = await validateReading(VehicleTelemetryDto, payload);
+          if (!check.valid) {
+            return check.reason;
+          }
+          await this.ingestionService.ingestVehicleTelemetry(
+            check.value,
+            this.tenantId,
+          );
+          return null;
+        },
+      },
+    ];
+    for (const route of this.routes) {
+      const levels = route.filter.split('/');
+      if (
+        levels.filter((level) => level === '+').length !== 1 ||
+        levels.includes('#')
+      ) {
+        throw new Error(
+          `MQTT topic ${route.filter} must have exactly one + level (the device ID) and no #`,
+        );
+      }
+    }
+  }
+
+  onModuleInit(): void {
+    if (this.url === undefined) {
+      return;
+    }
+
+    const client = connect(this.url, {
+      clientId: this.configService.get(
+        'MQTT_CLIENT_ID',
+        `energy-ingestion-${hostname()}`,
+      ),
+      username: this.configService.get<string>('MQTT_USERNAME') || undefined,
+      password: this.configService.get<string>('MQTT_PASSWORD') || undefined,
+      // Keep the session, and with it unacknowledged messages, across
+      // reconnects
+      clean: false,
+    });
+    // mqtt.js sends the PUBACK once this calls back, and holds the next
+    // message until then
+    client.handleMessage = (packet, callback) => {
+      if (packet.cmd !== 'publish') {
+        return callback();
+      }
+      this.handle(packet.topic, packet.payload as Buffer).then(
+        () => callback(),
+        (error) => {
+          callback(error);
+          this.redeliver();
+        },
+      );
+    };
+    client.on('connect', () => {
+      this.logger.log(`Connected to MQTT broker ${this.url}`);
+      client.subscribe(
+        this.routes.map((route) =>
+          this.shareGroup
+            ? `$share/${this.shareGroup}/${route.filter}`
+            : route.filter,
+        ),
+        { qos: 1 },
+        (error) => {
+          if (error) {
+            this.logger.error(`MQTT subscribe failed: ${error.message}`);
+          }
+        },
+      );
+    });
+    client.on('error', (error) =>
+      this.logger.error(`MQTT client error: ${error.message}`),
+    );
+    this.client = client;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+    }
+    await client?.endAsync();
+  }
+
+  /**
+   * Store one message's reading. Resolves when the message may be
+   * acknowledged: stored, or refused for good. Rejects when storing
+   * failed and the message should be delivered again.
+   */
+  async handle(topic: string, message: Buffer): Promise<void> {
+    const match = this.routes
+      .map((route) => ({ route, deviceId: deviceIdIn(route.filter, topic) }))
+      .find(({ deviceId }) => deviceId !== null);
+    if (match === undefined) {
+      this.logger.warn(`Ignoring MQTT message on unrouted topic ${topic}`);
+      return;
+    }
+    const { route, deviceId } = match;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message.toString('utf8'));
+    } catch (error) {
+      return this.refuse(topic, `payload is not JSON: ${error.message}`);
+    }
+    if (
+      payload === null ||
+      typeof payload !== 'object' ||
+      Array.isArray(payload)
+    ) {
+      return this.refuse(topic, 'payload must be a JSON object');
+    }
+    const claimed = (payload as Record<string, unknown>)[route.idField];
+    if (claimed !== undefined && claimed !== deviceId) {
+      return this.refuse(
+        topic,
+        `${route.idField} ${claimed} does not match the topic`,
+      );
+    }
+
+    let reason: string | null;
+    try {
+      reason = await route.ingest({ ...payload, [route.idField]: deviceId });
+    } catch (error) {
+      // Client errors are final; anything else is worth another try
+      if (error instanceof HttpException && error.getStatus() < 500) {
+        return this.refuse(topic, error.message);
+      }
+      this.logger.error(
+        `Failed to store MQTT ${route.deviceType} reading from ${topic}; awaiting redelivery: ${error.message}`,
+      );
+      throw error;
+    }
+    if (reason !== null) {
+      this.refuse(topic, reason);
+    }
+  }
+
+  private refuse(topic: string, reason: string): void {
+    this.logger.warn(`Dropped MQTT message on ${topic}: ${reason}`);
+  }
+
+  /**
+   * Drop the connection and come back after MQTT_RETRY_SECONDS; the broker
+   * then resends what was left unacknowledged.
+   */
+  private redeliver(): void {
+    const client = this.client;
+    if (client === null || this.retryTimer !== null) {
+      return;
+    }
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.client === client) {
+        client.reconnect();
+      }
+    }, this.retryMs);
+    client.end(true);
+  }
+}
+
+/**
+ * The device ID a topic carries in the filter's `+` level, or null when
+ * the topic does not match the filter.
+ */
+function deviceIdIn(filter: string, topic: string): string | null {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+  if (filterLevels.length !== topicLevels.length) {
+    return null;
+  }
+
+  let deviceId: string | null = null;
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '+') {
+      deviceId = topicLevels[i];
+    } else if (filterLevels[i] !== topicLevels[i]) {
+      return null;
+    }
+  }
+  return deviceId || null;
+}
@@ -0,0 +1,573 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Repository } from 'typeorm';
+import { ClassConstructor } from 'class-transformer';
+import { OcppTransaction } from '../entities/ocpp-transaction.entity';
+import { CurrentVehicleStatus } from '../entities/current-vehicle-status.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import {
+  OcppAuthorizeDto,
+  OcppMeterValueDto,
+  OcppMeterValuesDto,
+  OcppSampledValueDto,
+  OcppStartTransactionDto,
+  OcppStopTransactionDto,
+} from '../dto/ocpp.dto';
+import { MeterTelemetryDto } from '../dto/meter-telemetry.dto';
+import { VehicleTelemetryDto } from '../dto/vehicle-telemetry.dto';
+import { IngestionService } from './ingestion.service';
+import { VehicleMeterAssignmentService } from './vehicle-meter-assignment.service';
+import { TenantService } from './tenant.service';
+import { validateReading } from '../utils/validate-reading';
+
+// CALLERROR codes of OCPP-J the central system answers with
+export enum OcppErrorCode {
+  NOT_IMPLEMENTED = 'NotImplemented',
+  FORMATION_VIOLATION = 'FormationViolation',
+  INTERNAL_ERROR = 'InternalError',
+}
+
+/**
+ * A call the central system refuses; answered with a CALLERROR carrying
+ * the code.
+ */
+export class OcppCallError extends Error {
+  constructor(
+    readonly code: OcppErrorCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// A connected charger and the tenant its API key belongs to
+export interface OcppChargePoint {
+  id: string;
+  tenantId: string | null;
+}
+
+// Any idTag naming a vehicle the tenant may write to is accepted
+const ACCEPTED = { status: 'Accepted' };
+const INVALID = { status: 'Invalid' };
+
+// Answers a refused StartTransaction; no transaction has this id
+const NO_TRANSACTION = 0;
+
+const DEFAULT_MEASURAND = 'Energy.Active.Import.Register';
+
+// What one meter value carries, in the units readings are stored in
+interface Samples {
+  // Energy registers in Wh, drawn from the grid and delivered to the car
+  inletWh?: number;
+  outletWh?: number;
+  voltage?: number;
+  soc?: number;
+  batteryTemp?: number;
+}
+
+/**
+ * Central-system side of OCPP 1.6J: answers the calls a charge point
+ * makes and turns its meter values into telemetry.
+ *
+ * Each connector is a meter (the charge point ID for connector 0, else
+ * `{chargePointId}-{connectorId}`) fed by the energy register, drawn
+ * from the Inlet register when the charger reports one. A transaction's
+ * idTag names the vehicle: StartTransaction assigns it to the connector's
+ * meter until StopTransaction, and meter values reporting the SoC become
+ * vehicle readings whose delivered energy continues the vehicle's
+ * register with the energy of the transaction. Charging sessions then
+ * follow from those readings as for any other vehicle.
+ *
+ * A tenant's charger only reaches its tenant's devices: an idTag naming
+ * a vehicle, or a connector meter, the tenant may not write to is
+ * answered Invalid before any transaction or assignment is touched, and
+ * transactions are looked up within the tenant.
+ *
+ * Meter values without a voltage use the meter's last reported one, or
+ * OCPP_NOMINAL_VOLTAGE. Readings the ingestion refuses are dropped, as a
+ * charger would only send them again; a failure to store one fails the
+ * call, and the charger retries it.
+ */
+@Injectable()
+export class OcppService {
+  private readonly logger = new Logger(OcppService.name);
+  private readonly heartbeatSeconds: number;
+  private readonly nominalVoltage: number;
+  // Last voltage each meter reported
+  private readonly voltages = new Map<string, number>();
+
+  constructor(
+    @InjectRepository(OcppTransaction)
+    private readonly transactionRepo: Repository<OcppTransaction>,
+    @InjectRepository(CurrentVehicleStatus)
+    private readonly vehicleStatusRepo: Repository<CurrentVehicleStatus>,
+    private readonly ingestionService: IngestionService,
+    private readonly assignmentService: VehicleMeterAssignmentService,
+    private readonly tenantService: TenantService,
+    configService: ConfigService,
+  ) {
+    this.heartbeatSeconds = Number(
+      configService.get('OCPP_HEARTBEAT_SECONDS', 300),
+    );
+    this.nominalVoltage = Number(
+      configService.get('OCPP_NOMINAL_VOLTAGE', 230),
+    );
+  }
+
+  /**
+   * The CALLRESULT payload answering one call. Throws OcppCallError for
+   * calls that are refused, anything else when handling one failed.
+   */
+  async handleCall(
+    chargePoint: OcppChargePoint,
+    action: string,
+    payload: unknown,
+  ): Promise<object> {
+    switch (action) {
+      case 'BootNotification':
+        this.logger.log(`Charge point ${chargePoint.id} booted`);
+        return {
+          status: 'Accepted',
+          currentTime: new Date().toISOString(),
+          interval: this.heartbeatSeconds,
+        };
+      case 'Heartbeat':
+        return { currentTime: new Date().toISOString() };
+      case 'Authorize':
+        return this.authorize(
+          chargePoint,
+          await this.parse(OcppAuthorizeDto, payload),
+        );
+      case 'StatusNotification':
+      case 'DiagnosticsStatusNotification':
+      case 'FirmwareStatusNotification':
+        return {};
+      case 'DataTransfer':
+        return { status: 'UnknownVendorId' };
+      case 'StartTransaction':
+        return this.startTransaction(
+          chargePoint,
+          await this.parse(OcppStartTransactionDto, payload),
+        );
+      case 'StopTransaction':
+        return this.stopTransaction(
+          chargePoint,
+          await this.parse(OcppStopTransactionDto, payload),
+        );
+      case 'MeterValues':
+        return this.meterValues(
+          chargePoint,
+          await this.parse(OcppMeterValuesDto, payload),
+        );
+      default:
+        throw new OcppCallError(
+          OcppErrorCode.NOT_IMPLEMENTED,
+          `${action} is not supported`,
+        );
+    }
+  }
+
+  private async authorize(
+    chargePoint: OcppChargePoint,
+    data: OcppAuthorizeDto,
+  ): Promise<object> {
+    const denied = await this.tenantService.deniedWrites(
+      chargePoint.tenantId,
+      DeviceType.VEHICLE,
+      [data.idTag],
+    );
+    return { idTagInfo: denied.size > 0 ? INVALID : ACCEPTED };
+  }
+
+  private async startTransaction(
+    chargePoint: OcppChargePoint,
+    data: OcppStartTransactionDto,
+  ): Promise<object> {
+    const meterId = meterIdOf(chargePoint.id, data.connectorId);
+    const startedAt = new Date(data.timestamp);
+
+    const refusal = await this.refusal(chargePoint, meterId, data.idTag);
+    if (refusal !== null) {
+      this.logger.warn(
+        `Refused transaction of ${data.idTag} on ${meterId}: ${refusal}`,
+      );
+      return { transactionId: NO_TRANSACTION, idTagInfo: INVALID };
+    }
+
+    const open = await this.transactionRepo.findOne({
+      where: {
+        ...this.scope(chargePoint),
+        connectorId: data.connectorId,
+        stoppedAt: IsNull(),
+      },
+    });
+    if (open) {
+      // A retry of a call whose answer was lost
+      if (
+        open.vehicleId === data.idTag &&
+        open.startedAt.getTime() === startedAt.getTime()
+      ) {
+        return { transactionId: open.id, idTagInfo: ACCEPTED };
+      }
+      // The charger never stopped it, e.g. because it rebooted
+      await this.close(open, startedAt, null, 'Superseded');
+    }
+
+    const vehicle = await this.vehicleStatusRepo.findOne({
+      where: { vehicleId: data.idTag },
+    });
+    const transaction = await this.transactionRepo.save(
+      this.transactionRepo.create({
+        chargePointId: chargePoint.id,
+        connectorId: data.connectorId,
+        meterId,
+        vehicleId: data.idTag,
+        tenantId: chargePoint.tenantId,
+        meterStartWh: data.meterStart,
+        registerBase: vehicle ? Number(vehicle.kwhDeliveredDc) : 0,
+        assignmentId: null,
+        startedAt,
+      }),
+    );
+
+    try {
+      const assignment = await this.assignmentService.create({
+        vehicleId: data.idTag,
+        meterId,
+        effectiveFrom: data.timestamp,
+      });
+      transaction.assignmentId = assignment.id;
+      await this.transactionRepo.save(transaction);
+    } catch (error) {
+      if (!(error instanceof HttpException && error.getStatus() < 500)) {
+        throw error;
+      }
+      this.logger.warn(
+        `Transaction ${transaction.id} of ${data.idTag} on ${meterId} runs without a vehicle-meter assignment: ${error.message}`,
+      );
+    }
+
+    await this.storeMeterReading(
+      chargePoint,
+      meterId,
+      data.meterStart,
+      data.timestamp,
+    );
+    this.logger.log(
+      `Started transaction ${transaction.id} of ${data.idTag} on ${meterId}`,
+    );
+    return { transactionId: transaction.id, idTagInfo: ACCEPTED };
+  }
+
+  private async stopTransaction(
+    chargePoint: OcppChargePoint,
+    data: OcppStopTransactionDto,
+  ): Promise<object> {
+    const transaction = await this.transactionRepo.findOne({
+      where: { id: data.transactionId, ...this.scope(chargePoint) },
+    });
+    // Answered all the same, or the charger would keep sending it
+    if (!transaction) {
+      this.logger.warn(
+        `Charge point ${chargePoint.id} stopped unknown transaction ${data.transactionId}`,
+      );
+      return { idTagInfo: ACCEPTED };
+    }
+
+    for (const meterValue of data.transactionData ?? []) {
+      await this.storeMeterValue(
+        chargePoint,
+        transaction.connectorId,
+        transaction,
+        meterValue,
+      );
+    }
+    await this.storeMeterReading(
+      chargePoint,
+      transaction.meterId,
+      data.meterStop,
+      data.timestamp,
+    );
+    if (transaction.stoppedAt === null) {
+      await this.close(
+        transaction,
+        new Date(data.timestamp),
+        data.meterStop,
+        data.reason ?? 'Local',
+      );
+      this.logger.log(
+        `Stopped transaction ${transaction.id} on ${transaction.meterId}`,
+      );
+    }
+    return { idTagInfo: ACCEPTED };
+  }
+
+  private async meterValues(
+    chargePoint: OcppChargePoint,
+    data: OcppMeterValuesDto,
+  ): Promise<object> {
+    const transaction =
+      data.transactionId === undefined
+        ? null
+        : await this.transactionRepo.findOne({
+            where: { id: data.transactionId, ...this.scope(chargePoint) },
+          });
+
+    for (const meterValue of data.meterValue) {
+      await this.storeMeterValue(
+        chargePoint,
+        data.connectorId,
+        transaction,
+        meterValue,
+      );
+    }
+    return {};
+  }
+
+  /**
+   * Why a charge point may not charge a vehicle on a meter, or null when
+   * its tenant may write to both.
+   */
+  private async refusal(
+    chargePoint: OcppChargePoint,
+    meterId: string,
+    vehicleId: string,
+  ): Promise<string | null> {
+    const meters = await this.tenantService.deniedWrites(
+      chargePoint.tenantId,
+      DeviceType.METER,
+      [meterId],
+    );
+    if (meters.size > 0) {
+      return `meter ${meterId} is not registered to this tenant`;
+    }
+    const vehicles = await this.tenantService.deniedWrites(
+      chargePoint.tenantId,
+      DeviceType.VEHICLE,
+      [vehicleId],
+    );
+    if (vehicles.size > 0) {
+      return `vehicle ${vehicleId} is not registered to this tenant`;
+    }
+    return null;
+  }
+
+  // Transactions of this charge point opened under the same tenant
+  private scope(chargePoint: OcppChargePoint) {
+    return {
+      chargePointId: chargePoint.id,
+      tenantId: chargePoint.tenantId ?? IsNull(),
+    };
+  }
+
+  /**
+   * End a transaction and the vehicle's assignment to its meter at `at`.
+   */
+  private async close(
+    transaction: OcppTransaction,
+    at: Date,
+    meterStopWh: number | null,
+    reason: string,
+  ): Promise<void> {
+    if (transaction.assignmentId !== null) {
+      try {
+        await this.assignmentService.update(transaction.assignmentId, {
+          effectiveUntil: at.toISOString(),
+        });
+      } catch (error) {
+        if (!(error instanceof HttpException && error.getStatus() < 500)) {
+          throw error;
+        }
+        this.logger.warn(
+          `Could not end the assignment of transaction ${transaction.id}: ${error.message}`,
+        );
+      }
+    }
+
+    transaction.stoppedAt = at;
+    transaction.meterStopWh = meterStopWh;
+    transaction.stopReason = reason;
+    await this.transactionRepo.save(transaction);
+  }
+
+  private async storeMeterValue(
+    chargePoint: OcppChargePoint,
+    connectorId: number,
+    transaction: OcppTransaction | null,
+    meterValue: OcppMeterValueDto,
+  ): Promise<void> {
+    const meterId = meterIdOf(chargePoint.id, connectorId);
+    const samples = readSamples(meterValue.sampledValue);
+    if (samples.voltage !== undefined) {
+      this.voltages.set(meterId, samples.voltage);
+    }
+
+    const meterWh = samples.inletWh ?? samples.outletWh;
+    if (meterWh !== undefined) {
+      await this.storeMeterReading(
+        chargePoint,
+        meterId,
+        meterWh,
+        meterValue.timestamp,
+      );
+    }
+
+    const vehicleWh = samples.outletWh ?? samples.inletWh;
+    if (transaction && vehicleWh !== undefined && samples.soc !== undefined) {
+      const delivered =
+        Number(transaction.registerBase) +
+        (vehicleWh - Number(transaction.meterStartWh)) / 1000;
+      await this.store(
+        chargePoint,
+        VehicleTelemetryDto,
+        {
+          vehicleId: transaction.vehicleId,
+          soc: samples.soc,
+          kwhDeliveredDc: Math.round(delivered * 1000) / 1000,
+          batteryTemp: samples.batteryTemp,
+          timestamp: meterValue.timestamp,
+        },
+        (reading) =>
+          this.ingestionService.ingestVehicleTelemetry(
+            reading,
+            chargePoint.tenantId,
+          ),
+      );
+    }
+  }
+
+  private storeMeterReading(
+    chargePoint: OcppChargePoint,
+    meterId: string,
+    registerWh: number,
+    timestamp: string,
+  ): Promise<void> {
+    return this.store(
+      chargePoint,
+      MeterTelemetryDto,
+      {
+        meterId,
+        kwhConsumedAc: registerWh / 1000,
+        voltage: this.voltages.get(meterId) ?? this.nominalVoltage,
+        timestamp,
+      },
+      (reading) =>
+        this.ingestionService.ingestMeterTelemetry(
+          reading,
+          chargePoint.tenantId,
+        ),
+    );
+  }
+
+  /**
+   * Validate and ingest one reading. Refused readings are logged and
+   * dropped; failures to store them propagate.
+   */
+  private async store<T extends object>(
+    chargePoint: OcppChargePoint,
+    dto: ClassConstructor<T>,
+    reading: object,
+    ingest: (reading: T) => Promise<unknown>,
+  ): Promise<void> {
+    const check = await validateReading(dto, reading);
+    if (!check.valid) {
+      return this.refuse(chargePoint, check.reason);
+    }
+    try {
+      await ingest(check.value);
+    } catch (error) {
+      if (error instanceof HttpException && error.getStatus() < 500) {
+        return this.refuse(chargePoint, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private refuse(chargePoint: OcppChargePoint, reason: string): void {
+    this.logger.warn(
+      `Dropped reading from charge point ${chargePoint.id}: ${reason}`,
+    );
+  }
+
+  private async parse<T extends object>(
+    dto: ClassConstructor<T>,
+    payload: unknown,
+  ): Promise<T> {
+    const check = await validateReading(dto, payload);
+    if (!check.valid) {
+      throw new OcppCallError(OcppErrorCode.FORMATION_VIOLATION, check.reason);
+    }
+    return check.value;
+  }
+}
+
+function meterIdOf(chargePointId: string, connectorId: number): string {
+  return connectorId === 0 ? chargePointId : `${chargePointId}-${connectorId}`;
+}
+
+/**
+ * The measurands of one meter value the telemetry uses. Energy registers
+ * are read from their total (no phase); voltages are averaged over the
+ * phase-to-neutral samples. Signed samples are skipped.
+ */
+function readSamples(sampledValues: OcppSampledValueDto[]): Samples {
+  const samples: Samples = {};
+  const voltages: number[] = [];
+
+  for (const sample of sampledValues) {
+    if (sample.format === 'SignedData') {
+      continue;
+    }
+    const value = Number(sample.value);
+    if (sample.value.trim() === '' || !Number.isFinite(value)) {
+      throw new OcppCallError(
+        OcppErrorCode.FORMATION_VIOLATION,
+        `sampled value ${sample.value} is not a number`,
+      );
+    }
+
+    switch (sample.measurand ?? DEFAULT_MEASURAND) {
+      case DEFAULT_MEASURAND:
+        if (sample.phase === undefined) {
+          const wh = sample.unit === 'kWh' ? value * 1000 : value;
+          if (sample.location === 'Inlet') {
+            samples.inletWh = wh;
+          } else {
+            samples.outletWh = wh;
+          }
+        }
+        break;
+      case 'Voltage':
+        if (sample.phase === undefined || !/^L\d-L\d$/.test(sample.phase)) {
+          voltages.push(sample.unit === 'kV' ? value * 1000 : value);
+        }
+        break;
+      case 'SoC':
+        samples.soc = value;
+        break;
+      case 'Temperature':
+        if (sample.location === 'EV') {
+          samples.batteryTemp = toCelsius(value, sample.unit);
+        }
+        break;
+    }
+  }
+
+  if (voltages.length > 0) {
+    samples.voltage =
+      voltages.reduce((sum, voltage) => sum + voltage, 0) / voltages.length;
+  }
+  return samples;
+}
+
+function toCelsius(value: number, unit?: string): number {
+  switch (unit) {
+    case 'K':
+      return Math.round((value - 273.15) * 100) / 100;
+    case 'Fahrenheit':
+      return Math.round((((value - 32) * 5) / 9) * 100) / 100;
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,441 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, QueryRunner } from 'typeorm';
+import {
+  PartitionDto,
+  PartitionMaintenanceResultDto,
+  RetentionAction,
+} from '../dto/partition.dto';
+
+// Tables partitioned by RANGE (timestamp) into one partition per UTC day
+const PARTITIONED_TABLES = [
+  'meter_telemetry_history',
+  'vehicle_telemetry_history',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Session-level advisory lock so only one instance maintains partitions
+const MAINTENANCE_LOCK = 'partition-maintenance';
+
+interface PartitionRow {
+  parent: string;
+  name: string;
+  range_from: Date | null;
+  range_to: Date | null;
+  is_default: boolean;
+  estimated_rows: string;
+  size_bytes: string;
+}
+
+/**
+ * Keeps the daily history partitions in step with the calendar.
+ *
+ * Each run makes sure every history table has a DEFAULT partition (so a
+ * reading for a day without a partition is still stored), creates the
+ * partitions for today and the next PARTITION_PRECREATE_DAYS days, and
+ * retires partitions that ended more than PARTITION_RETENTION_DAYS ago.
+ * Rows that landed in the DEFAULT partition are moved into a day's
+ * partition when it is created. Late rows for past days get their day's
+ * partition too, or follow it into retirement when the day is already
+ * past retention, so nothing stays in DEFAULT for good.
+ */
+@Injectable()
+export class PartitionManagerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PartitionManagerService.name);
+  private readonly enabled: boolean;
+  private readonly precreateDays: number;
+  private readonly retentionDays: number;
+  private readonly retentionAction: RetentionAction;
+  private readonly archiveSchema: string;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.enabled =
+      configService.get<string>('PARTITION_MANAGEMENT_ENABLED', 'true') !==
+      'false';
+    this.precreateDays = Number(
+      configService.get('PARTITION_PRECREATE_DAYS', 7),
+    );
+    this.retentionDays = Number(
+      configService.get('PARTITION_RETENTION_DAYS', 90),
+    );
+    this.retentionAction = configService.get(
+      'PARTITION_RETENTION_ACTION',
+      RetentionAction.DETACH,
+    );
+    // A typo would otherwise detach partitions meant to be dropped or
+    // archived
+    const actions = Object.values(RetentionAction) as string[];
+    if (!actions.includes(this.retentionAction)) {
+      throw new Error(
+        `PARTITION_RETENTION_ACTION must be one of ${actions.join(', ')}, not "${this.retentionAction}"`,
+      );
+    }
+    this.archiveSchema = configService.get(
+      'PARTITION_ARCHIVE_SCHEMA',
+      'archive',
+    );
+  }
+
+  // Partitions for today must exist before the first reading is ingested
+  async onApplicationBootstrap(): Promise<void> {
+    await this.handleCron();
+  }
+
+  @Cron(CronExpression.EVERY_HOUR, { name: 'partition-maintenance' })
+  async handleCron(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await this.maintain();
+    } catch (error) {
+      this.logger.error(
+        `Partition maintenance failed: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Run one maintenance pass. Returns without changes when another
+   * instance holds the maintenance lock.
+   */
+  async maintain(now: Date = new Date()): Promise<PartitionMaintenanceResultDto> {
+    const startTime = Date.now();
+    const result: PartitionMaintenanceResultDto = {
+      skipped: false,
+      created: [],
+      retired: [],
+      retentionAction: this.retentionAction,
+    };
+
+    const runner = this.dataSource.createQueryRunner();
+    await runner.connect();
+
+    try {
+      const [{ locked }] = await runner.query(
+        `SELECT pg_try_advisory_lock(hashtext($1)) as locked`,
+        [MAINTENANCE_LOCK],
+      );
+      if (!locked) {
+        this.logger.log('Partition maintenance already running elsewhere');
+        return { ...result, skipped: true };
+      }
+
+      try {
+        const today = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+        const retireBefore =
+          this.retentionDays > 0 ? today - this.retentionDays * DAY_MS : null;
+
+        for (const parent of PARTITIONED_TABLES) {
+          const partitions = await this.findPartitions(runner, parent);
+
+          if (!partitions.some((partition) => partition.is_default)) {
+            await runner.query(
+              `CREATE TABLE ${parent}_default PARTITION OF ${parent} DEFAULT`,
+            );
+            result.created.push(`${parent}_default`);
+          }
+
+          for (let day = 0; day <= this.precreateDays; day++) {
+            const from = today + day * DAY_MS;
+            const covered = partitions.some(
+              (partition) =>
+                partition.range_from !== null &&
+                partition.range_from.getTime() <= from &&
+                partition.range_to!.getTime() > from,
+            );
+            if (!covered) {
+              result.created.push(
+                await this.createDailyPartition(runner, parent, new Date(from)),
+              );
+            }
+          }
+
+          // Readings that arrived after their day's partition was due
+          const lateDays: { late_day: Date }[] = await runner.query(
+            `
+            SELECT DISTINCT
+              date_trunc('day', timestamp AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' as late_day
+            FROM ${parent}_default
+            WHERE timestamp < $1
+            `,
+            [new Date(today).toISOString()],
+          );
+          for (const { late_day: day } of lateDays) {
+            if (
+              retireBefore !== null &&
+              day.getTime() + DAY_MS <= retireBefore
+            ) {
+              await this.retireLateRows(runner, parent, day);
+            } else {
+              result.created.push(
+                await this.createDailyPartition(runner, parent, day),
+              );
+            }
+          }
+
+          if (retireBefore === null) {
+            continue;
+          }
+          for (const partition of partitions) {
+            if (
+              partition.range_to !== null &&
+              partition.range_to.getTime() <= retireBefore
+            ) {
+              await this.retire(runner, parent, partition.name);
+              result.retired.push(partition.name);
+            }
+          }
+        }
+      } finally {
+        await runner.query(`SELECT pg_advisory_unlock(hashtext($1))`, [
+          MAINTENANCE_LOCK,
+        ]);
+      }
+
+      const duration = Date.now() - startTime;
+      this.logger.log(
+        `Partition maintenance finished in ${duration}ms: ${result.created.length} created, ${result.retired.length} retired (${this.retentionAction})`,
+      );
+
+      return result;
+    } finally {
+      await runner.release();
+    }
+  }
+
+  /**
+   * List the partitions of every history table with their size.
+   *
+   * Row counts come from planner statistics unless `exact` is set, which
+   * counts each partition and can take a while on large tables.
+   */
+  async listPartitions(exact = false): Promise<PartitionDto[]> {
+    const runner = this.dataSource.createQueryRunner();
+    await runner.connect();
+
+    try {
+      const partitions: PartitionDto[] = [];
+      for (const parent of PARTITIONED_TABLES) {
+        for (const row of await this.findPartitions(runner, parent)) {
+          const rowCount = exact
+            ? parseInt(
+                (await runner.query(`SELECT COUNT(*) as count FROM "${row.name}"`))[0]
+                  .count,
+              )
+            : Math.max(0, parseInt(row.estimated_rows));
+
+          partitions.push({
+            table: parent,
+            partition: row.name,
+            rangeFrom: row.range_from?.toISOString() ?? null,
+            rangeTo: row.range_to?.toISOString() ?? null,
+            isDefault: row.is_default,
+            rowCount,
+            rowCountExact: exact,
+            sizeBytes: parseInt(row.size_bytes),
+          });
+        }
+      }
+      return partitions;
+    } finally {
+      await runner.release();
+    }
+  }
+
+  private async findPartitions(
+    runner: QueryRunner,
+    parent: string,
+  ): Promise<PartitionRow[]> {
+    return runner.query(
+      `
+      SELECT
+        p.relname as parent,
+        c.relname as name,
+        (regexp_match(pg_get_expr(c.relpartbound, c.oid), 'FROM \\(''([^'']+)''\\)'))[1]::timestamptz as range_from,
+        (regexp_match(pg_get_expr(c.relpartbound, c.oid), 'TO \\(''([^'']+)''\\)'))[1]::timestamptz as range_to,
+        pg_get_expr(c.relpartbound, c.oid) = 'DEFAULT' as is_default,
+        c.reltuples::bigint as estimated_rows,
+        pg_total_relation_size(c.oid) as size_bytes
+      FROM pg_inherits i
+      JOIN pg_class c ON c.oid = i.inhrelid
+      JOIN pg_class p ON p.oid = i.inhparent
+      JOIN pg_namespace n ON n.oid = p.relnamespace
+      WHERE p.relname = $1
+        AND n.nspname = current_schema()
+      ORDER BY range_from NULLS FIRST
+      `,
+      [parent],
+    );
+  }
+
+  /**
+   * Create the partition for one UTC day. Rows for that day already sitting
+   * in the DEFAULT partition are moved into it; Postgres refuses to add a
+   * partition whose range the DEFAULT partition still holds rows for.
+   */
+  private async createDailyPartition(
+    runner: QueryRunner,
+    parent: string,
+    day: Date,
+  ): Promise<string> {
+    const name = this.partitionName(parent, day);
+    const from = day.toISOString();
+    const to = new Date(day.getTime() + DAY_MS).toISOString();
+    const bounds = `FOR VALUES FROM ('${from}') TO ('${to}')`;
+
+    await runner.startTransaction();
+    try {
+      const [{ stragglers }] = await runner.query(
+        `
+        SELECT EXISTS (
+          SELECT 1 FROM ${parent}_default WHERE timestamp >= $1 AND timestamp < $2
+        ) as stragglers
+        `,
+        [from, to],
+      );
+
+      if (!stragglers) {
+        await runner.query(
+          `CREATE TABLE ${name} PARTITION OF ${parent} ${bounds}`,
+        );
+      } else {
+        await runner.query(
+          `CREATE TABLE ${name} (LIKE ${parent} INCLUDING DEFAULTS INCLUDING CONSTRAINTS)`,
+        );
+        const [{ moved }] = await runner.query(
+          `
+          WITH moved AS (
+            DELETE FROM ${parent}_default
+            WHERE timestamp >= $1 AND timestamp < $2
+            RETURNING *
+          ),
+          copied AS (
+            INSERT INTO ${name} SELECT * FROM moved RETURNING 1
+          )
+          SELECT COUNT(*) as moved FROM copied
+          `,
+          [from, to],
+        );
+        await runner.query(
+          `ALTER TABLE ${parent} ATTACH PARTITION ${name} ${bounds}`,
+        );
+        this.logger.log(
+          `Moved ${moved} rows from ${parent}_default into ${name}`,
+        );
+      }
+
+      await runner.commitTransaction();
+    } catch (error) {
+      await runner.rollbackTransaction();
+      throw error;
+    }
+
+    this.logger.log(`Created partition ${name}`);
+    return name;
+  }
+
+  /**
+   * Retire the DEFAULT partition's rows for a day whose partition is
+   * already past retention: drop them, or move them into the table the
+   * retired partition became.
+   */
+  private async retireLateRows(
+    runner: QueryRunner,
+    parent: string,
+    day: Date,
+  ): Promise<void> {
+    const name = this.partitionName(parent, day);
+    const from = day.toISOString();
+    const to = new Date(day.getTime() + DAY_MS).toISOString();
+
+    await runner.startTransaction();
+    let retired: number;
+    try {
+      if (this.retentionAction === RetentionAction.DROP) {
+        const [, deleted] = await runner.query(
+          `DELETE FROM ${parent}_default WHERE timestamp >= $1 AND timestamp < $2`,
+          [from, to],
+        );
+        retired = deleted;
+      } else {
+        let target = `"${name}"`;
+        if (this.retentionAction === RetentionAction.ARCHIVE) {
+          await runner.query(
+            `CREATE SCHEMA IF NOT EXISTS "${this.archiveSchema}"`,
+          );
+          target = `"${this.archiveSchema}".${target}`;
+        }
+        await runner.query(
+          `CREATE TABLE IF NOT EXISTS ${target} (LIKE ${parent} INCLUDING DEFAULTS INCLUDING CONSTRAINTS)`,
+        );
+        const [{ moved }] = await runner.query(
+          `
+          WITH moved AS (
+            DELETE FROM ${parent}_default
+            WHERE timestamp >= $1 AND timestamp < $2
+            RETURNING *
+          ),
+          copied AS (
+            INSERT INTO ${target} SELECT * FROM moved RETURNING 1
+          )
+          SELECT COUNT(*) as moved FROM copied
+          `,
+          [from, to],
+        );
+        retired = parseInt(moved);
+      }
+
+      await runner.commitTransaction();
+    } catch (error) {
+      await runner.rollbackTransaction();
+      throw error;
+    }
+
+    this.logger.log(
+      `Retired ${retired} late rows of ${name} from ${parent}_default (${this.retentionAction})`,
+    );
+  }
+
+  private partitionName(parent: string, day: Date): string {
+    return `${parent}_${day.toISOString().slice(0, 10).replace(/-/g, '_')}`;
+  }
+
+  private async retire(
+    runner: QueryRunner,
+    parent: string,
+    name: string,
+  ): Promise<void> {
+    await runner.startTransaction();
+    try {
+      await runner.query(`ALTER TABLE ${parent} DETACH PARTITION "${name}"`);
+
+      if (this.retentionAction === RetentionAction.DROP) {
+        await runner.query(`DROP TABLE "${name}"`);
+      } else if (this.retentionAction === RetentionAction.ARCHIVE) {
+        await runner.query(
+          `CREATE SCHEMA IF NOT EXISTS "${this.archiveSchema}"`,
+        );
+        await runner.query(
+          `ALTER TABLE "${name}" SET SCHEMA "${this.archiveSchema}"`,
+        );
+      }
+
+      await runner.commitTransaction();
+    } catch (error) {
+      await runner.rollbackTransaction();
+      throw error;
+    }
+
+    this.logger.log(
+      `Retired partition ${name} (${this.retentionAction}) past the ${this.retentionDays}-day retention`,
+    );
+  }
+}
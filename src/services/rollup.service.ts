@@ -0,0 +1,225 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import {
+  RollupRefresh,
+  RollupRefreshStatus,
+} from '../entities/rollup-refresh.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+
+// Daily rollup materialized views, refreshed in this order
+export const ROLLUP_VIEWS = [
+  'daily_vehicle_performance',
+  'daily_meter_consumption',
+];
+
+// Rollup view each device type's history feeds
+const ROLLUP_VIEW_OF: Record<DeviceType, string> = {
+  [DeviceType.VEHICLE]: 'daily_vehicle_performance',
+  [DeviceType.METER]: 'daily_meter_consumption',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Refreshes the daily rollup views and records how far each one is
+ * complete.
+ *
+ * Views are refreshed CONCURRENTLY so analytics can keep reading them. A
+ * refresh that started on day D covers every day before D. Readings for
+ * earlier days that arrive afterwards (late devices, bulk loads) mark the
+ * view stale from their day, so analytics read those days from raw history
+ * until the next refresh picks them up.
+ */
+@Injectable()
+export class RollupService {
+  private readonly logger = new Logger(RollupService.name);
+  private readonly enabled: boolean;
+
+  constructor(
+    @InjectRepository(RollupRefresh)
+    private readonly refreshRepo: Repository<RollupRefresh>,
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.enabled =
+      configService.get<string>('ROLLUP_REFRESH_ENABLED', 'true') !== 'false';
+  }
+
+  @Cron(CronExpression.EVERY_30_MINUTES, { name: 'rollup-refresh' })
+  async handleCron(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await this.refreshAll();
+    } catch (error) {
+      this.logger.error(`Rollup refresh failed: ${error.message}`, error.stack);
+    }
+  }
+
+  async refreshAll(): Promise<RollupRefresh[]> {
+    const results: RollupRefresh[] = [];
+    for (const view of ROLLUP_VIEWS) {
+      results.push(await this.refresh(view));
+    }
+    return results;
+  }
+
+  /**
+   * Refresh one view. Failures are recorded on its status row rather than
+   * thrown; when another instance is already refreshing the view, its
+   * current status is returned unchanged.
+   */
+  async refresh(view: string): Promise<RollupRefresh> {
+    const runner = this.dataSource.createQueryRunner();
+    await runner.connect();
+
+    try {
+      const lock = `rollup-refresh:${view}`;
+      const [{ locked }] = await runner.query(
+        `SELECT pg_try_advisory_lock(hashtext($1)) as locked`,
+        [lock],
+      );
+      if (!locked) {
+        this.logger.log(`Refresh of ${view} already running elsewhere`);
+        return (await this.refreshRepo.findOneBy({ viewName: view }))!;
+      }
+
+      const startedAt = new Date();
+      await this.refreshRepo.save({
+        viewName: view,
+        status: RollupRefreshStatus.RUNNING,
+        startedAt,
+        finishedAt: null,
+        durationMs: null,
+      });
+
+      // Taken before the refresh starts, so writes the refresh may miss
+      // mark the view stale again
+      const [taken] = await runner.query(
+        `
+        UPDATE rollup_refresh r SET stale_from = NULL
+        FROM (
+          SELECT stale_from FROM rollup_refresh WHERE view_name = $1 FOR UPDATE
+        ) taken
+        WHERE r.view_name = $1
+        RETURNING taken.stale_from::text as stale_from
+        `,
+        [view],
+      );
+      const staleFrom: string | null = taken?.stale_from ?? null;
+
+      try {
+        await runner.query(`REFRESH MATERIALIZED VIEW CONCURRENTLY ${view}`);
+
+        const finishedAt = new Date();
+        const durationMs = finishedAt.getTime() - startedAt.getTime();
+        await this.refreshRepo.save({
+          viewName: view,
+          status: RollupRefreshStatus.SUCCEEDED,
+          finishedAt,
+          durationMs,
+          coveredUntil: this.startOfDay(startedAt),
+          lastSucceededAt: finishedAt,
+          lastError: null,
+        });
+        this.logger.log(`Refreshed ${view} in ${durationMs}ms`);
+      } catch (error) {
+        const finishedAt = new Date();
+        await this.refreshRepo.save({
+          viewName: view,
+          status: RollupRefreshStatus.FAILED,
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+          lastError: error.message,
+        });
+        if (staleFrom !== null) {
+          await runner.query(
+            `
+            UPDATE rollup_refresh
+            SET stale_from = LEAST(COALESCE(stale_from, $2::date), $2::date)
+            WHERE view_name = $1
+            `,
+            [view, staleFrom],
+          );
+        }
+        this.logger.error(
+          `Failed to refresh ${view}: ${error.message}`,
+          error.stack,
+        );
+      } finally {
+        await runner.query(`SELECT pg_advisory_unlock(hashtext($1))`, [lock]);
+      }
+
+      return (await this.refreshRepo.findOneBy({ viewName: view }))!;
+    } finally {
+      await runner.release();
+    }
+  }
+
+  async getStatus(): Promise<RollupRefresh[]> {
+    return this.refreshRepo.find({ order: { viewName: 'ASC' } });
+  }
+
+  /**
+   * Mark the rollup of `deviceType` stale from the earliest day of
+   * `timestamps`, when that day is already past. Called in the transaction
+   * that writes the readings to history.
+   */
+  async markWritten(
+    manager: EntityManager,
+    deviceType: DeviceType,
+    timestamps: Date[],
+  ): Promise<void> {
+    if (timestamps.length === 0) {
+      return;
+    }
+    const earliest = Math.min(...timestamps.map((t) => t.getTime()));
+    if (earliest >= Math.floor(Date.now() / DAY_MS) * DAY_MS) {
+      return;
+    }
+
+    await manager.query(
+      `
+      UPDATE rollup_refresh SET stale_from = $2
+      WHERE view_name = $1 AND (stale_from IS NULL OR stale_from > $2)
+      `,
+      [ROLLUP_VIEW_OF[deviceType], this.startOfDay(new Date(earliest))],
+    );
+  }
+
+  /**
+   * First UTC day (as epoch ms) that is not complete in every rollup view,
+   * or null when a view has never been refreshed.
+   */
+  async coveredUntil(): Promise<number | null> {
+    const rows = await this.refreshRepo.find();
+    const covered = ROLLUP_VIEWS.map((view) => {
+      const row = rows.find((row) => row.viewName === view);
+      if (!row?.coveredUntil || !row.staleFrom) {
+        return row?.coveredUntil;
+      }
+      // ISO dates compare in day order
+      return row.staleFrom < row.coveredUntil
+        ? row.staleFrom
+        : row.coveredUntil;
+    });
+
+    if (covered.some((day) => !day)) {
+      return null;
+    }
+    return Math.min(
+      ...covered.map((day) => new Date(`${day}T00:00:00Z`).getTime()),
+    );
+  }
+
+  private startOfDay(date: Date): string {
+    return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+  }
+}
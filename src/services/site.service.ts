@@ -0,0 +1,171 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { Site } from '../entities/site.entity';
+import {
+  AssignSiteDevicesDto,
+  CreateSiteDto,
+  SiteDeviceAssignmentDto,
+  SiteDto,
+  UpdateSiteDto,
+} from '../dto/site.dto';
+
+/**
+ * Sites and depots, and which devices are at them.
+ *
+ * Sites form a tree through their parent. A meter's site is where it is
+ * installed; a vehicle's site is its home depot. Both are kept on the
+ * device registry entry, so a device is at one site at a time.
+ */
+@Injectable()
+export class SiteService {
+  private readonly logger = new Logger(SiteService.name);
+
+  constructor(
+    @InjectRepository(Site)
+    private readonly siteRepo: Repository<Site>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async create(data: CreateSiteDto): Promise<SiteDto> {
+    try {
+      const saved = await this.siteRepo.save(
+        this.siteRepo.create({
+          id: data.id,
+          name: data.name,
+          parentId: data.parentId ?? null,
+        }),
+      );
+      this.logger.log(`Created site ${saved.id}`);
+      return this.toDto(saved);
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ConflictException(`Site ${data.id} already exists`);
+      }
+      if (error.code === '23503') {
+        throw new BadRequestException(`Parent site ${data.parentId} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async findAll(): Promise<SiteDto[]> {
+    const rows = await this.siteRepo.find({ order: { id: 'ASC' } });
+    return rows.map((row) => this.toDto(row));
+  }
+
+  async findOne(id: string): Promise<SiteDto> {
+    return this.toDto(await this.getSite(id));
+  }
+
+  /**
+   * Rename a site or move it under another parent. A site cannot be moved
+   * under itself or one of its own sub-sites.
+   */
+  async update(id: string, data: UpdateSiteDto): Promise<SiteDto> {
+    const site = await this.getSite(id);
+    if (data.parentId) {
+      const [cycle] = await this.dataSource.query(
+        `
+        WITH RECURSIVE subtree AS (
+          SELECT id FROM site WHERE id = $1
+          UNION
+          SELECT s.id FROM site s JOIN subtree t ON s.parent_id = t.id
+        )
+        SELECT 1 FROM subtree WHERE id = $2
+        `,
+        [id, data.parentId],
+      );
+      if (cycle) {
+        throw new BadRequestException(
+          `Site ${id} cannot be moved under ${data.parentId}, which is part of it`,
+        );
+      }
+    }
+
+    Object.assign(site, data);
+    try {
+      return this.toDto(await this.siteRepo.save(site));
+    } catch (error) {
+      if (error.code === '23503') {
+        throw new BadRequestException(`Parent site ${data.parentId} not found`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a site. Its devices stay registered without a site; a site with
+   * sub-sites is kept until they are moved or deleted.
+   */
+  async remove(id: string): Promise<void> {
+    try {
+      const result = await this.siteRepo.delete({ id });
+      if (!result.affected) {
+        throw new NotFoundException(`Site ${id} not found`);
+      }
+    } catch (error) {
+      if (error.code === '23503') {
+        throw new ConflictException(
+          `Site ${id} has sub-sites; move or delete them first`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Place registered devices at a site: install meters there or make it the
+   * home depot of vehicles. Devices move from wherever they were before;
+   * unregistered devices are reported, not registered.
+   */
+  async assignDevices(
+    siteId: string,
+    data: AssignSiteDevicesDto,
+  ): Promise<SiteDeviceAssignmentDto> {
+    await this.getSite(siteId);
+    const deviceIds = [...new Set(data.deviceIds)];
+
+    // Placing a device is provisioning it, as an update through the
+    // registry would be
+    const [rows] = await this.dataSource.query(
+      `
+      UPDATE device
+      SET site = $1, auto_registered = FALSE, updated_at = NOW()
+      WHERE device_type = $2 AND device_id = ANY($3)
+      RETURNING device_id
+      `,
+      [siteId, data.deviceType, deviceIds],
+    );
+    const placed = new Set(rows.map((row: any) => row.device_id));
+
+    return {
+      assigned: placed.size,
+      unregistered: deviceIds.filter((id) => !placed.has(id)),
+    };
+  }
+
+  private async getSite(id: string): Promise<Site> {
+    const site = await this.siteRepo.findOne({ where: { id } });
+    if (!site) {
+      throw new NotFoundException(`Site ${id} not found`);
+    }
+    return site;
+  }
+
+  private toDto(site: Site): SiteDto {
+    return {
+      id: site.id,
+      name: site.name,
+      parentId: site.parentId,
+      createdAt: site.createdAt.toISOString(),
+      updatedAt: site.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,288 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Readable, pipeline } from 'stream';
+import { createGunzip } from 'zlib';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import { BulkLoadResultDto } from '../dto/bulk-load.dto';
+import { BulkLoadService, UnparsableReading } from './bulk-load.service';
+
+export enum UploadFormat {
+  NDJSON = 'ndjson',
+  CSV = 'csv',
+}
+
+const CONTENT_TYPES: Record<string, UploadFormat> = {
+  'application/x-ndjson': UploadFormat.NDJSON,
+  'application/jsonl': UploadFormat.NDJSON,
+  'text/csv': UploadFormat.CSV,
+};
+
+// CSV columns per device type; numeric ones are converted before
+// validation, as JSON would have carried them
+const CSV_COLUMNS: Record<DeviceType, { text: string[]; numeric: string[] }> = {
+  [DeviceType.METER]: {
+    text: ['meterId', 'timestamp'],
+    numeric: ['kwhConsumedAc', 'voltage'],
+  },
+  [DeviceType.VEHICLE]: {
+    text: ['vehicleId', 'timestamp'],
+    numeric: ['soc', 'kwhDeliveredDc', 'batteryTemp'],
+  },
+};
+
+// A longer line is taken for a body that is not line-delimited at all
+const MAX_LINE_LENGTH = 64 * 1024;
+
+/**
+ * Streaming uploads of NDJSON and CSV files, optionally gzip-compressed.
+ *
+ * The body is decompressed and split into lines as it arrives and each
+ * line is handed to the bulk load as one reading, so neither the file nor
+ * the parsed readings are ever held in memory. Lines that are not readings
+ * (bad JSON, wrong field counts) are refused like invalid readings, and
+ * every refusal is reported with its line number. Blank lines are skipped.
+ */
+@Injectable()
+export class TelemetryUploadService {
+  private readonly logger = new Logger(TelemetryUploadService.name);
+
+  constructor(private readonly bulkLoadService: BulkLoadService) {}
+
+  async upload(
+    deviceType: DeviceType,
+    body: Readable,
+    contentType: string | undefined,
+    contentEncoding: string | undefined,
+    tenantId: string | null = null,
+  ): Promise<BulkLoadResultDto> {
+    const format = this.formatOf(contentType);
+    const input = this.decode(body, contentEncoding);
+
+    // Indexes of the readings that followed each skipped line, in order
+    const skipped: number[] = [];
+    const readings =
+      format === UploadFormat.CSV
+        ? this.parseCsv(deviceType, lines(input), skipped)
+        : this.parseNdjson(lines(input), skipped);
+
+    let result: BulkLoadResultDto;
+    try {
+      result = await this.bulkLoadService.load(deviceType, readings, tenantId);
+    } catch (error) {
+      if (typeof error?.code === 'string' && error.code.startsWith('Z_')) {
+        throw new BadRequestException(
+          `Body is not valid gzip: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Uploaded ${format} of ${result.count} ${deviceType} readings (${result.rejected} refused)`,
+    );
+    return {
+      ...result,
+      errors: result.errors.map((error) => ({
+        ...error,
+        line: lineOf(error.index, skipped),
+      })),
+    };
+  }
+
+  private formatOf(contentType: string | undefined): UploadFormat {
+    const mediaType = (contentType ?? '').split(';')[0].trim().toLowerCase();
+    const format = CONTENT_TYPES[mediaType];
+    if (format === undefined) {
+      throw new UnsupportedMediaTypeException(
+        `Content-Type must be one of ${Object.keys(CONTENT_TYPES).join(', ')}`,
+      );
+    }
+    return format;
+  }
+
+  private decode(
+    body: Readable,
+    contentEncoding: string | undefined,
+  ): Readable {
+    const encoding = (contentEncoding ?? 'identity').trim().toLowerCase();
+    if (encoding === 'identity') {
+      return body;
+    }
+    if (encoding !== 'gzip') {
+      throw new UnsupportedMediaTypeException(
+        'Content-Encoding must be gzip or identity',
+      );
+    }
+    // pipeline destroys the gunzip stream too if the upload is aborted
+    return pipeline(body, createGunzip(), () => undefined);
+  }
+
+  private async *parseNdjson(
+    source: AsyncIterable<string>,
+    skipped: number[],
+  ): AsyncGenerator<unknown> {
+    let index = 0;
+    for await (const line of source) {
+      if (line.trim().length === 0) {
+        skipped.push(index);
+        continue;
+      }
+
+      index++;
+      try {
+        yield JSON.parse(line);
+      } catch (error) {
+        yield new UnparsableReading(`invalid JSON: ${error.message}`);
+      }
+    }
+  }
+
+  private async *parseCsv(
+    deviceType: DeviceType,
+    source: AsyncIterable<string>,
+    skipped: number[],
+  ): AsyncGenerator<unknown> {
+    const { text, numeric } = CSV_COLUMNS[deviceType];
+    let header: string[] | undefined;
+    let index = 0;
+
+    for await (const line of source) {
+      if (line.trim().length === 0 || header === undefined) {
+        skipped.push(index);
+        if (line.trim().length > 0) {
+          header = this.parseHeader(line, [...text, ...numeric], text[0]);
+        }
+        continue;
+      }
+
+      index++;
+      const fields = parseCsvLine(line);
+      if (fields === null) {
+        yield new UnparsableReading('unterminated quoted field');
+        continue;
+      }
+      if (fields.length !== header.length) {
+        yield new UnparsableReading(
+          `expected ${header.length} fields, got ${fields.length}`,
+        );
+        continue;
+      }
+
+      const reading: Record<string, string | number> = {};
+      header.forEach((column, i) => {
+        const field = fields[i];
+        // An empty field is a missing value, as for optional batteryTemp
+        if (field === '') {
+          return;
+        }
+        const number = Number(field);
+        reading[column] =
+          numeric.includes(column) && Number.isFinite(number) ? number : field;
+      });
+      yield reading;
+    }
+  }
+
+  private parseHeader(
+    line: string,
+    known: string[],
+    idColumn: string,
+  ): string[] {
+    const header = (parseCsvLine(line) ?? []).map((column) => column.trim());
+    const unknown = header.filter((column) => !known.includes(column));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown CSV column(s) ${unknown.join(', ')}; expected ${known.join(', ')}`,
+      );
+    }
+    if (!header.includes(idColumn) || !header.includes('timestamp')) {
+      throw new BadRequestException(
+        `CSV header must include ${idColumn} and timestamp`,
+      );
+    }
+    return header;
+  }
+}
+
+/**
+ * Split a body into lines as it arrives, dropping the CR of CRLF endings.
+ */
+async function* lines(input: Readable): AsyncGenerator<string> {
+  input.setEncoding('utf8');
+  let rest = '';
+  for await (const chunk of input) {
+    const parts = (rest + chunk).split('\n');
+    rest = parts.pop()!;
+    if (rest.length > MAX_LINE_LENGTH) {
+      throw new BadRequestException(
+        `Line longer than ${MAX_LINE_LENGTH} characters; is the body line-delimited?`,
+      );
+    }
+    for (const part of parts) {
+      yield part.replace(/\r$/, '');
+    }
+  }
+  if (rest.length > 0) {
+    yield rest.replace(/\r$/, '');
+  }
+}
+
+/**
+ * Fields of one CSV line: commas separate fields, double quotes enclose
+ * fields containing commas or quotes, and "" is a literal quote. Returns
+ * null for an unterminated quoted field (fields may not span lines).
+ */
+function parseCsvLine(line: string): string[] | null {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    return null;
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Line number of the reading at `index`: readings are numbered from the
+ * first line, shifted by every skipped line before them.
+ */
+function lineOf(index: number, skipped: number[]): number {
+  let low = 0;
+  let high = skipped.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (skipped[middle] <= index) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return index + 1 + low;
+}
@@ -0,0 +1,355 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, In, Repository } from 'typeorm';
+import { Tenant } from '../entities/tenant.entity';
+import { TenantDevice } from '../entities/tenant-device.entity';
+import { DeviceType } from '../entities/device-reporting-mode.entity';
+import {
+  AssignTenantDevicesDto,
+  CreateTenantDto,
+  TenantDeviceAssignmentDto,
+  TenantDevicePageDto,
+  TenantDeviceQueryDto,
+  TenantDto,
+} from '../dto/tenant.dto';
+import { ApiKeyService } from './api-key.service';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// Hot table and ID column holding a device's stored state
+const HOT_ROWS: Record<DeviceType, { table: string; idColumn: string }> = {
+  [DeviceType.METER]: { table: 'current_meter_status', idColumn: 'meter_id' },
+  [DeviceType.VEHICLE]: {
+    table: 'current_vehicle_status',
+    idColumn: 'vehicle_id',
+  },
+};
+
+interface CachedOwner {
+  tenantId: string;
+  until: number;
+}
+
+/**
+ * Tenants and the devices they own.
+ *
+ * A tenant key may only write and read its tenant's devices. Devices are
+ * assigned by an admin or, with TENANT_AUTO_CLAIM_DEVICES (off by default),
+ * claimed by the first tenant to send a reading for a device the platform
+ * has never seen. Ownership is cached for AUTH_CACHE_SECONDS since it is
+ * checked on every ingest.
+ */
+@Injectable()
+export class TenantService {
+  private readonly logger = new Logger(TenantService.name);
+  private readonly autoClaim: boolean;
+  private readonly cacheMs: number;
+  private readonly owners = new Map<string, CachedOwner>();
+
+  constructor(
+    @InjectRepository(Tenant)
+    private readonly tenantRepo: Repository<Tenant>,
+    @InjectRepository(TenantDevice)
+    private readonly deviceRepo: Repository<TenantDevice>,
+    private readonly dataSource: DataSource,
+    private readonly apiKeyService: ApiKeyService,
+    configService: ConfigService,
+  ) {
+    this.autoClaim =
+      configService.get<string>('TENANT_AUTO_CLAIM_DEVICES', 'false') ===
+      'true';
+    this.cacheMs = Number(configService.get('AUTH_CACHE_SECONDS', 60)) * 1000;
+  }
+
+  async create(data: CreateTenantDto): Promise<TenantDto> {
+    try {
+      const saved = await this.tenantRepo.save(
+        this.tenantRepo.create({ name: data.name }),
+      );
+      this.logger.log(`Created tenant ${saved.name}`);
+      return this.toDto(saved);
+    } catch (error) {
+      if (error.code === '23505') {
+        throw new ConflictException(`Tenant ${data.name} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async findAll(): Promise<TenantDto[]> {
+    const rows = await this.tenantRepo.find({ order: { name: 'ASC' } });
+    return rows.map((row) => this.toDto(row));
+  }
+
+  async findOne(id: string): Promise<TenantDto> {
+    return this.toDto(await this.getTenant(id));
+  }
+
+  /**
+   * Delete a tenant with its keys and device ownership. The devices' data
+   * stays and becomes reachable by platform keys only.
+   */
+  async remove(id: string): Promise<void> {
+    const result = await this.tenantRepo.delete({ id });
+    if (!result.affected) {
+      throw new NotFoundException(`Tenant ${id} not found`);
+    }
+    this.apiKeyService.evictTenant(id);
+    this.evict((owner) => owner.tenantId === id);
+  }
+
+  /**
+   * Give devices to a tenant. Devices another tenant owns are reported,
+   * not moved: release them from that tenant first.
+   */
+  async assignDevices(
+    tenantId: string,
+    data: AssignTenantDevicesDto,
+  ): Promise<TenantDeviceAssignmentDto> {
+    await this.getTenant(tenantId);
+    const deviceIds = [...new Set(data.deviceIds)];
+
+    await this.claim(tenantId, data.deviceType, deviceIds);
+    const owners = await this.loadOwners(data.deviceType, deviceIds);
+    const conflicts = deviceIds.filter((id) => owners.get(id) !== tenantId);
+
+    return { assigned: deviceIds.length - conflicts.length, conflicts };
+  }
+
+  async releaseDevice(
+    tenantId: string,
+    deviceType: DeviceType,
+    deviceId: string,
+  ): Promise<void> {
+    const result = await this.deviceRepo.delete({
+      tenantId,
+      deviceType,
+      deviceId,
+    });
+    if (!result.affected) {
+      throw new NotFoundException(
+        `Tenant ${tenantId} does not own ${deviceType} ${deviceId}`,
+      );
+    }
+    this.owners.delete(this.key(deviceType, deviceId));
+  }
+
+  async findDevices(
+    tenantId: string,
+    query: TenantDeviceQueryDto,
+  ): Promise<TenantDevicePageDto> {
+    await this.getTenant(tenantId);
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const qb = this.deviceRepo
+      .createQueryBuilder('d')
+      .where('d.tenant_id = :tenantId', { tenantId })
+      .orderBy('d.device_type')
+      .addOrderBy('d.device_id')
+      .take(limit + 1);
+
+    if (query.deviceType) {
+      qb.andWhere('d.device_type = :deviceType', {
+        deviceType: query.deviceType,
+      });
+    }
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, 'device');
+      qb.andWhere('(d.device_type, d.device_id) > (:cursorValue, :cursorId)', {
+        cursorValue: cursor.value,
+        cursorId: cursor.id,
+      });
+    }
+
+    const rows = await qb.getMany();
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => ({
+        deviceType: row.deviceType,
+        deviceId: row.deviceId,
+        assignedAt: row.createdAt.toISOString(),
+      })),
+      nextCursor:
+        rows.length > limit
+          ? encodeCursor({
+              sort: 'device',
+              value: last.deviceType,
+              id: last.deviceId,
+            })
+          : null,
+    };
+  }
+
+  /**
+   * Devices among `deviceIds` a caller may not write to. Platform callers
+   * (null tenant) may write to any device; a tenant may write to its own
+   * devices and, with auto-claim on, to new devices, which it then owns.
+   * Unowned devices with stored readings or an admin registry entry are
+   * never claimed: they stay with the platform until assigned.
+   */
+  async deniedWrites(
+    tenantId: string | null,
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<Set<string>> {
+    const unique = [...new Set(deviceIds)];
+    if (tenantId === null || unique.length === 0) {
+      return new Set();
+    }
+
+    let owners = await this.owned(deviceType, unique);
+    const unowned = unique.filter((id) => !owners.has(id));
+    if (unowned.length > 0 && this.autoClaim) {
+      await this.claimUnseen(tenantId, deviceType, unowned);
+      const claimed = await this.loadOwners(deviceType, unowned);
+      owners = new Map([...owners, ...claimed]);
+      const won = unowned.filter((id) => claimed.get(id) === tenantId);
+      if (won.length > 0) {
+        this.logger.log(
+          `Tenant ${tenantId} claimed ${won.length} ${deviceType}(s) on first write`,
+        );
+      }
+    }
+
+    return new Set(unique.filter((id) => owners.get(id) !== tenantId));
+  }
+
+  /**
+   * Whether a caller may read a device: platform callers any, tenants only
+   * their own.
+   */
+  async canRead(
+    tenantId: string | null,
+    deviceType: DeviceType,
+    deviceId: string,
+  ): Promise<boolean> {
+    if (tenantId === null) {
+      return true;
+    }
+    const owners = await this.owned(deviceType, [deviceId]);
+    return owners.get(deviceId) === tenantId;
+  }
+
+  // Owners of the given devices, from cache where fresh
+  private async owned(
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<Map<string, string>> {
+    const now = Date.now();
+    const owners = new Map<string, string>();
+    const missing: string[] = [];
+    for (const deviceId of deviceIds) {
+      const cached = this.owners.get(this.key(deviceType, deviceId));
+      if (cached && cached.until > now) {
+        owners.set(deviceId, cached.tenantId);
+      } else {
+        missing.push(deviceId);
+      }
+    }
+    if (missing.length === 0) {
+      return owners;
+    }
+    const loaded = await this.loadOwners(deviceType, missing);
+    return new Map([...owners, ...loaded]);
+  }
+
+  private async loadOwners(
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<Map<string, string>> {
+    const rows = await this.deviceRepo.find({
+      select: { deviceId: true, tenantId: true },
+      where: { deviceType, deviceId: In(deviceIds) },
+    });
+    const until = Date.now() + this.cacheMs;
+    const owners = new Map<string, string>();
+    for (const row of rows) {
+      owners.set(row.deviceId, row.tenantId);
+      this.owners.set(this.key(deviceType, row.deviceId), {
+        tenantId: row.tenantId,
+        until,
+      });
+    }
+    return owners;
+  }
+
+  // First owner wins; devices someone else owns are left alone
+  private async claim(
+    tenantId: string,
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<void> {
+    await this.dataSource.query(
+      `
+      INSERT INTO tenant_device (device_type, device_id, tenant_id)
+      SELECT $1, unnest($2::varchar[]), $3
+      ON CONFLICT (device_type, device_id) DO NOTHING
+      `,
+      [deviceType, deviceIds, tenantId],
+    );
+  }
+
+  // Like claim, but skips devices that already have data or were
+  // registered by an admin; auto-registered entries come from writes, not
+  // an admin, and do not count
+  private async claimUnseen(
+    tenantId: string,
+    deviceType: DeviceType,
+    deviceIds: string[],
+  ): Promise<void> {
+    const { table, idColumn } = HOT_ROWS[deviceType];
+    await this.dataSource.query(
+      `
+      INSERT INTO tenant_device (device_type, device_id, tenant_id)
+      SELECT $1, ids.device_id, $3
+      FROM unnest($2::varchar[]) AS ids(device_id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM ${table} h WHERE h.${idColumn} = ids.device_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM device d
+        WHERE d.device_type = $1
+          AND d.device_id = ids.device_id
+          AND NOT d.auto_registered
+      )
+      ON CONFLICT (device_type, device_id) DO NOTHING
+      `,
+      [deviceType, deviceIds, tenantId],
+    );
+  }
+
+  private evict(matches: (owner: CachedOwner) => boolean): void {
+    for (const [key, owner] of this.owners) {
+      if (matches(owner)) {
+        this.owners.delete(key);
+      }
+    }
+  }
+
+  private key(deviceType: DeviceType, deviceId: string): string {
+    return `${deviceType}:${deviceId}`;
+  }
+
+  private async getTenant(id: string): Promise<Tenant> {
+    const tenant = await this.tenantRepo.findOne({ where: { id } });
+    if (!tenant) {
+      throw new NotFoundException(`Tenant ${id} not found`);
+    }
+    return tenant;
+  }
+
+  private toDto(tenant: Tenant): TenantDto {
+    return {
+      id: tenant.id,
+      name: tenant.name,
+      createdAt: tenant.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Brackets } from 'typeorm';
+import { VehicleMeterAssignment } from '../entities/vehicle-meter-assignment.entity';
+import {
+  CreateVehicleMeterAssignmentDto,
+  UpdateVehicleMeterAssignmentDto,
+  VehicleMeterAssignmentQueryDto,
+} from '../dto/vehicle-meter-assignment.dto';
+
+@Injectable()
+export class VehicleMeterAssignmentService {
+  private readonly logger = new Logger(VehicleMeterAssignmentService.name);
+
+  constructor(
+    @InjectRepository(VehicleMeterAssignment)
+    private readonly assignmentRepo: Repository<VehicleMeterAssignment>,
+  ) {}
+
+  async create(
+    data: CreateVehicleMeterAssignmentDto,
+  ): Promise<VehicleMeterAssignment> {
+    const assignment = this.assignmentRepo.create({
+      vehicleId: data.vehicleId,
+      meterId: data.meterId,
+      effectiveFrom: new Date(data.effectiveFrom),
+      effectiveUntil: data.effectiveUntil ? new Date(data.effectiveUntil) : null,
+    });
+
+    await this.assertAssignable(assignment);
+
+    const saved = await this.assignmentRepo.save(assignment);
+    this.logger.log(
+      `Assigned vehicle ${saved.vehicleId} to meter ${saved.meterId} from ${saved.effectiveFrom.toISOString()}`,
+    );
+    return saved;
+  }
+
+  async findAll(
+    query: VehicleMeterAssignmentQueryDto,
+  ): Promise<VehicleMeterAssignment[]> {
+    const qb = this.assignmentRepo
+      .createQueryBuilder('a')
+      .orderBy('a.effective_from', 'DESC');
+
+    if (query.vehicleId) {
+      qb.andWhere('a.vehicle_id = :vehicleId', { vehicleId: query.vehicleId });
+    }
+    if (query.meterId) {
+      qb.andWhere('a.meter_id = :meterId', { meterId: query.meterId });
+    }
+    if (query.activeAt) {
+      const activeAt = new Date(query.activeAt);
+      qb.andWhere('a.effective_from <= :activeAt', { activeAt }).andWhere(
+        '(a.effective_until IS NULL OR a.effective_until > :activeAt)',
+        { activeAt },
+      );
+    }
+
+    return qb.getMany();
+  }
+
+  async findOne(id: string): Promise<VehicleMeterAssignment> {
+    const assignment = await this.assignmentRepo.findOne({ where: { id } });
+    if (!assignment) {
+      throw new NotFoundException(`Assignment ${id} not found`);
+    }
+    return assignment;
+  }
+
+  async update(
+    id: string,
+    data: UpdateVehicleMeterAssignmentDto,
+  ): Promise<VehicleMeterAssignment> {
+    const assignment = await this.findOne(id);
+
+    if (data.meterId !== undefined) {
+      assignment.meterId = data.meterId;
+    }
+    if (data.effectiveFrom !== undefined) {
+      assignment.effectiveFrom = new Date(data.effectiveFrom);
+    }
+    if (data.effectiveUntil !== undefined) {
+      assignment.effectiveUntil = data.effectiveUntil
+        ? new Date(data.effectiveUntil)
+        : null;
+    }
+
+    await this.assertAssignable(assignment);
+
+    return this.assignmentRepo.save(assignment);
+  }
+
+  async remove(id: string): Promise<void> {
+    const assignment = await this.findOne(id);
+    await this.assignmentRepo.remove(assignment);
+    this.logger.log(
+      `Removed assignment of vehicle ${assignment.vehicleId} to meter ${assignment.meterId}`,
+    );
+  }
+
+  /**
+   * A vehicle can only be plugged into one charger at a time and a charger
+   * only serves one vehicle at a time, so intervals must not overlap on
+   * either side. The database enforces the same rule with exclusion
+   * constraints; checking here gives callers a readable 409 instead.
+   */
+  private async assertAssignable(
+    assignment: VehicleMeterAssignment,
+  ): Promise<void> {
+    if (
+      assignment.effectiveUntil &&
+      assignment.effectiveUntil <= assignment.effectiveFrom
+    ) {
+      throw new BadRequestException(
+        'effectiveUntil must be later than effectiveFrom',
+      );
+    }
+
+    const qb = this.assignmentRepo
+      .createQueryBuilder('a')
+      .where(
+        new Brackets((where) => {
+          where
+            .where('a.vehicle_id = :vehicleId', {
+              vehicleId: assignment.vehicleId,
+            })
+            .orWhere('a.meter_id = :meterId', { meterId: assignment.meterId });
+        }),
+      )
+      .andWhere('(a.effective_until IS NULL OR a.effective_until > :from)', {
+        from: assignment.effectiveFrom,
+      });
+
+    if (assignment.effectiveUntil) {
+      qb.andWhere('a.effective_from < :until', {
+        until: assignment.effectiveUntil,
+      });
+    }
+    if (assignment.id) {
+      qb.andWhere('a.id != :id', { id: assignment.id });
+    }
+
+    const overlapping = await qb.getOne();
+    if (overlapping) {
+      const side =
+        overlapping.vehicleId === assignment.vehicleId
+          ? `vehicle ${assignment.vehicleId}`
+          : `meter ${assignment.meterId}`;
+      throw new ConflictException(
+        `Assignment overlaps existing assignment ${overlapping.id} for ${side}`,
+      );
+    }
+  }
+}
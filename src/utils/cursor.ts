@@ -0,0 +1,40 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Opaque keyset pagination cursor: the sort key and id of the last row of
+ * a page, plus the sort it was produced under so it cannot be replayed
+ * against a different ordering.
+ */
+export interface PageCursor {
+  sort: string;
+  value: string | number;
+  id: string;
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(encoded: string, sort: string): PageCursor {
+  let cursor: PageCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Malformed cursor');
+  }
+
+  if (
+    !cursor ||
+    typeof cursor.id !== 'string' ||
+    (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')
+  ) {
+    throw new BadRequestException('Malformed cursor');
+  }
+  if (cursor.sort !== sort) {
+    throw new BadRequestException(
+      'Cursor was issued for a different sort order; restart from the first page',
+    );
+  }
+
+  return cursor;
+}
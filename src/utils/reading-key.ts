@@ -0,0 +1,7 @@
+/**
+ * Identity of a reading: one device, one instant. Matches the unique
+ * (device_id, timestamp) index on the history tables.
+ */
+export function readingKey(deviceId: string, timestamp: string | Date): string {
+  return `${deviceId}|${new Date(timestamp).getTime()}`;
+}
@@ -0,0 +1,39 @@
+import { plainToInstance, ClassConstructor } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+
+export type ReadingValidation<T> =
+  | { valid: true; value: T }
+  | { valid: false; reason: string };
+
+/**
+ * Validate one reading against its DTO with the same rules the global
+ * ValidationPipe applies, so callers that accept readings one by one (batch
+ * reports, streams, brokers) reject exactly what a single POST would.
+ */
+export async function validateReading<T extends object>(
+  dto: ClassConstructor<T>,
+  plain: unknown,
+): Promise<ReadingValidation<T>> {
+  if (plain === null || typeof plain !== 'object' || Array.isArray(plain)) {
+    return { valid: false, reason: 'reading must be an object' };
+  }
+
+  const value = plainToInstance(dto, plain);
+  const errors = await validate(value, {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, reason: flattenErrors(errors).join('; ') };
+  }
+
+  return { valid: true, value };
+}
+
+function flattenErrors(errors: ValidationError[]): string[] {
+  return errors.flatMap((error) => [
+    ...Object.values(error.constraints ?? {}),
+    ...flattenErrors(error.children ?? []),
+  ]);
+}
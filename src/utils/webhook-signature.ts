@@ -0,0 +1,49 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-alert-signature';
+
+/**
+ * Signature header value for a webhook body: `t=<unix seconds>,v1=<hex>`,
+ * where v1 is HMAC-SHA256 over `<t>.<body>` with the webhook secret.
+ * Binding the timestamp lets receivers reject replayed requests.
+ */
+export function signWebhook(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Receiver-side check of a signature header, rejecting signatures older
+ * than `toleranceSeconds`.
+ */
+export function verifyWebhook(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now: number = Math.floor(Date.now() / 1000),
+): boolean {
+  const parts = new Map(
+    header.split(',').map((part) => part.split('=', 2) as [string, string]),
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    signWebhook(secret, body, timestamp).split('v1=')[1],
+  );
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,265 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { AlertWebhookService } from '../src/services/alert-webhook.service';
+import { AlertEvent, AlertWebhook } from '../src/entities/alert-webhook.entity';
+import {
+  AlertDelivery,
+  DeliveryStatus,
+} from '../src/entities/alert-delivery.entity';
+import { AlertDto } from '../src/dto/alert.dto';
+import { verifyWebhook } from '../src/utils/webhook-signature';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('AlertWebhookService', () => {
+  let service: AlertWebhookService;
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  // Status codes the stub answers with, in order; 200 once exhausted
+  let responses: number[];
+
+  const secret = 'stub-secret-0123456789';
+
+  const mockWebhookRepo = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data) => data),
+    save: jest.fn((entity) => Promise.resolve({ id: 'hook-1', ...entity })),
+  };
+
+  const mockDeliveryRepo = {
+    insert: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockDataSource = {
+    query: jest.fn(),
+  };
+
+  const alert = { id: 'alert-1', deviceId: 'VEHICLE_001' } as AlertDto;
+
+  const claimed = (attempts = 0) => ({
+    id: 'delivery-1',
+    event: AlertEvent.OPENED,
+    payload: { event: 'alert.opened', alert },
+    attempts,
+    url: `${baseUrl}/hook`,
+    secret,
+  });
+
+  beforeAll(async () => {
+    // Local stand-in for a receiver, so requests go over real HTTP
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    // Nothing due unless a test says otherwise
+    mockDataSource.query.mockReset().mockResolvedValue([]);
+    received = [];
+    responses = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertWebhookService,
+        {
+          provide: getRepositoryToken(AlertWebhook),
+          useValue: mockWebhookRepo,
+        },
+        {
+          provide: getRepositoryToken(AlertDelivery),
+          useValue: mockDeliveryRepo,
+        },
+        { provide: DataSource, useValue: mockDataSource },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, fallback) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AlertWebhookService>(AlertWebhookService);
+  });
+
+  describe('flush', () => {
+    it('should POST a signed payload the receiver can verify', async () => {
+      mockDataSource.query.mockResolvedValueOnce([claimed()]);
+
+      await service.flush();
+
+      expect(received).toHaveLength(1);
+      const [request] = received;
+      expect(request.headers['x-alert-event']).toBe('opened');
+      expect(request.headers['x-alert-delivery']).toBe('delivery-1');
+      expect(
+        verifyWebhook(
+          secret,
+          request.body,
+          request.headers['x-alert-signature'] as string,
+        ),
+      ).toBe(true);
+      expect(
+        verifyWebhook(
+          'wrong-secret-0123456',
+          request.body,
+          request.headers['x-alert-signature'] as string,
+        ),
+      ).toBe(false);
+      expect(JSON.parse(request.body)).toEqual({
+        event: 'alert.opened',
+        alert,
+      });
+      expect(mockDeliveryRepo.update).toHaveBeenCalledWith(
+        'delivery-1',
+        expect.objectContaining({
+          status: DeliveryStatus.DELIVERED,
+          attempts: 1,
+          responseStatus: 200,
+        }),
+      );
+    });
+
+    it('should back off exponentially after a failed attempt', async () => {
+      responses = [500];
+      mockDataSource.query.mockResolvedValueOnce([claimed(2)]);
+      const before = Date.now();
+
+      await service.flush();
+
+      const [id, update] = mockDeliveryRepo.update.mock.calls[0];
+      expect(id).toBe('delivery-1');
+      expect(update).toMatchObject({
+        status: DeliveryStatus.PENDING,
+        attempts: 3,
+        responseStatus: 500,
+        lastError: 'HTTP 500',
+      });
+      // Third attempt: 30s * 2^2
+      const delay = update.nextAttemptAt.getTime() - before;
+      expect(delay).toBeGreaterThanOrEqual(120 * 1000);
+      expect(delay).toBeLessThan(121 * 1000);
+    });
+
+    it('should give up after ALERT_WEBHOOK_MAX_ATTEMPTS', async () => {
+      responses = [503];
+      mockDataSource.query.mockResolvedValueOnce([claimed(5)]);
+
+      await service.flush();
+
+      expect(mockDeliveryRepo.update.mock.calls[0][1]).toMatchObject({
+        status: DeliveryStatus.FAILED,
+        attempts: 6,
+      });
+    });
+
+    it('should record an unreachable receiver as a failed attempt', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        { ...claimed(), url: 'http://127.0.0.1:1/' },
+      ]);
+
+      await service.flush();
+
+      expect(mockDeliveryRepo.update.mock.calls[0][1]).toMatchObject({
+        status: DeliveryStatus.PENDING,
+        attempts: 1,
+        responseStatus: null,
+      });
+    });
+
+    it('should only claim deliveries of enabled webhooks, skipping locked ones', async () => {
+      await service.flush();
+
+      const [sql] = mockDataSource.query.mock.calls[0];
+      expect(sql).toContain('AND w2.enabled');
+      expect(sql).toContain('FOR UPDATE OF d2 SKIP LOCKED');
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should queue a delivery per enabled webhook subscribed to the event', async () => {
+      mockWebhookRepo.find.mockResolvedValueOnce([
+        { id: 'hook-1', events: [AlertEvent.OPENED, AlertEvent.RESOLVED] },
+        { id: 'hook-2', events: [AlertEvent.RESOLVED] },
+      ]);
+
+      await service.enqueue(alert, AlertEvent.OPENED);
+
+      const [rows] = mockDeliveryRepo.insert.mock.calls[0];
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        webhookId: 'hook-1',
+        alertId: 'alert-1',
+        event: AlertEvent.OPENED,
+        payload: { event: 'alert.opened', alert },
+      });
+      await service.flush();
+    });
+
+    it('should store nothing without subscribers', async () => {
+      mockWebhookRepo.find.mockResolvedValueOnce([]);
+
+      await service.enqueue(alert, AlertEvent.ACKNOWLEDGED);
+
+      expect(mockDeliveryRepo.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('test', () => {
+    it('should send a signed ping straight away', async () => {
+      mockWebhookRepo.findOne.mockResolvedValueOnce({
+        id: 'hook-1',
+        url: `${baseUrl}/hook`,
+        secret,
+      });
+
+      const result = await service.test('hook-1');
+
+      expect(result).toEqual({
+        delivered: true,
+        responseStatus: 200,
+        error: null,
+      });
+      expect(JSON.parse(received[0].body).event).toBe('ping');
+      expect(mockDeliveryRepo.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    it('should generate a secret and return it once', async () => {
+      const created = await service.create({ url: `${baseUrl}/hook` });
+
+      expect(created.secret).toMatch(/^[0-9a-f]{48}$/);
+      expect(created.events).toEqual(Object.values(AlertEvent));
+
+      mockWebhookRepo.find.mockResolvedValueOnce([
+        { ...created, createdAt: new Date() },
+      ]);
+      const [listed] = await service.findAll();
+      expect(listed).not.toHaveProperty('secret');
+    });
+  });
+});
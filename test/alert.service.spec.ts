@@ -0,0 +1,339 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { AlertService } from '../src/services/alert.service';
+import { AlertWebhookService } from '../src/services/alert-webhook.service';
+import { AnalyticsService } from '../src/services/analytics.service';
+import {
+  AlertRule,
+  AlertRuleKind,
+  AlertSeverity,
+} from '../src/entities/alert-rule.entity';
+import { Alert, AlertStatus } from '../src/entities/alert.entity';
+import { AlertEvent } from '../src/entities/alert-webhook.entity';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+
+describe('AlertService', () => {
+  let service: AlertService;
+
+  const seenAt = new Date('2026-02-09T10:30:00Z');
+
+  const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+    id: 'rule-1',
+    name: 'Battery overheating',
+    kind: AlertRuleKind.BATTERY_TEMP_ABOVE,
+    threshold: '55.000' as unknown as number,
+    severity: AlertSeverity.CRITICAL,
+    cooldownSeconds: 900,
+    enabled: true,
+    createdAt: seenAt,
+    updatedAt: seenAt,
+    ...overrides,
+  });
+
+  const alert = (overrides: Partial<Alert> = {}): Alert => ({
+    id: 'alert-1',
+    ruleId: 'rule-1',
+    kind: AlertRuleKind.BATTERY_TEMP_ABOVE,
+    deviceType: DeviceType.VEHICLE,
+    deviceId: 'VEHICLE_001',
+    status: AlertStatus.OPEN,
+    severity: AlertSeverity.CRITICAL,
+    message: 'Battery temperature 61.2 above 55',
+    value: '61.2000' as unknown as number,
+    occurrences: 1,
+    openedAt: seenAt,
+    lastSeenAt: seenAt,
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    resolvedAt: null,
+    resolution: null,
+    ...overrides,
+  });
+
+  const vehicleRow = (vehicleId: string, batteryTemp: string) => ({
+    vehicle_id: vehicleId,
+    soc: '80.00',
+    battery_temp: batteryTemp,
+    last_update_timestamp: seenAt,
+    cursor_at: '2026-02-09T10:30:00.000000Z',
+  });
+
+  const mockRuleRepo = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data) => data),
+    save: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockAlertRepo = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findBy: jest.fn(),
+    save: jest.fn((entity) => Promise.resolve(entity)),
+  };
+
+  const mockQueryRunner = {
+    connect: jest.fn(),
+    query: jest.fn(),
+    release: jest.fn(),
+  };
+
+  const mockDataSource = {
+    query: jest.fn(),
+    createQueryRunner: jest.fn(() => mockQueryRunner),
+  };
+
+  const mockAnalyticsService = {
+    getVehicleHealth: jest.fn(),
+  };
+
+  const mockWebhookService = {
+    enqueue: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRuleRepo.find.mockResolvedValue([rule()]);
+    mockAlertRepo.find.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertService,
+        { provide: getRepositoryToken(AlertRule), useValue: mockRuleRepo },
+        { provide: getRepositoryToken(Alert), useValue: mockAlertRepo },
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: AnalyticsService, useValue: mockAnalyticsService },
+        { provide: AlertWebhookService, useValue: mockWebhookService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, fallback) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AlertService>(AlertService);
+  });
+
+  describe('evaluateReadings', () => {
+    it('should open an alert and notify webhooks when a threshold is crossed', async () => {
+      mockDataSource.query
+        // bump unresolved, reopen within cooldown, insert
+        .mockResolvedValueOnce([[], 0])
+        .mockResolvedValueOnce([[], 0])
+        .mockResolvedValueOnce([{ id: 'alert-1' }]);
+      mockAlertRepo.findBy.mockResolvedValueOnce([alert()]);
+
+      await service.evaluateReadings(DeviceType.VEHICLE, [
+        vehicleRow('VEHICLE_001', '61.2'),
+        vehicleRow('VEHICLE_002', '31.0'),
+      ]);
+
+      expect(mockDataSource.query).toHaveBeenCalledTimes(3);
+      const [sql, params] = mockDataSource.query.mock.calls[2];
+      expect(sql).toContain(
+        "ON CONFLICT (rule_id, device_id) WHERE status <> 'resolved' DO NOTHING",
+      );
+      expect(params[1]).toEqual(['VEHICLE_001']);
+      expect(params[4]).toEqual(['Battery temperature 61.2 above 55']);
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'alert-1', value: 61.2 }),
+        AlertEvent.OPENED,
+      );
+    });
+
+    it('should only count a repeat while the alert is unresolved', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        [{ device_id: 'VEHICLE_001' }],
+        1,
+      ]);
+
+      await service.evaluateReadings(DeviceType.VEHICLE, [
+        vehicleRow('VEHICLE_001', '62.0'),
+      ]);
+
+      expect(mockDataSource.query).toHaveBeenCalledTimes(1);
+      expect(mockDataSource.query.mock.calls[0][1][5]).toBe(1);
+      expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should silently reopen an alert that recurs within the cooldown', async () => {
+      const now = Date.now();
+      mockDataSource.query
+        .mockResolvedValueOnce([[], 0])
+        .mockResolvedValueOnce([[{ device_id: 'VEHICLE_001' }], 1]);
+
+      await service.evaluateReadings(DeviceType.VEHICLE, [
+        vehicleRow('VEHICLE_001', '58.0'),
+      ]);
+
+      expect(mockDataSource.query).toHaveBeenCalledTimes(2);
+      const resolvedAfter: Date = mockDataSource.query.mock.calls[1][1][5];
+      expect(now - resolvedAfter.getTime()).toBeGreaterThanOrEqual(
+        900 * 1000 - 50,
+      );
+      expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should resolve an active alert once the reading is back in range', async () => {
+      mockAlertRepo.find.mockResolvedValueOnce([
+        { ruleId: 'rule-1', deviceId: 'VEHICLE_001' },
+      ]);
+      mockDataSource.query.mockResolvedValueOnce([[{ id: 'alert-1' }], 1]);
+      mockAlertRepo.findBy.mockResolvedValueOnce([
+        alert({ status: AlertStatus.RESOLVED, resolvedAt: seenAt }),
+      ]);
+
+      await service.evaluateReadings(DeviceType.VEHICLE, [
+        vehicleRow('VEHICLE_001', '40.0'),
+      ]);
+
+      expect(mockDataSource.query).toHaveBeenCalledTimes(1);
+      expect(mockDataSource.query.mock.calls[0][0]).toContain(
+        "resolution = 'cleared'",
+      );
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ status: AlertStatus.RESOLVED }),
+        AlertEvent.RESOLVED,
+      );
+    });
+
+    it('should not query when nothing holds and nothing is active', async () => {
+      await service.evaluateReadings(DeviceType.VEHICLE, [
+        vehicleRow('VEHICLE_001', '40.0'),
+      ]);
+      await service.evaluateReadings(DeviceType.METER, [
+        { meter_id: 'METER_001', voltage: '180.0', cursor_at: '' },
+      ]);
+
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+      // Rules and active alerts are cached after the first load
+      expect(mockRuleRepo.find).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('observe', () => {
+    it('should never throw into ingestion', async () => {
+      mockRuleRepo.find.mockRejectedValueOnce(new Error('DB down'));
+
+      expect(() =>
+        service.observe(DeviceType.VEHICLE, [vehicleRow('VEHICLE_001', '61')]),
+      ).not.toThrow();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('evaluateHealth', () => {
+    it('should raise for critical vehicles and resolve the rest', async () => {
+      mockRuleRepo.find.mockResolvedValueOnce([
+        rule({ kind: AlertRuleKind.VEHICLE_CRITICAL, threshold: null }),
+      ]);
+      mockAnalyticsService.getVehicleHealth.mockResolvedValueOnce([
+        {
+          vehicleId: 'VEHICLE_001',
+          efficiencyRatio: 0.62,
+          health: {
+            status: 'critical',
+            reasons: ['efficiency 0.62 below 0.75'],
+            completenessPct: 98,
+          },
+          policy: { profile: 'default', version: 1 },
+        },
+        {
+          vehicleId: 'VEHICLE_002',
+          efficiencyRatio: 0.9,
+          health: { status: 'healthy', reasons: [], completenessPct: 100 },
+          policy: { profile: 'default', version: 1 },
+        },
+      ]);
+      mockDataSource.query
+        .mockResolvedValueOnce([[{ device_id: 'VEHICLE_001' }], 1])
+        .mockResolvedValueOnce([[], 0]);
+
+      await service.evaluateHealth(seenAt);
+
+      expect(mockAnalyticsService.getVehicleHealth).toHaveBeenCalledWith({
+        from: new Date('2026-02-09T09:30:00Z'),
+        to: seenAt,
+      });
+      const [bumpSql, bumpParams] = mockDataSource.query.mock.calls[0];
+      expect(bumpSql).toContain('occurrences = a.occurrences + $6');
+      expect(bumpParams[4]).toEqual([
+        'Vehicle health critical under default v1: efficiency 0.62 below 0.75',
+      ]);
+      const [clearSql, clearParams] = mockDataSource.query.mock.calls[1];
+      expect(clearSql).toContain('NOT (device_id = ANY($2::varchar[]))');
+      expect(clearParams).toEqual(['rule-1', ['VEHICLE_001']]);
+    });
+
+    it('should skip the health report without vehicle_critical rules', async () => {
+      await service.evaluateHealth(seenAt);
+
+      expect(mockAnalyticsService.getVehicleHealth).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createRule', () => {
+    it('should require a threshold for reading rules', async () => {
+      await expect(
+        service.createRule({
+          name: 'Low voltage',
+          kind: AlertRuleKind.VOLTAGE_BELOW,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a threshold for vehicle_critical', async () => {
+      await expect(
+        service.createRule({
+          name: 'Critical vehicles',
+          kind: AlertRuleKind.VEHICLE_CRITICAL,
+          threshold: 1,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should map a duplicate name to a conflict', async () => {
+      mockRuleRepo.save.mockRejectedValueOnce({ code: '23505' });
+
+      await expect(
+        service.createRule({
+          name: 'Battery overheating',
+          kind: AlertRuleKind.BATTERY_TEMP_ABOVE,
+          threshold: 55,
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('acknowledge', () => {
+    it('should acknowledge an open alert and notify webhooks', async () => {
+      mockAlertRepo.findOne.mockResolvedValueOnce(alert());
+
+      const result = await service.acknowledge('alert-1', 'ops-oncall');
+
+      expect(result.status).toBe(AlertStatus.ACKNOWLEDGED);
+      expect(result.acknowledgedBy).toBe('ops-oncall');
+      expect(mockWebhookService.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ status: AlertStatus.ACKNOWLEDGED }),
+        AlertEvent.ACKNOWLEDGED,
+      );
+    });
+
+    it('should refuse to acknowledge a resolved alert', async () => {
+      mockAlertRepo.findOne.mockResolvedValueOnce(
+        alert({ status: AlertStatus.RESOLVED, resolvedAt: seenAt }),
+      );
+
+      await expect(service.acknowledge('alert-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockWebhookService.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,631 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DataSource, Repository } from 'typeorm';
+import { AnalyticsService } from '../src/services/analytics.service';
+import { MeterTelemetryHistory } from '../src/entities/meter-telemetry-history.entity';
+import { VehicleTelemetryHistory } from '../src/entities/vehicle-telemetry-history.entity';
+import { PerformanceBucket } from '../src/dto/performance-query.dto';
+import { RollupService } from '../src/services/rollup.service';
+import { VehicleRankBy } from '../src/dto/fleet-analytics.dto';
+import { HealthPolicyService } from '../src/services/health-policy.service';
+import { HealthPolicy } from '../src/entities/health-policy.entity';
+import { VehicleHealthProfile } from '../src/entities/vehicle-health-profile.entity';
+import { ConfigService } from '@nestjs/config';
+import { PGlite } from '@electric-sql/pglite';
+
+describe('AnalyticsService', () => {
+  let service: AnalyticsService;
+  let healthPolicyService: HealthPolicyService;
+
+  // Decimal columns arrive as strings, as from pg
+  const defaultPolicy = {
+    profile: 'default',
+    version: 1,
+    healthyEfficiency: '0.8500',
+    degradedEfficiency: '0.7500',
+    degradedBatteryTemp: null,
+    criticalBatteryTemp: null,
+    degradedCompletenessPct: null,
+    criticalCompletenessPct: null,
+  } as unknown as HealthPolicy;
+
+  const mockDataSource = {
+    query: jest.fn(),
+  };
+
+  const mockRollupService = {
+    coveredUntil: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalyticsService,
+        {
+          provide: getRepositoryToken(VehicleTelemetryHistory),
+          useClass: Repository,
+        },
+        {
+          provide: getRepositoryToken(MeterTelemetryHistory),
+          useClass: Repository,
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: RollupService,
+          useValue: mockRollupService,
+        },
+        HealthPolicyService,
+        { provide: getRepositoryToken(HealthPolicy), useValue: {} },
+        { provide: getRepositoryToken(VehicleHealthProfile), useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AnalyticsService>(AnalyticsService);
+    healthPolicyService = module.get<HealthPolicyService>(HealthPolicyService);
+    jest.spyOn(healthPolicyService, 'resolve').mockResolvedValue(defaultPolicy);
+    jest
+      .spyOn(healthPolicyService, 'resolveMany')
+      .mockImplementation(
+        async (vehicleIds) =>
+          new Map(vehicleIds.map((vehicleId) => [vehicleId, defaultPolicy])),
+      );
+  });
+
+  describe('resolveWindow', () => {
+    it('should default to the 24 hours before `to`', () => {
+      const window = service.resolveWindow(undefined, '2026-02-09T00:00:00Z');
+
+      expect(window.from.toISOString()).toBe('2026-02-08T00:00:00.000Z');
+      expect(window.to.toISOString()).toBe('2026-02-09T00:00:00.000Z');
+    });
+
+    it('should reject an empty or inverted window', () => {
+      expect(() =>
+        service.resolveWindow('2026-02-09T00:00:00Z', '2026-02-09T00:00:00Z'),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('getVehiclePerformance', () => {
+    it('should compute efficiency from assigned meters only', async () => {
+      mockDataSource.query
+        .mockResolvedValueOnce([
+          {
+            vehicle_id: 'VEHICLE_001',
+            reading_count: '60',
+            total_kwh_delivered_dc: '85',
+            avg_battery_temp: '35.25',
+            period_start: '2026-02-09T10:00:00Z',
+            period_end: '2026-02-09T10:59:00Z',
+          },
+        ])
+        .mockResolvedValueOnce([
+          { total_kwh_consumed_ac: '100', meter_ids: ['METER_001'] },
+        ]);
+
+      const result = await service.getVehiclePerformance(
+        'VEHICLE_001',
+        service.resolveWindow('2026-02-09T10:00:00Z', '2026-02-09T11:00:00Z'),
+      );
+
+      expect(result.efficiencyRatio).toBe(0.85);
+      expect(result.healthStatus).toBe('healthy');
+      expect(result.completenessPct).toBe(100);
+      expect(result.healthPolicy).toEqual({ profile: 'default', version: 1 });
+      expect(result.meterIds).toEqual(['METER_001']);
+      expect(mockDataSource.query.mock.calls[1][0]).toContain(
+        'vehicle_meter_assignment',
+      );
+    });
+
+    it('should judge health by a pinned policy version', async () => {
+      mockDataSource.query
+        .mockResolvedValueOnce([
+          {
+            vehicle_id: 'VEHICLE_001',
+            reading_count: '60',
+            total_kwh_delivered_dc: '80',
+            avg_battery_temp: '35.25',
+            period_start: '2026-02-09T10:00:00Z',
+            period_end: '2026-02-09T10:59:00Z',
+          },
+        ])
+        .mockResolvedValueOnce([
+          { total_kwh_consumed_ac: '100', meter_ids: ['METER_001'] },
+        ]);
+      const window = service.resolveWindow(
+        '2026-02-09T10:00:00Z',
+        '2026-02-09T11:00:00Z',
+      );
+
+      const result = await service.getVehiclePerformance('VEHICLE_001', window, {
+        profile: 'default',
+        version: 1,
+      });
+
+      expect(healthPolicyService.resolve).toHaveBeenCalledWith(
+        'VEHICLE_001',
+        window.to,
+        { profile: 'default', version: 1 },
+      );
+      expect(result.healthStatus).toBe('degraded');
+      expect(result.healthReasons).toEqual(['efficiency 0.8 below 0.85']);
+    });
+
+    it('should sum valid deltas and report anomalies separately', async () => {
+      mockDataSource.query
+        .mockResolvedValueOnce([
+          {
+            vehicle_id: 'VEHICLE_001',
+            reading_count: '58',
+            anomaly_count: '2',
+            total_kwh_delivered_dc: '85',
+            anomalous_kwh_delivered_dc: '1.5',
+            avg_battery_temp: '35.25',
+            period_start: '2026-02-09T10:00:00Z',
+            period_end: '2026-02-09T10:59:00Z',
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            total_kwh_consumed_ac: '100',
+            anomalous_kwh_consumed_ac: '0.25',
+            meter_ids: ['METER_001'],
+          },
+        ]);
+
+      const result = await service.getVehiclePerformance(
+        'VEHICLE_001',
+        service.resolveWindow('2026-02-09T10:00:00Z', '2026-02-09T11:00:00Z'),
+      );
+
+      expect(result).toMatchObject({
+        totalKwhDeliveredDc: 85,
+        readingCount: 58,
+        anomalyCount: 2,
+        anomalousKwhDeliveredDc: 1.5,
+        anomalousKwhConsumedAc: 0.25,
+      });
+      const [vehicleSql, meterSql] = mockDataSource.query.mock.calls.map(
+        (call) => call[0],
+      );
+      expect(vehicleSql).toContain(
+        "SUM(kwh_delivered_dc_delta) FILTER (WHERE status = 'valid')",
+      );
+      expect(meterSql).toContain(
+        "SUM(m.kwh_consumed_ac_delta) FILTER (WHERE m.status = 'valid')",
+      );
+    });
+
+    it('should throw when the vehicle has no data in the window', async () => {
+      mockDataSource.query.mockResolvedValueOnce([]);
+
+      await expect(
+        service.getVehiclePerformance(
+          'VEHICLE_404',
+          service.resolveWindow(undefined, '2026-02-09T00:00:00Z'),
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getVehiclePerformanceSeries', () => {
+    it('should return one point per bucket including empty buckets', async () => {
+      mockDataSource.query
+        .mockResolvedValueOnce([
+          {
+            bucket_start: new Date('2026-02-09T01:00:00Z'),
+            reading_count: '60',
+            total_kwh_delivered_dc: '8.5',
+            avg_battery_temp: '30',
+          },
+        ])
+        .mockResolvedValueOnce([
+          {
+            bucket_start: new Date('2026-02-09T01:00:00Z'),
+            total_kwh_consumed_ac: '10',
+          },
+        ])
+        .mockResolvedValueOnce([{ meter_id: 'METER_001' }]);
+
+      const series = await service.getVehiclePerformanceSeries(
+        'VEHICLE_001',
+        service.resolveWindow('2026-02-09T00:00:00Z', '2026-02-09T03:00:00Z'),
+        PerformanceBucket.ONE_HOUR,
+      );
+
+      expect(series.points).toHaveLength(3);
+      expect(series.points[0].readingCount).toBe(0);
+      expect(series.points[1]).toMatchObject({
+        bucketStart: '2026-02-09T01:00:00.000Z',
+        bucketEnd: '2026-02-09T02:00:00.000Z',
+        efficiencyRatio: 0.85,
+        readingCount: 60,
+      });
+      expect(series.meterIds).toEqual(['METER_001']);
+    });
+
+    it('should refuse windows that produce too many buckets', async () => {
+      await expect(
+        service.getVehiclePerformanceSeries(
+          'VEHICLE_001',
+          service.resolveWindow('2025-01-01T00:00:00Z', '2026-02-09T00:00:00Z'),
+          PerformanceBucket.FIFTEEN_MINUTES,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getFleetReport', () => {
+    const now = new Date('2026-02-09T12:00:00Z');
+
+    it('should read covered days from the rollups and the rest from raw history', async () => {
+      mockRollupService.coveredUntil.mockResolvedValueOnce(
+        Date.parse('2026-02-09T00:00:00Z'),
+      );
+      mockDataSource.query
+        // vehicle rollup
+        .mockResolvedValueOnce([
+          {
+            day: '2026-02-08',
+            reading_count: '1440',
+            anomaly_count: '2',
+            total_kwh_delivered_dc: '85.000',
+            active_devices: '1',
+          },
+        ])
+        // meter rollup
+        .mockResolvedValueOnce([
+          {
+            day: '2026-02-08',
+            reading_count: '1440',
+            anomaly_count: '1',
+            total_kwh_consumed_ac: '100.000',
+            active_devices: '1',
+          },
+        ])
+        // vehicle live tail
+        .mockResolvedValueOnce([
+          {
+            day: '2026-02-09',
+            reading_count: '720',
+            anomaly_count: '0',
+            total_kwh_delivered_dc: '40.000',
+            active_devices: '1',
+          },
+        ])
+        // meter live tail
+        .mockResolvedValueOnce([
+          {
+            day: '2026-02-09',
+            reading_count: '720',
+            anomaly_count: '0',
+            total_kwh_consumed_ac: '50.000',
+            active_devices: '1',
+          },
+        ]);
+
+      const report = await service.getFleetReport(
+        '2026-02-07',
+        '2026-02-09',
+        now,
+      );
+
+      expect(mockDataSource.query.mock.calls[0][0]).toContain(
+        'FROM daily_vehicle_performance',
+      );
+      expect(mockDataSource.query.mock.calls[0][1]).toEqual([
+        '2026-02-07',
+        '2026-02-09',
+      ]);
+      expect(mockDataSource.query.mock.calls[2][1]).toEqual([
+        new Date('2026-02-09T00:00:00Z'),
+        now,
+      ]);
+
+      expect(report.rollupCoveredUntil).toBe('2026-02-09');
+      expect(report.days.map((day) => [day.date, day.source])).toEqual([
+        ['2026-02-07', 'rollup'],
+        ['2026-02-08', 'rollup'],
+        ['2026-02-09', 'live'],
+      ]);
+      expect(report.days[0].vehicleReadingCount).toBe(0);
+      expect(report.days[1]).toMatchObject({
+        totalKwhConsumedAc: 100,
+        totalKwhDeliveredDc: 85,
+        efficiencyRatio: 0.85,
+        anomalyCount: 3,
+      });
+      expect(report.totalKwhConsumedAc).toBe(150);
+      expect(report.totalKwhDeliveredDc).toBe(125);
+      expect(report.efficiencyRatio).toBe(0.8333);
+      expect(report.vehicleReadingCount).toBe(2160);
+    });
+
+    it('should fall back to raw history before the first refresh', async () => {
+      mockRollupService.coveredUntil.mockResolvedValueOnce(null);
+      mockDataSource.query.mockResolvedValue([]);
+
+      const report = await service.getFleetReport(undefined, undefined, now);
+
+      expect(report.days).toHaveLength(30);
+      expect(report.days.every((day) => day.source === 'live')).toBe(true);
+      expect(mockDataSource.query).toHaveBeenCalledTimes(2);
+      expect(mockDataSource.query.mock.calls[0][0]).toContain(
+        'FROM vehicle_telemetry_history',
+      );
+    });
+
+    it('should reject more than a year of days', async () => {
+      await expect(
+        service.getFleetReport('2024-01-01', '2026-02-09', now),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('fleet aggregates', () => {
+    const window = {
+      from: new Date('2026-02-08T00:00:00Z'),
+      to: new Date('2026-02-09T00:00:00Z'),
+    };
+
+    const vehicleStats = (vehicleId: string, efficiency: string) => ({
+      vehicle_id: vehicleId,
+      kwh_ac: '100.000',
+      kwh_dc: String(parseFloat(efficiency) * 100),
+      efficiency,
+      avg_battery_temp: '35.20',
+      max_battery_temp: '41.00',
+      reading_count: '1440',
+      anomaly_count: '0',
+    });
+
+    it('should summarise the fleet with a health distribution', async () => {
+      mockDataSource.query
+        .mockResolvedValueOnce([
+          vehicleStats('VEHICLE_001', '0.9000'),
+          { ...vehicleStats('VEHICLE_007', '0.7800'), max_battery_temp: '58.40' },
+          vehicleStats('VEHICLE_042', '0.6100'),
+        ])
+        .mockResolvedValueOnce([
+          {
+            kwh_ac: '300',
+            kwh_dc: '240',
+            meter_count: '3',
+            avg_battery_temp: '33.812',
+          },
+        ]);
+
+      const summary = await service.getFleetSummary(window);
+
+      expect(summary).toMatchObject({
+        totalKwhConsumedAc: 300,
+        totalKwhDeliveredDc: 240,
+        efficiencyRatio: 0.8,
+        vehicleCount: 3,
+        meterCount: 3,
+        avgBatteryTemp: 33.81,
+        maxBatteryTemp: 58.4,
+        healthDistribution: { healthy: 1, degraded: 1, critical: 1 },
+      });
+      expect(summary.healthPolicies).toEqual([
+        { profile: 'default', version: 1 },
+      ]);
+      expect(healthPolicyService.resolveMany).toHaveBeenCalledWith(
+        ['VEHICLE_001', 'VEHICLE_007', 'VEHICLE_042'],
+        window.to,
+      );
+    });
+
+    it('should rank the least efficient vehicles first and page on', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        vehicleStats('VEHICLE_042', '0.6100'),
+        vehicleStats('VEHICLE_007', '0.7800'),
+        vehicleStats('VEHICLE_001', '0.9000'),
+      ]);
+
+      const page = await service.getVehicleLeaderboard(window, { limit: 2 });
+
+      expect(
+        page.items.map((item) => [item.vehicleId, item.healthStatus]),
+      ).toEqual([
+        ['VEHICLE_042', 'critical'],
+        ['VEHICLE_007', 'degraded'],
+      ]);
+      expect(mockDataSource.query.mock.calls[0][0]).toContain(
+        'ORDER BY efficiency ASC, vehicle_id ASC',
+      );
+      expect(page.nextCursor).not.toBeNull();
+
+      mockDataSource.query.mockResolvedValueOnce([]);
+      await service.getVehicleLeaderboard(window, {
+        limit: 2,
+        cursor: page.nextCursor!,
+      });
+
+      expect(mockDataSource.query.mock.calls[1][0]).toContain(
+        'WHERE (efficiency, vehicle_id) > ($4::numeric, $5)',
+      );
+      expect(mockDataSource.query.mock.calls[1][1]).toEqual([
+        window.from,
+        window.to,
+        3,
+        '0.7800',
+        'VEHICLE_007',
+      ]);
+    });
+
+    it('should list the hottest batteries first', async () => {
+      mockDataSource.query.mockResolvedValueOnce([]);
+
+      await service.getVehicleLeaderboard(window, {
+        sort: VehicleRankBy.MAX_BATTERY_TEMP,
+      });
+
+      expect(mockDataSource.query.mock.calls[0][0]).toContain(
+        'ORDER BY max_battery_temp DESC, vehicle_id DESC',
+      );
+    });
+
+    it('should reject a cursor from another window', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        vehicleStats('VEHICLE_042', '0.6100'),
+        vehicleStats('VEHICLE_007', '0.7800'),
+      ]);
+      const page = await service.getVehicleLeaderboard(window, { limit: 1 });
+
+      await expect(
+        service.getVehicleLeaderboard(
+          { ...window, to: new Date('2026-02-10T00:00:00Z') },
+          { limit: 1, cursor: page.nextCursor! },
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse windows longer than 31 days', async () => {
+      await expect(
+        service.getChargerLeaderboard(
+          { from: new Date('2026-01-01T00:00:00Z'), to: window.to },
+          {},
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('site aggregates', () => {
+    const window = {
+      from: new Date('2026-02-08T00:00:00Z'),
+      to: new Date('2026-02-09T00:00:00Z'),
+    };
+
+    const siteStats = (siteId: string, parentId: string | null) => ({
+      site_id: siteId,
+      name: siteId,
+      parent_id: parentId,
+      kwh_ac: '200.000',
+      kwh_dc: '176.000',
+      peak_kwh: '31.25',
+      peak_at: new Date('2026-02-08T18:15:00Z'),
+      meter_count: '4',
+      vehicle_count: '9',
+    });
+
+    it('should report a site with peak demand in kW and its sub-sites', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        siteStats('depot-north', 'region-north'),
+        { ...siteStats('depot-north-yard', 'depot-north'), peak_at: null },
+      ]);
+
+      const report = await service.getSiteReport('depot-north', window);
+
+      expect(report).toMatchObject({
+        siteId: 'depot-north',
+        totalKwhConsumedAc: 200,
+        totalKwhDeliveredDc: 176,
+        efficiencyRatio: 0.88,
+        peakDemandKw: 125,
+        peakDemandAt: '2026-02-08T18:15:00.000Z',
+        meterCount: 4,
+        vehicleCount: 9,
+      });
+      expect(report.children.map((child) => child.siteId)).toEqual([
+        'depot-north-yard',
+      ]);
+      expect(mockDataSource.query.mock.calls[0][1]).toEqual([
+        window.from,
+        window.to,
+        'depot-north',
+        '15 minutes',
+      ]);
+    });
+
+    it('should sum each site\'s AC once however many meters report', async () => {
+      // The report's SQL on an in-process Postgres with just the tables it
+      // reads; PGlite loads lazily, hence --experimental-vm-modules in the
+      // test scripts
+      const db = new PGlite();
+      try {
+        await db.exec(`
+          CREATE TABLE site (id varchar PRIMARY KEY, name varchar, parent_id varchar);
+          CREATE TABLE device (device_type varchar, device_id varchar, site varchar);
+          CREATE TABLE meter_telemetry_history (
+            meter_id varchar, timestamp timestamptz,
+            kwh_consumed_ac_delta decimal(10, 3), status varchar
+          );
+          CREATE TABLE vehicle_meter_assignment (
+            vehicle_id varchar, meter_id varchar,
+            effective_from timestamptz, effective_until timestamptz
+          );
+          CREATE TABLE vehicle_telemetry_history (
+            vehicle_id varchar, timestamp timestamptz,
+            kwh_delivered_dc_delta decimal(10, 3), status varchar
+          );
+          INSERT INTO site VALUES ('depot-a', 'Depot A', NULL);
+          INSERT INTO device VALUES
+            ('meter', 'METER_001', 'depot-a'),
+            ('meter', 'METER_002', 'depot-a'),
+            ('meter', 'METER_003', 'depot-a');
+          INSERT INTO meter_telemetry_history VALUES
+            ('METER_001', '2026-02-08T10:00:00Z', 5, 'valid'),
+            ('METER_002', '2026-02-08T10:05:00Z', 3, 'valid'),
+            ('METER_003', '2026-02-08T10:10:00Z', 2, 'valid'),
+            ('METER_001', '2026-02-08T10:15:00Z', 2, 'valid');
+          INSERT INTO vehicle_meter_assignment VALUES
+            ('VEHICLE_001', 'METER_001', '2026-02-01T00:00:00Z', NULL);
+          INSERT INTO vehicle_telemetry_history VALUES
+            ('VEHICLE_001', '2026-02-08T10:30:00Z', 9.6, 'valid');
+        `);
+        mockDataSource.query.mockImplementation(
+          async (sql: string, params: unknown[]) =>
+            (await db.query(sql, params)).rows,
+        );
+
+        const report = await service.getSiteReport('depot-a', window);
+
+        // Buckets of 10 and 2 kWh
+        expect(report).toMatchObject({
+          totalKwhConsumedAc: 12,
+          totalKwhDeliveredDc: 9.6,
+          efficiencyRatio: 0.8,
+          peakDemandKw: 40,
+          peakDemandAt: '2026-02-08T10:00:00.000Z',
+          meterCount: 3,
+          vehicleCount: 0,
+        });
+      } finally {
+        await db.close();
+      }
+    }, 30000);
+
+    it('should throw for an unknown site', async () => {
+      mockDataSource.query.mockResolvedValueOnce([]);
+
+      await expect(service.getSiteReport('depot-404', window)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should refuse windows longer than 31 days', async () => {
+      await expect(
+        service.getSiteSummaries({
+          from: new Date('2026-01-01T00:00:00Z'),
+          to: window.to,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AnomalyDetectorService } from '../src/services/anomaly-detector.service';
+import { ANOMALY_RULES, AnomalyRule } from '../src/rules/anomaly-rule';
+import { VoltageBandRule } from '../src/rules/voltage-band.rule';
+import { SocJumpRule } from '../src/rules/soc-jump.rule';
+import { NegativeDeltaRule } from '../src/rules/negative-delta.rule';
+import { BatteryTemperatureRule } from '../src/rules/battery-temperature.rule';
+import { FutureTimestampRule } from '../src/rules/future-timestamp.rule';
+import {
+  DeviceType,
+  RegisterEvent,
+} from '../src/entities/device-reporting-mode.entity';
+import { readingKey } from '../src/utils/reading-key';
+
+describe('AnomalyDetectorService', () => {
+  let service: AnomalyDetectorService;
+
+  const rules = [
+    VoltageBandRule,
+    SocJumpRule,
+    NegativeDeltaRule,
+    BatteryTemperatureRule,
+    FutureTimestampRule,
+  ];
+  const receivedAt = new Date('2026-02-09T12:00:00Z');
+  const at = (time: string) => new Date(`2026-02-09T${time}:00Z`);
+
+  const meter = (time: string, overrides = {}) => ({
+    deviceType: DeviceType.METER,
+    deviceId: 'METER_001',
+    timestamp: at(time),
+    voltage: 230,
+    delta: { delta: 0.5, event: null },
+    ...overrides,
+  });
+  const vehicle = (time: string, soc: number, overrides = {}) => ({
+    deviceType: DeviceType.VEHICLE,
+    deviceId: 'VEHICLE_001',
+    timestamp: at(time),
+    soc,
+    batteryTemp: 30,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ...rules,
+        {
+          provide: ANOMALY_RULES,
+          useFactory: (...instances: AnomalyRule[]) => instances,
+          inject: rules,
+        },
+        AnomalyDetectorService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, fallback) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AnomalyDetectorService>(AnomalyDetectorService);
+  });
+
+  const verdictOf = (
+    checks: any[],
+    latest = new Map(),
+    deviceId = checks[0].deviceId,
+    timestamp = checks[0].timestamp,
+  ) =>
+    service
+      .inspect(checks, latest, receivedAt)
+      .get(readingKey(deviceId, timestamp));
+
+  it('should pass a plausible reading', () => {
+    expect(verdictOf([meter('10:00')])).toEqual({
+      status: 'valid',
+      reasons: [],
+      holdBack: false,
+    });
+  });
+
+  it('should flag voltage outside the nominal band', () => {
+    const verdict = verdictOf([meter('10:00', { voltage: 190 })]);
+
+    expect(verdict?.status).toBe('anomaly');
+    expect(verdict?.reasons).toEqual([
+      'voltage-band: voltage 190 V outside nominal band 207-253 V',
+    ]);
+    expect(verdict?.holdBack).toBe(false);
+  });
+
+  it('should flag a register that went backwards', () => {
+    const verdict = verdictOf([
+      meter('10:00', { delta: { delta: null, event: RegisterEvent.RESET } }),
+    ]);
+
+    expect(verdict?.reasons[0]).toMatch(/^negative-delta:/);
+  });
+
+  it('should flag a SoC jump against the live status row', () => {
+    const latest = new Map([
+      ['VEHICLE_001', { timestamp: at('09:59'), soc: 40 }],
+    ]);
+
+    expect(verdictOf([vehicle('10:00', 80)], latest)?.reasons[0]).toMatch(
+      /^soc-jump:/,
+    );
+    expect(verdictOf([vehicle('10:00', 43)], latest)?.status).toBe('valid');
+  });
+
+  it('should compare SoC with the previous reading in the same batch', () => {
+    const verdicts = service.inspect(
+      [vehicle('10:11', 95), vehicle('10:01', 90), vehicle('10:00', 50)],
+      new Map(),
+      receivedAt,
+    );
+    const statusAt = (time: string) =>
+      verdicts.get(readingKey('VEHICLE_001', at(time)))?.status;
+
+    expect(statusAt('10:00')).toBe('valid');
+    // 40% in one minute is over the default 5%/min limit
+    expect(statusAt('10:01')).toBe('anomaly');
+    expect(statusAt('10:11')).toBe('valid');
+  });
+
+  it('should ignore a live status row newer than a late reading', () => {
+    const latest = new Map([
+      ['VEHICLE_001', { timestamp: at('10:30'), soc: 10 }],
+    ]);
+
+    expect(verdictOf([vehicle('10:00', 90)], latest)?.status).toBe('valid');
+  });
+
+  it('should flag an implausible battery temperature', () => {
+    const verdict = verdictOf([vehicle('10:00', 50, { batteryTemp: 150 })]);
+
+    expect(verdict?.reasons[0]).toMatch(/^battery-temperature:/);
+  });
+
+  it('should flag a future timestamp and hold it back from live status', () => {
+    const verdict = verdictOf([meter('13:00')]);
+
+    expect(verdict?.reasons).toEqual([
+      'future-timestamp: timestamp is 3600 s in the future',
+    ]);
+    expect(verdict?.holdBack).toBe(true);
+  });
+
+  it('should record every failed rule', () => {
+    const verdict = verdictOf([meter('13:00', { voltage: 300 })]);
+
+    expect(verdict?.reasons).toHaveLength(2);
+  });
+});
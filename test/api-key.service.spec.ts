@@ -0,0 +1,244 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  ApiKeyService,
+  PLATFORM_ADMIN,
+  hasScope,
+  readApiKey,
+} from '../src/services/api-key.service';
+import { ApiKey, ApiKeyScope } from '../src/entities/api-key.entity';
+import { Tenant } from '../src/entities/tenant.entity';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let stored: ApiKey | null;
+
+  const TENANT_ID = '3f1c2b4a-0000-4000-8000-000000000001';
+  const BOOTSTRAP_KEY = 'bootstrap-secret';
+
+  const mockKeyRepo = {
+    create: jest.fn((data) => ({ ...data })),
+    save: jest.fn((entity) => {
+      stored = {
+        id: 'a1b2c3d4-0000-4000-8000-000000000001',
+        lastUsedAt: null,
+        revokedAt: null,
+        createdAt: new Date('2026-02-09T10:00:00Z'),
+        ...entity,
+      };
+      return Promise.resolve(stored);
+    }),
+    findOne: jest.fn(() => Promise.resolve(stored)),
+    find: jest.fn().mockResolvedValue([]),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockTenantRepo = {
+    exists: jest.fn().mockResolvedValue(true),
+  };
+
+  const config: Record<string, string> = {
+    AUTH_BOOTSTRAP_KEY: BOOTSTRAP_KEY,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    stored = null;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: getRepositoryToken(ApiKey), useValue: mockKeyRepo },
+        { provide: getRepositoryToken(Tenant), useValue: mockTenantRepo },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key, fallback) => config[key] ?? fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  describe('create', () => {
+    it('should return the key once and store only its hash', async () => {
+      const created = await service.create({
+        name: 'depot gateway',
+        scopes: [ApiKeyScope.INGEST],
+        tenantId: TENANT_ID,
+      });
+
+      expect(created.key).toMatch(/^eie_[0-9a-f]{8}_[A-Za-z0-9_-]{43}$/);
+      expect(created.key.slice(4, 12)).toBe(created.prefix);
+      expect(stored!.keyHash).toHaveLength(64);
+      expect(stored!.keyHash).not.toContain(created.key);
+      expect(created).not.toHaveProperty('keyHash');
+    });
+
+    it('should refuse the admin scope on a tenant key', async () => {
+      await expect(
+        service.create({
+          name: 'too broad',
+          scopes: [ApiKeyScope.ADMIN],
+          tenantId: TENANT_ID,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockKeyRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an expiry in the past', async () => {
+      await expect(
+        service.create({
+          name: 'expired',
+          scopes: [ApiKeyScope.READ],
+          expiresAt: '2020-01-01T00:00:00Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse an unknown tenant', async () => {
+      mockTenantRepo.exists.mockResolvedValueOnce(false);
+
+      await expect(
+        service.create({
+          name: 'orphan',
+          scopes: [ApiKeyScope.INGEST],
+          tenantId: TENANT_ID,
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve an issued key to its tenant and scopes', async () => {
+      const { key } = await service.create({
+        name: 'depot gateway',
+        scopes: [ApiKeyScope.INGEST, ApiKeyScope.READ],
+        tenantId: TENANT_ID,
+      });
+
+      await expect(service.authenticate(key)).resolves.toEqual({
+        keyId: stored!.id,
+        tenantId: TENANT_ID,
+        scopes: [ApiKeyScope.INGEST, ApiKeyScope.READ],
+      });
+      expect(mockKeyRepo.findOne).toHaveBeenCalledWith({
+        where: { prefix: stored!.prefix },
+      });
+    });
+
+    it('should reject a key whose secret does not match', async () => {
+      const { key } = await service.create({
+        name: 'depot gateway',
+        scopes: [ApiKeyScope.INGEST],
+      });
+      const tampered = key.slice(0, -1) + (key.endsWith('A') ? 'B' : 'A');
+
+      await expect(service.authenticate(tampered)).resolves.toBeNull();
+    });
+
+    it('should reject malformed keys without a lookup', async () => {
+      await expect(service.authenticate('not-a-key')).resolves.toBeNull();
+      expect(mockKeyRepo.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked and expired keys', async () => {
+      const { key } = await service.create({
+        name: 'depot gateway',
+        scopes: [ApiKeyScope.INGEST],
+      });
+
+      stored!.expiresAt = new Date(Date.now() - 1000);
+      await expect(service.authenticate(key)).resolves.toBeNull();
+
+      stored!.expiresAt = null;
+      stored!.revokedAt = new Date();
+      await expect(service.authenticate(key)).resolves.toBeNull();
+    });
+
+    it('should cache a valid key until it is revoked', async () => {
+      const { id, key } = await service.create({
+        name: 'depot gateway',
+        scopes: [ApiKeyScope.INGEST],
+      });
+
+      await service.authenticate(key);
+      await service.authenticate(key);
+      expect(mockKeyRepo.findOne).toHaveBeenCalledTimes(1);
+
+      await service.revoke(id);
+      await expect(service.authenticate(key)).resolves.toBeNull();
+    });
+
+    it('should record use at most once a minute', async () => {
+      const { key } = await service.create({
+        name: 'depot gateway',
+        scopes: [ApiKeyScope.INGEST],
+      });
+
+      await service.authenticate(key);
+      await service.authenticate(key);
+
+      expect(mockKeyRepo.update).toHaveBeenCalledTimes(1);
+      expect(mockKeyRepo.update).toHaveBeenCalledWith(
+        { id: stored!.id },
+        { lastUsedAt: expect.any(Date) },
+      );
+    });
+
+    it('should accept the bootstrap key as a platform admin', async () => {
+      await expect(service.authenticate(BOOTSTRAP_KEY)).resolves.toBe(
+        PLATFORM_ADMIN,
+      );
+      expect(mockKeyRepo.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should keep the revoked key for auditing', async () => {
+      const { id } = await service.create({
+        name: 'depot gateway',
+        scopes: [ApiKeyScope.INGEST],
+      });
+
+      const revoked = await service.revoke(id);
+
+      expect(revoked.revokedAt).not.toBeNull();
+      expect(mockKeyRepo.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id }),
+        { revokedAt: expect.any(Date) },
+      );
+    });
+
+    it('should throw for an unknown key', async () => {
+      await expect(service.revoke('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('helpers', () => {
+    it('should read the key from X-API-Key or a bearer token', () => {
+      expect(readApiKey({ 'x-api-key': 'eie_k' })).toBe('eie_k');
+      expect(readApiKey({ authorization: 'Bearer eie_k' })).toBe('eie_k');
+      expect(readApiKey({ authorization: 'Basic abc' })).toBeNull();
+      expect(readApiKey({})).toBeNull();
+    });
+
+    it('should let admin imply every other scope', () => {
+      const ingestOnly = {
+        keyId: 'k',
+        tenantId: TENANT_ID,
+        scopes: [ApiKeyScope.INGEST],
+      };
+
+      expect(hasScope(ingestOnly, ApiKeyScope.INGEST)).toBe(true);
+      expect(hasScope(ingestOnly, ApiKeyScope.READ)).toBe(false);
+      expect(hasScope(PLATFORM_ADMIN, ApiKeyScope.READ)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { getDatabaseConfig } from '../src/config/database.config';
+import { TelemetryModule } from '../src/modules/telemetry.module';
+import { IngestionService } from '../src/services/ingestion.service';
+import { BulkLoadService } from '../src/services/bulk-load.service';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+
+// Needs a migrated database from .env; run with `npm run benchmark`
+const describeBenchmark =
+  process.env.BENCHMARK === 'true' ? describe : describe.skip;
+
+const METERS = Number(process.env.BENCHMARK_METERS ?? 200);
+const READINGS_PER_METER = Number(process.env.BENCHMARK_READINGS ?? 250);
+const BATCH_SIZE = 1000;
+
+describeBenchmark('Bulk load throughput', () => {
+  const logger = new Logger('BulkLoadBenchmark');
+  let module: TestingModule;
+  let dataSource: DataSource;
+  let ingestionService: IngestionService;
+  let bulkLoadService: BulkLoadService;
+
+  // One reading per meter per minute, interleaved as devices report
+  const readings = (prefix: string) => {
+    const start = Date.UTC(2026, 0, 1);
+    const generated: object[] = [];
+    for (let minute = 0; minute < READINGS_PER_METER; minute++) {
+      for (let meter = 0; meter < METERS; meter++) {
+        generated.push({
+          meterId: `${prefix}${String(meter).padStart(4, '0')}`,
+          kwhConsumedAc: 1000 + minute * 0.25,
+          voltage: 230 + (meter % 10),
+          timestamp: new Date(start + minute * 60000).toISOString(),
+        });
+      }
+    }
+    return generated;
+  };
+
+  const cleanUp = () =>
+    Promise.all(
+      ['meter_telemetry_history', 'current_meter_status'].map((table) =>
+        dataSource.query(
+          `DELETE FROM ${table} WHERE meter_id LIKE 'BENCH\\_%'`,
+        ),
+      ),
+    ).then(() =>
+      dataSource.query(
+        `DELETE FROM device WHERE device_type = 'meter' AND device_id LIKE 'BENCH\\_%'`,
+      ),
+    );
+
+  const throughput = (count: number, ms: number) =>
+    Math.round((count / ms) * 1000);
+
+  beforeAll(async () => {
+    module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({ isGlobal: true, envFilePath: '.env' }),
+        TypeOrmModule.forRootAsync({
+          inject: [ConfigService],
+          useFactory: (configService: ConfigService) =>
+            getDatabaseConfig(configService),
+        }),
+        TelemetryModule,
+      ],
+    }).compile();
+
+    dataSource = module.get(DataSource);
+    ingestionService = module.get(IngestionService);
+    bulkLoadService = module.get(BulkLoadService);
+    await cleanUp();
+  }, 60000);
+
+  afterAll(async () => {
+    await cleanUp();
+    await module.close();
+  }, 60000);
+
+  it('should load faster than the batch path', async () => {
+    const batchReadings = readings('BENCH_BATCH_');
+    const batchStart = Date.now();
+    for (let i = 0; i < batchReadings.length; i += BATCH_SIZE) {
+      await ingestionService.ingestMeterBatch(
+        batchReadings.slice(i, i + BATCH_SIZE),
+      );
+    }
+    const batchMs = Date.now() - batchStart;
+
+    const bulkReadings = readings('BENCH_BULK_');
+    const bulkStart = Date.now();
+    const result = await bulkLoadService.load(DeviceType.METER, bulkReadings);
+    const bulkMs = Date.now() - bulkStart;
+
+    logger.log(
+      `${bulkReadings.length} meter readings from ${METERS} meters: batch path ${batchMs}ms (${throughput(batchReadings.length, batchMs)} readings/s), bulk load ${bulkMs}ms (${throughput(bulkReadings.length, bulkMs)} readings/s), ${(batchMs / bulkMs).toFixed(1)}x faster`,
+    );
+
+    expect(result.inserted).toBe(bulkReadings.length);
+    expect(result.liveStatusUpdated).toBe(METERS);
+    expect(bulkMs).toBeLessThan(batchMs);
+  }, 600000);
+});
@@ -0,0 +1,324 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { Writable } from 'stream';
+import {
+  BulkLoadService,
+  UnparsableReading,
+} from '../src/services/bulk-load.service';
+import { EnergyRegisterService } from '../src/services/energy-register.service';
+import { AnomalyDetectorService } from '../src/services/anomaly-detector.service';
+import { DeviceRegistryService } from '../src/services/device-registry.service';
+import { TenantService } from '../src/services/tenant.service';
+import { ChargingSessionService } from '../src/services/charging-session.service';
+import { RollupService } from '../src/services/rollup.service';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+import { TelemetryStatus } from '../src/entities/current-meter-status.entity';
+import { readingKey } from '../src/utils/reading-key';
+
+// Collects what would be sent to Postgres with COPY
+let copied: string[] = [];
+jest.mock('pg-copy-streams', () => ({
+  from: jest.fn(
+    () =>
+      new (jest.requireActual('stream').Writable)({
+        write(chunk: Buffer, _encoding: string, callback: () => void) {
+          copied.push(chunk.toString());
+          callback();
+        },
+      }) as Writable,
+  ),
+}));
+
+describe('BulkLoadService', () => {
+  let service: BulkLoadService;
+
+  const meterReading = {
+    meterId: 'METER_001',
+    kwhConsumedAc: 125.456,
+    voltage: 240.5,
+    timestamp: '2026-02-09T10:30:00Z',
+  };
+  const vehicleReading = {
+    vehicleId: 'VEHICLE_001',
+    soc: 85.5,
+    kwhDeliveredDc: 42.123,
+    timestamp: '2026-02-09T10:30:00Z',
+  };
+
+  const mockClient = { query: jest.fn((stream) => stream) };
+
+  const mockRunner = {
+    connect: jest.fn(async () => mockClient),
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    rollbackTransaction: jest.fn(),
+    release: jest.fn(),
+    query: jest.fn(),
+    manager: { query: jest.fn() },
+  };
+
+  const mockDataSource = { createQueryRunner: () => mockRunner };
+
+  const mockEnergyRegisterService = {
+    recomputeDeltas: jest.fn(async () => 0),
+  };
+
+  const mockAnomalyDetectorService = {
+    inspect: jest.fn((checks: any[]) => {
+      const [check] = checks;
+      const anomalous = check.voltage > 260;
+      return new Map([
+        [
+          readingKey(check.deviceId, check.timestamp),
+          {
+            status: anomalous ? TelemetryStatus.ANOMALY : TelemetryStatus.VALID,
+            reasons: anomalous ? ['voltage-band: voltage 300 V'] : [],
+            holdBack: false,
+          },
+        ],
+      ]);
+    }),
+  };
+
+  const mockDeviceRegistryService = {
+    screen: jest.fn(async () => ({
+      rejected: new Map<string, string>(),
+      quarantined: new Set<string>(),
+    })),
+  };
+
+  const mockTenantService = {
+    deniedWrites: jest.fn(async () => new Set<string>()),
+  };
+
+  const mockChargingSessionService = { markPending: jest.fn() };
+
+  const mockRollupService = { markWritten: jest.fn() };
+
+  // Answers the load's statements on the runner and its manager
+  const databaseHolds = (
+    spans: any[],
+    refused: { deviceIds: string[]; removed: any[] } = {
+      deviceIds: [],
+      removed: [],
+    },
+  ) => {
+    mockRunner.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM bulk_span')) {
+        return spans;
+      }
+      if (sql.includes('WITH latest')) {
+        return [{ updated: String(spans.length) }];
+      }
+      return [];
+    });
+    mockRunner.manager.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT DISTINCT device_id')) {
+        return [
+          ...new Set([
+            ...spans.map((span) => span.device_id),
+            ...refused.deviceIds,
+          ]),
+        ].map((device_id) => ({ device_id }));
+      }
+      if (sql.includes('DELETE FROM bulk_staging')) {
+        return refused.removed;
+      }
+      return [];
+    });
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    copied = [];
+    databaseHolds([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BulkLoadService,
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: EnergyRegisterService, useValue: mockEnergyRegisterService },
+        {
+          provide: AnomalyDetectorService,
+          useValue: mockAnomalyDetectorService,
+        },
+        {
+          provide: DeviceRegistryService,
+          useValue: mockDeviceRegistryService,
+        },
+        { provide: TenantService, useValue: mockTenantService },
+        {
+          provide: ChargingSessionService,
+          useValue: mockChargingSessionService,
+        },
+        { provide: RollupService, useValue: mockRollupService },
+      ],
+    }).compile();
+
+    service = module.get<BulkLoadService>(BulkLoadService);
+  });
+
+  describe('load', () => {
+    it('should copy valid readings into staging and report invalid ones', async () => {
+      databaseHolds([
+        {
+          device_id: 'METER_001',
+          lo: new Date('2026-02-09T10:30:00Z'),
+          hi: new Date('2026-02-09T10:31:00Z'),
+          inserted: 2,
+          anomalies: 1,
+        },
+      ]);
+
+      const result = await service.load(DeviceType.METER, [
+        meterReading,
+        { ...meterReading, voltage: -1 },
+        { ...meterReading, voltage: 300, timestamp: '2026-02-09T10:31:00Z' },
+        meterReading,
+      ]);
+
+      expect(copied.join('')).toBe(
+        [
+          '0,"METER_001",125.456,240.5,,,2026-02-09T10:30:00.000Z,valid,,false',
+          '2,"METER_001",125.456,300,,,2026-02-09T10:31:00.000Z,anomaly,"voltage-band: voltage 300 V",false',
+          '3,"METER_001",125.456,240.5,,,2026-02-09T10:30:00.000Z,valid,,false',
+          '',
+        ].join('\n'),
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: 'partial',
+          count: 4,
+          inserted: 2,
+          duplicates: 1,
+          rejected: 1,
+          anomalies: 1,
+          devices: 1,
+          liveStatusUpdated: 1,
+          errorsTruncated: false,
+        }),
+      );
+      expect(result.errors).toEqual([
+        { index: 1, readings: 1, reason: expect.stringContaining('voltage') },
+      ]);
+      expect(mockRunner.commitTransaction).toHaveBeenCalled();
+      expect(mockRunner.release).toHaveBeenCalled();
+    });
+
+    it('should quote text fields for CSV', async () => {
+      await service.load(DeviceType.METER, [
+        { ...meterReading, meterId: 'METER,"7"' },
+      ]);
+
+      expect(copied.join('')).toContain('"METER,""7"""');
+    });
+
+    it('should refuse unparsable lines in place', async () => {
+      const result = await service.load(DeviceType.METER, [
+        new UnparsableReading('invalid JSON: Unexpected end of JSON input'),
+        meterReading,
+      ]);
+
+      expect(copied.join('')).toMatch(/^1,"METER_001"/);
+      expect(result.errors).toEqual([
+        {
+          index: 0,
+          readings: 1,
+          reason: 'invalid JSON: Unexpected end of JSON input',
+        },
+      ]);
+    });
+
+    it('should drop every reading of a refused device', async () => {
+      mockDeviceRegistryService.screen.mockResolvedValueOnce({
+        rejected: new Map([['METER_009', 'meter METER_009 is decommissioned']]),
+        quarantined: new Set(['METER_010']),
+      });
+      databaseHolds([], {
+        deviceIds: ['METER_009', 'METER_010'],
+        removed: [
+          { device_id: 'METER_009', readings: '2', first_index: '0' },
+          { device_id: 'METER_010', readings: '1', first_index: '2' },
+        ],
+      });
+
+      const result = await service.load(DeviceType.METER, [
+        { ...meterReading, meterId: 'METER_009' },
+        { ...meterReading, meterId: 'METER_009' },
+        { ...meterReading, meterId: 'METER_010' },
+      ]);
+
+      expect(mockRunner.manager.query).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM bulk_staging'),
+        [['METER_009', 'METER_010']],
+      );
+      expect(result.status).toBe('rejected');
+      expect(result.rejected).toBe(3);
+      expect(result.errors).toEqual([
+        { index: 0, readings: 2, reason: 'meter METER_009 is decommissioned' },
+        {
+          index: 2,
+          readings: 1,
+          reason:
+            'meter METER_010 is not registered; bulk loads do not quarantine',
+        },
+      ]);
+    });
+
+    it('should recompute deltas, queue sessions and mark rollups over each loaded span', async () => {
+      const lo = new Date('2026-02-09T10:30:00Z');
+      const hi = new Date('2026-02-09T11:30:00Z');
+      databaseHolds([
+        { device_id: 'VEHICLE_001', lo, hi, inserted: 61, anomalies: 0 },
+      ]);
+
+      await service.load(DeviceType.VEHICLE, [vehicleReading], 'tenant-1');
+
+      expect(mockTenantService.deniedWrites).toHaveBeenCalledWith(
+        'tenant-1',
+        DeviceType.VEHICLE,
+        ['VEHICLE_001'],
+      );
+      expect(mockEnergyRegisterService.recomputeDeltas).toHaveBeenCalledWith(
+        mockRunner.manager,
+        DeviceType.VEHICLE,
+        [{ deviceId: 'VEHICLE_001', from: lo, to: hi }],
+      );
+      expect(mockChargingSessionService.markPending).toHaveBeenCalledWith(
+        mockRunner.manager,
+        [{ vehicleId: 'VEHICLE_001', timestamp: lo }],
+      );
+      expect(mockRollupService.markWritten).toHaveBeenCalledWith(
+        mockRunner.manager,
+        DeviceType.VEHICLE,
+        [lo],
+      );
+      expect(mockRunner.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO vehicle_telemetry_history'),
+      );
+    });
+
+    it('should roll back the whole load on failure', async () => {
+      mockEnergyRegisterService.recomputeDeltas.mockRejectedValueOnce(
+        new Error('deadlock detected'),
+      );
+      databaseHolds([
+        {
+          device_id: 'METER_001',
+          lo: new Date('2026-02-09T10:30:00Z'),
+          hi: new Date('2026-02-09T10:30:00Z'),
+          inserted: 1,
+          anomalies: 0,
+        },
+      ]);
+
+      await expect(
+        service.load(DeviceType.METER, [meterReading]),
+      ).rejects.toThrow('deadlock detected');
+
+      expect(mockRunner.rollbackTransaction).toHaveBeenCalled();
+      expect(mockRunner.commitTransaction).not.toHaveBeenCalled();
+      expect(mockRunner.release).toHaveBeenCalled();
+    });
+  });
+});
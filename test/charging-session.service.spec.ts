@@ -0,0 +1,326 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { ChargingSessionService } from '../src/services/charging-session.service';
+import {
+  ChargingSession,
+  ChargingSessionStatus,
+} from '../src/entities/charging-session.entity';
+import { decodeCursor } from '../src/utils/cursor';
+
+describe('ChargingSessionService', () => {
+  let service: ChargingSessionService;
+
+  const now = new Date('2026-02-09T10:30:00Z');
+
+  const session = (overrides: Partial<ChargingSession> = {}) =>
+    ({
+      id: '9c1d2e3f-4a5b-4c6d-8e7f-0a1b2c3d4e5f',
+      vehicleId: 'VEHICLE_001',
+      meterId: 'METER_001',
+      status: ChargingSessionStatus.COMPLETED,
+      startedAt: new Date('2026-02-08T18:02:00Z'),
+      endedAt: new Date('2026-02-08T19:41:00Z'),
+      startSoc: '22.50',
+      endSoc: '91.00',
+      kwhDeliveredDc: '51.375',
+      kwhConsumedAc: '58.940',
+      efficiency: '0.8717',
+      peakBatteryTemp: '38.40',
+      readingCount: 100,
+      ...overrides,
+    }) as unknown as ChargingSession;
+
+  const mockQueryBuilder = {
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const mockSessionRepo = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+    findOne: jest.fn(),
+  };
+
+  const mockRunnerManager = { query: jest.fn() };
+
+  const mockRunner = {
+    connect: jest.fn(),
+    release: jest.fn(),
+    query: jest.fn(),
+    manager: mockRunnerManager,
+  };
+
+  const mockDataSource = {
+    createQueryRunner: () => mockRunner,
+    query: jest.fn(),
+    manager: { query: jest.fn() },
+  };
+
+  // Answers the builder's statements: lock, backlog claim, due sessions, build
+  const runnerReturns = (
+    claimed: any[],
+    due: any[],
+    build: () => any = () => [{ upserted: '2', removed: '1' }],
+  ) =>
+    mockRunner.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('pg_try_advisory_lock')) {
+        return [{ locked: true }];
+      }
+      if (sql.includes('DELETE FROM charging_session_backlog')) {
+        return [claimed, claimed.length];
+      }
+      if (sql.includes("status = 'open' AND ended_at")) {
+        return due;
+      }
+      if (sql.includes('WITH claimed')) {
+        return build();
+      }
+      return [];
+    });
+
+  const buildCall = () =>
+    mockRunner.query.mock.calls.find(([sql]) => sql.includes('WITH claimed'));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChargingSessionService,
+        {
+          provide: getRepositoryToken(ChargingSession),
+          useValue: mockSessionRepo,
+        },
+        { provide: DataSource, useValue: mockDataSource },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, fallback) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ChargingSessionService>(ChargingSessionService);
+  });
+
+  describe('markPending', () => {
+    it('should queue each vehicle once with its earliest reading', async () => {
+      const manager = { query: jest.fn() };
+
+      await service.markPending(manager as any, [
+        {
+          vehicleId: 'VEHICLE_002',
+          timestamp: new Date('2026-02-09T10:00:00Z'),
+        },
+        {
+          vehicleId: 'VEHICLE_001',
+          timestamp: new Date('2026-02-09T10:05:00Z'),
+        },
+        {
+          vehicleId: 'VEHICLE_001',
+          timestamp: new Date('2026-02-09T09:55:00Z'),
+        },
+      ]);
+
+      expect(manager.query).toHaveBeenCalledTimes(1);
+      expect(manager.query.mock.calls[0][1]).toEqual([
+        ['VEHICLE_001', 'VEHICLE_002'],
+        [new Date('2026-02-09T09:55:00Z'), new Date('2026-02-09T10:00:00Z')],
+      ]);
+    });
+
+    it('should do nothing without readings', async () => {
+      const manager = { query: jest.fn() };
+
+      await service.markPending(manager as any, []);
+
+      expect(manager.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('build', () => {
+    it('should skip when another instance holds the lock', async () => {
+      mockRunner.query.mockResolvedValueOnce([{ locked: false }]);
+
+      const result = await service.build(now);
+
+      expect(result).toEqual({ vehicles: 0, upserted: 0, removed: 0 });
+      expect(mockRunner.query).toHaveBeenCalledTimes(1);
+      expect(mockRunner.release).toHaveBeenCalled();
+    });
+
+    it('should not run the build without pending vehicles', async () => {
+      runnerReturns([], []);
+
+      const result = await service.build(now);
+
+      expect(result.vehicles).toBe(0);
+      expect(buildCall()).toBeUndefined();
+      expect(mockRunner.query).toHaveBeenCalledWith(
+        'SELECT pg_advisory_unlock(hashtext($1))',
+        ['charging-session-build'],
+      );
+    });
+
+    it('should build backlogged and due vehicles from their earliest time', async () => {
+      runnerReturns(
+        [
+          { vehicle_id: 'VEHICLE_001', since: '2026-02-09T09:00:00Z' },
+          { vehicle_id: 'VEHICLE_002', since: '2026-02-09T10:00:00Z' },
+        ],
+        [{ vehicle_id: 'VEHICLE_001', since: '2026-02-09T08:00:00Z' }],
+      );
+
+      const result = await service.build(now);
+
+      expect(result).toEqual({ vehicles: 2, upserted: 2, removed: 1 });
+      expect(buildCall()[1]).toEqual([
+        ['VEHICLE_001', 'VEHICLE_002'],
+        [new Date('2026-02-09T08:00:00Z'), new Date('2026-02-09T10:00:00Z')],
+        '600 seconds',
+        0.5,
+        new Date('2026-02-09T10:20:00Z'),
+      ]);
+    });
+
+    it('should put claimed vehicles back when the build fails', async () => {
+      runnerReturns(
+        [{ vehicle_id: 'VEHICLE_001', since: '2026-02-09T09:00:00Z' }],
+        [{ vehicle_id: 'VEHICLE_002', since: '2026-02-09T08:00:00Z' }],
+        () => {
+          throw new Error('deadlock detected');
+        },
+      );
+
+      await expect(service.build(now)).rejects.toThrow('deadlock detected');
+
+      expect(mockRunnerManager.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO charging_session_backlog'),
+        [['VEHICLE_001'], [new Date('2026-02-09T09:00:00Z')]],
+      );
+      expect(mockRunner.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('rebuild', () => {
+    it('should reject a start in the future', async () => {
+      await expect(
+        service.rebuild({ from: '2026-02-10T00:00:00Z' }, now),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a start more than 31 days back', async () => {
+      await expect(
+        service.rebuild({ from: '2026-01-01T00:00:00Z' }, now),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should queue the given vehicles once each', async () => {
+      const result = await service.rebuild(
+        {
+          from: '2026-02-01T00:00:00Z',
+          vehicleIds: ['VEHICLE_001', 'VEHICLE_001', 'VEHICLE_002'],
+        },
+        now,
+      );
+
+      expect(result).toEqual({ queued: 2 });
+      expect(mockDataSource.manager.query.mock.calls[0][1]).toEqual([
+        ['VEHICLE_001', 'VEHICLE_002'],
+        [new Date('2026-02-01T00:00:00Z'), new Date('2026-02-01T00:00:00Z')],
+      ]);
+    });
+
+    it('should queue every reporting vehicle when none are given', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        { vehicle_id: 'VEHICLE_001' },
+        { vehicle_id: 'VEHICLE_002' },
+        { vehicle_id: 'VEHICLE_003' },
+      ]);
+
+      const result = await service.rebuild(
+        { from: '2026-02-01T00:00:00Z' },
+        now,
+      );
+
+      expect(result).toEqual({ queued: 3 });
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining('FROM current_vehicle_status'),
+        [new Date('2026-02-01T00:00:00Z')],
+      );
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return a cursor when more sessions follow', async () => {
+      const older = session({
+        id: '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+        startedAt: new Date('2026-02-07T18:00:00Z'),
+      });
+      mockQueryBuilder.getMany.mockResolvedValueOnce([session(), older]);
+
+      const page = await service.findAll({
+        vehicleId: 'VEHICLE_001',
+        limit: 1,
+      });
+
+      expect(mockQueryBuilder.take).toHaveBeenCalledWith(2);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        's.vehicle_id = :vehicleId',
+        { vehicleId: 'VEHICLE_001' },
+      );
+      expect(page.items).toHaveLength(1);
+      expect(decodeCursor(page.nextCursor!, 'started')).toEqual({
+        sort: 'started',
+        value: '2026-02-08T18:02:00.000Z',
+        id: '9c1d2e3f-4a5b-4c6d-8e7f-0a1b2c3d4e5f',
+      });
+    });
+
+    it('should convert decimals and derive the duration', async () => {
+      mockQueryBuilder.getMany.mockResolvedValueOnce([
+        session({ meterId: null, kwhConsumedAc: null, efficiency: null }),
+      ]);
+
+      const page = await service.findAll({});
+
+      expect(page.nextCursor).toBeNull();
+      expect(page.items[0]).toEqual(
+        expect.objectContaining({
+          durationMinutes: 99,
+          startSoc: 22.5,
+          endSoc: 91,
+          kwhDeliveredDc: 51.375,
+          kwhConsumedAc: null,
+          efficiencyRatio: null,
+          peakBatteryTemp: 38.4,
+        }),
+      );
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw when the session does not exist', async () => {
+      mockSessionRepo.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.findOne('9c1d2e3f-4a5b-4c6d-8e7f-0a1b2c3d4e5f'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should return the efficiency ratio', async () => {
+      mockSessionRepo.findOne.mockResolvedValueOnce(session());
+
+      const result = await service.findOne(
+        '9c1d2e3f-4a5b-4c6d-8e7f-0a1b2c3d4e5f',
+      );
+
+      expect(result.efficiencyRatio).toBe(0.8717);
+      expect(result.kwhConsumedAc).toBe(58.94);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { DeviceRegistryService } from '../src/services/device-registry.service';
+import { Device, UnknownDevicePolicy } from '../src/entities/device.entity';
+import { QuarantinedReading } from '../src/entities/quarantined-reading.entity';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+
+describe('DeviceRegistryService', () => {
+  let service: DeviceRegistryService;
+  let registry: Map<string, boolean>;
+
+  // Registered devices as the repository would return them
+  const mockDeviceRepo = {
+    create: jest.fn((data) => ({ ...data })),
+    save: jest.fn((entity) =>
+      Promise.resolve({
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...entity,
+      }),
+    ),
+    find: jest.fn(({ where }) =>
+      Promise.resolve(
+        (where.deviceId.value as string[])
+          .filter((id) => registry.has(id))
+          .map((id) => ({ deviceId: id, active: registry.get(id) })),
+      ),
+    ),
+    findOne: jest.fn(),
+    delete: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockQuarantineRepo = {
+    insert: jest.fn().mockResolvedValue(undefined),
+    delete: jest.fn().mockResolvedValue({ affected: 0 }),
+  };
+
+  // INSERT ... ON CONFLICT DO NOTHING into the registry
+  const mockDataSource = {
+    query: jest.fn((_sql, [, deviceIds]) => {
+      for (const id of deviceIds as string[]) {
+        if (!registry.has(id)) {
+          registry.set(id, true);
+        }
+      }
+      return Promise.resolve([]);
+    }),
+  };
+
+  const config: Record<string, string> = {};
+
+  const createService = async (policy?: UnknownDevicePolicy) => {
+    if (policy) {
+      config.DEVICE_UNKNOWN_POLICY = policy;
+    } else {
+      delete config.DEVICE_UNKNOWN_POLICY;
+    }
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeviceRegistryService,
+        { provide: getRepositoryToken(Device), useValue: mockDeviceRepo },
+        {
+          provide: getRepositoryToken(QuarantinedReading),
+          useValue: mockQuarantineRepo,
+        },
+        { provide: DataSource, useValue: mockDataSource },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key, fallback) => config[key] ?? fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<DeviceRegistryService>(DeviceRegistryService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    registry = new Map([
+      ['METER_001', true],
+      ['METER_002', false],
+    ]);
+    service = await createService();
+  });
+
+  it('should refuse to start with an unknown policy', async () => {
+    await expect(
+      createService('quarantined' as UnknownDevicePolicy),
+    ).rejects.toThrow(
+      'DEVICE_UNKNOWN_POLICY must be one of reject, quarantine, auto_register, not "quarantined"',
+    );
+  });
+
+  describe('screen', () => {
+    it('should register unknown devices under the default policy', async () => {
+      const screening = await service.screen(DeviceType.METER, [
+        'METER_001',
+        'METER_003',
+      ]);
+
+      expect(screening.rejected.size).toBe(0);
+      expect(screening.quarantined.size).toBe(0);
+      expect(registry.get('METER_003')).toBe(true);
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining('auto_registered'),
+        [DeviceType.METER, ['METER_003']],
+      );
+    });
+
+    it('should reject unknown devices under the reject policy', async () => {
+      service = await createService(UnknownDevicePolicy.REJECT);
+
+      const screening = await service.screen(DeviceType.METER, [
+        'METER_001',
+        'METER_0O1',
+      ]);
+
+      expect([...screening.rejected]).toEqual([
+        ['METER_0O1', 'meter METER_0O1 is not registered'],
+      ]);
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+
+    it('should quarantine unknown devices under the quarantine policy', async () => {
+      service = await createService(UnknownDevicePolicy.QUARANTINE);
+
+      const screening = await service.screen(DeviceType.METER, ['METER_009']);
+
+      expect([...screening.quarantined]).toEqual(['METER_009']);
+      expect(registry.has('METER_009')).toBe(false);
+    });
+
+    it('should reject decommissioned devices under every policy', async () => {
+      const screening = await service.screen(DeviceType.METER, ['METER_002']);
+
+      expect(screening.rejected.get('METER_002')).toBe(
+        'meter METER_002 is decommissioned',
+      );
+    });
+
+    it('should serve registered devices from cache', async () => {
+      await service.screen(DeviceType.METER, ['METER_001']);
+      await service.screen(DeviceType.METER, ['METER_001']);
+
+      expect(mockDeviceRepo.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('should see a decommissioning made on this instance at once', async () => {
+      await service.screen(DeviceType.METER, ['METER_001']);
+      mockDeviceRepo.findOne.mockResolvedValueOnce({
+        deviceType: DeviceType.METER,
+        deviceId: 'METER_001',
+        active: true,
+      });
+      await service.update(DeviceType.METER, 'METER_001', { active: false });
+      registry.set('METER_001', false);
+
+      const screening = await service.screen(DeviceType.METER, ['METER_001']);
+
+      expect(screening.rejected.has('METER_001')).toBe(true);
+    });
+  });
+
+  describe('create', () => {
+    it('should map a duplicate device to a conflict', async () => {
+      mockDeviceRepo.save.mockRejectedValueOnce({ code: '23505' });
+
+      await expect(
+        service.create({
+          deviceType: DeviceType.METER,
+          deviceId: 'METER_001',
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should refuse a site that does not exist', async () => {
+      mockDeviceRepo.save.mockRejectedValueOnce({ code: '23503' });
+
+      await expect(
+        service.create({
+          deviceType: DeviceType.METER,
+          deviceId: 'METER_003',
+          site: 'depot-404',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('update', () => {
+    it('should mark an auto-registered device as provisioned', async () => {
+      mockDeviceRepo.findOne.mockResolvedValueOnce({
+        deviceType: DeviceType.VEHICLE,
+        deviceId: 'VEHICLE_001',
+        autoRegistered: true,
+        batteryCapacityKwh: null,
+        nominalVoltage: null,
+      });
+
+      const updated = await service.update(DeviceType.VEHICLE, 'VEHICLE_001', {
+        model: 'eCitaro',
+        batteryCapacityKwh: 396,
+      });
+
+      expect(updated).toMatchObject({
+        model: 'eCitaro',
+        batteryCapacityKwh: 396,
+        autoRegistered: false,
+      });
+    });
+
+    it('should throw for an unregistered device', async () => {
+      mockDeviceRepo.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.update(DeviceType.VEHICLE, 'VEHICLE_404', { active: false }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('quarantine', () => {
+    it('should store readings with the tenant that sent them', async () => {
+      await service.quarantine(DeviceType.METER, 'tenant-a', [
+        { deviceId: 'METER_009', reading: { meterId: 'METER_009' } },
+      ]);
+
+      expect(mockQuarantineRepo.insert).toHaveBeenCalledWith([
+        {
+          deviceType: DeviceType.METER,
+          deviceId: 'METER_009',
+          tenantId: 'tenant-a',
+          reading: { meterId: 'METER_009' },
+        },
+      ]);
+    });
+
+    it('should purge readings older than the retention', async () => {
+      mockQuarantineRepo.delete.mockResolvedValueOnce({ affected: 4 });
+
+      const purged = await service.purgeQuarantine(
+        new Date('2026-02-09T00:00:00Z'),
+      );
+
+      expect(purged).toBe(4);
+      const { receivedAt } = mockQuarantineRepo.delete.mock.calls[0][0];
+      expect(receivedAt.value).toEqual(new Date('2026-02-02T00:00:00Z'));
+    });
+  });
+});
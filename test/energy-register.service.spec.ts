@@ -0,0 +1,273 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { EnergyRegisterService } from '../src/services/energy-register.service';
+import {
+  DeviceReportingMode,
+  DeviceType,
+  ReportingMode,
+  RegisterEvent,
+} from '../src/entities/device-reporting-mode.entity';
+import { readingKey } from '../src/utils/reading-key';
+
+describe('EnergyRegisterService', () => {
+  let service: EnergyRegisterService;
+  let config: Record<string, string>;
+
+  const mockModeRepo = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data) => data),
+    save: jest.fn((data) => Promise.resolve(data)),
+    delete: jest.fn(),
+  };
+
+  const mockManager = {
+    find: jest.fn().mockResolvedValue([]),
+    query: jest.fn().mockResolvedValue([]),
+  };
+
+  const at = (time: string) => new Date(`2026-02-09T${time}:00Z`);
+  const reading = (time: string, value: number) => ({
+    deviceId: 'METER_001',
+    timestamp: at(time),
+    value,
+  });
+  const deltaAt = (plan: any, time: string) =>
+    plan.deltas.get(readingKey('METER_001', at(time)));
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EnergyRegisterService,
+        {
+          provide: getRepositoryToken(DeviceReportingMode),
+          useValue: mockModeRepo,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key, fallback) => config[key] ?? fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<EnergyRegisterService>(EnergyRegisterService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = {};
+    service = await createService();
+  });
+
+  describe('plan', () => {
+    it('should chain deltas from the latest reading without reading history', async () => {
+      const plan = await service.plan(
+        mockManager as any,
+        DeviceType.METER,
+        [reading('10:02', 101.25), reading('10:01', 100.5)],
+        new Map([['METER_001', { timestamp: at('10:00'), value: 100 }]]),
+      );
+
+      expect(deltaAt(plan, '10:01')).toEqual({ delta: 0.5, event: null });
+      expect(deltaAt(plan, '10:02')).toEqual({ delta: 0.75, event: null });
+      expect(plan.corrections).toEqual([]);
+      expect(mockManager.query).not.toHaveBeenCalled();
+    });
+
+    it('should detect a register rollover', async () => {
+      mockManager.find.mockResolvedValueOnce([
+        {
+          deviceType: DeviceType.METER,
+          deviceId: 'METER_001',
+          mode: ReportingMode.CUMULATIVE,
+          registerMax: '99999.999',
+        },
+      ]);
+
+      const plan = await service.plan(
+        mockManager as any,
+        DeviceType.METER,
+        [reading('10:01', 0.3)],
+        new Map([['METER_001', { timestamp: at('10:00'), value: 99999.5 }]]),
+      );
+
+      expect(deltaAt(plan, '10:01')).toEqual({
+        delta: 0.8,
+        event: RegisterEvent.ROLLOVER,
+      });
+    });
+
+    it('should flag a reset and leave its energy unknown', async () => {
+      const plan = await service.plan(
+        mockManager as any,
+        DeviceType.METER,
+        [reading('10:01', 10), reading('10:02', 12)],
+        new Map([['METER_001', { timestamp: at('10:00'), value: 500 }]]),
+      );
+
+      expect(deltaAt(plan, '10:01')).toEqual({
+        delta: null,
+        event: RegisterEvent.RESET,
+      });
+      // Counting resumes from the new register value
+      expect(deltaAt(plan, '10:02')).toEqual({ delta: 2, event: null });
+    });
+
+    it('should use interval readings as their own delta', async () => {
+      mockManager.find.mockResolvedValueOnce([
+        {
+          deviceType: DeviceType.METER,
+          deviceId: 'METER_001',
+          mode: ReportingMode.INTERVAL,
+          registerMax: null,
+        },
+      ]);
+
+      const plan = await service.plan(
+        mockManager as any,
+        DeviceType.METER,
+        [reading('10:01', 0.42)],
+        new Map([['METER_001', { timestamp: at('10:00'), value: 0.4 }]]),
+      );
+
+      expect(deltaAt(plan, '10:01')).toEqual({ delta: 0.42, event: null });
+    });
+
+    it('should leave the first reading of a new device without a delta', async () => {
+      const plan = await service.plan(
+        mockManager as any,
+        DeviceType.METER,
+        [reading('10:00', 100)],
+        new Map(),
+      );
+
+      expect(deltaAt(plan, '10:00')).toEqual({ delta: null, event: null });
+      expect(mockManager.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should slot a late reading between stored ones and correct its successor', async () => {
+      mockManager.query.mockResolvedValueOnce([
+        { timestamp: at('10:00'), value: '100.000', delta: '1.000', event: null },
+        { timestamp: at('10:10'), value: '110.000', delta: '10.000', event: null },
+      ]);
+
+      const plan = await service.plan(
+        mockManager as any,
+        DeviceType.METER,
+        [reading('10:05', 103)],
+        new Map([['METER_001', { timestamp: at('10:10'), value: 110 }]]),
+      );
+
+      expect(deltaAt(plan, '10:05')).toEqual({ delta: 3, event: null });
+      expect(plan.corrections).toEqual([
+        { deviceId: 'METER_001', timestamp: at('10:10'), delta: 7, event: null },
+      ]);
+    });
+
+    it('should skip a late reading that is already stored', async () => {
+      mockManager.query.mockResolvedValueOnce([
+        { timestamp: at('10:00'), value: '100.000', delta: '1.000', event: null },
+        { timestamp: at('10:05'), value: '103.000', delta: '3.000', event: null },
+        { timestamp: at('10:10'), value: '110.000', delta: '7.000', event: null },
+      ]);
+
+      const plan = await service.plan(
+        mockManager as any,
+        DeviceType.METER,
+        [reading('10:05', 103)],
+        new Map([['METER_001', { timestamp: at('10:10'), value: 110 }]]),
+      );
+
+      expect(plan.deltas.size).toBe(0);
+      expect(plan.corrections).toEqual([]);
+    });
+  });
+
+  describe('applyCorrections', () => {
+    it('should update the delta of each corrected reading', async () => {
+      await service.applyCorrections(mockManager as any, DeviceType.VEHICLE, [
+        {
+          deviceId: 'VEHICLE_001',
+          timestamp: at('10:10'),
+          delta: 7,
+          event: null,
+        },
+      ]);
+
+      expect(mockManager.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET kwh_delivered_dc_delta = $1'),
+        [7, null, 'VEHICLE_001', at('10:10')],
+      );
+    });
+  });
+
+  describe('recomputeDeltas', () => {
+    it('should recompute every span in one statement', async () => {
+      mockManager.query.mockResolvedValueOnce([[], 42]);
+
+      const changed = await service.recomputeDeltas(
+        mockManager as any,
+        DeviceType.METER,
+        [
+          { deviceId: 'METER_001', from: at('10:00'), to: at('11:00') },
+          { deviceId: 'METER_002', from: at('10:30'), to: at('10:45') },
+        ],
+      );
+
+      expect(changed).toBe(42);
+      expect(mockManager.query).toHaveBeenCalledTimes(1);
+      expect(mockManager.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE meter_telemetry_history'),
+        expect.arrayContaining([
+          ['METER_001', 'METER_002'],
+          [at('10:00'), at('10:30')],
+          [at('11:00'), at('10:45')],
+          ReportingMode.CUMULATIVE,
+        ]),
+      );
+    });
+
+    it('should not query without spans', async () => {
+      expect(
+        await service.recomputeDeltas(mockManager as any, DeviceType.METER, []),
+      ).toBe(0);
+      expect(mockManager.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reporting modes', () => {
+    it('should fall back to the default mode', async () => {
+      mockModeRepo.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.findOne(DeviceType.VEHICLE, 'VEHICLE_001'),
+      ).resolves.toEqual({
+        deviceType: DeviceType.VEHICLE,
+        deviceId: 'VEHICLE_001',
+        mode: ReportingMode.CUMULATIVE,
+        registerMax: 9999999.999,
+        configured: false,
+      });
+    });
+
+    it('should refuse to start with an unknown default mode', async () => {
+      config.VEHICLE_REPORTING_MODE = 'delta';
+
+      await expect(createService()).rejects.toThrow(
+        'VEHICLE_REPORTING_MODE must be one of cumulative, interval, not "delta"',
+      );
+    });
+
+    it('should throw NotFoundException when removing an unconfigured device', async () => {
+      mockModeRepo.delete.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(
+        service.remove(DeviceType.METER, 'METER_404'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
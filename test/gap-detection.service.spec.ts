@@ -0,0 +1,188 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { GapDetectionService } from '../src/services/gap-detection.service';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+
+describe('GapDetectionService', () => {
+  let service: GapDetectionService;
+
+  const mockManager = {
+    query: jest.fn(),
+  };
+
+  const mockDataSource = {
+    query: jest.fn(),
+    transaction: jest.fn((work) => work(mockManager)),
+  };
+
+  const now = new Date('2026-02-09T12:00:00Z');
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GapDetectionService,
+        { provide: DataSource, useValue: mockDataSource },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, fallback) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<GapDetectionService>(GapDetectionService);
+  });
+
+  describe('scan', () => {
+    it('should close, open and mark offline for both device types', async () => {
+      mockManager.query
+        // meters: close, open, mark offline
+        .mockResolvedValueOnce([[], 1])
+        .mockResolvedValueOnce([{ device_id: 'METER_002' }])
+        .mockResolvedValueOnce([[], 1])
+        // vehicles
+        .mockResolvedValueOnce([[], 0])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([[], 0]);
+
+      const result = await service.scan(now);
+
+      expect(result).toEqual({ closed: 1, opened: 1, markedOffline: 1 });
+      expect(mockManager.query).toHaveBeenCalledTimes(6);
+    });
+
+    it('should treat devices silent past OFFLINE_AFTER_SECONDS as offline', async () => {
+      mockManager.query.mockResolvedValue([[], 0]);
+
+      await service.scan(now);
+
+      const [sql, params] = mockManager.query.mock.calls[2];
+      expect(sql).toContain("SET status = 'missing'");
+      expect(params).toEqual([new Date('2026-02-09T11:57:00Z')]);
+    });
+
+    it('should only open one gap per device', async () => {
+      mockManager.query.mockResolvedValue([[], 0]);
+
+      await service.scan(now);
+
+      expect(mockManager.query.mock.calls[1][0]).toContain(
+        'ON CONFLICT (device_type, device_id) WHERE gap_end IS NULL DO NOTHING',
+      );
+    });
+  });
+
+  describe('getCompleteness', () => {
+    it('should report expected vs received readings per day', async () => {
+      mockDataSource.query
+        .mockResolvedValueOnce([
+          { last_update_timestamp: now, status: 'valid' },
+        ])
+        .mockResolvedValueOnce([
+          { day: new Date('2026-02-08T00:00:00Z'), received: '1368' },
+          { day: new Date('2026-02-09T00:00:00Z'), received: '720' },
+        ])
+        .mockResolvedValueOnce([
+          {
+            gap_start: new Date('2026-02-08T23:00:00Z'),
+            gap_end: new Date('2026-02-09T01:00:00Z'),
+          },
+        ]);
+
+      const report = await service.getCompleteness(
+        DeviceType.VEHICLE,
+        'VEHICLE_001',
+        '2026-02-08',
+        '2026-02-09',
+        now,
+      );
+
+      expect(report.periodEnd).toBe(now.toISOString());
+      expect(report.online).toBe(true);
+      expect(report.days).toEqual([
+        {
+          date: '2026-02-08',
+          expectedReadings: 1440,
+          receivedReadings: 1368,
+          completenessPct: 95,
+          missingSeconds: 3600,
+        },
+        {
+          // Only the 12 hours up to now are expected today
+          date: '2026-02-09',
+          expectedReadings: 720,
+          receivedReadings: 720,
+          completenessPct: 100,
+          missingSeconds: 3600,
+        },
+      ]);
+      expect(report.completenessPct).toBe(96.67);
+      expect(report.gaps).toEqual([
+        {
+          gapStart: '2026-02-08T23:00:00.000Z',
+          gapEnd: '2026-02-09T01:00:00.000Z',
+          durationSeconds: 7200,
+        },
+      ]);
+    });
+
+    it('should count an open gap up to now', async () => {
+      mockDataSource.query
+        .mockResolvedValueOnce([
+          {
+            last_update_timestamp: new Date('2026-02-09T10:00:00Z'),
+            status: 'missing',
+          },
+        ])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          { gap_start: new Date('2026-02-09T10:00:00Z'), gap_end: null },
+        ]);
+
+      const report = await service.getCompleteness(
+        DeviceType.METER,
+        'METER_001',
+        '2026-02-09',
+        undefined,
+        now,
+      );
+
+      expect(report.online).toBe(false);
+      expect(report.days[0].missingSeconds).toBe(7200);
+      expect(report.gaps[0]).toEqual({
+        gapStart: '2026-02-09T10:00:00.000Z',
+        gapEnd: null,
+        durationSeconds: 7200,
+      });
+    });
+
+    it('should throw NotFoundException for a device that never reported', async () => {
+      mockDataSource.query.mockResolvedValueOnce([]);
+
+      await expect(
+        service.getCompleteness(
+          DeviceType.METER,
+          'METER_404',
+          undefined,
+          undefined,
+          now,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject a period starting after it ends', async () => {
+      await expect(
+        service.getCompleteness(
+          DeviceType.METER,
+          'METER_001',
+          '2026-02-09',
+          '2026-02-01',
+          now,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
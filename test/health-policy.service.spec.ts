@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { HealthPolicyService } from '../src/services/health-policy.service';
+import { HealthPolicy } from '../src/entities/health-policy.entity';
+import { VehicleHealthProfile } from '../src/entities/vehicle-health-profile.entity';
+
+describe('HealthPolicyService', () => {
+  let service: HealthPolicyService;
+
+  const policy = (overrides: Partial<HealthPolicy> = {}): HealthPolicy =>
+    ({
+      id: 'policy-id',
+      profile: 'default',
+      version: 1,
+      healthyEfficiency: 0.85,
+      degradedEfficiency: 0.75,
+      degradedBatteryTemp: null,
+      criticalBatteryTemp: null,
+      degradedCompletenessPct: null,
+      criticalCompletenessPct: null,
+      description: null,
+      effectiveFrom: new Date('1970-01-01T00:00:00Z'),
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      ...overrides,
+    }) as HealthPolicy;
+
+  const effectiveQuery = {
+    distinctOn: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const mockPolicyRepo = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    create: jest.fn((data) => data),
+    save: jest.fn(async (data) => ({ ...data, createdAt: new Date() })),
+    createQueryBuilder: jest.fn(() => effectiveQuery),
+  };
+
+  const mockProfileRepo = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data) => data),
+    save: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  // One day at the default 60 second interval
+  const day = {
+    from: new Date('2026-02-08T00:00:00Z'),
+    to: new Date('2026-02-09T00:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HealthPolicyService,
+        { provide: getRepositoryToken(HealthPolicy), useValue: mockPolicyRepo },
+        {
+          provide: getRepositoryToken(VehicleHealthProfile),
+          useValue: mockProfileRepo,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<HealthPolicyService>(HealthPolicyService);
+  });
+
+  describe('assess', () => {
+    it('should grade efficiency alone when no other thresholds are set', () => {
+      const result = service.assess(policy(), {
+        efficiencyRatio: 0.8,
+        avgBatteryTemp: 70,
+        readingCount: 10,
+        ...day,
+      });
+
+      expect(result.status).toBe('degraded');
+      expect(result.reasons).toEqual(['efficiency 0.8 below 0.85']);
+    });
+
+    it('should take the worst of efficiency, temperature and completeness', () => {
+      const strict = policy({
+        degradedBatteryTemp: '40.00' as unknown as number,
+        criticalBatteryTemp: '45.00' as unknown as number,
+        degradedCompletenessPct: 95,
+        criticalCompletenessPct: 80,
+      });
+
+      const hot = service.assess(strict, {
+        efficiencyRatio: 0.9,
+        avgBatteryTemp: 46.1,
+        readingCount: 1440,
+        ...day,
+      });
+      expect(hot.status).toBe('critical');
+      expect(hot.reasons).toEqual([
+        'average battery temperature 46.1 at or above 45',
+      ]);
+
+      const sparse = service.assess(strict, {
+        efficiencyRatio: 0.9,
+        avgBatteryTemp: 41,
+        readingCount: 1296,
+        ...day,
+      });
+      expect(sparse.completenessPct).toBe(90);
+      expect(sparse.status).toBe('degraded');
+      expect(sparse.reasons).toHaveLength(2);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should fall back to default when the profile has no version yet', async () => {
+      mockProfileRepo.findOne.mockResolvedValue({
+        vehicleId: 'VEHICLE_001',
+        profile: 'model-x',
+      });
+      effectiveQuery.getMany.mockResolvedValue([policy()]);
+
+      const resolved = await service.resolve('VEHICLE_001', day.to);
+
+      expect(resolved.profile).toBe('default');
+      expect(effectiveQuery.where).toHaveBeenCalledWith(
+        'p.profile IN (:...profiles)',
+        { profiles: ['model-x', 'default'] },
+      );
+    });
+
+    it('should return a pinned version or fail', async () => {
+      mockPolicyRepo.findOne.mockResolvedValueOnce(
+        policy({ profile: 'model-x', version: 2 }),
+      );
+      const pinned = await service.resolve('VEHICLE_001', day.to, {
+        profile: 'model-x',
+        version: 2,
+      });
+      expect(pinned.version).toBe(2);
+      expect(mockProfileRepo.findOne).not.toHaveBeenCalled();
+
+      mockPolicyRepo.findOne.mockResolvedValueOnce(null);
+      await expect(
+        service.resolve('VEHICLE_001', day.to, { profile: 'model-x', version: 9 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should resolve many vehicles with one policy query', async () => {
+      mockProfileRepo.find.mockResolvedValue([
+        { vehicleId: 'VEHICLE_002', profile: 'model-x' },
+      ]);
+      effectiveQuery.getMany.mockResolvedValue([
+        policy(),
+        policy({ profile: 'model-x', version: 3 }),
+      ]);
+
+      const resolved = await service.resolveMany(
+        ['VEHICLE_001', 'VEHICLE_002'],
+        day.to,
+      );
+
+      expect(resolved.get('VEHICLE_001')!.profile).toBe('default');
+      expect(resolved.get('VEHICLE_002')!.version).toBe(3);
+      expect(mockPolicyRepo.createQueryBuilder).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('create', () => {
+    const thresholds = { healthyEfficiency: 0.9, degradedEfficiency: 0.8 };
+
+    it('should add the next version of a profile', async () => {
+      mockPolicyRepo.findOne.mockResolvedValue(policy({ version: 2 }));
+
+      const created = await service.create('default', thresholds);
+
+      expect(created.version).toBe(3);
+      expect(created.healthyEfficiency).toBe(0.9);
+    });
+
+    it('should refuse versions that take effect in the past', async () => {
+      await expect(
+        service.create('default', {
+          ...thresholds,
+          effectiveFrom: '2020-01-01T00:00:00Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPolicyRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse inverted thresholds', async () => {
+      await expect(
+        service.create('default', {
+          healthyEfficiency: 0.7,
+          degradedEfficiency: 0.8,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.create('default', {
+          ...thresholds,
+          degradedCompletenessPct: 80,
+          criticalCompletenessPct: 90,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  it('should not assign a vehicle to a profile without versions', async () => {
+    mockPolicyRepo.exists.mockResolvedValue(false);
+
+    await expect(
+      service.setVehicleProfile('VEHICLE_001', { profile: 'model-y' }),
+    ).rejects.toThrow(NotFoundException);
+    expect(mockProfileRepo.save).not.toHaveBeenCalled();
+  });
+});
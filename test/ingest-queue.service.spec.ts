@@ -0,0 +1,423 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  ForbiddenException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { IngestQueueService } from '../src/services/ingest-queue.service';
+import { IngestionService } from '../src/services/ingestion.service';
+import { EnergyRegisterService } from '../src/services/energy-register.service';
+import { AnomalyDetectorService } from '../src/services/anomaly-detector.service';
+import { LiveFeedService } from '../src/services/live-feed.service';
+import { AlertService } from '../src/services/alert.service';
+import { TenantService } from '../src/services/tenant.service';
+import { DeviceRegistryService } from '../src/services/device-registry.service';
+import { ChargingSessionService } from '../src/services/charging-session.service';
+import { RollupService } from '../src/services/rollup.service';
+import { CurrentMeterStatus } from '../src/entities/current-meter-status.entity';
+import { CurrentVehicleStatus } from '../src/entities/current-vehicle-status.entity';
+import { MeterTelemetryHistory } from '../src/entities/meter-telemetry-history.entity';
+import { VehicleTelemetryHistory } from '../src/entities/vehicle-telemetry-history.entity';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+import { ReadingOutcome } from '../src/dto/ingestion-result.dto';
+import { MeterTelemetryDto } from '../src/dto/meter-telemetry.dto';
+
+describe('IngestQueueService', () => {
+  let service: IngestQueueService;
+
+  const meterReading = {
+    meterId: 'METER_001',
+    kwhConsumedAc: 125.456,
+    voltage: 240.5,
+    timestamp: '2026-02-09T10:30:00Z',
+  };
+  const vehicleReading = {
+    vehicleId: 'VEHICLE_001',
+    soc: 85.5,
+    kwhDeliveredDc: 42.123,
+    timestamp: '2026-02-09T10:30:00Z',
+  };
+
+  const report = (accepted: number, rejected = 0) => ({
+    status: rejected > 0 ? 'partial' : 'accepted',
+    count: accepted + rejected,
+    accepted,
+    duplicates: 0,
+    stale: 0,
+    rejected,
+    quarantined: 0,
+    queued: 0,
+    anomalies: 0,
+    results: [],
+  });
+
+  const mockIngestionService = {
+    ingestMeterBatch: jest.fn(),
+    ingestVehicleBatch: jest.fn(),
+    screenReading: jest.fn(),
+    screenBatch: jest.fn(),
+  };
+
+  const mockDataSource = { query: jest.fn() };
+
+  // Hands out the given requests on the first claim and nothing after
+  const queueHolds = (requests: any[], depth = 0) => {
+    let claims = 0;
+    mockDataSource.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('WITH due')) {
+        claims++;
+        return claims === 1 ? [requests, requests.length] : [[], 0];
+      }
+      if (sql.includes('FROM ingest_queue') && sql.includes('COUNT(*)')) {
+        return [
+          {
+            requests: '0',
+            depth: String(depth),
+            retrying: '0',
+            oldest_enqueued_at: null,
+            last_error: null,
+          },
+        ];
+      }
+      return [];
+    });
+  };
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IngestQueueService,
+        { provide: IngestionService, useValue: mockIngestionService },
+        { provide: DataSource, useValue: mockDataSource },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key, fallback) => config[key] ?? fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<IngestQueueService>(IngestQueueService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    queueHolds([]);
+    mockIngestionService.screenReading.mockResolvedValue(true);
+    mockIngestionService.screenBatch.mockImplementation(
+      async (_tenantId, _deviceType, valid) => valid,
+    );
+    service = await createService();
+  });
+
+  describe('enqueueBatch', () => {
+    it('should queue valid readings and reject invalid ones right away', async () => {
+      const result = await service.enqueueBatch(
+        DeviceType.METER,
+        MeterTelemetryDto,
+        [meterReading, { ...meterReading, voltage: -1 }],
+        'tenant-1',
+      );
+
+      expect(result.status).toBe('partial');
+      expect(result.queued).toBe(1);
+      expect(result.rejected).toBe(1);
+      expect(result.results[0]).toEqual({
+        index: 0,
+        status: ReadingOutcome.QUEUED,
+      });
+      expect(result.results[1].status).toBe(ReadingOutcome.REJECTED);
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO ingest_queue'),
+        ['meter', 'tenant-1', JSON.stringify([meterReading]), 1],
+      );
+    });
+
+    it('should answer for refused devices and queue only the rest', async () => {
+      mockIngestionService.screenBatch.mockImplementationOnce(
+        async (_tenantId, _deviceType, valid, deviceIdOf, results) => {
+          results.push(
+            {
+              index: 0,
+              status: ReadingOutcome.REJECTED,
+              reason: 'meter METER_001 is not registered to this tenant',
+            },
+            { index: 1, status: ReadingOutcome.QUARANTINED },
+          );
+          expect(valid.map((item: any) => deviceIdOf(item.reading))).toEqual([
+            'METER_001',
+            'METER_404',
+            'METER_002',
+          ]);
+          return valid.slice(2);
+        },
+      );
+      const readings = [
+        meterReading,
+        { ...meterReading, meterId: 'METER_404' },
+        { ...meterReading, meterId: 'METER_002' },
+      ];
+
+      const result = await service.enqueueBatch(
+        DeviceType.METER,
+        MeterTelemetryDto,
+        readings,
+        'tenant-1',
+      );
+
+      expect(result).toMatchObject({
+        status: 'partial',
+        rejected: 1,
+        quarantined: 1,
+        queued: 1,
+      });
+      expect(result.results.map((item) => item.status)).toEqual([
+        ReadingOutcome.REJECTED,
+        ReadingOutcome.QUARANTINED,
+        ReadingOutcome.QUEUED,
+      ]);
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO ingest_queue'),
+        ['meter', 'tenant-1', JSON.stringify([readings[2]]), 1],
+      );
+    });
+
+    it('should store nothing when every reading is invalid', async () => {
+      const result = await service.enqueueBatch(
+        DeviceType.METER,
+        MeterTelemetryDto,
+        [{ meterId: 'METER_001' }],
+      );
+
+      expect(result.status).toBe('rejected');
+      expect(mockDataSource.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO ingest_queue'),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('enqueueReading', () => {
+    it('should acknowledge the reading as queued', async () => {
+      const result = await service.enqueueReading(
+        DeviceType.VEHICLE,
+        vehicleReading,
+      );
+
+      expect(result).toEqual({
+        status: 'queued',
+        duplicate: false,
+        stale: false,
+      });
+      expect(mockIngestionService.screenReading).toHaveBeenCalledWith(
+        null,
+        DeviceType.VEHICLE,
+        'VEHICLE_001',
+        vehicleReading,
+      );
+    });
+
+    it('should refuse a foreign device before queueing', async () => {
+      mockIngestionService.screenReading.mockRejectedValueOnce(
+        new ForbiddenException(
+          'vehicle VEHICLE_001 is not registered to this tenant',
+        ),
+      );
+
+      await expect(
+        service.enqueueReading(DeviceType.VEHICLE, vehicleReading, 'tenant-1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+
+    it('should not queue a quarantined reading', async () => {
+      mockIngestionService.screenReading.mockResolvedValueOnce(false);
+
+      const result = await service.enqueueReading(
+        DeviceType.VEHICLE,
+        vehicleReading,
+      );
+
+      expect(result.status).toBe('quarantined');
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+
+    it('should refuse readings while the queue is full', async () => {
+      service = await createService({ INGEST_QUEUE_MAX_DEPTH: '100' });
+      queueHolds([], 100);
+      await service.getStats();
+
+      await expect(
+        service.enqueueReading(DeviceType.VEHICLE, vehicleReading),
+      ).rejects.toThrow(ServiceUnavailableException);
+    });
+  });
+
+  describe('drain', () => {
+    it('should write requests per device type and tenant, then delete them', async () => {
+      queueHolds([
+        {
+          id: '1',
+          device_type: DeviceType.METER,
+          tenant_id: null,
+          readings: [meterReading],
+          attempts: 1,
+        },
+        {
+          id: '2',
+          device_type: DeviceType.VEHICLE,
+          tenant_id: null,
+          readings: [vehicleReading],
+          attempts: 1,
+        },
+        {
+          id: '3',
+          device_type: DeviceType.METER,
+          tenant_id: null,
+          readings: [{ ...meterReading, meterId: 'METER_002' }],
+          attempts: 1,
+        },
+      ]);
+      mockIngestionService.ingestMeterBatch.mockResolvedValue(report(2));
+      mockIngestionService.ingestVehicleBatch.mockResolvedValue(report(1));
+
+      await service.drain();
+
+      expect(mockIngestionService.ingestMeterBatch).toHaveBeenCalledWith(
+        [meterReading, { ...meterReading, meterId: 'METER_002' }],
+        null,
+        true,
+      );
+      expect(mockIngestionService.ingestVehicleBatch).toHaveBeenCalledWith(
+        [vehicleReading],
+        null,
+        true,
+      );
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        'DELETE FROM ingest_queue WHERE id = ANY($1)',
+        [['1', '3']],
+      );
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        'DELETE FROM ingest_queue WHERE id = ANY($1)',
+        [['2']],
+      );
+
+      const stats = await service.getStats();
+      expect(stats.drained).toEqual(
+        expect.objectContaining({ batches: 2, readings: 3, accepted: 3 }),
+      );
+    });
+
+    it('should keep a batch queued when the database connection drops', async () => {
+      jest.useFakeTimers({ now: new Date('2026-02-09T10:30:00Z') });
+      queueHolds([
+        {
+          id: '7',
+          device_type: DeviceType.METER,
+          tenant_id: 'tenant-1',
+          readings: [meterReading, { ...meterReading, meterId: 'METER_002' }],
+          attempts: 3,
+        },
+      ]);
+      // The real batch path, whose chunk transaction fails like a lost
+      // connection (no SQLSTATE)
+      const lostConnection = new Error('Connection terminated unexpectedly');
+      const dataSource = {
+        query: mockDataSource.query,
+        transaction: jest.fn().mockRejectedValue(lostConnection),
+      };
+      const module = await Test.createTestingModule({
+        providers: [
+          IngestQueueService,
+          IngestionService,
+          ...[
+            CurrentMeterStatus,
+            CurrentVehicleStatus,
+            MeterTelemetryHistory,
+            VehicleTelemetryHistory,
+          ].map((entity) => ({
+            provide: getRepositoryToken(entity),
+            useValue: {},
+          })),
+          { provide: DataSource, useValue: dataSource },
+          { provide: EnergyRegisterService, useValue: {} },
+          { provide: AnomalyDetectorService, useValue: {} },
+          { provide: LiveFeedService, useValue: {} },
+          { provide: AlertService, useValue: {} },
+          {
+            provide: TenantService,
+            useValue: { deniedWrites: jest.fn().mockResolvedValue(new Set()) },
+          },
+          {
+            provide: DeviceRegistryService,
+            useValue: {
+              screen: jest.fn().mockResolvedValue({
+                rejected: new Map(),
+                quarantined: new Set(),
+              }),
+            },
+          },
+          { provide: ChargingSessionService, useValue: {} },
+          { provide: RollupService, useValue: {} },
+          {
+            provide: ConfigService,
+            useValue: { get: jest.fn((_key, fallback) => fallback) },
+          },
+        ],
+      }).compile();
+      service = module.get<IngestQueueService>(IngestQueueService);
+
+      try {
+        await service.drain();
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(dataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(mockDataSource.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET next_attempt_at = $2, last_error = $3'),
+        [
+          ['7'],
+          new Date('2026-02-09T10:30:20Z'),
+          'Connection terminated unexpectedly',
+        ],
+      );
+      expect(mockDataSource.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM ingest_queue'),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('getStats', () => {
+    it('should report the lag of the oldest waiting request', async () => {
+      mockDataSource.query.mockResolvedValueOnce([
+        {
+          requests: '4',
+          depth: '3200',
+          retrying: '1',
+          oldest_enqueued_at: new Date('2026-02-09T10:29:55Z'),
+          last_error: 'connection terminated',
+        },
+      ]);
+
+      const stats = await service.getStats(new Date('2026-02-09T10:30:00Z'));
+
+      expect(stats).toEqual(
+        expect.objectContaining({
+          enabled: true,
+          depth: 3200,
+          requests: 4,
+          retrying: 1,
+          lagSeconds: 5,
+          oldestEnqueuedAt: '2026-02-09T10:29:55.000Z',
+          lastError: 'connection terminated',
+          workers: 2,
+        }),
+      );
+    });
+  });
+});
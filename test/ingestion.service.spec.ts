@@ -8,6 +8,19 @@ import { MeterTelemetryHistory } from '../src/entities/meter-telemetry-history.e
 import { VehicleTelemetryHistory } from '../src/entities/vehicle-telemetry-history.entity';
 import { MeterTelemetryDto } from '../src/dto/meter-telemetry.dto';
 import { VehicleTelemetryDto } from '../src/dto/vehicle-telemetry.dto';
+import { EnergyRegisterService } from '../src/services/energy-register.service';
+import { AnomalyDetectorService } from '../src/services/anomaly-detector.service';
+import { LiveFeedService } from '../src/services/live-feed.service';
+import { AlertService } from '../src/services/alert.service';
+import { TenantService } from '../src/services/tenant.service';
+import { DeviceRegistryService } from '../src/services/device-registry.service';
+import { ChargingSessionService } from '../src/services/charging-session.service';
+import { RollupService } from '../src/services/rollup.service';
+import { TelemetryStatus } from '../src/entities/current-meter-status.entity';
+import {
+  DeviceType,
+  RegisterEvent,
+} from '../src/entities/device-reporting-mode.entity';
 
 describe('IngestionService', () => {
   let service: IngestionService;
@@ -18,7 +31,15 @@ describe('IngestionService', () => {
     into: jest.fn().mockReturnThis(),
     values: jest.fn().mockReturnThis(),
     orUpdate: jest.fn().mockReturnThis(),
-    execute: jest.fn().mockResolvedValue({}),
+    returning: jest.fn().mockReturnThis(),
+    orIgnore: jest.fn().mockReturnThis(),
+    execute: jest.fn().mockResolvedValue({ raw: [{}] }),
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    setLock: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn().mockResolvedValue([]),
   };
 
   const mockManager = {
@@ -30,7 +51,60 @@ describe('IngestionService', () => {
     isInitialized: true,
   };
 
+  const mockEnergyRegisterService = {
+    plan: jest.fn().mockResolvedValue({ deltas: new Map(), corrections: [] }),
+    applyCorrections: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockAnomalyDetectorService = {
+    inspect: jest.fn().mockReturnValue(new Map()),
+  };
+
+  const mockLiveFeedService = {
+    publish: jest.fn(),
+  };
+
+  const mockAlertService = {
+    observe: jest.fn(),
+  };
+
+  const mockTenantService = {
+    deniedWrites: jest.fn().mockResolvedValue(new Set()),
+  };
+
+  const admitAll = { rejected: new Map(), quarantined: new Set() };
+  const mockDeviceRegistryService = {
+    screen: jest.fn().mockResolvedValue(admitAll),
+    quarantine: jest.fn().mockResolvedValue(undefined),
+    findOne: jest.fn(),
+    findQuarantinedFor: jest.fn().mockResolvedValue([]),
+    deleteQuarantined: jest.fn().mockResolvedValue(undefined),
+    countQuarantined: jest.fn().mockResolvedValue(0),
+  };
+
+  const mockChargingSessionService = {
+    markPending: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockRollupService = {
+    markWritten: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const anomaly = (meterId: string, timestamp: string, holdBack = false) =>
+    new Map([
+      [
+        `${meterId}|${new Date(timestamp).getTime()}`,
+        {
+          status: TelemetryStatus.ANOMALY,
+          reasons: ['voltage-band: voltage 190 V outside nominal band 207-253 V'],
+          holdBack,
+        },
+      ],
+    ]);
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         IngestionService,
@@ -54,6 +128,35 @@ describe('IngestionService', () => {
           provide: DataSource,
           useValue: mockDataSource,
         },
+        {
+          provide: EnergyRegisterService,
+          useValue: mockEnergyRegisterService,
+        },
+        {
+          provide: AnomalyDetectorService,
+          useValue: mockAnomalyDetectorService,
+        },
+        {
+          provide: LiveFeedService,
+          useValue: mockLiveFeedService,
+        },
+        {
+          provide: AlertService,
+          useValue: mockAlertService,
+        },
+        {
+          provide: TenantService,
+          useValue: mockTenantService,
+        },
+        {
+          provide: DeviceRegistryService,
+          useValue: mockDeviceRegistryService,
+        },
+        {
+          provide: ChargingSessionService,
+          useValue: mockChargingSessionService,
+        },
+        { provide: RollupService, useValue: mockRollupService },
       ],
     }).compile();
 
@@ -81,10 +184,259 @@ describe('IngestionService', () => {
       // Verify transaction was called
       expect(dataSource.transaction).toHaveBeenCalled();
       
-      // Verify two insert operations (hot + cold)
+      // Verify hot row lock plus two insert operations (hot + cold)
+      expect(mockManager.createQueryBuilder).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only advance the hot table for newer readings', async () => {
+      await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 125.456,
+        voltage: 240.5,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(mockQueryBuilder.orUpdate).toHaveBeenCalledWith(
+        expect.any(Array),
+        ['meter_id'],
+        {
+          overwriteCondition: {
+            where:
+              'current_meter_status.last_update_timestamp < EXCLUDED.last_update_timestamp',
+          },
+        },
+      );
+    });
+
+    it('should report a reading older than the live status as stale', async () => {
+      // History insert succeeds; hot upsert skipped by the guard returns no rows
+      mockQueryBuilder.execute
+        .mockResolvedValueOnce({ raw: [{ meter_id: 'METER_001' }] })
+        .mockResolvedValueOnce({ raw: [] });
+
+      const result = await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 120,
+        voltage: 240.5,
+        timestamp: '2026-02-09T09:00:00Z',
+      });
+
+      expect(result).toEqual({
+        status: 'accepted',
+        duplicate: false,
+        stale: true,
+      });
+      // Late reading still lands in history
+      expect(mockQueryBuilder.into).toHaveBeenCalledWith(MeterTelemetryHistory);
+    });
+
+    it('should report a newer reading as not stale', async () => {
+      mockQueryBuilder.execute
+        .mockResolvedValueOnce({ raw: [{ meter_id: 'METER_001' }] })
+        .mockResolvedValueOnce({ raw: [{ meter_id: 'METER_001' }] });
+
+      const result = await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 130,
+        voltage: 240.5,
+        timestamp: '2026-02-09T11:00:00Z',
+      });
+
+      expect(result).toEqual({
+        status: 'accepted',
+        duplicate: false,
+        stale: false,
+      });
+    });
+
+    it('should publish the advanced hot row to live subscribers', async () => {
+      const hotRow = {
+        meter_id: 'METER_001',
+        cursor_at: '2026-02-09T11:00:00.000001Z',
+      };
+      mockQueryBuilder.execute
+        .mockResolvedValueOnce({ raw: [{ meter_id: 'METER_001' }] })
+        .mockResolvedValueOnce({ raw: [hotRow] });
+
+      await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 130,
+        voltage: 240.5,
+        timestamp: '2026-02-09T11:00:00Z',
+      });
+
+      expect(mockLiveFeedService.publish).toHaveBeenCalledWith(
+        DeviceType.METER,
+        [hotRow],
+      );
+      expect(mockAlertService.observe).toHaveBeenCalledWith(
+        DeviceType.METER,
+        [hotRow],
+      );
+    });
+
+    it('should acknowledge a re-sent reading without touching the hot table', async () => {
+      // Unique (meter_id, timestamp) index makes the history insert a no-op
+      mockQueryBuilder.execute.mockResolvedValueOnce({ raw: [] });
+
+      const result = await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 125.456,
+        voltage: 240.5,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(result).toEqual({
+        status: 'accepted',
+        duplicate: true,
+        stale: false,
+      });
+      expect(mockQueryBuilder.orIgnore).toHaveBeenCalled();
+      // Hot row lock and history insert only
       expect(mockManager.createQueryBuilder).toHaveBeenCalledTimes(2);
     });
 
+    it('should store the energy delta planned against the locked hot row', async () => {
+      mockQueryBuilder.getRawMany.mockResolvedValueOnce([
+        { id: 'METER_001', ts: '2026-02-09T10:29:00Z', value: '125.000' },
+      ]);
+      mockEnergyRegisterService.plan.mockResolvedValueOnce({
+        deltas: new Map([
+          [
+            `METER_001|${new Date('2026-02-09T10:30:00Z').getTime()}`,
+            { delta: 0.456, event: null },
+          ],
+        ]),
+        corrections: [],
+      });
+
+      await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 125.456,
+        voltage: 240.5,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(mockEnergyRegisterService.plan).toHaveBeenCalledWith(
+        mockManager,
+        DeviceType.METER,
+        [
+          {
+            deviceId: 'METER_001',
+            timestamp: new Date('2026-02-09T10:30:00Z'),
+            value: 125.456,
+          },
+        ],
+        new Map([
+          [
+            'METER_001',
+            { timestamp: new Date('2026-02-09T10:29:00Z'), value: 125 },
+          ],
+        ]),
+      );
+      expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+        expect.objectContaining({
+          kwhConsumedAc: 125.456,
+          kwhConsumedAcDelta: 0.456,
+          registerEvent: null,
+        }),
+      ]);
+    });
+
+    it('should correct deltas of stored readings after a late reading', async () => {
+      const corrections = [
+        {
+          deviceId: 'METER_001',
+          timestamp: new Date('2026-02-09T10:31:00Z'),
+          delta: 0.5,
+          event: null,
+        },
+      ];
+      mockEnergyRegisterService.plan.mockResolvedValueOnce({
+        deltas: new Map(),
+        corrections,
+      });
+
+      await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 125.456,
+        voltage: 240.5,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(mockEnergyRegisterService.applyCorrections).toHaveBeenCalledWith(
+        mockManager,
+        DeviceType.METER,
+        corrections,
+      );
+    });
+
+    it('should not apply corrections for a duplicate reading', async () => {
+      mockQueryBuilder.execute.mockResolvedValueOnce({ raw: [] });
+
+      await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 125.456,
+        voltage: 240.5,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(mockEnergyRegisterService.applyCorrections).not.toHaveBeenCalled();
+    });
+
+    it('should store an anomalous reading with its reason', async () => {
+      mockAnomalyDetectorService.inspect.mockReturnValueOnce(
+        anomaly('METER_001', '2026-02-09T10:30:00Z'),
+      );
+      mockQueryBuilder.execute
+        .mockResolvedValueOnce({ raw: [{ meter_id: 'METER_001' }] })
+        .mockResolvedValueOnce({ raw: [{ meter_id: 'METER_001' }] });
+
+      const result = await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 125.456,
+        voltage: 190,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(result).toEqual({
+        status: 'accepted',
+        duplicate: false,
+        stale: false,
+        anomalies: [
+          'voltage-band: voltage 190 V outside nominal band 207-253 V',
+        ],
+      });
+      // Both history and live status carry the verdict
+      expect(mockQueryBuilder.values).toHaveBeenCalledTimes(2);
+      for (const [rows] of mockQueryBuilder.values.mock.calls) {
+        expect(rows[0]).toMatchObject({
+          status: 'anomaly',
+          anomalyReason:
+            'voltage-band: voltage 190 V outside nominal band 207-253 V',
+        });
+      }
+    });
+
+    it('should keep a held-back reading out of the hot table', async () => {
+      mockAnomalyDetectorService.inspect.mockReturnValueOnce(
+        anomaly('METER_001', '2026-02-09T10:30:00Z', true),
+      );
+
+      const result = await service.ingestMeterTelemetry({
+        meterId: 'METER_001',
+        kwhConsumedAc: 125.456,
+        voltage: 240,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(result.anomalies).toHaveLength(1);
+      expect(mockQueryBuilder.orUpdate).not.toHaveBeenCalled();
+      expect(mockQueryBuilder.into).not.toHaveBeenCalledWith(
+        CurrentMeterStatus,
+      );
+    });
+
     it('should handle concurrent meter updates correctly', async () => {
       const readings = Array.from({ length: 10 }, (_, i) => ({
         meterId: 'METER_001',
@@ -118,7 +470,93 @@ describe('IngestionService', () => {
       ).resolves.not.toThrow();
 
       expect(dataSource.transaction).toHaveBeenCalled();
-      expect(mockManager.createQueryBuilder).toHaveBeenCalledTimes(2);
+      expect(mockManager.createQueryBuilder).toHaveBeenCalledTimes(3);
+    });
+
+    it('should store the DC delta and register event', async () => {
+      mockEnergyRegisterService.plan.mockResolvedValueOnce({
+        deltas: new Map([
+          [
+            `VEHICLE_001|${new Date('2026-02-09T10:30:00Z').getTime()}`,
+            { delta: 1.2, event: RegisterEvent.ROLLOVER },
+          ],
+        ]),
+        corrections: [],
+      });
+
+      await service.ingestVehicleTelemetry({
+        vehicleId: 'VEHICLE_001',
+        soc: 85.5,
+        kwhDeliveredDc: 1.1,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(mockEnergyRegisterService.plan).toHaveBeenCalledWith(
+        mockManager,
+        DeviceType.VEHICLE,
+        expect.any(Array),
+        expect.any(Map),
+      );
+      expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+        expect.objectContaining({
+          kwhDeliveredDc: 1.1,
+          kwhDeliveredDcDelta: 1.2,
+          registerEvent: 'rollover',
+        }),
+      ]);
+    });
+
+    it('should queue stored readings for the session builder', async () => {
+      await service.ingestVehicleTelemetry({
+        vehicleId: 'VEHICLE_001',
+        soc: 85.5,
+        kwhDeliveredDc: 42.123,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(mockChargingSessionService.markPending).toHaveBeenCalledWith(
+        mockManager,
+        [
+          {
+            vehicleId: 'VEHICLE_001',
+            timestamp: new Date('2026-02-09T10:30:00Z'),
+          },
+        ],
+      );
+    });
+
+    it('should not queue a duplicate reading', async () => {
+      mockQueryBuilder.execute.mockResolvedValueOnce({ raw: [] });
+
+      const result = await service.ingestVehicleTelemetry({
+        vehicleId: 'VEHICLE_001',
+        soc: 85.5,
+        kwhDeliveredDc: 42.123,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(result.duplicate).toBe(true);
+      expect(mockChargingSessionService.markPending).not.toHaveBeenCalled();
+    });
+
+    it('should mark the rollup stale where stored readings land', async () => {
+      const timestamp = new Date('2026-02-09T10:30:00Z');
+      mockQueryBuilder.execute.mockResolvedValueOnce({
+        raw: [{ vehicle_id: 'VEHICLE_001', timestamp }],
+      });
+
+      await service.ingestVehicleTelemetry({
+        vehicleId: 'VEHICLE_001',
+        soc: 85.5,
+        kwhDeliveredDc: 42.123,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+
+      expect(mockRollupService.markWritten).toHaveBeenCalledWith(
+        mockManager,
+        DeviceType.VEHICLE,
+        [timestamp],
+      );
     });
 
     it('should handle optional batteryTemp field', async () => {
@@ -173,6 +611,417 @@ describe('IngestionService', () => {
       // Should process in multiple batches of 1000
       expect(dataSource.transaction).toHaveBeenCalledTimes(3);
     });
+
+    it('should count readings older than the live status as stale', async () => {
+      const timestamps = [
+        '2026-02-09T09:58:00Z',
+        '2026-02-09T10:00:00Z',
+        '2026-02-09T10:01:00Z',
+        '2026-02-09T10:02:00Z',
+      ];
+      mockQueryBuilder.execute.mockResolvedValueOnce({
+        raw: timestamps.map((timestamp) => ({
+          meter_id: 'METER_001',
+          timestamp: new Date(timestamp),
+        })),
+      });
+      mockQueryBuilder.getRawMany.mockResolvedValueOnce([
+        { id: 'METER_001', ts: new Date('2026-02-09T10:00:00Z') },
+      ]);
+
+      const readings: MeterTelemetryDto[] = timestamps.map((timestamp) => ({
+        meterId: 'METER_001',
+        kwhConsumedAc: 100,
+        voltage: 240,
+        timestamp,
+      }));
+
+      const result = await service.ingestMeterBatch(readings);
+
+      expect(result).toMatchObject({
+        status: 'accepted',
+        count: 4,
+        accepted: 2,
+        duplicates: 0,
+        stale: 2,
+        rejected: 0,
+      });
+      expect(result.results.map((r) => r.status)).toEqual([
+        'stale',
+        'stale',
+        'accepted',
+        'accepted',
+      ]);
+      // History receives every reading
+      expect(mockQueryBuilder.values).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({
+            timestamp: new Date('2026-02-09T09:58:00Z'),
+          }),
+        ]),
+      );
+      // Hot upsert carries only the newest reading per meter
+      expect(mockQueryBuilder.values).toHaveBeenLastCalledWith([
+        expect.objectContaining({
+          meterId: 'METER_001',
+          lastUpdateTimestamp: new Date('2026-02-09T10:02:00Z'),
+        }),
+      ]);
+    });
+
+    it('should count re-sent and repeated readings as duplicates', async () => {
+      // Only 10:01 is new; 10:00 was already stored and 10:01 appears twice
+      mockQueryBuilder.execute.mockResolvedValueOnce({
+        raw: [
+          { meter_id: 'METER_001', timestamp: new Date('2026-02-09T10:01:00Z') },
+        ],
+      });
+
+      const readings: MeterTelemetryDto[] = [
+        '2026-02-09T10:00:00Z',
+        '2026-02-09T10:01:00Z',
+        '2026-02-09T10:01:00Z',
+      ].map((timestamp) => ({
+        meterId: 'METER_001',
+        kwhConsumedAc: 100,
+        voltage: 240,
+        timestamp,
+      }));
+
+      const result = await service.ingestMeterBatch(readings);
+
+      expect(result).toMatchObject({
+        status: 'accepted',
+        count: 3,
+        accepted: 1,
+        duplicates: 2,
+        stale: 0,
+      });
+      expect(result.results.map((r) => r.status)).toEqual([
+        'duplicate',
+        'accepted',
+        'duplicate',
+      ]);
+      expect(mockQueryBuilder.values).toHaveBeenLastCalledWith([
+        expect.objectContaining({
+          lastUpdateTimestamp: new Date('2026-02-09T10:01:00Z'),
+        }),
+      ]);
+    });
+  });
+
+  describe('batch anomalies', () => {
+    it('should count anomalous readings and skip held-back ones in the hot upsert', async () => {
+      const timestamps = ['2026-02-09T10:00:00Z', '2026-02-09T10:01:00Z'];
+      mockQueryBuilder.execute.mockResolvedValueOnce({
+        raw: timestamps.map((timestamp) => ({
+          meter_id: 'METER_001',
+          timestamp: new Date(timestamp),
+        })),
+      });
+      mockAnomalyDetectorService.inspect.mockReturnValueOnce(
+        anomaly('METER_001', '2026-02-09T10:01:00Z', true),
+      );
+
+      const result = await service.ingestMeterBatch(
+        timestamps.map((timestamp) => ({
+          meterId: 'METER_001',
+          kwhConsumedAc: 100,
+          voltage: 240,
+          timestamp,
+        })),
+      );
+
+      expect(result).toMatchObject({ accepted: 2, anomalies: 1 });
+      expect(result.results[0].anomalies).toBeUndefined();
+      expect(result.results[1].anomalies).toHaveLength(1);
+      // Live status advances only to the last reading that was not held back
+      expect(mockQueryBuilder.values).toHaveBeenLastCalledWith([
+        expect.objectContaining({
+          lastUpdateTimestamp: new Date('2026-02-09T10:00:00Z'),
+          status: 'valid',
+        }),
+      ]);
+    });
+  });
+
+  describe('batch reports', () => {
+    const reading = (i: number) => ({
+      meterId: 'METER_001',
+      kwhConsumedAc: 100,
+      voltage: 240,
+      timestamp: `2026-02-09T10:0${i}:00Z`,
+    });
+
+    it('should reject invalid readings without failing the batch', async () => {
+      mockQueryBuilder.execute.mockResolvedValueOnce({
+        raw: [0, 2].map((i) => ({
+          meter_id: 'METER_001',
+          timestamp: new Date(reading(i).timestamp),
+        })),
+      });
+
+      const result = await service.ingestMeterBatch([
+        reading(0),
+        { ...reading(1), voltage: -5 },
+        reading(2),
+        'not a reading',
+      ]);
+
+      expect(result).toMatchObject({
+        status: 'partial',
+        count: 4,
+        accepted: 2,
+        rejected: 2,
+      });
+      expect(result.results[1]).toEqual({
+        index: 1,
+        status: 'rejected',
+        reason: 'voltage must not be less than 0',
+      });
+      expect(result.results[3].status).toBe('rejected');
+      // Invalid readings never reach the database
+      expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+        expect.objectContaining({ timestamp: new Date(reading(0).timestamp) }),
+        expect.objectContaining({ timestamp: new Date(reading(2).timestamp) }),
+      ]);
+    });
+
+    it('should isolate readings that fail with a data error', async () => {
+      const noPartition = Object.assign(
+        new Error('no partition of relation "meter_telemetry_history" found for row'),
+        { code: '23514' },
+      );
+      (dataSource.transaction as jest.Mock)
+        .mockRejectedValueOnce(noPartition) // whole chunk
+        .mockImplementationOnce((cb) => cb(mockManager)) // reading 0
+        .mockRejectedValueOnce(noPartition); // reading 1
+      mockQueryBuilder.execute.mockResolvedValueOnce({
+        raw: [{ meter_id: 'METER_001', timestamp: new Date(reading(0).timestamp) }],
+      });
+
+      const result = await service.ingestMeterBatch([reading(0), reading(1)]);
+
+      expect(dataSource.transaction).toHaveBeenCalledTimes(3);
+      expect(result.results).toEqual([
+        { index: 0, status: 'accepted' },
+        { index: 1, status: 'rejected', reason: noPartition.message },
+      ]);
+      expect(result.status).toBe('partial');
+    });
+
+    it('should reject the whole chunk on a connection failure', async () => {
+      (dataSource.transaction as jest.Mock).mockRejectedValueOnce(
+        new Error('Connection terminated unexpectedly'),
+      );
+
+      const result = await service.ingestMeterBatch([reading(0), reading(1)]);
+
+      expect(dataSource.transaction).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ status: 'rejected', rejected: 2 });
+    });
+  });
+
+  describe('tenant ownership', () => {
+    const reading = (meterId: string) => ({
+      meterId,
+      kwhConsumedAc: 100,
+      voltage: 240,
+      timestamp: '2026-02-09T10:00:00Z',
+    });
+
+    it('should refuse a reading for a device another tenant owns', async () => {
+      mockTenantService.deniedWrites.mockResolvedValueOnce(
+        new Set(['METER_002']),
+      );
+
+      await expect(
+        service.ingestMeterTelemetry(reading('METER_002'), 'tenant-a'),
+      ).rejects.toThrow('meter METER_002 is not registered to this tenant');
+      expect(mockTenantService.deniedWrites).toHaveBeenCalledWith(
+        'tenant-a',
+        DeviceType.METER,
+        ['METER_002'],
+      );
+      expect(dataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not screen a refused reading against the registry', async () => {
+      mockTenantService.deniedWrites.mockResolvedValueOnce(
+        new Set(['METER_009']),
+      );
+
+      await expect(
+        service.ingestMeterTelemetry(reading('METER_009'), 'tenant-a'),
+      ).rejects.toThrow('meter METER_009 is not registered to this tenant');
+      // Screening would auto-register or quarantine an unknown device
+      expect(mockDeviceRegistryService.screen).not.toHaveBeenCalled();
+      expect(mockDeviceRegistryService.quarantine).not.toHaveBeenCalled();
+    });
+
+    it('should reject only the foreign devices of a batch', async () => {
+      mockTenantService.deniedWrites.mockResolvedValueOnce(
+        new Set(['METER_002']),
+      );
+      mockQueryBuilder.execute.mockResolvedValueOnce({
+        raw: [
+          {
+            meter_id: 'METER_001',
+            timestamp: new Date(reading('METER_001').timestamp),
+          },
+        ],
+      });
+
+      const result = await service.ingestMeterBatch(
+        [reading('METER_001'), reading('METER_002')],
+        'tenant-a',
+      );
+
+      expect(result).toMatchObject({ accepted: 1, rejected: 1 });
+      expect(result.results[1]).toEqual({
+        index: 1,
+        status: 'rejected',
+        reason: 'meter METER_002 is not registered to this tenant',
+      });
+      expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+        expect.objectContaining({ meterId: 'METER_001' }),
+      ]);
+      expect(mockDeviceRegistryService.screen).toHaveBeenCalledWith(
+        DeviceType.METER,
+        ['METER_001'],
+      );
+    });
+  });
+
+  describe('device registry', () => {
+    const reading = (meterId: string) => ({
+      meterId,
+      kwhConsumedAc: 100,
+      voltage: 240,
+      timestamp: '2026-02-09T10:00:00Z',
+    });
+
+    it('should refuse a reading the registry rejects', async () => {
+      mockDeviceRegistryService.screen.mockResolvedValueOnce({
+        rejected: new Map([['METER_0O1', 'meter METER_0O1 is not registered']]),
+        quarantined: new Set(),
+      });
+
+      await expect(
+        service.ingestMeterTelemetry(reading('METER_0O1')),
+      ).rejects.toThrow('meter METER_0O1 is not registered');
+      expect(dataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should quarantine a reading of an unregistered device', async () => {
+      mockDeviceRegistryService.screen.mockResolvedValueOnce({
+        rejected: new Map(),
+        quarantined: new Set(['METER_009']),
+      });
+
+      const result = await service.ingestMeterTelemetry(
+        reading('METER_009'),
+        'tenant-a',
+      );
+
+      expect(result).toEqual({
+        status: 'quarantined',
+        duplicate: false,
+        stale: false,
+      });
+      expect(mockDeviceRegistryService.quarantine).toHaveBeenCalledWith(
+        DeviceType.METER,
+        'tenant-a',
+        [{ deviceId: 'METER_009', reading: reading('METER_009') }],
+      );
+      expect(dataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should report rejected and quarantined readings of a batch', async () => {
+      mockDeviceRegistryService.screen.mockResolvedValueOnce({
+        rejected: new Map([['METER_002', 'meter METER_002 is decommissioned']]),
+        quarantined: new Set(['METER_003']),
+      });
+      mockQueryBuilder.execute.mockResolvedValueOnce({
+        raw: [
+          {
+            meter_id: 'METER_001',
+            timestamp: new Date(reading('METER_001').timestamp),
+          },
+        ],
+      });
+
+      const result = await service.ingestMeterBatch([
+        reading('METER_001'),
+        reading('METER_002'),
+        reading('METER_003'),
+      ]);
+
+      expect(result).toMatchObject({
+        status: 'partial',
+        accepted: 1,
+        rejected: 1,
+        quarantined: 1,
+      });
+      expect(result.results[1].reason).toBe('meter METER_002 is decommissioned');
+      expect(result.results[2]).toEqual({ index: 2, status: 'quarantined' });
+      expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+        expect.objectContaining({ meterId: 'METER_001' }),
+      ]);
+    });
+
+    it('should release quarantined readings under the tenant that sent them', async () => {
+      mockDeviceRegistryService.findOne.mockResolvedValueOnce({
+        active: true,
+      });
+      mockDeviceRegistryService.findQuarantinedFor.mockResolvedValueOnce([
+        { id: 'q1', tenantId: 'tenant-a', reading: reading('METER_009') },
+        {
+          id: 'q2',
+          tenantId: 'tenant-a',
+          reading: { ...reading('METER_009'), voltage: -1 },
+        },
+      ]);
+      mockQueryBuilder.execute.mockResolvedValueOnce({
+        raw: [
+          {
+            meter_id: 'METER_009',
+            timestamp: new Date(reading('METER_009').timestamp),
+          },
+        ],
+      });
+
+      const result = await service.releaseQuarantined(
+        DeviceType.METER,
+        'METER_009',
+      );
+
+      expect(result).toMatchObject({
+        accepted: 1,
+        rejected: 1,
+        remaining: 0,
+      });
+      expect(mockTenantService.deniedWrites).toHaveBeenCalledWith(
+        'tenant-a',
+        DeviceType.METER,
+        ['METER_009'],
+      );
+      // The invalid reading stays quarantined
+      expect(mockDeviceRegistryService.deleteQuarantined).toHaveBeenCalledWith([
+        'q1',
+      ]);
+    });
+
+    it('should not release readings of a decommissioned device', async () => {
+      mockDeviceRegistryService.findOne.mockResolvedValueOnce({
+        active: false,
+      });
+
+      await expect(
+        service.releaseQuarantined(DeviceType.METER, 'METER_009'),
+      ).rejects.toThrow('decommissioned');
+      expect(mockDeviceRegistryService.findQuarantinedFor).not.toHaveBeenCalled();
+    });
   });
 
   describe('ingestVehicleBatch', () => {
@@ -223,6 +1072,35 @@ describe('IngestionService', () => {
             provide: DataSource,
             useValue: failingDataSource,
           },
+          {
+            provide: EnergyRegisterService,
+            useValue: mockEnergyRegisterService,
+          },
+          {
+            provide: AnomalyDetectorService,
+            useValue: mockAnomalyDetectorService,
+          },
+          {
+            provide: LiveFeedService,
+            useValue: mockLiveFeedService,
+          },
+          {
+            provide: AlertService,
+            useValue: mockAlertService,
+          },
+          {
+            provide: TenantService,
+            useValue: mockTenantService,
+          },
+          {
+            provide: DeviceRegistryService,
+            useValue: mockDeviceRegistryService,
+          },
+          {
+            provide: ChargingSessionService,
+            useValue: mockChargingSessionService,
+          },
+          { provide: RollupService, useValue: mockRollupService },
         ],
       }).compile();
 
@@ -240,6 +1118,8 @@ describe('IngestionService', () => {
       await expect(
         failingService.ingestMeterTelemetry(meterData),
       ).rejects.toThrow('DB Error');
+      expect(mockLiveFeedService.publish).not.toHaveBeenCalled();
+      expect(mockAlertService.observe).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,243 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { LiveFeedService } from '../src/services/live-feed.service';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+import { TelemetryStatus } from '../src/entities/current-meter-status.entity';
+import {
+  LiveFeedCloseReason,
+  LiveTelemetryEventDto,
+} from '../src/dto/live-feed.dto';
+import { encodeCursor } from '../src/utils/cursor';
+
+describe('LiveFeedService', () => {
+  let service: LiveFeedService;
+
+  const mockDataSource = {
+    query: jest.fn().mockResolvedValue([]),
+  };
+
+  const vehicleRow = (vehicleId: string, soc: string, cursorAt: string) => ({
+    vehicle_id: vehicleId,
+    soc,
+    kwh_delivered_dc: '1062.925',
+    battery_temp: null,
+    last_update_timestamp: new Date('2026-02-09T10:30:00Z'),
+    status: TelemetryStatus.VALID,
+    anomaly_reason: null,
+    cursor_at: cursorAt,
+  });
+
+  const meterRow = (meterId: string, cursorAt: string) => ({
+    meter_id: meterId,
+    kwh_consumed_ac: '1250.500',
+    voltage: '230.00',
+    last_update_timestamp: new Date('2026-02-09T10:30:00Z'),
+    status: TelemetryStatus.VALID,
+    anomaly_reason: null,
+    cursor_at: cursorAt,
+  });
+
+  const sink = (accept = () => true) => {
+    const written: LiveTelemetryEventDto[] = [];
+    return {
+      written,
+      write: jest.fn((event: LiveTelemetryEventDto) => {
+        written.push(event);
+        return accept();
+      }),
+      close: jest.fn(),
+    };
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LiveFeedService,
+        { provide: DataSource, useValue: mockDataSource },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key, fallback) =>
+              key === 'STREAM_MAX_PENDING' ? '2' : fallback,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LiveFeedService>(LiveFeedService);
+  });
+
+  it('should push matching updates with a resumable cursor', () => {
+    const client = sink();
+    service.subscribe({ deviceType: DeviceType.VEHICLE, socMax: 20 }, client);
+
+    service.publish(DeviceType.VEHICLE, [
+      vehicleRow('VEHICLE_001', '75.50', '2026-02-09T10:30:00.000001Z'),
+      vehicleRow('VEHICLE_007', '12.50', '2026-02-09T10:30:00.000002Z'),
+    ]);
+    service.publish(DeviceType.METER, [
+      meterRow('METER_001', '2026-02-09T10:30:00.000003Z'),
+    ]);
+
+    expect(client.written).toHaveLength(1);
+    expect(client.written[0]).toEqual({
+      cursor: encodeCursor({
+        sort: 'stream',
+        value: '2026-02-09T10:30:00.000002Z',
+        id: 'vehicle:VEHICLE_007',
+      }),
+      deviceType: DeviceType.VEHICLE,
+      deviceId: 'VEHICLE_007',
+      state: {
+        vehicleId: 'VEHICLE_007',
+        soc: 12.5,
+        kwhDeliveredDc: 1062.925,
+        batteryTemp: null,
+        lastUpdateTimestamp: '2026-02-09T10:30:00.000Z',
+        status: TelemetryStatus.VALID,
+        anomalyReason: null,
+      },
+    });
+  });
+
+  it('should skip a malformed row without holding back the others', () => {
+    const client = sink();
+    service.subscribe({ deviceType: DeviceType.METER }, client);
+
+    service.publish(DeviceType.METER, [
+      { meter_id: 'METER_001', cursor_at: '2026-02-09T10:30:00.000001Z' },
+      meterRow('METER_002', '2026-02-09T10:30:00.000002Z'),
+    ]);
+
+    expect(client.written.map((event) => event.deviceId)).toEqual([
+      'METER_002',
+    ]);
+    expect(client.written[0].state).toEqual({
+      meterId: 'METER_002',
+      kwhConsumedAc: 1250.5,
+      voltage: 230,
+      lastUpdateTimestamp: '2026-02-09T10:30:00.000Z',
+      status: TelemetryStatus.VALID,
+      anomalyReason: null,
+    });
+  });
+
+  it('should close a failing subscriber and keep serving the others', () => {
+    const broken = sink(() => {
+      throw new Error('socket gone');
+    });
+    const client = sink();
+    service.subscribe({}, broken);
+    service.subscribe({}, client);
+
+    service.publish(DeviceType.METER, [
+      meterRow('METER_001', '2026-02-09T10:30:00.000001Z'),
+    ]);
+    service.publish(DeviceType.METER, [
+      meterRow('METER_002', '2026-02-09T10:30:00.000002Z'),
+    ]);
+
+    expect(broken.close).toHaveBeenCalledWith(LiveFeedCloseReason.ERROR);
+    expect(broken.write).toHaveBeenCalledTimes(1);
+    expect(client.written.map((event) => event.deviceId)).toEqual([
+      'METER_001',
+      'METER_002',
+    ]);
+  });
+
+  it('should coalesce updates per device while the client is slow', () => {
+    let ready = false;
+    const client = sink(() => ready);
+    const subscription = service.subscribe({}, client);
+
+    service.publish(DeviceType.VEHICLE, [
+      vehicleRow('VEHICLE_001', '70.00', '2026-02-09T10:30:00Z'),
+    ]);
+    service.publish(DeviceType.VEHICLE, [
+      vehicleRow('VEHICLE_002', '50.00', '2026-02-09T10:31:00Z'),
+      vehicleRow('VEHICLE_001', '69.00', '2026-02-09T10:32:00Z'),
+    ]);
+    expect(client.written).toHaveLength(1);
+
+    ready = true;
+    subscription.drain();
+
+    expect(client.written.map((event) => event.deviceId)).toEqual([
+      'VEHICLE_001',
+      'VEHICLE_002',
+      'VEHICLE_001',
+    ]);
+    expect((client.written[2].state as any).soc).toBe(69);
+  });
+
+  it('should disconnect a client that falls behind on too many devices', () => {
+    const client = sink(() => false);
+    service.subscribe({}, client);
+
+    service.publish(DeviceType.VEHICLE, [
+      vehicleRow('VEHICLE_001', '70.00', '2026-02-09T10:30:00Z'),
+      vehicleRow('VEHICLE_002', '70.00', '2026-02-09T10:30:00Z'),
+      vehicleRow('VEHICLE_003', '70.00', '2026-02-09T10:30:00Z'),
+      vehicleRow('VEHICLE_004', '70.00', '2026-02-09T10:30:00Z'),
+    ]);
+
+    expect(client.close).toHaveBeenCalledWith(LiveFeedCloseReason.OVERFLOW);
+  });
+
+  it('should replay missed updates before live ones when resuming', async () => {
+    const cursor = encodeCursor({
+      sort: 'stream',
+      value: '2026-02-09T10:30:00.000000Z',
+      id: 'vehicle:VEHICLE_001',
+    });
+    mockDataSource.query.mockResolvedValueOnce([
+      {
+        device_type: DeviceType.VEHICLE,
+        device_id: 'VEHICLE_002',
+        cursor_at: '2026-02-09T10:31:00.000000Z',
+        row: {
+          ...vehicleRow('VEHICLE_002', '50', ''),
+          soc: 50,
+          last_update_timestamp: '2026-02-09T10:31:00+00:00',
+        },
+      },
+    ]);
+    const client = sink();
+
+    service.subscribe({ deviceType: DeviceType.VEHICLE, cursor }, client);
+    service.publish(DeviceType.VEHICLE, [
+      vehicleRow('VEHICLE_003', '40.00', '2026-02-09T10:32:00.000000Z'),
+    ]);
+    expect(client.written).toHaveLength(0);
+
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(client.written.map((event) => event.deviceId)).toEqual([
+      'VEHICLE_002',
+      'VEHICLE_003',
+    ]);
+    const [sql, params] = mockDataSource.query.mock.calls[0];
+    expect(sql).not.toContain('current_meter_status');
+    // Replay starts STREAM_REPLAY_OVERLAP_SECONDS before the cursor
+    expect(params).toEqual(['2026-02-09T10:29:55.000Z', '', '']);
+  });
+
+  it('should reject a cursor from another endpoint', () => {
+    const cursor = encodeCursor({ sort: 'soc:asc', value: 15, id: 'X' });
+
+    expect(() => service.subscribe({ cursor }, sink())).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should reject SoC filters on meters', () => {
+    expect(() =>
+      service.subscribe({ deviceType: DeviceType.METER, socMin: 10 }, sink()),
+    ).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { LiveStatusService } from '../src/services/live-status.service';
+import {
+  CurrentMeterStatus,
+  TelemetryStatus,
+} from '../src/entities/current-meter-status.entity';
+import { CurrentVehicleStatus } from '../src/entities/current-vehicle-status.entity';
+import { SortOrder, StatusSortField } from '../src/dto/live-status.dto';
+import { encodeCursor } from '../src/utils/cursor';
+
+describe('LiveStatusService', () => {
+  let service: LiveStatusService;
+
+  const mockQueryBuilder = {
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getMany: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockMeterRepo = {
+    findOneBy: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  const mockVehicleRepo = {
+    findOneBy: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  const vehicle = (vehicleId: string, soc: string) => ({
+    vehicleId,
+    soc,
+    kwhDeliveredDc: '1062.925',
+    batteryTemp: null,
+    lastUpdateTimestamp: new Date('2026-02-09T10:30:00Z'),
+    status: TelemetryStatus.VALID,
+    anomalyReason: null,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LiveStatusService,
+        {
+          provide: getRepositoryToken(CurrentMeterStatus),
+          useValue: mockMeterRepo,
+        },
+        {
+          provide: getRepositoryToken(CurrentVehicleStatus),
+          useValue: mockVehicleRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get<LiveStatusService>(LiveStatusService);
+  });
+
+  describe('listVehicles', () => {
+    it('should filter by SoC range and return a cursor when more rows follow', async () => {
+      mockQueryBuilder.getMany.mockResolvedValueOnce([
+        vehicle('VEHICLE_007', '12.50'),
+        vehicle('VEHICLE_003', '15.00'),
+        vehicle('VEHICLE_009', '18.00'),
+      ]);
+
+      const page = await service.listVehicles({
+        socMax: 20,
+        sort: StatusSortField.SOC,
+        limit: 2,
+      });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        's.soc <= :socMax',
+        { socMax: 20 },
+      );
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('s.soc', 'ASC');
+      expect(mockQueryBuilder.addOrderBy).toHaveBeenCalledWith(
+        's.vehicleId',
+        'ASC',
+      );
+      expect(mockQueryBuilder.take).toHaveBeenCalledWith(3);
+      expect(page.items.map((item) => item.soc)).toEqual([12.5, 15]);
+      expect(page.nextCursor).toBe(
+        encodeCursor({ sort: 'soc:asc', value: 15, id: 'VEHICLE_003' }),
+      );
+    });
+
+    it('should continue after the cursor row', async () => {
+      const cursor = encodeCursor({
+        sort: 'soc:asc',
+        value: 15,
+        id: 'VEHICLE_003',
+      });
+
+      const page = await service.listVehicles({
+        sort: StatusSortField.SOC,
+        cursor,
+      });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        '(s.soc, s.vehicleId) > (:cursorValue, :cursorId)',
+        { cursorValue: 15, cursorId: 'VEHICLE_003' },
+      );
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should reject a cursor issued for another sort order', async () => {
+      const cursor = encodeCursor({
+        sort: 'soc:asc',
+        value: 15,
+        id: 'VEHICLE_003',
+      });
+
+      await expect(
+        service.listVehicles({
+          sort: StatusSortField.SOC,
+          order: SortOrder.DESC,
+          cursor,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(
+        service.listVehicles({ cursor: 'not-a-cursor' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject an inverted SoC range', async () => {
+      await expect(
+        service.listVehicles({ socMin: 80, socMax: 20 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('listMeters', () => {
+    it('should find stale meters newest first', async () => {
+      await service.listMeters({
+        staleSince: '2026-02-09T10:00:00Z',
+        sort: StatusSortField.LAST_UPDATE,
+        order: SortOrder.DESC,
+      });
+
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        's.lastUpdateTimestamp < :staleSince',
+        { staleSince: new Date('2026-02-09T10:00:00Z') },
+      );
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+        's.lastUpdateTimestamp',
+        'DESC',
+      );
+    });
+
+    it('should reject sorting meters by soc', async () => {
+      await expect(
+        service.listMeters({ sort: StatusSortField.SOC }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('findVehicle', () => {
+    it('should throw NotFoundException for a vehicle that never reported', async () => {
+      mockVehicleRepo.findOneBy.mockResolvedValue(null);
+
+      await expect(service.findVehicle('VEHICLE_404')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { AddressInfo, createServer, Server } from 'net';
+import { connectAsync, MqttClient } from 'mqtt';
+import Aedes, { createBroker } from 'aedes';
+import { MqttIngestionService } from '../src/services/mqtt-ingestion.service';
+import { IngestionService } from '../src/services/ingestion.service';
+
+describe('MqttIngestionService', () => {
+  let module: TestingModule;
+  let service: MqttIngestionService;
+  let broker: Aedes;
+  let server: Server;
+  let publisher: MqttClient;
+
+  const meterPayload = {
+    kwhConsumedAc: 125.456,
+    voltage: 240.5,
+    timestamp: '2026-02-09T10:30:00Z',
+  };
+
+  const mockIngestionService = {
+    ingestMeterTelemetry: jest.fn(),
+    ingestVehicleTelemetry: jest.fn(),
+  };
+
+  // Resolves on the next event of `name` the broker emits
+  const brokerEmits = (name: 'ack' | 'subscribe' | 'clientReady') =>
+    new Promise<void>((resolve) => broker.once(name, () => resolve()));
+
+  const compile = (config: Record<string, string>) =>
+    Test.createTestingModule({
+      providers: [
+        MqttIngestionService,
+        { provide: IngestionService, useValue: mockIngestionService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key, fallback) => config[key] ?? fallback),
+          },
+        },
+      ],
+    }).compile();
+
+  const publish = (topic: string, payload: object | string) =>
+    publisher.publishAsync(
+      topic,
+      typeof payload === 'string' ? payload : JSON.stringify(payload),
+      { qos: 1 },
+    );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockIngestionService.ingestMeterTelemetry.mockResolvedValue({
+      status: 'accepted',
+    });
+    mockIngestionService.ingestVehicleTelemetry.mockResolvedValue({
+      status: 'accepted',
+    });
+
+    broker = createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    module = await compile({
+      MQTT_URL: url,
+      MQTT_CLIENT_ID: 'ingestion-test',
+      MQTT_RETRY_SECONDS: '0.05',
+    });
+    service = module.get<MqttIngestionService>(MqttIngestionService);
+
+    const subscribed = brokerEmits('subscribe');
+    await module.init();
+    await subscribed;
+    publisher = await connectAsync(url, { clientId: 'device-test' });
+  });
+
+  afterEach(async () => {
+    await publisher.endAsync();
+    await module.close();
+    await new Promise<void>((resolve) => broker.close(() => resolve()));
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should acknowledge a reading only after it is stored', async () => {
+    let store!: () => void;
+    mockIngestionService.ingestMeterTelemetry.mockReturnValueOnce(
+      new Promise((resolve) => (store = () => resolve({ status: 'accepted' }))),
+    );
+    let acked = false;
+    const ack = brokerEmits('ack').then(() => (acked = true));
+
+    await publish('meters/METER_001/telemetry', meterPayload);
+    while (mockIngestionService.ingestMeterTelemetry.mock.calls.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    expect(mockIngestionService.ingestMeterTelemetry).toHaveBeenCalledWith(
+      expect.objectContaining({ meterId: 'METER_001', voltage: 240.5 }),
+      null,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(acked).toBe(false);
+
+    store();
+    await ack;
+  });
+
+  it('should route vehicle topics to vehicle ingestion', async () => {
+    const ack = brokerEmits('ack');
+
+    await publish('vehicles/VEHICLE_001/telemetry', {
+      soc: 85.5,
+      kwhDeliveredDc: 42.123,
+      timestamp: '2026-02-09T10:30:00Z',
+    });
+    await ack;
+
+    expect(mockIngestionService.ingestVehicleTelemetry).toHaveBeenCalledWith(
+      expect.objectContaining({ vehicleId: 'VEHICLE_001', soc: 85.5 }),
+      null,
+    );
+  });
+
+  it('should acknowledge and drop invalid payloads', async () => {
+    const ack = brokerEmits('ack');
+
+    await publish('meters/METER_001/telemetry', {
+      ...meterPayload,
+      voltage: -1,
+    });
+    await ack;
+
+    expect(mockIngestionService.ingestMeterTelemetry).not.toHaveBeenCalled();
+  });
+
+  it('should get a reading delivered again when storing it fails', async () => {
+    mockIngestionService.ingestMeterTelemetry.mockRejectedValueOnce(
+      new Error('connection terminated'),
+    );
+    const ack = brokerEmits('ack');
+
+    await publish('meters/METER_001/telemetry', meterPayload);
+    await ack;
+
+    expect(mockIngestionService.ingestMeterTelemetry).toHaveBeenCalledTimes(2);
+    expect(mockIngestionService.ingestMeterTelemetry.mock.calls[1][0]).toEqual(
+      expect.objectContaining({ meterId: 'METER_001' }),
+    );
+  });
+
+  describe('handle', () => {
+    it('should refuse a payload naming another device than its topic', async () => {
+      await service.handle(
+        'meters/METER_001/telemetry',
+        Buffer.from(JSON.stringify({ ...meterPayload, meterId: 'METER_002' })),
+      );
+
+      expect(mockIngestionService.ingestMeterTelemetry).not.toHaveBeenCalled();
+    });
+
+    it('should treat a refused device as final', async () => {
+      mockIngestionService.ingestMeterTelemetry.mockRejectedValueOnce(
+        new BadRequestException('meter METER_001 is decommissioned'),
+      );
+
+      await expect(
+        service.handle(
+          'meters/METER_001/telemetry',
+          Buffer.from(JSON.stringify(meterPayload)),
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should write as the configured tenant and drop foreign devices', async () => {
+      const tenantModule = await compile({ MQTT_TENANT_ID: 'tenant-1' });
+      const tenantService = tenantModule.get(MqttIngestionService);
+      mockIngestionService.ingestMeterTelemetry.mockRejectedValueOnce(
+        new ForbiddenException(
+          'meter METER_001 is not registered to this tenant',
+        ),
+      );
+
+      await expect(
+        tenantService.handle(
+          'meters/METER_001/telemetry',
+          Buffer.from(JSON.stringify(meterPayload)),
+        ),
+      ).resolves.toBeUndefined();
+
+      expect(mockIngestionService.ingestMeterTelemetry).toHaveBeenCalledWith(
+        expect.objectContaining({ meterId: 'METER_001' }),
+        'tenant-1',
+      );
+      await tenantModule.close();
+    });
+
+    it('should ignore topics outside the configured filters', async () => {
+      await service.handle(
+        'meters/METER_001/status',
+        Buffer.from(JSON.stringify(meterPayload)),
+      );
+
+      expect(mockIngestionService.ingestMeterTelemetry).not.toHaveBeenCalled();
+    });
+  });
+});
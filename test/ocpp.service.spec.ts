@@ -0,0 +1,488 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull } from 'typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import {
+  OcppCallError,
+  OcppErrorCode,
+  OcppService,
+} from '../src/services/ocpp.service';
+import { OcppTransaction } from '../src/entities/ocpp-transaction.entity';
+import { CurrentVehicleStatus } from '../src/entities/current-vehicle-status.entity';
+import { IngestionService } from '../src/services/ingestion.service';
+import { VehicleMeterAssignmentService } from '../src/services/vehicle-meter-assignment.service';
+import { TenantService } from '../src/services/tenant.service';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+
+describe('OcppService', () => {
+  let service: OcppService;
+
+  const chargePoint = { id: 'CP_001', tenantId: 'tenant-1' };
+
+  // Transaction 7: VEHICLE_001 on connector 1 from 1000 Wh, register at 40 kWh
+  const openTransaction = () =>
+    ({
+      id: 7,
+      chargePointId: 'CP_001',
+      connectorId: 1,
+      meterId: 'CP_001-1',
+      vehicleId: 'VEHICLE_001',
+      tenantId: 'tenant-1',
+      meterStartWh: '1000',
+      registerBase: '40.000',
+      assignmentId: 'assignment-1',
+      startedAt: new Date('2026-02-09T10:00:00Z'),
+      meterStopWh: null,
+      stoppedAt: null,
+      stopReason: null,
+    }) as unknown as OcppTransaction;
+
+  const mockTransactionRepo = {
+    findOne: jest.fn(),
+    create: jest.fn((data) => data),
+    save: jest.fn(async (data) => ({ id: 7, ...data })),
+  };
+
+  const mockVehicleStatusRepo = { findOne: jest.fn() };
+
+  const mockIngestionService = {
+    ingestMeterTelemetry: jest.fn(),
+    ingestVehicleTelemetry: jest.fn(),
+  };
+
+  const mockAssignmentService = {
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+
+  // Devices the charge point's tenant may not write to
+  let foreign: Set<string>;
+
+  const mockTenantService = {
+    deniedWrites: jest.fn(
+      async (_tenantId, _deviceType, deviceIds: string[]) =>
+        new Set(deviceIds.filter((id) => foreign.has(id))),
+    ),
+  };
+
+  const sample = (value: string, extra: object = {}) => ({ value, ...extra });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    foreign = new Set();
+    mockTransactionRepo.findOne.mockResolvedValue(null);
+    mockVehicleStatusRepo.findOne.mockResolvedValue(null);
+    mockAssignmentService.create.mockResolvedValue({ id: 'assignment-1' });
+    mockIngestionService.ingestMeterTelemetry.mockResolvedValue({
+      status: 'accepted',
+    });
+    mockIngestionService.ingestVehicleTelemetry.mockResolvedValue({
+      status: 'accepted',
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OcppService,
+        {
+          provide: getRepositoryToken(OcppTransaction),
+          useValue: mockTransactionRepo,
+        },
+        {
+          provide: getRepositoryToken(CurrentVehicleStatus),
+          useValue: mockVehicleStatusRepo,
+        },
+        { provide: IngestionService, useValue: mockIngestionService },
+        {
+          provide: VehicleMeterAssignmentService,
+          useValue: mockAssignmentService,
+        },
+        { provide: TenantService, useValue: mockTenantService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, fallback) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OcppService>(OcppService);
+  });
+
+  describe('handleCall', () => {
+    it('should accept boot notifications with the heartbeat interval', async () => {
+      const result = await service.handleCall(chargePoint, 'BootNotification', {
+        chargePointVendor: 'Acme',
+        chargePointModel: 'AC22',
+      });
+
+      expect(result).toEqual({
+        status: 'Accepted',
+        currentTime: expect.any(String),
+        interval: 300,
+      });
+    });
+
+    it('should refuse actions it does not implement', async () => {
+      await expect(
+        service.handleCall(chargePoint, 'SignCertificate', {}),
+      ).rejects.toEqual(
+        expect.objectContaining({ code: OcppErrorCode.NOT_IMPLEMENTED }),
+      );
+    });
+
+    it("should only authorize idTags of the tenant's vehicles", async () => {
+      foreign.add('VEHICLE_002');
+
+      await expect(
+        service.handleCall(chargePoint, 'Authorize', { idTag: 'VEHICLE_001' }),
+      ).resolves.toEqual({ idTagInfo: { status: 'Accepted' } });
+      await expect(
+        service.handleCall(chargePoint, 'Authorize', { idTag: 'VEHICLE_002' }),
+      ).resolves.toEqual({ idTagInfo: { status: 'Invalid' } });
+    });
+
+    it('should refuse malformed payloads', async () => {
+      const call = service.handleCall(chargePoint, 'StartTransaction', {
+        connectorId: 1,
+        meterStart: 1000,
+        timestamp: '2026-02-09T10:00:00Z',
+      });
+
+      await expect(call).rejects.toThrow(OcppCallError);
+      await expect(call).rejects.toEqual(
+        expect.objectContaining({ code: OcppErrorCode.FORMATION_VIOLATION }),
+      );
+    });
+  });
+
+  describe('StartTransaction', () => {
+    const start = {
+      connectorId: 1,
+      idTag: 'VEHICLE_001',
+      meterStart: 1000,
+      timestamp: '2026-02-09T10:00:00Z',
+    };
+
+    it('should open a transaction and assign the vehicle to the connector', async () => {
+      mockVehicleStatusRepo.findOne.mockResolvedValue({
+        kwhDeliveredDc: '40.000',
+      });
+
+      const result = await service.handleCall(
+        chargePoint,
+        'StartTransaction',
+        start,
+      );
+
+      expect(result).toEqual({
+        transactionId: 7,
+        idTagInfo: { status: 'Accepted' },
+      });
+      expect(mockTransactionRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          meterId: 'CP_001-1',
+          vehicleId: 'VEHICLE_001',
+          tenantId: 'tenant-1',
+          meterStartWh: 1000,
+          registerBase: 40,
+        }),
+      );
+      expect(mockAssignmentService.create).toHaveBeenCalledWith({
+        vehicleId: 'VEHICLE_001',
+        meterId: 'CP_001-1',
+        effectiveFrom: '2026-02-09T10:00:00Z',
+      });
+      expect(mockIngestionService.ingestMeterTelemetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          meterId: 'CP_001-1',
+          kwhConsumedAc: 1,
+          voltage: 230,
+        }),
+        'tenant-1',
+      );
+    });
+
+    it('should look up open transactions within the tenant', async () => {
+      await service.handleCall(chargePoint, 'StartTransaction', start);
+
+      expect(mockTransactionRepo.findOne).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          chargePointId: 'CP_001',
+          tenantId: 'tenant-1',
+          connectorId: 1,
+        }),
+      });
+    });
+
+    it.each([
+      ['a vehicle', 'VEHICLE_001'],
+      ['a connector meter', 'CP_001-1'],
+    ])(
+      'should refuse to charge %s of another tenant',
+      async (_device, deviceId) => {
+        foreign.add(deviceId);
+
+        const result = await service.handleCall(
+          chargePoint,
+          'StartTransaction',
+          start,
+        );
+
+        expect(result).toEqual({
+          transactionId: 0,
+          idTagInfo: { status: 'Invalid' },
+        });
+        expect(mockTenantService.deniedWrites).toHaveBeenCalledWith(
+          'tenant-1',
+          deviceId === 'VEHICLE_001' ? DeviceType.VEHICLE : DeviceType.METER,
+          [deviceId],
+        );
+        expect(mockTransactionRepo.findOne).not.toHaveBeenCalled();
+        expect(mockVehicleStatusRepo.findOne).not.toHaveBeenCalled();
+        expect(mockAssignmentService.create).not.toHaveBeenCalled();
+        expect(
+          mockIngestionService.ingestMeterTelemetry,
+        ).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should answer a retried start with the same transaction', async () => {
+      mockTransactionRepo.findOne.mockResolvedValue(openTransaction());
+
+      const result = await service.handleCall(
+        chargePoint,
+        'StartTransaction',
+        start,
+      );
+
+      expect(result).toEqual(expect.objectContaining({ transactionId: 7 }));
+      expect(mockTransactionRepo.create).not.toHaveBeenCalled();
+      expect(mockAssignmentService.create).not.toHaveBeenCalled();
+    });
+
+    it('should close a transaction the charger left open on the connector', async () => {
+      mockTransactionRepo.findOne.mockResolvedValue(openTransaction());
+
+      await service.handleCall(chargePoint, 'StartTransaction', {
+        ...start,
+        timestamp: '2026-02-09T12:00:00Z',
+      });
+
+      expect(mockAssignmentService.update).toHaveBeenCalledWith(
+        'assignment-1',
+        { effectiveUntil: '2026-02-09T12:00:00.000Z' },
+      );
+      expect(mockTransactionRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 7, stopReason: 'Superseded' }),
+      );
+      expect(mockTransactionRepo.create).toHaveBeenCalled();
+    });
+
+    it('should start without an assignment when one conflicts', async () => {
+      mockAssignmentService.create.mockRejectedValue(
+        new ConflictException('vehicle VEHICLE_001 is already assigned'),
+      );
+
+      const result = await service.handleCall(
+        chargePoint,
+        'StartTransaction',
+        start,
+      );
+
+      expect(result).toEqual(expect.objectContaining({ transactionId: 7 }));
+      expect(mockIngestionService.ingestMeterTelemetry).toHaveBeenCalled();
+    });
+  });
+
+  describe('MeterValues', () => {
+    it('should map meter values into meter and vehicle readings', async () => {
+      mockTransactionRepo.findOne.mockResolvedValue(openTransaction());
+
+      await service.handleCall(chargePoint, 'MeterValues', {
+        connectorId: 1,
+        transactionId: 7,
+        meterValue: [
+          {
+            timestamp: '2026-02-09T10:15:00Z',
+            sampledValue: [
+              sample('3.5', { unit: 'kWh' }),
+              sample('231.0', { measurand: 'Voltage', phase: 'L1-N' }),
+              sample('229.0', { measurand: 'Voltage', phase: 'L2-N' }),
+              sample('398.0', { measurand: 'Voltage', phase: 'L1-L2' }),
+              sample('62', {
+                measurand: 'SoC',
+                location: 'EV',
+                unit: 'Percent',
+              }),
+              sample('306.15', {
+                measurand: 'Temperature',
+                location: 'EV',
+                unit: 'K',
+              }),
+            ],
+          },
+        ],
+      });
+
+      expect(mockIngestionService.ingestMeterTelemetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          meterId: 'CP_001-1',
+          kwhConsumedAc: 3.5,
+          voltage: 230,
+          timestamp: '2026-02-09T10:15:00Z',
+        }),
+        'tenant-1',
+      );
+      expect(mockIngestionService.ingestVehicleTelemetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          vehicleId: 'VEHICLE_001',
+          soc: 62,
+          kwhDeliveredDc: 42.5,
+          batteryTemp: 33,
+        }),
+        'tenant-1',
+      );
+    });
+
+    it('should meter grid energy from the inlet register', async () => {
+      mockTransactionRepo.findOne.mockResolvedValue(openTransaction());
+
+      await service.handleCall(chargePoint, 'MeterValues', {
+        connectorId: 1,
+        transactionId: 7,
+        meterValue: [
+          {
+            timestamp: '2026-02-09T10:15:00Z',
+            sampledValue: [
+              sample('4000', { location: 'Inlet' }),
+              sample('3500', { location: 'Outlet' }),
+              sample('62', { measurand: 'SoC' }),
+            ],
+          },
+        ],
+      });
+
+      expect(mockIngestionService.ingestMeterTelemetry).toHaveBeenCalledWith(
+        expect.objectContaining({ kwhConsumedAc: 4 }),
+        'tenant-1',
+      );
+      expect(mockIngestionService.ingestVehicleTelemetry).toHaveBeenCalledWith(
+        expect.objectContaining({ kwhDeliveredDc: 42.5 }),
+        'tenant-1',
+      );
+    });
+
+    it('should write no vehicle reading without a state of charge', async () => {
+      await service.handleCall(chargePoint, 'MeterValues', {
+        connectorId: 0,
+        meterValue: [
+          {
+            timestamp: '2026-02-09T10:15:00Z',
+            sampledValue: [sample('125456')],
+          },
+        ],
+      });
+
+      expect(mockIngestionService.ingestMeterTelemetry).toHaveBeenCalledWith(
+        expect.objectContaining({ meterId: 'CP_001', kwhConsumedAc: 125.456 }),
+        'tenant-1',
+      );
+      expect(
+        mockIngestionService.ingestVehicleTelemetry,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should drop readings the ingestion refuses', async () => {
+      mockIngestionService.ingestMeterTelemetry.mockRejectedValue(
+        new BadRequestException('meter CP_001 is decommissioned'),
+      );
+
+      await expect(
+        service.handleCall(chargePoint, 'MeterValues', {
+          connectorId: 0,
+          meterValue: [
+            {
+              timestamp: '2026-02-09T10:15:00Z',
+              sampledValue: [sample('125456')],
+            },
+          ],
+        }),
+      ).resolves.toEqual({});
+    });
+
+    it('should fail the call when storing a reading fails', async () => {
+      mockIngestionService.ingestMeterTelemetry.mockRejectedValue(
+        new Error('connection terminated'),
+      );
+
+      await expect(
+        service.handleCall(chargePoint, 'MeterValues', {
+          connectorId: 0,
+          meterValue: [
+            {
+              timestamp: '2026-02-09T10:15:00Z',
+              sampledValue: [sample('125456')],
+            },
+          ],
+        }),
+      ).rejects.toThrow('connection terminated');
+    });
+  });
+
+  describe('StopTransaction', () => {
+    it('should store the final register and end the assignment', async () => {
+      mockTransactionRepo.findOne.mockResolvedValue(openTransaction());
+
+      const result = await service.handleCall(chargePoint, 'StopTransaction', {
+        transactionId: 7,
+        meterStop: 9000,
+        timestamp: '2026-02-09T11:00:00Z',
+        reason: 'EVDisconnected',
+      });
+
+      expect(result).toEqual({ idTagInfo: { status: 'Accepted' } });
+      expect(mockIngestionService.ingestMeterTelemetry).toHaveBeenCalledWith(
+        expect.objectContaining({ meterId: 'CP_001-1', kwhConsumedAc: 9 }),
+        'tenant-1',
+      );
+      expect(mockAssignmentService.update).toHaveBeenCalledWith(
+        'assignment-1',
+        { effectiveUntil: '2026-02-09T11:00:00.000Z' },
+      );
+      expect(mockTransactionRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          meterStopWh: 9000,
+          stopReason: 'EVDisconnected',
+          stoppedAt: new Date('2026-02-09T11:00:00Z'),
+        }),
+      );
+    });
+
+    it('should only stop transactions opened under the same tenant', async () => {
+      await service.handleCall(
+        { id: 'CP_001', tenantId: null },
+        'StopTransaction',
+        {
+          transactionId: 7,
+          meterStop: 9000,
+          timestamp: '2026-02-09T11:00:00Z',
+        },
+      );
+
+      expect(mockTransactionRepo.findOne).toHaveBeenCalledWith({
+        where: { id: 7, chargePointId: 'CP_001', tenantId: IsNull() },
+      });
+    });
+
+    it('should accept stops of unknown transactions', async () => {
+      const result = await service.handleCall(chargePoint, 'StopTransaction', {
+        transactionId: 99,
+        meterStop: 9000,
+        timestamp: '2026-02-09T11:00:00Z',
+      });
+
+      expect(result).toEqual({ idTagInfo: { status: 'Accepted' } });
+      expect(mockTransactionRepo.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { PartitionManagerService } from '../src/services/partition-manager.service';
+
+describe('PartitionManagerService', () => {
+  let service: PartitionManagerService;
+  let config: Record<string, string>;
+
+  const now = new Date('2026-02-09T12:00:00Z');
+  const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+  const partition = (parent: string, from: string | null, to?: string) => ({
+    parent,
+    name: from ? `${parent}_${from.replace(/-/g, '_')}` : `${parent}_default`,
+    range_from: from ? day(from) : null,
+    range_to: to ? day(to) : null,
+    is_default: from === null,
+    estimated_rows: '-1',
+    size_bytes: '8192',
+  });
+
+  let partitions: Record<string, any[]>;
+  let stragglers: boolean;
+  let lateDays: Record<string, string[]>;
+
+  const mockRunner = {
+    connect: jest.fn(),
+    release: jest.fn(),
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    rollbackTransaction: jest.fn(),
+    query: jest.fn(async (sql: string, params?: any[]) => {
+      if (sql.includes('pg_try_advisory_lock')) {
+        return [{ locked: true }];
+      }
+      if (sql.includes('FROM pg_inherits')) {
+        return partitions[params![0]] ?? [];
+      }
+      if (sql.includes('as late_day')) {
+        const parent = Object.keys(lateDays).find((table) =>
+          sql.includes(`FROM ${table}_default`),
+        );
+        return (parent ? lateDays[parent] : []).map((date) => ({
+          late_day: day(date),
+        }));
+      }
+      if (sql.includes('DELETE FROM') && !sql.includes('WITH moved')) {
+        return [[], 3];
+      }
+      if (sql.includes('as stragglers')) {
+        return [{ stragglers }];
+      }
+      if (sql.includes('WITH moved')) {
+        return [{ moved: '12' }];
+      }
+      if (sql.includes('COUNT(*)')) {
+        return [{ count: '42' }];
+      }
+      return [];
+    }),
+  };
+
+  const executed = () =>
+    mockRunner.query.mock.calls
+      .map(([sql]) => sql.trim())
+      .filter((sql) => /^(CREATE|ALTER|DROP|DELETE)/.test(sql));
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PartitionManagerService,
+        {
+          provide: DataSource,
+          useValue: { createQueryRunner: () => mockRunner },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key, fallback) => config[key] ?? fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<PartitionManagerService>(PartitionManagerService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = { PARTITION_PRECREATE_DAYS: '1' };
+    stragglers = false;
+    lateDays = {};
+    partitions = {
+      meter_telemetry_history: [
+        partition('meter_telemetry_history', null),
+        partition('meter_telemetry_history', '2026-02-09', '2026-02-10'),
+        partition('meter_telemetry_history', '2026-02-10', '2026-02-11'),
+      ],
+      vehicle_telemetry_history: [
+        partition('vehicle_telemetry_history', null),
+        partition('vehicle_telemetry_history', '2026-02-09', '2026-02-10'),
+        partition('vehicle_telemetry_history', '2026-02-10', '2026-02-11'),
+      ],
+    };
+
+    service = await createService();
+  });
+
+  it('should leave existing partitions alone', async () => {
+    const result = await service.maintain(now);
+
+    expect(result.created).toEqual([]);
+    expect(result.retired).toEqual([]);
+    expect(executed()).toEqual([]);
+    expect(mockRunner.release).toHaveBeenCalled();
+  });
+
+  it('should create the default partition and missing days', async () => {
+    partitions.meter_telemetry_history = [];
+
+    const result = await service.maintain(now);
+
+    expect(result.created).toEqual([
+      'meter_telemetry_history_default',
+      'meter_telemetry_history_2026_02_09',
+      'meter_telemetry_history_2026_02_10',
+    ]);
+    expect(executed()).toContain(
+      "CREATE TABLE meter_telemetry_history_2026_02_10 PARTITION OF meter_telemetry_history FOR VALUES FROM ('2026-02-10T00:00:00.000Z') TO ('2026-02-11T00:00:00.000Z')",
+    );
+  });
+
+  it('should move stragglers out of the default partition', async () => {
+    partitions.vehicle_telemetry_history.pop();
+    stragglers = true;
+
+    const result = await service.maintain(now);
+
+    expect(result.created).toEqual(['vehicle_telemetry_history_2026_02_10']);
+    expect(executed()).toEqual([
+      'CREATE TABLE vehicle_telemetry_history_2026_02_10 (LIKE vehicle_telemetry_history INCLUDING DEFAULTS INCLUDING CONSTRAINTS)',
+      "ALTER TABLE vehicle_telemetry_history ATTACH PARTITION vehicle_telemetry_history_2026_02_10 FOR VALUES FROM ('2026-02-10T00:00:00.000Z') TO ('2026-02-11T00:00:00.000Z')",
+    ]);
+    expect(mockRunner.query).toHaveBeenCalledWith(
+      expect.stringContaining('SELECT COUNT(*) as moved FROM copied'),
+      ['2026-02-10T00:00:00.000Z', '2026-02-11T00:00:00.000Z'],
+    );
+    expect(mockRunner.commitTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give late readings for a past day their own partition', async () => {
+    lateDays = { meter_telemetry_history: ['2026-02-01'] };
+    stragglers = true;
+
+    const result = await service.maintain(now);
+
+    expect(result.created).toEqual(['meter_telemetry_history_2026_02_01']);
+    expect(mockRunner.query).toHaveBeenCalledWith(
+      expect.stringContaining('SELECT COUNT(*) as moved FROM copied'),
+      ['2026-02-01T00:00:00.000Z', '2026-02-02T00:00:00.000Z'],
+    );
+    expect(executed()).toContain(
+      "ALTER TABLE meter_telemetry_history ATTACH PARTITION meter_telemetry_history_2026_02_01 FOR VALUES FROM ('2026-02-01T00:00:00.000Z') TO ('2026-02-02T00:00:00.000Z')",
+    );
+  });
+
+  it('should move late readings past retention into the detached partition', async () => {
+    lateDays = { vehicle_telemetry_history: ['2025-11-10'] };
+
+    const result = await service.maintain(now);
+
+    expect(result.created).toEqual([]);
+    expect(executed()).toEqual([
+      'CREATE TABLE IF NOT EXISTS "vehicle_telemetry_history_2025_11_10" (LIKE vehicle_telemetry_history INCLUDING DEFAULTS INCLUDING CONSTRAINTS)',
+    ]);
+    expect(mockRunner.query).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'INSERT INTO "vehicle_telemetry_history_2025_11_10" SELECT * FROM moved',
+      ),
+      ['2025-11-10T00:00:00.000Z', '2025-11-11T00:00:00.000Z'],
+    );
+  });
+
+  it('should drop late readings past retention when partitions are dropped', async () => {
+    config.PARTITION_RETENTION_ACTION = 'drop';
+    service = await createService();
+    lateDays = { meter_telemetry_history: ['2025-11-10'] };
+
+    await service.maintain(now);
+
+    expect(executed()).toEqual([
+      'DELETE FROM meter_telemetry_history_default WHERE timestamp >= $1 AND timestamp < $2',
+    ]);
+  });
+
+  it('should refuse an unknown retention action', async () => {
+    config.PARTITION_RETENTION_ACTION = 'delete';
+
+    await expect(createService()).rejects.toThrow(
+      'PARTITION_RETENTION_ACTION must be one of detach, drop, archive, not "delete"',
+    );
+  });
+
+  it('should detach partitions past retention by default', async () => {
+    partitions.meter_telemetry_history.splice(
+      1,
+      0,
+      partition('meter_telemetry_history', '2025-11-10', '2025-11-11'),
+    );
+
+    const result = await service.maintain(now);
+
+    expect(result.retired).toEqual(['meter_telemetry_history_2025_11_10']);
+    expect(executed()).toEqual([
+      'ALTER TABLE meter_telemetry_history DETACH PARTITION "meter_telemetry_history_2025_11_10"',
+    ]);
+  });
+
+  it('should move retired partitions to the archive schema', async () => {
+    config.PARTITION_RETENTION_ACTION = 'archive';
+    config.PARTITION_RETENTION_DAYS = '1';
+    service = await createService();
+
+    await service.maintain(day('2026-02-11'));
+
+    expect(executed()).toContain(
+      'ALTER TABLE "vehicle_telemetry_history_2026_02_09" SET SCHEMA "archive"',
+    );
+    expect(executed()).not.toContain(
+      'ALTER TABLE "vehicle_telemetry_history_2026_02_10" SET SCHEMA "archive"',
+    );
+  });
+
+  it('should skip the run when another instance holds the lock', async () => {
+    mockRunner.query.mockResolvedValueOnce([{ locked: false }]);
+
+    const result = await service.maintain(now);
+
+    expect(result.skipped).toBe(true);
+    expect(executed()).toEqual([]);
+  });
+
+  it('should list partitions with exact row counts on request', async () => {
+    const listed = await service.listPartitions(true);
+
+    expect(listed).toHaveLength(6);
+    expect(listed[1]).toEqual({
+      table: 'meter_telemetry_history',
+      partition: 'meter_telemetry_history_2026_02_09',
+      rangeFrom: '2026-02-09T00:00:00.000Z',
+      rangeTo: '2026-02-10T00:00:00.000Z',
+      isDefault: false,
+      rowCount: 42,
+      rowCountExact: true,
+      sizeBytes: 8192,
+    });
+  });
+});
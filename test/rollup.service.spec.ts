@@ -0,0 +1,206 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { RollupService } from '../src/services/rollup.service';
+import {
+  RollupRefresh,
+  RollupRefreshStatus,
+} from '../src/entities/rollup-refresh.entity';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+
+describe('RollupService', () => {
+  let service: RollupService;
+
+  const mockRefreshRepo = {
+    find: jest.fn(),
+    findOneBy: jest.fn((where) => Promise.resolve(where)),
+    save: jest.fn((data) => Promise.resolve(data)),
+  };
+
+  const mockRunner = {
+    connect: jest.fn(),
+    release: jest.fn(),
+    query: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRunner.query.mockImplementation(async (sql: string) =>
+      sql.includes('pg_try_advisory_lock') ? [{ locked: true }] : [],
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RollupService,
+        {
+          provide: getRepositoryToken(RollupRefresh),
+          useValue: mockRefreshRepo,
+        },
+        {
+          provide: DataSource,
+          useValue: { createQueryRunner: () => mockRunner },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, fallback) => fallback) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RollupService>(RollupService);
+  });
+
+  describe('refresh', () => {
+    it('should refresh concurrently and record the covered days', async () => {
+      jest.useFakeTimers({ now: new Date('2026-02-09T10:30:00Z') });
+
+      try {
+        await service.refresh('daily_vehicle_performance');
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(mockRunner.query).toHaveBeenCalledWith(
+        'REFRESH MATERIALIZED VIEW CONCURRENTLY daily_vehicle_performance',
+      );
+      expect(mockRefreshRepo.save).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ status: RollupRefreshStatus.RUNNING }),
+      );
+      expect(mockRefreshRepo.save).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          status: RollupRefreshStatus.SUCCEEDED,
+          coveredUntil: '2026-02-09',
+          lastError: null,
+        }),
+      );
+      expect(mockRunner.release).toHaveBeenCalled();
+    });
+
+    it('should record a failed refresh without throwing', async () => {
+      mockRunner.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('pg_try_advisory_lock')) {
+          return [{ locked: true }];
+        }
+        if (sql.startsWith('REFRESH')) {
+          throw new Error('canceling statement due to lock timeout');
+        }
+        return [];
+      });
+
+      await service.refresh('daily_meter_consumption');
+
+      const saved = mockRefreshRepo.save.mock.calls[1][0];
+      expect(saved.status).toBe(RollupRefreshStatus.FAILED);
+      expect(saved.lastError).toBe('canceling statement due to lock timeout');
+      expect(saved).not.toHaveProperty('coveredUntil');
+      expect(mockRunner.query).toHaveBeenCalledWith(
+        'SELECT pg_advisory_unlock(hashtext($1))',
+        ['rollup-refresh:daily_meter_consumption'],
+      );
+    });
+
+    it('should put back the stale marker it took when the refresh fails', async () => {
+      mockRunner.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('pg_try_advisory_lock')) {
+          return [{ locked: true }];
+        }
+        if (sql.includes('SET stale_from = NULL')) {
+          return [{ stale_from: '2026-02-03' }];
+        }
+        if (sql.startsWith('REFRESH')) {
+          throw new Error('canceling statement due to lock timeout');
+        }
+        return [];
+      });
+
+      await service.refresh('daily_meter_consumption');
+
+      expect(mockRunner.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET stale_from = LEAST'),
+        ['daily_meter_consumption', '2026-02-03'],
+      );
+    });
+
+    it('should skip a view another instance is refreshing', async () => {
+      mockRunner.query.mockResolvedValueOnce([{ locked: false }]);
+
+      await service.refresh('daily_vehicle_performance');
+
+      expect(mockRefreshRepo.save).not.toHaveBeenCalled();
+      expect(mockRunner.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('coveredUntil', () => {
+    it('should use the view that is furthest behind', async () => {
+      mockRefreshRepo.find.mockResolvedValueOnce([
+        { viewName: 'daily_vehicle_performance', coveredUntil: '2026-02-09' },
+        { viewName: 'daily_meter_consumption', coveredUntil: '2026-02-08' },
+      ]);
+
+      await expect(service.coveredUntil()).resolves.toBe(
+        Date.parse('2026-02-08T00:00:00Z'),
+      );
+    });
+
+    it('should move back to the earliest day written since the refresh', async () => {
+      mockRefreshRepo.find.mockResolvedValueOnce([
+        {
+          viewName: 'daily_vehicle_performance',
+          coveredUntil: '2026-02-09',
+          staleFrom: '2026-02-02',
+        },
+        {
+          viewName: 'daily_meter_consumption',
+          coveredUntil: '2026-02-08',
+          staleFrom: '2026-02-08',
+        },
+      ]);
+
+      await expect(service.coveredUntil()).resolves.toBe(
+        Date.parse('2026-02-02T00:00:00Z'),
+      );
+    });
+
+    it('should return null until every view has been refreshed', async () => {
+      mockRefreshRepo.find.mockResolvedValueOnce([
+        { viewName: 'daily_vehicle_performance', coveredUntil: '2026-02-09' },
+      ]);
+
+      await expect(service.coveredUntil()).resolves.toBeNull();
+    });
+  });
+
+  describe('markWritten', () => {
+    const mockManager = { query: jest.fn() };
+
+    afterEach(() => jest.useRealTimers());
+
+    it('should mark the view stale from the earliest past day', async () => {
+      jest.useFakeTimers({ now: new Date('2026-02-09T10:30:00Z') });
+
+      await service.markWritten(mockManager as any, DeviceType.METER, [
+        new Date('2026-02-07T23:59:00Z'),
+        new Date('2026-02-05T08:00:00Z'),
+      ]);
+
+      expect(mockManager.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE rollup_refresh SET stale_from = $2'),
+        ['daily_meter_consumption', '2026-02-05'],
+      );
+    });
+
+    it('should leave the view alone for readings of today', async () => {
+      jest.useFakeTimers({ now: new Date('2026-02-09T10:30:00Z') });
+
+      await service.markWritten(mockManager as any, DeviceType.VEHICLE, [
+        new Date('2026-02-09T10:29:00Z'),
+      ]);
+
+      expect(mockManager.query).not.toHaveBeenCalled();
+    });
+  });
+});
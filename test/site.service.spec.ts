@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SiteService } from '../src/services/site.service';
+import { Site } from '../src/entities/site.entity';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+
+describe('SiteService', () => {
+  let service: SiteService;
+
+  const site = (id: string, parentId: string | null = null) => ({
+    id,
+    name: id,
+    parentId,
+    createdAt: new Date('2026-02-01T09:00:00Z'),
+    updatedAt: new Date('2026-02-01T09:00:00Z'),
+  });
+
+  const mockSiteRepo = {
+    create: jest.fn((data) => ({ ...data })),
+    save: jest.fn((entity) =>
+      Promise.resolve({ ...site(entity.id), ...entity }),
+    ),
+    find: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn(
+      ({ where }): Promise<any> => Promise.resolve(site(where.id)),
+    ),
+    delete: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const mockDataSource = {
+    query: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SiteService,
+        { provide: getRepositoryToken(Site), useValue: mockSiteRepo },
+        { provide: DataSource, useValue: mockDataSource },
+      ],
+    }).compile();
+
+    service = module.get<SiteService>(SiteService);
+  });
+
+  describe('create', () => {
+    it('should map a duplicate ID to a conflict', async () => {
+      mockSiteRepo.save.mockRejectedValueOnce({ code: '23505' });
+
+      await expect(
+        service.create({ id: 'depot-north', name: 'North Depot' }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should refuse an unknown parent', async () => {
+      mockSiteRepo.save.mockRejectedValueOnce({ code: '23503' });
+
+      await expect(
+        service.create({
+          id: 'depot-north',
+          name: 'North Depot',
+          parentId: 'region-404',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('update', () => {
+    it('should refuse to move a site under one of its sub-sites', async () => {
+      mockDataSource.query.mockResolvedValueOnce([{ '?column?': 1 }]);
+
+      await expect(
+        service.update('region-north', { parentId: 'depot-north' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockDataSource.query.mock.calls[0][1]).toEqual([
+        'region-north',
+        'depot-north',
+      ]);
+      expect(mockSiteRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should make a site top-level without a cycle check', async () => {
+      mockSiteRepo.findOne.mockResolvedValueOnce(
+        site('depot-north', 'region-north'),
+      );
+
+      const updated = await service.update('depot-north', { parentId: null });
+
+      expect(updated.parentId).toBeNull();
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should keep a site that has sub-sites', async () => {
+      mockSiteRepo.delete.mockRejectedValueOnce({ code: '23503' });
+
+      await expect(service.remove('region-north')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should throw for an unknown site', async () => {
+      mockSiteRepo.delete.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(service.remove('depot-404')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('assignDevices', () => {
+    it('should report devices that are not registered', async () => {
+      // UPDATE ... RETURNING resolves to [rows, count]
+      mockDataSource.query.mockResolvedValueOnce([
+        [{ device_id: 'VEHICLE_001' }],
+        1,
+      ]);
+
+      const result = await service.assignDevices('depot-north', {
+        deviceType: DeviceType.VEHICLE,
+        deviceIds: ['VEHICLE_001', 'VEHICLE_0O2', 'VEHICLE_001'],
+      });
+
+      expect(result).toEqual({ assigned: 1, unregistered: ['VEHICLE_0O2'] });
+      expect(mockDataSource.query.mock.calls[0][1]).toEqual([
+        'depot-north',
+        DeviceType.VEHICLE,
+        ['VEHICLE_001', 'VEHICLE_0O2'],
+      ]);
+    });
+
+    it('should throw for an unknown site', async () => {
+      mockSiteRepo.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.assignDevices('depot-404', {
+          deviceType: DeviceType.METER,
+          deviceIds: ['METER_001'],
+        }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+  });
+});
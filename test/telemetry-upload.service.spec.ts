@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import { TelemetryUploadService } from '../src/services/telemetry-upload.service';
+import {
+  BulkLoadService,
+  UnparsableReading,
+} from '../src/services/bulk-load.service';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+
+describe('TelemetryUploadService', () => {
+  let service: TelemetryUploadService;
+  let loaded: unknown[];
+
+  // Consumes the readings like a bulk load, refusing unparsable lines
+  const mockBulkLoadService = {
+    load: jest.fn(async (_deviceType, readings: AsyncIterable<unknown>) => {
+      loaded = [];
+      const errors: any[] = [];
+      for await (const reading of readings) {
+        if (reading instanceof UnparsableReading) {
+          errors.push({
+            index: loaded.length,
+            readings: 1,
+            reason: reading.reason,
+          });
+        }
+        loaded.push(reading);
+      }
+      return {
+        status: errors.length > 0 ? 'partial' : 'accepted',
+        count: loaded.length,
+        inserted: loaded.length - errors.length,
+        duplicates: 0,
+        rejected: errors.length,
+        anomalies: 0,
+        devices: 1,
+        liveStatusUpdated: 1,
+        durationMs: 5,
+        errors,
+        errorsTruncated: false,
+      };
+    }),
+  };
+
+  const body = (text: string | Buffer) => Readable.from([text]);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TelemetryUploadService,
+        { provide: BulkLoadService, useValue: mockBulkLoadService },
+      ],
+    }).compile();
+
+    service = module.get<TelemetryUploadService>(TelemetryUploadService);
+  });
+
+  describe('NDJSON', () => {
+    it('should load one reading per line and report refusals by line', async () => {
+      const result = await service.upload(
+        DeviceType.METER,
+        body(
+          [
+            '{"meterId":"METER_001","kwhConsumedAc":125.4,"voltage":240.5,"timestamp":"2026-02-09T10:30:00Z"}',
+            '',
+            '{"meterId":"METER_001",',
+            '{"meterId":"METER_001","kwhConsumedAc":125.6,"voltage":240.1,"timestamp":"2026-02-09T10:31:00Z"}',
+          ].join('\r\n'),
+        ),
+        'application/x-ndjson',
+        undefined,
+        'tenant-1',
+      );
+
+      expect(mockBulkLoadService.load).toHaveBeenCalledWith(
+        DeviceType.METER,
+        expect.anything(),
+        'tenant-1',
+      );
+      expect(loaded).toHaveLength(3);
+      expect(loaded[2]).toEqual(
+        expect.objectContaining({ kwhConsumedAc: 125.6 }),
+      );
+      expect(result.errors).toEqual([
+        {
+          index: 1,
+          line: 3,
+          readings: 1,
+          reason: expect.stringContaining('invalid JSON'),
+        },
+      ]);
+    });
+
+    it('should decompress gzip bodies', async () => {
+      await service.upload(
+        DeviceType.VEHICLE,
+        body(
+          gzipSync(
+            '{"vehicleId":"VEHICLE_001","soc":85.5,"kwhDeliveredDc":42.1,"timestamp":"2026-02-09T10:30:00Z"}\n',
+          ),
+        ),
+        'application/x-ndjson; charset=utf-8',
+        'gzip',
+      );
+
+      expect(loaded).toEqual([
+        expect.objectContaining({ vehicleId: 'VEHICLE_001', soc: 85.5 }),
+      ]);
+    });
+
+    it('should reject a body that is not gzip', async () => {
+      await expect(
+        service.upload(
+          DeviceType.METER,
+          body('{"meterId":"METER_001"}\n'),
+          'application/x-ndjson',
+          'gzip',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('CSV', () => {
+    it('should map columns by header and convert numeric fields', async () => {
+      const result = await service.upload(
+        DeviceType.VEHICLE,
+        body(
+          [
+            'vehicleId,soc,kwhDeliveredDc,batteryTemp,timestamp',
+            'VEHICLE_001,85.5,42.123,35.2,2026-02-09T10:30:00Z',
+            '"VEHICLE ""2""",72,38.4,,2026-02-09T10:30:00Z',
+            'VEHICLE_003,high,38.4,,2026-02-09T10:30:00Z',
+            'VEHICLE_004,95.1,2026-02-09T10:30:00Z',
+            '',
+          ].join('\n'),
+        ),
+        'text/csv',
+        undefined,
+      );
+
+      expect(loaded[0]).toEqual({
+        vehicleId: 'VEHICLE_001',
+        soc: 85.5,
+        kwhDeliveredDc: 42.123,
+        batteryTemp: 35.2,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+      expect(loaded[1]).toEqual({
+        vehicleId: 'VEHICLE "2"',
+        soc: 72,
+        kwhDeliveredDc: 38.4,
+        timestamp: '2026-02-09T10:30:00Z',
+      });
+      // Left as text, so validation reports it as not a number
+      expect(loaded[2]).toEqual(expect.objectContaining({ soc: 'high' }));
+      expect(result.errors).toEqual([
+        {
+          index: 3,
+          line: 5,
+          readings: 1,
+          reason: 'expected 5 fields, got 3',
+        },
+      ]);
+    });
+
+    it('should refuse an upload with unknown columns', async () => {
+      await expect(
+        service.upload(
+          DeviceType.METER,
+          body('meter_id,kwh,voltage,timestamp\n'),
+          'text/csv',
+          undefined,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  it('should refuse unsupported content types', async () => {
+    await expect(
+      service.upload(
+        DeviceType.METER,
+        body('<readings/>'),
+        'application/xml',
+        undefined,
+      ),
+    ).rejects.toThrow(UnsupportedMediaTypeException);
+    expect(mockBulkLoadService.load).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,236 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { TenantService } from '../src/services/tenant.service';
+import { ApiKeyService } from '../src/services/api-key.service';
+import { Tenant } from '../src/entities/tenant.entity';
+import { TenantDevice } from '../src/entities/tenant-device.entity';
+import { DeviceType } from '../src/entities/device-reporting-mode.entity';
+
+describe('TenantService', () => {
+  let service: TenantService;
+  let owners: Map<string, string>;
+
+  const TENANT_A = '3f1c2b4a-0000-4000-8000-00000000000a';
+  const TENANT_B = '3f1c2b4a-0000-4000-8000-00000000000b';
+
+  const mockTenantRepo = {
+    create: jest.fn((data) => ({ ...data })),
+    save: jest.fn((entity) =>
+      Promise.resolve({ id: TENANT_A, createdAt: new Date(), ...entity }),
+    ),
+    findOne: jest.fn().mockResolvedValue({ id: TENANT_A, name: 'acme' }),
+    find: jest.fn().mockResolvedValue([]),
+    delete: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  // Ownership rows as the repository would return them
+  const mockDeviceRepo = {
+    find: jest.fn(({ where }) =>
+      Promise.resolve(
+        (where.deviceId.value as string[])
+          .filter((id) => owners.has(id))
+          .map((id) => ({ deviceId: id, tenantId: owners.get(id) })),
+      ),
+    ),
+    delete: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  // Devices with stored readings or an admin registry entry
+  let seen: Set<string>;
+
+  // INSERT ... ON CONFLICT DO NOTHING: the first owner wins
+  const mockDataSource = {
+    query: jest.fn((sql: string, [, deviceIds, tenantId]) => {
+      for (const id of deviceIds as string[]) {
+        if (!owners.has(id) && !(sql.includes('NOT EXISTS') && seen.has(id))) {
+          owners.set(id, tenantId);
+        }
+      }
+      return Promise.resolve([]);
+    }),
+  };
+
+  const mockApiKeyService = {
+    evictTenant: jest.fn(),
+  };
+
+  const config: Record<string, string> = {};
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantService,
+        { provide: getRepositoryToken(Tenant), useValue: mockTenantRepo },
+        {
+          provide: getRepositoryToken(TenantDevice),
+          useValue: mockDeviceRepo,
+        },
+        { provide: DataSource, useValue: mockDataSource },
+        { provide: ApiKeyService, useValue: mockApiKeyService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key, fallback) => config[key] ?? fallback),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<TenantService>(TenantService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    owners = new Map();
+    seen = new Set();
+    delete config.TENANT_AUTO_CLAIM_DEVICES;
+    service = await createService();
+  });
+
+  describe('create', () => {
+    it('should map a duplicate name to a conflict', async () => {
+      mockTenantRepo.save.mockRejectedValueOnce({ code: '23505' });
+
+      await expect(service.create({ name: 'acme' })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('deniedWrites', () => {
+    it('should let platform callers write to any device', async () => {
+      owners.set('METER_001', TENANT_B);
+
+      const denied = await service.deniedWrites(null, DeviceType.METER, [
+        'METER_001',
+      ]);
+
+      expect(denied.size).toBe(0);
+      expect(mockDeviceRepo.find).not.toHaveBeenCalled();
+    });
+
+    it('should deny devices another tenant owns', async () => {
+      owners.set('METER_001', TENANT_A);
+      owners.set('METER_002', TENANT_B);
+
+      const denied = await service.deniedWrites(TENANT_A, DeviceType.METER, [
+        'METER_001',
+        'METER_002',
+      ]);
+
+      expect([...denied]).toEqual(['METER_002']);
+    });
+
+    it('should claim unowned devices for the first tenant to write', async () => {
+      config.TENANT_AUTO_CLAIM_DEVICES = 'true';
+      service = await createService();
+
+      const denied = await service.deniedWrites(TENANT_A, DeviceType.METER, [
+        'METER_003',
+      ]);
+
+      expect(denied.size).toBe(0);
+      expect(owners.get('METER_003')).toBe(TENANT_A);
+      await expect(
+        service.deniedWrites(TENANT_B, DeviceType.METER, ['METER_003']),
+      ).resolves.toEqual(new Set(['METER_003']));
+    });
+
+    it('should not claim devices the platform has already seen', async () => {
+      config.TENANT_AUTO_CLAIM_DEVICES = 'true';
+      service = await createService();
+      seen.add('METER_001');
+
+      const denied = await service.deniedWrites(TENANT_A, DeviceType.METER, [
+        'METER_001',
+        'METER_003',
+      ]);
+
+      expect([...denied]).toEqual(['METER_001']);
+      expect(owners.has('METER_001')).toBe(false);
+      const [sql] = mockDataSource.query.mock.calls[0];
+      expect(sql).toContain('FROM current_meter_status h');
+      expect(sql).toContain('NOT d.auto_registered');
+    });
+
+    it('should deny unowned devices when auto-claim is off', async () => {
+      const denied = await service.deniedWrites(TENANT_A, DeviceType.METER, [
+        'METER_003',
+      ]);
+
+      expect([...denied]).toEqual(['METER_003']);
+      expect(mockDataSource.query).not.toHaveBeenCalled();
+    });
+
+    it('should serve repeated checks from cache', async () => {
+      owners.set('METER_001', TENANT_A);
+
+      await service.deniedWrites(TENANT_A, DeviceType.METER, ['METER_001']);
+      await service.deniedWrites(TENANT_A, DeviceType.METER, ['METER_001']);
+
+      expect(mockDeviceRepo.find).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('canRead', () => {
+    it('should only let a tenant read its own devices', async () => {
+      owners.set('VEHICLE_001', TENANT_A);
+
+      await expect(
+        service.canRead(TENANT_A, DeviceType.VEHICLE, 'VEHICLE_001'),
+      ).resolves.toBe(true);
+      await expect(
+        service.canRead(TENANT_B, DeviceType.VEHICLE, 'VEHICLE_001'),
+      ).resolves.toBe(false);
+      await expect(
+        service.canRead(TENANT_B, DeviceType.VEHICLE, 'VEHICLE_404'),
+      ).resolves.toBe(false);
+      await expect(
+        service.canRead(null, DeviceType.VEHICLE, 'VEHICLE_001'),
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('assignDevices', () => {
+    it('should report devices owned by another tenant as conflicts', async () => {
+      owners.set('VEHICLE_002', TENANT_B);
+
+      const result = await service.assignDevices(TENANT_A, {
+        deviceType: DeviceType.VEHICLE,
+        deviceIds: ['VEHICLE_001', 'VEHICLE_002', 'VEHICLE_001'],
+      });
+
+      expect(result).toEqual({ assigned: 1, conflicts: ['VEHICLE_002'] });
+      expect(owners.get('VEHICLE_002')).toBe(TENANT_B);
+    });
+
+    it('should throw for an unknown tenant', async () => {
+      mockTenantRepo.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.assignDevices(TENANT_A, {
+          deviceType: DeviceType.VEHICLE,
+          deviceIds: ['VEHICLE_001'],
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should drop the tenant from the caches', async () => {
+      owners.set('METER_001', TENANT_A);
+      await service.canRead(TENANT_A, DeviceType.METER, 'METER_001');
+
+      await service.remove(TENANT_A);
+      owners.delete('METER_001');
+
+      expect(mockApiKeyService.evictTenant).toHaveBeenCalledWith(TENANT_A);
+      await expect(
+        service.canRead(TENANT_A, DeviceType.METER, 'METER_001'),
+      ).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { VehicleMeterAssignmentService } from '../src/services/vehicle-meter-assignment.service';
+import { VehicleMeterAssignment } from '../src/entities/vehicle-meter-assignment.entity';
+
+describe('VehicleMeterAssignmentService', () => {
+  let service: VehicleMeterAssignmentService;
+
+  const mockQueryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    getOne: jest.fn().mockResolvedValue(null),
+    getMany: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockRepo = {
+    create: jest.fn((data) => ({ ...data })),
+    save: jest.fn((entity) =>
+      Promise.resolve({ id: 'b5a0e1a4-0000-4000-8000-000000000001', ...entity }),
+    ),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VehicleMeterAssignmentService,
+        {
+          provide: getRepositoryToken(VehicleMeterAssignment),
+          useValue: mockRepo,
+        },
+      ],
+    }).compile();
+
+    service = module.get<VehicleMeterAssignmentService>(
+      VehicleMeterAssignmentService,
+    );
+  });
+
+  describe('create', () => {
+    it('should persist a non-overlapping assignment', async () => {
+      const saved = await service.create({
+        vehicleId: 'VEHICLE_001',
+        meterId: 'METER_001',
+        effectiveFrom: '2026-02-09T08:00:00Z',
+      });
+
+      expect(saved.effectiveUntil).toBeNull();
+      expect(mockRepo.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an interval that ends before it starts', async () => {
+      await expect(
+        service.create({
+          vehicleId: 'VEHICLE_001',
+          meterId: 'METER_001',
+          effectiveFrom: '2026-02-09T12:00:00Z',
+          effectiveUntil: '2026-02-09T08:00:00Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an interval overlapping another assignment', async () => {
+      mockQueryBuilder.getOne.mockResolvedValueOnce({
+        id: 'existing',
+        vehicleId: 'VEHICLE_001',
+        meterId: 'METER_002',
+      });
+
+      await expect(
+        service.create({
+          vehicleId: 'VEHICLE_001',
+          meterId: 'METER_001',
+          effectiveFrom: '2026-02-09T08:00:00Z',
+        }),
+      ).rejects.toThrow(ConflictException);
+
+      expect(mockRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should close an open assignment', async () => {
+      mockRepo.findOne.mockResolvedValueOnce({
+        id: 'b5a0e1a4-0000-4000-8000-000000000001',
+        vehicleId: 'VEHICLE_001',
+        meterId: 'METER_001',
+        effectiveFrom: new Date('2026-02-09T08:00:00Z'),
+        effectiveUntil: null,
+      });
+
+      const updated = await service.update(
+        'b5a0e1a4-0000-4000-8000-000000000001',
+        { effectiveUntil: '2026-02-09T12:00:00Z' },
+      );
+
+      expect(updated.effectiveUntil).toEqual(new Date('2026-02-09T12:00:00Z'));
+      // The assignment itself must be excluded from the overlap check
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith('a.id != :id', {
+        id: 'b5a0e1a4-0000-4000-8000-000000000001',
+      });
+    });
+
+    it('should throw when the assignment does not exist', async () => {
+      mockRepo.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.update('missing', {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});